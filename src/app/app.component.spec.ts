@@ -1,10 +1,13 @@
 import { TestBed } from '@angular/core/testing';
 import { AppComponent } from './app.component';
+import { StructureStore } from './services/structure-store';
+import { IndexedDbStructureStore } from './services/indexed-db-structure-store.service';
 
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [AppComponent],
+      providers: [{ provide: StructureStore, useClass: IndexedDbStructureStore }],
     }).compileComponents();
   });
 
@@ -1,16 +1,48 @@
-import { Component, ViewChild, Signal } from '@angular/core';
+import { Component, ViewChild, Signal, HostListener } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { CanvasComponent } from './components/canvas/canvas.component';
 import { SideDrawerComponent } from './components/side-drawer/side-drawer.component';
 import { JsonViewerComponent } from './components/json-viewer/json-viewer.component';
 import { EntityListComponent } from './components/entity-list/entity-list.component';
 import { EntityDesignerComponent } from './components/entity-designer/entity-designer.component';
+import { ChangeReportComponent } from './components/change-report/change-report.component';
+import { IssuesPanelComponent } from './components/issues-panel/issues-panel.component';
+import { ImportWizardComponent } from './components/import-wizard/import-wizard.component';
+import { MergeDialogComponent } from './components/merge-dialog/merge-dialog.component';
+import { PillarTwoPanelComponent } from './components/pillar-two-panel/pillar-two-panel.component';
+import { ComplianceCalendarComponent } from './components/compliance-calendar/compliance-calendar.component';
+import { OfficerRegisterComponent } from './components/officer-register/officer-register.component';
+import { UboRegisterComponent } from './components/ubo-register/ubo-register.component';
+import { ScenarioPanelComponent } from './components/scenario-panel/scenario-panel.component';
+import { RestructuringDialogComponent } from './components/restructuring-dialog/restructuring-dialog.component';
+import { EtrRollupPanelComponent } from './components/etr-rollup-panel/etr-rollup-panel.component';
+import { FxRatesPanelComponent } from './components/fx-rates-panel/fx-rates-panel.component';
+import { IntercompanyPanelComponent } from './components/intercompany-panel/intercompany-panel.component';
+import { RepatriationPanelComponent } from './components/repatriation-panel/repatriation-panel.component';
+import { AuditPanelComponent } from './components/audit-panel/audit-panel.component';
 import { DiagramService } from './services/diagram.service';
+import { HistoryService } from './services/history.service';
+import { StructurePersistenceService } from './services/structure-persistence.service';
+import { StructureDiffService } from './services/structure-diff.service';
+import { ValidationService } from './services/validation.service';
+import { EntityImportService } from './services/entity-import.service';
+import { StructureMergeService } from './services/structure-merge.service';
+import { PillarTwoService } from './services/pillar-two.service';
+import { ComplianceService } from './services/compliance.service';
+import { OfficerService } from './services/officer.service';
+import { UboService } from './services/ubo.service';
+import { ScenarioService } from './services/scenario.service';
+import { RestructuringService } from './services/restructuring.service';
+import { TaxRollupService } from './services/tax-rollup.service';
+import { FxService } from './services/fx.service';
+import { IntercompanyService } from './services/intercompany.service';
+import { RepatriationService } from './services/repatriation.service';
+import { AuditService } from './services/audit.service';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CanvasComponent, SideDrawerComponent, JsonViewerComponent, EntityListComponent, EntityDesignerComponent, CommonModule],
+  imports: [CanvasComponent, SideDrawerComponent, JsonViewerComponent, EntityListComponent, EntityDesignerComponent, ChangeReportComponent, IssuesPanelComponent, ImportWizardComponent, MergeDialogComponent, PillarTwoPanelComponent, ComplianceCalendarComponent, OfficerRegisterComponent, UboRegisterComponent, ScenarioPanelComponent, RestructuringDialogComponent, EtrRollupPanelComponent, FxRatesPanelComponent, IntercompanyPanelComponent, RepatriationPanelComponent, AuditPanelComponent, CommonModule],
   templateUrl: './app.component.html',
   styleUrl: './app.component.css'
 })
@@ -21,12 +53,49 @@ export class AppComponent {
   sandboxMode: Signal<boolean>;
   viewMode: Signal<'diagram' | 'list' | 'designer'>;
 
-  constructor(public diagramService: DiagramService) {
+  constructor(
+    public diagramService: DiagramService,
+    public historyService: HistoryService,
+    public validationService: ValidationService,
+    // Injected eagerly so the saved structure is restored and autosaved from startup
+    private structurePersistence: StructurePersistenceService,
+    private structureDiffService: StructureDiffService,
+    private entityImportService: EntityImportService,
+    private structureMergeService: StructureMergeService,
+    public pillarTwoService: PillarTwoService,
+    public complianceService: ComplianceService,
+    public officerService: OfficerService,
+    public uboService: UboService,
+    public scenarioService: ScenarioService,
+    private restructuringService: RestructuringService,
+    public taxRollupService: TaxRollupService,
+    public fxService: FxService,
+    public intercompanyService: IntercompanyService,
+    public repatriationService: RepatriationService,
+    public auditService: AuditService
+  ) {
     this.viewMode = this.diagramService.viewMode;
     this.coloringMode = this.diagramService.coloringMode;
     this.sandboxMode = this.diagramService.sandboxMode;
   }
 
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    // Leave native text undo alone while editing a field
+    const target = event.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+    if (!(event.ctrlKey || event.metaKey)) return;
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.historyService.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.historyService.redo();
+    }
+  }
+
   toggleViewMode() {
     this.viewMode() === 'diagram'
       ? this.diagramService.viewMode.set('list')
@@ -37,14 +106,30 @@ export class AppComponent {
     this.diagramService.toggleColoringMode(event.target.value);
   }
 
+  // Leaving the sandbox keeps its scenarios; entering it resumes the latest one
   toggleSandbox() {
     if (this.sandboxMode()) {
-      if (confirm('Exit Sandbox? Unsaved changes will be lost.')) {
-        this.diagramService.discardSandbox();
-      }
-    } else {
-      this.diagramService.startSandbox();
+      this.diagramService.switchScenario(null);
+      return;
     }
+    const scenarios = this.diagramService.scenarios();
+    scenarios.length
+      ? this.diagramService.switchScenario(scenarios[scenarios.length - 1].id)
+      : this.diagramService.startSandbox();
+  }
+
+  onScenarioChange(event: any) {
+    const id = event.target.value;
+    if (id === '__new') {
+      const name = prompt('Scenario name', `Scenario ${this.diagramService.scenarios().length + 1}`);
+      name === null ? event.target.value = this.diagramService.activeScenarioId() ?? '' : this.diagramService.startSandbox(name || undefined);
+      return;
+    }
+    this.diagramService.switchScenario(id || null);
+  }
+
+  toggleScenarioPanel() {
+    this.scenarioService.isPanelOpen.update(v => !v);
   }
 
   addDraftNode() {
@@ -57,21 +142,39 @@ export class AppComponent {
       color: '#e0e7ff', // Indigo-100
       dimension: { width: 200, height: 90 }
     };
-    this.diagramService.addNode(newNode);
+    // Attach to the selected entity so the draft starts out connected
+    const parentId = this.diagramService.selectedNodeId();
+    if (parentId) {
+      this.restructuringService.addSubsidiary(parentId, newNode);
+    } else {
+      this.diagramService.addNode(newNode);
+    }
   }
 
   commitSandbox() {
-    if (confirm('Save all sandbox changes to the live chart?')) {
+    const scenario = this.diagramService.activeScenario();
+    if (scenario && confirm(`Promote "${scenario.name}" to the live chart?`)) {
       this.diagramService.commitSandbox();
     }
   }
 
   discardSandbox() {
-    if (confirm('Discard all sandbox experimentations?')) {
+    const scenario = this.diagramService.activeScenario();
+    if (scenario && confirm(`Delete scenario "${scenario.name}" and return to the live chart?`)) {
       this.diagramService.discardSandbox();
     }
   }
 
+  showSandboxChanges() {
+    const baseline = this.diagramService.getSandboxBaseline();
+    if (!baseline) return;
+    this.structureDiffService.compare(
+      { key: 'sandbox', label: 'Live structure', data: baseline },
+      { key: 'live', label: this.diagramService.activeScenario()?.name ?? 'Sandbox', data: null }
+    );
+    this.structureDiffService.isReportOpen.set(true);
+  }
+
   exportJson() {
     const json = this.diagramService.exportDiagram();
     const blob = new Blob([json], { type: 'application/json' });
@@ -86,13 +189,71 @@ export class AppComponent {
     this.canvasComponent.exportToPng();
   }
 
+  toggleIssuesPanel() {
+    this.validationService.isPanelOpen.update(v => !v);
+  }
+
+  togglePillarTwoPanel() {
+    this.pillarTwoService.isPanelOpen.update(v => !v);
+  }
+
+  toggleTaxRollup() {
+    this.taxRollupService.isPanelOpen.update(v => !v);
+  }
+
+  toggleFxRates() {
+    this.fxService.isPanelOpen.update(v => !v);
+  }
+
+  toggleIntercompany() {
+    this.intercompanyService.isPanelOpen.update(v => !v);
+  }
+
+  // Starts from the selected entity when it has a parent
+  toggleRepatriation() {
+    if (this.repatriationService.isPanelOpen()) {
+      this.repatriationService.close();
+    } else {
+      this.repatriationService.open(this.diagramService.selectedNodeId() ?? undefined);
+    }
+  }
+
+  toggleAuditLog() {
+    if (this.auditService.isPanelOpen()) {
+      this.auditService.isPanelOpen.set(false);
+    } else {
+      this.auditService.open();
+    }
+  }
+
+  toggleComplianceCalendar() {
+    this.complianceService.refreshToday();
+    this.complianceService.isCalendarOpen.update(v => !v);
+  }
+
+  toggleOfficerRegister() {
+    this.officerService.refreshToday();
+    this.officerService.isPanelOpen.update(v => !v);
+  }
+
+  toggleUboRegister() {
+    this.uboService.isPanelOpen.update(v => !v);
+  }
+
   toggleJsonDrawer() {
     this.diagramService.isJsonDrawerOpen.update(v => !v);
   }
 
   onFileSelected(event: any) {
     const file = event.target.files[0];
-    if (file) {
+    // Reset so selecting the same file again still triggers a change
+    event.target.value = '';
+    if (file && /\.(csv|xlsx|xls)$/i.test(file.name)) {
+      this.entityImportService.openFile(file).catch(err => {
+        console.error('Spreadsheet Error', err);
+        alert('Could not read the spreadsheet file.');
+      });
+    } else if (file) {
       const reader = new FileReader();
       reader.onload = (e: any) => {
         try {
@@ -107,8 +268,29 @@ export class AppComponent {
     }
   }
 
+  onMergeFileSelected(event: any) {
+    const file = event.target.files[0];
+    event.target.value = '';
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e: any) => {
+      try {
+        this.structureMergeService.open(JSON.parse(e.target.result), file.name);
+      } catch (err) {
+        console.error('Invalid JSON', err);
+        alert('Invalid JSON file');
+      }
+    };
+    reader.readAsText(file);
+  }
+
   triggerFileInput() {
     const fileInput = document.getElementById('fileInput') as HTMLInputElement;
     fileInput?.click();
   }
+
+  triggerMergeFileInput() {
+    const fileInput = document.getElementById('mergeFileInput') as HTMLInputElement;
+    fileInput?.click();
+  }
 }
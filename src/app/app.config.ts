@@ -1,9 +1,13 @@
 import { ApplicationConfig, provideZoneChangeDetection } from '@angular/core';
 import { provideAnimations } from '@angular/platform-browser/animations';
+import { StructureStore } from './services/structure-store';
+import { IndexedDbStructureStore } from './services/indexed-db-structure-store.service';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }),
-    provideAnimations()
+    provideAnimations(),
+    // Swap for a REST-backed StructureStore to persist structures server-side
+    { provide: StructureStore, useClass: IndexedDbStructureStore }
   ]
 };
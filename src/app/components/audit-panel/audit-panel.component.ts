@@ -0,0 +1,100 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService } from '../../services/diagram.service';
+import { AuditService, AuditEntry } from '../../services/audit.service';
+
+@Component({
+    selector: 'app-audit-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './audit-panel.component.html',
+    styleUrls: ['./audit-panel.component.css']
+})
+export class AuditPanelComponent {
+    isOpen: Signal<boolean>;
+    userName: Signal<string>;
+    reason: Signal<string>;
+    entityFilter: Signal<string | null>;
+    users: Signal<string[]>;
+    storageError: Signal<string | null>;
+    // Entities with at least one entry, for the filter
+    entities: Signal<{ id: string, label: string }[]>;
+    // Newest first
+    filtered: Signal<AuditEntry[]>;
+
+    userFilter = signal<string>('');
+    fromDate = signal<string>('');
+    toDate = signal<string>('');
+    search = signal<string>('');
+
+    constructor(
+        private diagramService: DiagramService,
+        private auditService: AuditService
+    ) {
+        this.isOpen = this.auditService.isPanelOpen;
+        this.userName = this.auditService.userName;
+        this.reason = this.auditService.reason;
+        this.entityFilter = this.auditService.entityFilter;
+        this.users = this.auditService.users;
+        this.storageError = this.auditService.storageError;
+        this.entities = computed(() => {
+            const labels = new Map<string, string>();
+            this.auditService.entries().forEach(e => {
+                if (e.entityId) labels.set(e.entityId, this.diagramService.nodes().find(n => n.id === e.entityId)?.label || e.entityLabel || e.entityId);
+            });
+            return Array.from(labels.entries())
+                .map(([id, label]) => ({ id, label }))
+                .sort((a, b) => a.label.localeCompare(b.label));
+        });
+        this.filtered = computed(() => {
+            const entityId = this.entityFilter();
+            const user = this.userFilter();
+            const from = this.fromDate();
+            const to = this.toDate();
+            const term = this.search().trim().toLowerCase();
+            return this.auditService.entries()
+                .filter(e => !entityId || e.entityId === entityId)
+                .filter(e => !user || e.user === user)
+                // Timestamps are ISO, so the date prefix compares as text
+                .filter(e => !from || e.timestamp.slice(0, 10) >= from)
+                .filter(e => !to || e.timestamp.slice(0, 10) <= to)
+                .filter(e => !term || [e.action, e.field, e.entityLabel, e.oldValue, e.newValue, e.reason]
+                    .some(v => v?.toLowerCase().includes(term)))
+                .reverse();
+        });
+    }
+
+    setUserName(value: string) {
+        this.auditService.userName.set(value.trim());
+    }
+
+    setReason(value: string) {
+        this.auditService.reason.set(value);
+    }
+
+    setEntityFilter(value: string) {
+        this.auditService.entityFilter.set(value || null);
+    }
+
+    resetFilters() {
+        this.auditService.entityFilter.set(null);
+        this.userFilter.set('');
+        this.fromDate.set('');
+        this.toDate.set('');
+        this.search.set('');
+    }
+
+    // Exports what the filters show, oldest first as the log was written
+    export(format: 'csv' | 'json') {
+        this.auditService.export(format, [...this.filtered()].reverse());
+    }
+
+    showEntity(entityId: string) {
+        if (this.diagramService.nodes().some(n => n.id === entityId)) this.diagramService.selectNode(entityId);
+    }
+
+    close() {
+        this.auditService.isPanelOpen.set(false);
+    }
+}
@@ -1,12 +1,29 @@
 import { Component, Signal, HostListener, ElementRef, ViewChild, computed, signal, effect, Injector } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { NgxGraphModule, Node, Edge } from '@swimlane/ngx-graph';
-import { DiagramService, DiagramNode, DiagramEdge } from '../../services/diagram.service';
+import { Subject } from 'rxjs';
+import { DiagramService, DiagramNode, DiagramEdge, DataOverlay } from '../../services/diagram.service';
 import { SlideDeckService } from '../../services/slide-deck.service';
+import { ValidationService, IssueSeverity } from '../../services/validation.service';
+import { StructureDiffService, StructureDiff, ChangeKind, CHANGE_KIND_COLORS } from '../../services/structure-diff.service';
+import { PillarTwoService, JurisdictionEtr, ETR_STATUS_COLORS } from '../../services/pillar-two.service';
+import { ComplianceService, COMPLIANCE_STATE_COLORS, COMPLIANCE_STATE_LABELS } from '../../services/compliance.service';
+import { RestructuringService } from '../../services/restructuring.service';
+import { IntercompanyService, EntityFlowTotals, FlowType, FLOW_TYPES, FLOW_TYPE_COLORS, FLOW_TYPE_LABELS } from '../../services/intercompany.service';
+import { FxService } from '../../services/fx.service';
+import { TimelineService, TimelineEvent } from '../../services/timeline.service';
+import { IncrementalLayout } from './incremental-layout';
 import { curveBundle } from 'd3-shape';
 import { toPng } from 'html-to-image';
 import { jsPDF } from 'jspdf';
 
+// Below this zoom the cards show only the entity name, large enough to read
+const DETAIL_ZOOM = 0.5;
+// Above this many entities on the canvas, node transitions are turned off
+const LARGE_STRUCTURE = 150;
+// How long entities and stakes fade in or out when the timeline steps to another date
+const TIMELINE_ANIMATION_MS = 900;
+
 @Component({
     selector: 'app-canvas',
     standalone: true,
@@ -17,11 +34,54 @@ import { jsPDF } from 'jspdf';
 export class CanvasComponent {
     nodes: Signal<DiagramNode[]>;
     edges: Signal<DiagramEdge[]>;
+    // Ownership edges, plus inter-company flows in the flows overlay
+    links: Signal<DiagramEdge[]>;
     selectedNodeId: Signal<string | null>;
     highlightedPath: Signal<Set<string>>;
+    // Ancestors shown only to connect query matches
+    queryContextIds: Signal<Set<string>>;
+    // Ended entities and stakes, kept on record and drawn faded when no timeline date is set
+    endedIds: Signal<Set<string>>;
     coloringMode: Signal<'type' | 'jurisdiction' | 'status'>;
     sandboxMode: Signal<boolean>;
-    dataOverlay: Signal<'TAX' | 'OWNERSHIP'>;
+    dataOverlay: Signal<DataOverlay>;
+    activeDiff: Signal<StructureDiff | null>;
+    diffHighlights: Signal<Map<string, ChangeKind[]>>;
+    showDiffOverlay: Signal<boolean>;
+    issueMarkers: Signal<Map<string, { severity: IssueSeverity, count: number }>>;
+    etrHeat: Signal<Map<string, JurisdictionEtr>>;
+    changeKindColors = CHANGE_KIND_COLORS;
+    etrStatusColors = ETR_STATUS_COLORS;
+    flowTotals: Signal<Map<string, EntityFlowTotals>>;
+    presentationCurrency: Signal<string>;
+    flowLegend = FLOW_TYPES.map(type => ({ label: FLOW_TYPE_LABELS[type], color: FLOW_TYPE_COLORS[type] }));
+
+    // Subsidiaries below each holding, and how many a collapsed holding is hiding
+    descendantCounts: Signal<Map<string, number>>;
+    hiddenCounts: Signal<Map<string, number>>;
+    collapsedIds: Signal<Set<string>>;
+    focusRoot: Signal<DiagramNode | null>;
+    // Level of detail follows the zoom ngx-graph actually renders at, auto-zoom included
+    renderedZoom = signal<number>(1);
+    showDetail = computed(() => this.renderedZoom() >= DETAIL_ZOOM);
+    largeStructure: Signal<boolean>;
+    // Entities shown, not counting those fading out
+    entityCount: Signal<number>;
+
+    // What appeared at the last timeline step, and what went, kept on the canvas while it fades out
+    timelineAdded = signal<Set<string>>(new Set());
+    timelineLeaving = signal<{ nodes: DiagramNode[], edges: DiagramEdge[] }>({ nodes: [], edges: [] });
+    private timelineFrame: { date: string | null, nodes: DiagramNode[], edges: DiagramEdge[] } | null = null;
+    private timelineTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Point-in-time view and the changes that take effect on the shown date
+    timelineDate: Signal<string | null>;
+    timelineEvents: Signal<TimelineEvent[]>;
+
+    // Drag-to-re-parent: ngx-graph node dragging is off while the mode is on
+    reparentMode: Signal<boolean>;
+    dragSourceId = signal<string | null>(null);
+    dropTarget = signal<{ id: string, error: string | null } | null>(null);
 
     // Zoom State
     zoomLevel = signal<number>(1.0);
@@ -42,21 +102,60 @@ export class CanvasComponent {
         nodePadding: 80
     };
     curve: any = curveBundle;
+    layout = new IncrementalLayout();
+    update$ = new Subject<boolean>();
     @ViewChild('canvasContainer') canvasContainer!: ElementRef;
     view: [number, number] = [800, 600]; // Default fallback
     private resizeObserver: ResizeObserver | undefined;
 
     constructor(
         private diagramService: DiagramService,
-        private slideDeckService: SlideDeckService
+        private slideDeckService: SlideDeckService,
+        private structureDiffService: StructureDiffService,
+        private validationService: ValidationService,
+        private pillarTwoService: PillarTwoService,
+        private complianceService: ComplianceService,
+        private restructuringService: RestructuringService,
+        private intercompanyService: IntercompanyService,
+        private fxService: FxService,
+        private timelineService: TimelineService
     ) {
-        this.nodes = this.diagramService.filteredNodes;
-        this.edges = this.diagramService.filteredEdges;
+        this.nodes = computed(() => [...this.diagramService.canvasStructure().nodes, ...this.timelineLeaving().nodes]);
+        this.edges = computed(() => [...this.diagramService.canvasStructure().edges, ...this.timelineLeaving().edges]);
+        this.descendantCounts = computed(() => this.diagramService.canvasStructure().descendantCounts);
+        this.hiddenCounts = computed(() => this.diagramService.canvasStructure().hiddenCounts);
+        this.collapsedIds = this.diagramService.collapsedIds;
+        this.focusRoot = this.diagramService.focusRoot;
+        this.entityCount = computed(() => this.diagramService.canvasStructure().nodes.length);
+        this.largeStructure = computed(() => this.entityCount() > LARGE_STRUCTURE);
         this.selectedNodeId = this.diagramService.selectedNodeId;
         this.highlightedPath = this.diagramService.highlightedPath;
+        this.queryContextIds = this.diagramService.queryContextIds;
+        this.endedIds = computed(() => {
+            if (this.diagramService.timelineDate()) return new Set<string>();
+            const { nodes, edges } = this.diagramService.currentStructure();
+            const current = new Set([...nodes.map(n => n.id), ...edges.map(e => e.id)]);
+            return new Set([...this.nodes().map(n => n.id), ...this.edges().map(e => e.id)].filter(id => !current.has(id)));
+        });
         this.coloringMode = this.diagramService.coloringMode;
         this.sandboxMode = this.diagramService.sandboxMode;
         this.dataOverlay = this.diagramService.dataOverlay;
+        this.activeDiff = this.structureDiffService.activeDiff;
+        this.diffHighlights = this.structureDiffService.canvasHighlights;
+        this.showDiffOverlay = this.structureDiffService.showOverlay;
+        this.issueMarkers = this.validationService.issuesByEntity;
+        this.etrHeat = this.pillarTwoService.entityHeat;
+        this.reparentMode = this.restructuringService.dragMode;
+        this.flowTotals = this.intercompanyService.totalsByEntity;
+        this.presentationCurrency = this.fxService.presentationCurrency;
+        this.timelineDate = this.diagramService.timelineDate;
+        this.timelineEvents = computed(() => {
+            const date = this.timelineDate();
+            return date ? this.timelineService.eventsOn(date) : [];
+        });
+        this.links = computed(() => this.dataOverlay() === 'FLOWS'
+            ? [...this.edges(), ...this.intercompanyService.canvasLinks()]
+            : this.edges());
 
         // Compute Legend based on current nodes and coloring mode
         this.dynamicLegend = computed(() => {
@@ -87,6 +186,40 @@ export class CanvasComponent {
             }
         });
 
+        // Effect: Animate the entities and stakes that start or end between timeline dates
+        effect(() => {
+            const date = this.timelineDate();
+            const { nodes, edges } = this.diagramService.canvasStructure();
+            const last = this.timelineFrame;
+            this.timelineFrame = { date, nodes, edges };
+            if (!last || last.date === date) return;
+
+            const nodeIds = new Set(nodes.map(n => n.id));
+            const edgeIds = new Set(edges.map(e => e.id));
+            const lastNodeIds = new Set(last.nodes.map(n => n.id));
+            const lastEdgeIds = new Set(last.edges.map(e => e.id));
+            // Nothing to animate when the point-in-time view is switched off
+            const added = date ? new Set([
+                ...nodes.filter(n => !lastNodeIds.has(n.id)).map(n => n.id),
+                ...edges.filter(e => !lastEdgeIds.has(e.id)).map(e => e.id)
+            ]) : new Set<string>();
+            const leavingNodes = date ? last.nodes.filter(n => !nodeIds.has(n.id)) : [];
+            const onCanvas = new Set([...nodeIds, ...leavingNodes.map(n => n.id)]);
+            const leavingEdges = date
+                ? last.edges.filter(e => !edgeIds.has(e.id) && onCanvas.has(e.source) && onCanvas.has(e.target))
+                : [];
+
+            clearTimeout(this.timelineTimer);
+            setTimeout(() => {
+                this.timelineAdded.set(added);
+                this.timelineLeaving.set({ nodes: leavingNodes, edges: leavingEdges });
+            }, 0);
+            this.timelineTimer = setTimeout(() => {
+                this.timelineAdded.set(new Set());
+                this.timelineLeaving.set({ nodes: [], edges: [] });
+            }, TIMELINE_ANIMATION_MS);
+        });
+
         // Effect: Watch for Restore Requests
         effect(() => {
             const state = this.diagramService.restoreViewState();
@@ -179,12 +312,7 @@ export class CanvasComponent {
         switch (mode) {
             case 'type': return node.entityType || 'Unknown';
             case 'jurisdiction': return node.jurisdiction || 'Unknown';
-            case 'status':
-                const color = this.getComplianceStatusColor(node);
-                if (color === '#10b981') return 'Good Standing';
-                if (color === '#f59e0b') return 'Due Soon';
-                if (color === '#ef4444') return 'Overdue';
-                return 'N/A';
+            case 'status': return COMPLIANCE_STATE_LABELS[this.complianceService.getStatus(node).state];
         }
     }
 
@@ -228,10 +356,94 @@ export class CanvasComponent {
     }
 
 
+    isLeaving(id: string): boolean {
+        const leaving = this.timelineLeaving();
+        return leaving.nodes.some(n => n.id === id) || leaving.edges.some(e => e.id === id);
+    }
+
+    onZoomChange(level: number) {
+        // Emitted while ngx-graph renders; apply once the view is checked
+        setTimeout(() => this.renderedZoom.set(level), 0);
+    }
+
+    // Lays the whole graph out afresh, dropping kept and dragged positions
+    tidyLayout() {
+        this.layout.reset();
+        this.update$.next(true);
+    }
+
+    toggleCollapsed(node: Node) {
+        this.diagramService.toggleCollapsed(node.id);
+    }
+
+    focusOn(node: Node | null) {
+        this.diagramService.focusOn(node?.id ?? null);
+    }
+
+    expandAll() {
+        this.diagramService.expandAll();
+    }
+
+    collapseToDepth(depth: number) {
+        this.diagramService.collapseToDepth(depth);
+    }
+
     onNodeClick(node: Node) {
         this.diagramService.selectNode(node.id);
     }
 
+    toggleReparentMode() {
+        this.restructuringService.toggleDragMode();
+        this.cancelDrag();
+    }
+
+    onNodeMouseDown(node: Node) {
+        if (this.reparentMode()) this.dragSourceId.set(node.id);
+    }
+
+    onNodeMouseEnter(node: Node) {
+        const sourceId = this.dragSourceId();
+        if (!sourceId || sourceId === node.id) return;
+        this.dropTarget.set({ id: node.id, error: this.restructuringService.validateReparent(sourceId, node.id) });
+    }
+
+    // Dropping opens the re-parent step so the stake moved and its percentage can be confirmed
+    onNodeMouseUp(node: Node) {
+        const sourceId = this.dragSourceId();
+        const target = this.dropTarget();
+        if (sourceId && target?.id === node.id && !target.error) {
+            this.restructuringService.open('reparent', sourceId, node.id);
+        }
+    }
+
+    @HostListener('document:mouseup')
+    cancelDrag() {
+        this.dragSourceId.set(null);
+        this.dropTarget.set(null);
+    }
+
+    openFlows() {
+        this.intercompanyService.isPanelOpen.set(true);
+    }
+
+    getFlowColor(type: FlowType): string {
+        return FLOW_TYPE_COLORS[type];
+    }
+
+    formatAmount(amount: number): string {
+        if (Math.abs(amount) >= 1e6) return `${(amount / 1e6).toFixed(1)}m`;
+        if (Math.abs(amount) >= 1e3) return `${(amount / 1e3).toFixed(0)}k`;
+        return amount.toFixed(0);
+    }
+
+    clearTimelineDate() {
+        this.timelineService.setDate(null);
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
     onCanvasClick() {
         this.diagramService.selectNode(null);
     }
@@ -294,17 +506,31 @@ export class CanvasComponent {
         }
     }
 
-    getComplianceStatusColor(node: DiagramNode): string {
-        if (!node.filingDueDate) return 'transparent';
+    openIssues(node: Node) {
+        this.diagramService.selectNode(node.id);
+        this.validationService.isPanelOpen.set(true);
+    }
 
-        const today = new Date();
-        const dueDate = new Date(node.filingDueDate);
-        const diffTime = dueDate.getTime() - today.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    // Diff Overlay
+    getDiffColor(kinds: ChangeKind[]): string {
+        return CHANGE_KIND_COLORS[kinds[0]];
+    }
 
-        if (diffDays < 0) return '#ef4444'; // Red (Overdue)
-        if (diffDays <= 30) return '#f59e0b'; // Orange (Due Soon)
-        return '#10b981'; // Green (Good Standing)
+    toggleDiffOverlay() {
+        this.structureDiffService.showOverlay.update(v => !v);
+    }
+
+    openChangeReport() {
+        this.structureDiffService.isReportOpen.set(true);
+    }
+
+    clearComparison() {
+        this.structureDiffService.clear();
+    }
+
+    // Driven by the entity's nearest open filing obligation
+    getComplianceStatusColor(node: DiagramNode): string {
+        return COMPLIANCE_STATE_COLORS[this.complianceService.getStatus(node).state];
     }
 
     getStatusColor(node: DiagramNode): string {
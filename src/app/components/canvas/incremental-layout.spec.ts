@@ -0,0 +1,69 @@
+import { Graph } from '@swimlane/ngx-graph';
+import { IncrementalLayout } from './incremental-layout';
+
+describe('IncrementalLayout', () => {
+    let layout: IncrementalLayout;
+
+    const graph = (ids: string[], links: [string, string][]): Graph => ({
+        // The graph component sets every entity at the origin before asking for a layout
+        nodes: ids.map(id => ({ id, label: id, position: { x: 0, y: 0 }, dimension: { width: 200, height: 90 } })),
+        edges: links.map(([source, target]) => ({ id: `e-${source}-${target}`, source, target })),
+        edgeLabels: {}
+    } as Graph);
+    const positions = (result: Graph) => new Map(result.nodes.map(n => [n.id, { ...n.position! }]));
+
+    const IDS = ['HQ', 'A', 'B', 'C'];
+    const LINKS: [string, string][] = [['HQ', 'A'], ['HQ', 'B'], ['A', 'C']];
+
+    beforeEach(() => {
+        layout = new IncrementalLayout();
+        layout.settings = { orientation: 'TB' };
+    });
+
+    it('lays out the whole graph on the first run', () => {
+        const result = positions(layout.run(graph(IDS, LINKS)));
+
+        expect(result.size).toBe(4);
+        expect(result.get('A')!.y).toBeGreaterThan(result.get('HQ')!.y);
+        expect(result.get('C')!.y).toBeGreaterThan(result.get('A')!.y);
+    });
+
+    it('keeps every placed entity still and puts a new one below its parent, clear of the others', () => {
+        const before = positions(layout.run(graph(IDS, LINKS)));
+
+        const after = positions(layout.run(graph([...IDS, 'D'], [...LINKS, ['A', 'D']])));
+
+        IDS.forEach(id => expect(after.get(id)).toEqual(before.get(id)!));
+        const d = after.get('D')!;
+        expect(d.y).toBe(before.get('A')!.y + 90 + 100);
+        IDS.forEach(id => {
+            const p = after.get(id)!;
+            expect(Math.abs(p.x - d.x) >= 250 || Math.abs(p.y - d.y) >= 90).withContext(id).toBeTrue();
+        });
+    });
+
+    it('keeps a dragged entity where it was dropped', () => {
+        layout.run(graph(IDS, LINKS));
+        layout.onDragEnd({ id: 'B', label: 'B', position: { x: 900, y: 40 } });
+
+        expect(positions(layout.run(graph(IDS, LINKS))).get('B')).toEqual({ x: 900, y: 40 });
+    });
+
+    it('lays out the whole graph again when many entities are new', () => {
+        layout.run(graph(IDS, LINKS));
+        layout.onDragEnd({ id: 'B', label: 'B', position: { x: 900, y: 40 } });
+        const many = Array.from({ length: 11 }, (_, i) => `N${i}`);
+
+        const result = positions(layout.run(graph([...IDS, ...many], [...LINKS, ...many.map(id => ['C', id] as [string, string])])));
+
+        expect(result.get('B')).not.toEqual({ x: 900, y: 40 });
+    });
+
+    it('lays out the whole graph again after a reset', () => {
+        layout.run(graph(IDS, LINKS));
+        layout.onDragEnd({ id: 'B', label: 'B', position: { x: 900, y: 40 } });
+        layout.reset();
+
+        expect(positions(layout.run(graph(IDS, LINKS))).get('B')).not.toEqual({ x: 900, y: 40 });
+    });
+});
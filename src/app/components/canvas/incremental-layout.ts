@@ -0,0 +1,145 @@
+import { DagreLayout, Edge, Graph, Layout, Node } from '@swimlane/ngx-graph';
+
+type Point = { x: number, y: number };
+
+// Above this share of unplaced entities a full layout reads better than placing each one
+const FULL_LAYOUT_SHARE = 0.2;
+const MIN_FULL_LAYOUT_COUNT = 10;
+
+/**
+ * Dagre layout that keeps entities where they are. The first run (and any run after
+ * reset) lays out the whole graph; later runs reuse every known position, including ones
+ * the user dragged, and only place new entities next to their parent. Edits to an entity's
+ * fields, collapsing a subtree or filtering therefore leave the rest of the chart still.
+ * Many new entities at once, such as a different structure being loaded, fall back to a
+ * full layout.
+ */
+export class IncrementalLayout implements Layout {
+    settings: any = {};
+
+    private dagre = new DagreLayout();
+    private positions = new Map<string, Point>();
+    // Routed edge points from the last full layout, with the endpoints they were routed for
+    private routes = new Map<string, { points: Point[], from: Point, to: Point }>();
+    // New entities are not measured until drawn, so they are placed at the size of the others
+    private nodeSize = { width: 200, height: 90 };
+
+    run(graph: Graph): Graph {
+        const unplaced = graph.nodes.filter(n => !this.positions.has(n.id));
+        if (!this.positions.size || unplaced.length > Math.max(MIN_FULL_LAYOUT_COUNT, graph.nodes.length * FULL_LAYOUT_SHARE)) {
+            return this.runFull(graph);
+        }
+
+        graph.nodes.forEach(n => {
+            const position = this.positions.get(n.id);
+            if (position) n.position = { ...position };
+        });
+        this.place(unplaced, graph);
+
+        graph.edgeLabels = Object.fromEntries(graph.edges.map(edge => [edge.id, { ...edge, points: this.pointsFor(edge, graph) }]));
+        return graph;
+    }
+
+    updateEdge(graph: Graph, edge: Edge): Graph {
+        return this.dagre.updateEdge(graph, edge);
+    }
+
+    onDragEnd(node: Node) {
+        if (node.position) this.positions.set(node.id, { ...node.position });
+    }
+
+    // Forgets every position so the next run lays out the whole graph
+    reset() {
+        this.positions.clear();
+        this.routes.clear();
+    }
+
+    private runFull(graph: Graph): Graph {
+        this.dagre.settings = this.settings;
+        const result = this.dagre.run(graph);
+        this.positions = new Map(result.nodes.map(n => [n.id, { ...n.position! }]));
+        if (result.nodes[0]?.dimension) this.nodeSize = { ...result.nodes[0].dimension };
+        this.routes.clear();
+        Object.values(result.edgeLabels ?? {}).forEach((label: any) => {
+            const source = this.positions.get(label.source);
+            const target = this.positions.get(label.target);
+            if (source && target && label.points) {
+                this.routes.set(this.routeKey(label), { points: label.points, from: source, to: target });
+            }
+        });
+        return result;
+    }
+
+    // Parents first, so a chain of new entities stacks below the first one placed
+    private place(unplaced: Node[], graph: Graph) {
+        const settings = { rankPadding: 100, nodePadding: 50, ...this.settings };
+        let pending = [...unplaced];
+        while (pending.length) {
+            const ready = pending.filter(n => this.anchorOf(n, graph));
+            const batch = ready.length ? ready : [pending[0]];
+            batch.forEach(node => {
+                const size = this.nodeSize;
+                const anchor = this.anchorOf(node, graph);
+                let start: Point;
+                if (anchor) {
+                    const offset = size.height + settings.rankPadding;
+                    start = { x: anchor.position.x, y: anchor.position.y + (anchor.isParent ? offset : -offset) };
+                } else {
+                    // Unconnected: to the right of everything on the top rank
+                    const placed = Array.from(this.positions.values());
+                    start = {
+                        x: Math.max(0, ...placed.map(p => p.x)) + size.width + settings.nodePadding,
+                        y: Math.min(...placed.map(p => p.y))
+                    };
+                }
+                node.position = this.freeSpot(start, settings.nodePadding);
+                this.positions.set(node.id, { ...node.position });
+            });
+            pending = pending.filter(n => !batch.includes(n));
+        }
+    }
+
+    // A placed parent, else a placed subsidiary, to position a new entity against
+    private anchorOf(node: Node, graph: Graph): { position: Point, isParent: boolean } | null {
+        for (const edge of graph.edges) {
+            const parent = edge.target === node.id && this.positions.get(edge.source);
+            if (parent) return { position: parent, isParent: true };
+        }
+        for (const edge of graph.edges) {
+            const child = edge.source === node.id && this.positions.get(edge.target);
+            if (child) return { position: child, isParent: false };
+        }
+        return null;
+    }
+
+    // Steps right along the rank until the entity overlaps nothing placed, shown or not,
+    // so expanding a collapsed subtree later does not land on top of it
+    private freeSpot(start: Point, padding: number): Point {
+        const { width, height } = this.nodeSize;
+        const occupied = Array.from(this.positions.values());
+        const spot = { ...start };
+        while (occupied.some(p => Math.abs(p.x - spot.x) < width + padding && Math.abs(p.y - spot.y) < height)) {
+            spot.x += width + padding;
+        }
+        return spot;
+    }
+
+    // The routed path while both ends are where it was routed, else a straight line
+    private pointsFor(edge: Edge, graph: Graph): Point[] {
+        const route = this.routes.get(this.routeKey(edge));
+        if (route && this.same(route.from, this.positions.get(edge.source)!) && this.same(route.to, this.positions.get(edge.target)!)) {
+            return route.points;
+        }
+        const copy = { ...edge };
+        this.dagre.updateEdge(graph, copy);
+        return copy.points;
+    }
+
+    private routeKey(edge: { source: string, target: string, id?: string }): string {
+        return `${edge.source}>${edge.target}>${edge.id ?? ''}`;
+    }
+
+    private same(a: Point, b: Point): boolean {
+        return a.x === b.x && a.y === b.y;
+    }
+}
@@ -0,0 +1,107 @@
+import { Component, Signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import { StructurePersistenceService } from '../../services/structure-persistence.service';
+import { StructureDiffService, StructureDiff, DiffSource, ChangeKind, CHANGE_KIND_COLORS } from '../../services/structure-diff.service';
+import { toCsv, downloadFile } from '../../utils/file-export';
+
+@Component({
+    selector: 'app-change-report',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './change-report.component.html',
+    styleUrls: ['./change-report.component.css']
+})
+export class ChangeReportComponent {
+    isOpen: Signal<boolean>;
+    activeDiff: Signal<StructureDiff | null>;
+    sourceOptions: Signal<{ key: string, label: string }[]>;
+    changeKindColors = CHANGE_KIND_COLORS;
+    changeKinds = Object.keys(CHANGE_KIND_COLORS) as ChangeKind[];
+
+    baseKey: Signal<string>;
+    targetKey: Signal<string>;
+
+    // Selection made in this dialog before both sides are chosen
+    private pendingBaseKey = '';
+    private pendingTargetKey = 'live';
+
+    constructor(
+        private diagramService: DiagramService,
+        private persistence: StructurePersistenceService,
+        private structureDiffService: StructureDiffService
+    ) {
+        this.isOpen = this.structureDiffService.isReportOpen;
+        this.activeDiff = this.structureDiffService.activeDiff;
+        this.sourceOptions = computed(() => [
+            { key: 'live', label: this.currentLabel() },
+            ...(this.diagramService.sandboxMode() ? [{ key: 'sandbox', label: 'Live structure (outside sandbox)' }] : []),
+            ...this.diagramService.scenarios()
+                .filter(s => s.id !== this.diagramService.activeScenarioId())
+                .map(s => ({ key: `scenario:${s.id}`, label: `Scenario: ${s.name}` })),
+            ...this.persistence.snapshots().map(s => ({ key: `snapshot:${s.id}`, label: `${s.name} (${s.asOfDate})` }))
+        ]);
+        this.baseKey = computed(() => this.structureDiffService.comparison()?.base.key ?? this.pendingBaseKey);
+        this.targetKey = computed(() => this.structureDiffService.comparison()?.target.key ?? this.pendingTargetKey);
+    }
+
+    async setBase(key: string) {
+        this.pendingBaseKey = key;
+        await this.applySelection(key, this.targetKey());
+    }
+
+    async setTarget(key: string) {
+        this.pendingTargetKey = key;
+        await this.applySelection(this.baseKey(), key);
+    }
+
+    exportCsv() {
+        const diff = this.activeDiff();
+        if (!diff) return;
+        const rows = [
+            ['Change', 'Entity ID', 'Entity', 'Field', 'Before', 'After', 'Description'],
+            ...diff.changes.map(c => [c.kind, c.entityId, c.entityLabel, c.field, c.before, c.after, c.description])
+        ];
+        downloadFile(toCsv(rows), 'structure-change-report.csv', 'text/csv');
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    close() {
+        this.structureDiffService.isReportOpen.set(false);
+    }
+
+    // 'live' is whatever is being edited, which is a scenario while the sandbox is on
+    private currentLabel(): string {
+        const scenario = this.diagramService.activeScenario();
+        return scenario ? `Scenario: ${scenario.name} (editing)` : 'Live structure';
+    }
+
+    private async applySelection(baseKey: string, targetKey: string) {
+        if (!baseKey || !targetKey) return;
+        const [base, target] = await Promise.all([this.resolveSource(baseKey), this.resolveSource(targetKey)]);
+        if (base && target) {
+            this.structureDiffService.compare(base, target);
+        }
+    }
+
+    private async resolveSource(key: string): Promise<DiffSource | null> {
+        if (key === 'live') return { key, label: this.currentLabel(), data: null };
+        if (key === 'sandbox') {
+            const baseline = this.diagramService.getSandboxBaseline();
+            return baseline ? { key, label: 'Live structure', data: baseline } : null;
+        }
+        if (key.startsWith('scenario:')) {
+            const id = key.replace('scenario:', '');
+            const result = this.diagramService.getScenarioData(id);
+            const scenario = this.diagramService.scenarios().find(s => s.id === id);
+            if (result?.error) alert(`Scenario "${scenario?.name}" cannot be compared: ${result.error}`);
+            return result?.data && scenario ? { key, label: scenario.name, data: result.data } : null;
+        }
+
+        const snapshot = await this.persistence.getSnapshot(key.replace('snapshot:', ''));
+        return snapshot ? { key, label: snapshot.name, data: snapshot.data } : null;
+    }
+}
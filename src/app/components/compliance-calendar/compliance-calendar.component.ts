@@ -0,0 +1,111 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import { ComplianceService, ObligationOccurrence } from '../../services/compliance.service';
+import { CalendarExportService } from '../../services/calendar-export.service';
+import { toIsoDate, addDays, addMonths, parseIsoDate } from '../../utils/iso-date';
+
+interface CalendarDay {
+    date: string;
+    inMonth: boolean;
+    occurrences: ObligationOccurrence[];
+}
+
+@Component({
+    selector: 'app-compliance-calendar',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './compliance-calendar.component.html',
+    styleUrls: ['./compliance-calendar.component.css']
+})
+export class ComplianceCalendarComponent {
+    isOpen: Signal<boolean>;
+    today: Signal<string>;
+    weekDays = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+    view = signal<'agenda' | 'month'>('agenda');
+    agendaDays = signal<number>(90);
+    showCompleted = signal<boolean>(false);
+    // Limit the .ics export to entities matching the active designer filters
+    exportFiltered = signal<boolean>(false);
+    // First day of the month shown in the month view
+    month = signal<string>(toIsoDate(new Date()).slice(0, 8) + '01');
+
+    // Open items before today, then everything in the agenda window
+    agenda: Signal<{ month: string, occurrences: ObligationOccurrence[] }[]>;
+    overdue: Signal<ObligationOccurrence[]>;
+    calendarDays: Signal<CalendarDay[]>;
+
+    constructor(
+        private diagramService: DiagramService,
+        private complianceService: ComplianceService,
+        private calendarExportService: CalendarExportService
+    ) {
+        this.isOpen = this.complianceService.isCalendarOpen;
+        this.today = this.complianceService.today;
+
+        this.overdue = computed(() => {
+            const today = this.today();
+            return this.complianceService.getOccurrences(this.diagramService.nodes(), '0000-01-01', addDays(today, -1))
+                .filter(o => !o.completed);
+        });
+
+        this.agenda = computed(() => {
+            const today = this.today();
+            const occurrences = this.complianceService
+                .getOccurrences(this.diagramService.nodes(), today, addDays(today, this.agendaDays()))
+                .filter(o => this.showCompleted() || !o.completed);
+
+            const groups = new Map<string, ObligationOccurrence[]>();
+            occurrences.forEach(o => {
+                const key = o.dueDate.slice(0, 7);
+                groups.set(key, [...(groups.get(key) || []), o]);
+            });
+            return Array.from(groups.entries()).map(([month, items]) => ({ month: `${month}-01`, occurrences: items }));
+        });
+
+        this.calendarDays = computed(() => {
+            const first = this.month();
+            // Grid starts on the Monday on or before the 1st
+            const start = addDays(first, -((parseIsoDate(first).getDay() + 6) % 7));
+            const end = addDays(start, 41);
+            const occurrences = this.complianceService.getOccurrences(this.diagramService.nodes(), start, end)
+                .filter(o => this.showCompleted() || !o.completed);
+
+            return Array.from({ length: 42 }, (_, i) => {
+                const date = addDays(start, i);
+                return {
+                    date,
+                    inMonth: date.slice(0, 7) === first.slice(0, 7),
+                    occurrences: occurrences.filter(o => o.dueDate === date)
+                };
+            });
+        });
+    }
+
+    shiftMonth(months: number) {
+        this.month.update(m => addMonths(m, months));
+    }
+
+    goToToday() {
+        this.month.set(this.today().slice(0, 8) + '01');
+    }
+
+    toggleCompleted(occurrence: ObligationOccurrence, event: Event) {
+        event.stopPropagation();
+        this.complianceService.toggleCompleted(occurrence);
+    }
+
+    exportIcs() {
+        const nodes = this.exportFiltered() ? this.diagramService.filteredNodes() : this.diagramService.nodes();
+        this.calendarExportService.exportIcs(nodes);
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    close() {
+        this.complianceService.isCalendarOpen.set(false);
+    }
+}
@@ -1,35 +1,42 @@
-import { Component, Signal, computed, ViewChild, OnInit } from '@angular/core';
+import { Component, Signal, computed, signal, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { DiagramService } from '../../services/diagram.service';
+import { DiagramService, DataOverlay, EntityFilters } from '../../services/diagram.service';
+import { StructureDiffService } from '../../services/structure-diff.service';
+import { RegisterExportService } from '../../services/register-export.service';
 import { CanvasComponent } from '../canvas/canvas.component';
 import { SlidePanelComponent } from '../slide-panel/slide-panel.component';
+import { HistoryPanelComponent } from '../history-panel/history-panel.component';
+import { SnapshotPanelComponent } from '../snapshot-panel/snapshot-panel.component';
+import { TimelineBarComponent } from '../timeline-bar/timeline-bar.component';
+import { QueryBarComponent } from '../query-bar/query-bar.component';
 
 @Component({
     selector: 'app-entity-designer',
     standalone: true,
-    imports: [CommonModule, CanvasComponent, SlidePanelComponent],
+    imports: [CommonModule, CanvasComponent, SlidePanelComponent, HistoryPanelComponent, SnapshotPanelComponent, TimelineBarComponent, QueryBarComponent],
     templateUrl: './entity-designer.component.html',
     styleUrls: ['./entity-designer.component.css']
 })
-export class EntityDesignerComponent implements OnInit {
+export class EntityDesignerComponent {
     @ViewChild(CanvasComponent) canvasComponent!: CanvasComponent;
-    dataOverlay: Signal<'TAX' | 'OWNERSHIP'>;
-    activeFilters: Signal<{ region?: string, type?: string, pillarTwo?: string }>;
-
-    constructor(private diagramService: DiagramService) {
+    dataOverlay: Signal<DataOverlay>;
+    activeFilters: Signal<EntityFilters>;
+    registerRespectsFilters = signal<boolean>(false);
+
+    constructor(
+        private diagramService: DiagramService,
+        private structureDiffService: StructureDiffService,
+        private registerExportService: RegisterExportService
+    ) {
         this.dataOverlay = this.diagramService.dataOverlay;
         this.activeFilters = this.diagramService.activeFilters;
     }
 
-    ngOnInit() {
-        this.loadSampleData();
-    }
-
     setFilter(key: 'region' | 'type' | 'pillarTwo', value: string | undefined) {
         this.diagramService.activeFilters.update(f => ({ ...f, [key]: value }));
     }
 
-    toggleOverlay(mode: 'TAX' | 'OWNERSHIP') {
+    toggleOverlay(mode: DataOverlay) {
         this.diagramService.dataOverlay.set(mode);
     }
 
@@ -37,6 +44,10 @@ export class EntityDesignerComponent implements OnInit {
         this.diagramService.loadSampleData();
     }
 
+    openChangeReport() {
+        this.structureDiffService.isReportOpen.set(true);
+    }
+
     exportPdf() {
         this.canvasComponent.exportToPdf();
     }
@@ -44,4 +55,8 @@ export class EntityDesignerComponent implements OnInit {
     exportSvg() {
         this.canvasComponent.exportToSvg();
     }
+
+    exportRegister(format: 'csv' | 'xlsx') {
+        this.registerExportService.export({ format, respectFilters: this.registerRespectsFilters() });
+    }
 }
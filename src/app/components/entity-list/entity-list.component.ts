@@ -1,30 +1,96 @@
-import { Component, Signal, computed } from '@angular/core';
+import { Component, Signal, ElementRef, HostListener, ViewChild, computed, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { DiagramService, DiagramNode } from '../../services/diagram.service';
+import { ComplianceService, ComplianceState, COMPLIANCE_STATE_LABELS } from '../../services/compliance.service';
+import { CalendarExportService } from '../../services/calendar-export.service';
+import { EntityGridService, GridColumn, GridGroup, GridGrouping, GridSort } from '../../services/entity-grid.service';
+import { QueryBarComponent } from '../query-bar/query-bar.component';
+
+const STATE_CLASSES: Record<ComplianceState, string> = {
+    overdue: 'text-red-600 bg-red-50',
+    'due-soon': 'text-orange-600 bg-orange-50',
+    good: 'text-green-600 bg-green-50',
+    none: 'text-gray-400'
+};
+
+// Width of the selection and action columns either side of the data
+const CHECKBOX_WIDTH = 40;
+const ACTIONS_WIDTH = 80;
 
 @Component({
     selector: 'app-entity-list',
     standalone: true,
-    imports: [CommonModule, FormsModule],
+    imports: [CommonModule, FormsModule, QueryBarComponent],
     templateUrl: './entity-list.component.html',
     styleUrls: ['./entity-list.component.css']
 })
 export class EntityListComponent {
     nodes: Signal<DiagramNode[]>;
-    searchTerm = '';
+    searchTerm = signal<string>('');
 
+    // The query bar applies here as on the canvas; the search box narrows further
     filteredNodes = computed(() => {
-        const term = this.searchTerm.toLowerCase();
-        return this.nodes().filter(n =>
+        const term = this.searchTerm().toLowerCase();
+        return this.diagramService.applyQuery(this.nodes(), this.diagramService.edges()).filter(n =>
             n.label.toLowerCase().includes(term) ||
             n.id.toLowerCase().includes(term) ||
             n.jurisdiction?.toLowerCase().includes(term)
         );
     });
 
-    constructor(private diagramService: DiagramService) {
+    columns: GridColumn[];
+    visibleColumns: Signal<GridColumn[]>;
+    sort: Signal<GridSort | null>;
+    grouping: Signal<GridGrouping>;
+    groups: Signal<GridGroup[]>;
+    tableWidth: Signal<number>;
+
+    // Rows in display order, skipping collapsed groups, for range selection
+    visibleRows = computed(() => this.groups()
+        .filter(g => !this.collapsedGroups().has(g.label))
+        .flatMap(g => g.nodes));
+
+    selectedIds = signal<Set<string>>(new Set());
+    // Only rows still listed count, so a selection survives a filter without acting on hidden rows
+    selectedNodes = computed(() => this.visibleRows().filter(n => this.selectedIds().has(n.id)));
+    allSelected = computed(() => this.visibleRows().length > 0 && this.selectedNodes().length === this.visibleRows().length);
+    collapsedGroups = signal<Set<string>>(new Set());
+
+    editing = signal<{ id: string, key: string } | null>(null);
+    editError = signal<string | null>(null);
+
+    showColumnChooser = signal<boolean>(false);
+    bulkColumns: GridColumn[];
+    bulkKey = signal<string>('region');
+    bulkColumn = computed(() => this.columns.find(c => c.key === this.bulkKey())!);
+    bulkValue = signal<string>('');
+    bulkError = signal<string | null>(null);
+
+    private lastSelectedId: string | null = null;
+    private resizing: { key: string, startX: number, startWidth: number } | null = null;
+
+    // Focus the editor as soon as it is shown
+    @ViewChild('cellEditor') set cellEditor(editor: ElementRef<HTMLInputElement | HTMLSelectElement> | undefined) {
+        editor?.nativeElement.focus();
+        if (editor?.nativeElement instanceof HTMLInputElement) editor.nativeElement.select();
+    }
+
+    constructor(
+        private diagramService: DiagramService,
+        private complianceService: ComplianceService,
+        private calendarExportService: CalendarExportService,
+        private gridService: EntityGridService
+    ) {
         this.nodes = this.diagramService.nodes;
+        this.columns = this.gridService.columns;
+        this.bulkColumns = this.columns.filter(c => c.bulkEditable);
+        this.visibleColumns = this.gridService.visibleColumns;
+        this.sort = this.gridService.sort;
+        this.grouping = this.gridService.grouping;
+        this.groups = computed(() => this.gridService.arrange(this.filteredNodes()));
+        this.tableWidth = computed(() => this.visibleColumns()
+            .reduce((sum, c) => sum + this.gridService.widthOf(c), CHECKBOX_WIDTH + ACTIONS_WIDTH));
     }
 
     selectNode(node: DiagramNode) {
@@ -32,16 +98,162 @@ export class EntityListComponent {
         // Ideally close the list view if it's an overlay
     }
 
-    getComplianceStatus(node: DiagramNode): { label: string, color: string } {
-        if (!node.filingDueDate) return { label: 'N/A', color: 'text-gray-400' };
+    exportIcs() {
+        this.calendarExportService.exportIcs(this.filteredNodes());
+    }
 
-        const today = new Date();
-        const dueDate = new Date(node.filingDueDate);
-        const diffTime = dueDate.getTime() - today.getTime();
-        const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    getComplianceStatus(node: DiagramNode): { label: string, color: string, detail?: string } {
+        const { state, next } = this.complianceService.getStatus(node);
+        return {
+            label: COMPLIANCE_STATE_LABELS[state],
+            color: STATE_CLASSES[state],
+            detail: next ? `${next.type} due ${next.dueDate}` : undefined
+        };
+    }
+
+    // Columns, sorting and grouping
+
+    widthOf(column: GridColumn): number {
+        return this.gridService.widthOf(column);
+    }
+
+    isVisible(column: GridColumn): boolean {
+        return this.visibleColumns().includes(column);
+    }
+
+    toggleColumn(column: GridColumn) {
+        this.gridService.toggleColumn(column.key);
+    }
+
+    resetColumns() {
+        this.gridService.resetColumns();
+    }
+
+    toggleSort(column: GridColumn) {
+        this.gridService.toggleSort(column.key);
+    }
+
+    setGrouping(grouping: GridGrouping) {
+        this.gridService.grouping.set(grouping);
+        this.collapsedGroups.set(new Set());
+    }
+
+    toggleGroup(label: string) {
+        this.collapsedGroups.update(groups => {
+            const next = new Set(groups);
+            if (!next.delete(label)) next.add(label);
+            return next;
+        });
+    }
+
+    startResize(event: MouseEvent, column: GridColumn) {
+        event.preventDefault();
+        event.stopPropagation();
+        this.resizing = { key: column.key, startX: event.clientX, startWidth: this.widthOf(column) };
+    }
+
+    @HostListener('document:mousemove', ['$event'])
+    onMouseMove(event: MouseEvent) {
+        if (!this.resizing) return;
+        this.gridService.setWidth(this.resizing.key, this.resizing.startWidth + event.clientX - this.resizing.startX);
+    }
+
+    @HostListener('document:mouseup')
+    onMouseUp() {
+        this.resizing = null;
+    }
+
+    // Cells
+
+    formatCell(node: DiagramNode, column: GridColumn): string {
+        const value = this.gridService.value(node, column.key);
+        if (value === undefined || value === null || value === '') return '-';
+        if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+        if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+        return String(value);
+    }
+
+    rawValue(node: DiagramNode, column: GridColumn): unknown {
+        return this.gridService.value(node, column.key);
+    }
+
+    isEditing(node: DiagramNode, column: GridColumn): boolean {
+        const editing = this.editing();
+        return editing?.id === node.id && editing.key === column.key;
+    }
+
+    startEdit(node: DiagramNode, column: GridColumn) {
+        if (column.readOnly) return;
+        this.editError.set(null);
+        this.editing.set({ id: node.id, key: column.key });
+    }
+
+    // Keeps the editor open on an invalid value so it can be corrected
+    commitEdit(node: DiagramNode, column: GridColumn, raw: string | boolean) {
+        if (!this.isEditing(node, column)) return;
+        const { value, error } = this.gridService.parse(column, raw);
+        if (error) {
+            this.editError.set(error);
+            return;
+        }
+        this.editing.set(null);
+        this.editError.set(null);
+        this.gridService.updateCell(node, column, value);
+    }
+
+    cancelEdit() {
+        this.editing.set(null);
+        this.editError.set(null);
+    }
+
+    // Selection and bulk edit
+
+    isSelected(node: DiagramNode): boolean {
+        return this.selectedIds().has(node.id);
+    }
+
+    // Shift-click selects the rows between the last clicked one and this one
+    toggleSelected(node: DiagramNode, event: MouseEvent) {
+        const rows = this.visibleRows();
+        const from = this.lastSelectedId ? rows.findIndex(n => n.id === this.lastSelectedId) : -1;
+        const to = rows.findIndex(n => n.id === node.id);
+        const select = !this.isSelected(node);
+        const range = event.shiftKey && from >= 0
+            ? rows.slice(Math.min(from, to), Math.max(from, to) + 1)
+            : [node];
+        this.selectedIds.update(ids => {
+            const next = new Set(ids);
+            range.forEach(n => select ? next.add(n.id) : next.delete(n.id));
+            return next;
+        });
+        this.lastSelectedId = node.id;
+    }
+
+    toggleAll() {
+        this.selectedIds.set(this.allSelected() ? new Set() : new Set(this.visibleRows().map(n => n.id)));
+        this.lastSelectedId = null;
+    }
+
+    clearSelection() {
+        this.selectedIds.set(new Set());
+        this.lastSelectedId = null;
+        this.bulkError.set(null);
+    }
+
+    setBulkKey(key: string) {
+        this.bulkKey.set(key);
+        this.bulkValue.set('');
+        this.bulkError.set(null);
+    }
 
-        if (diffDays < 0) return { label: 'Overdue', color: 'text-red-600 bg-red-50' };
-        if (diffDays <= 30) return { label: 'Due Soon', color: 'text-orange-600 bg-orange-50' };
-        return { label: 'Good Standing', color: 'text-green-600 bg-green-50' };
+    applyBulk() {
+        const column = this.bulkColumn();
+        const { value, error } = this.gridService.parse(column, this.bulkValue());
+        if (error) {
+            this.bulkError.set(error);
+            return;
+        }
+        this.bulkError.set(null);
+        this.gridService.bulkUpdate(this.selectedNodes().map(n => n.id), column, value);
     }
 }
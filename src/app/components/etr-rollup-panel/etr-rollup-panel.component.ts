@@ -0,0 +1,115 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import { TaxRollupService, EtrRollup, EntityTaxLine } from '../../services/tax-rollup.service';
+import { FxService } from '../../services/fx.service';
+import { CsvValue, toCsv, downloadFile } from '../../utils/file-export';
+
+@Component({
+    selector: 'app-etr-rollup-panel',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './etr-rollup-panel.component.html',
+    styleUrls: ['./etr-rollup-panel.component.css']
+})
+export class EtrRollupPanelComponent {
+    isOpen: Signal<boolean>;
+    group: Signal<EtrRollup>;
+    rows: Signal<EtrRollup[]>;
+    lines: Signal<EntityTaxLine[]>;
+    // Slider per jurisdiction: statutory rate, what-if rate and entity count
+    rates: Signal<{ jurisdiction: string, statutory: number, rate: number, entityCount: number }[]>;
+    overrideCount: Signal<number>;
+    presentationCurrency: Signal<string>;
+    asOfDate: Signal<string>;
+    currencies: Signal<string[]>;
+
+    view = signal<'region' | 'subtree' | 'entity'>('region');
+
+    constructor(
+        private diagramService: DiagramService,
+        private taxRollupService: TaxRollupService,
+        private fxService: FxService
+    ) {
+        this.isOpen = this.taxRollupService.isPanelOpen;
+        this.presentationCurrency = this.fxService.presentationCurrency;
+        this.asOfDate = this.fxService.asOfDate;
+        this.currencies = this.fxService.currencies;
+        this.group = this.taxRollupService.group;
+        this.lines = computed(() => [...this.taxRollupService.lines()]
+            .sort((a, b) => b.attributableProfit - a.attributableProfit));
+        this.rows = computed(() => this.view() === 'subtree'
+            ? this.taxRollupService.bySubtree()
+            : this.taxRollupService.byRegion());
+        this.rates = computed(() => {
+            const overrides = this.taxRollupService.rateOverrides();
+            const lines = this.taxRollupService.lines();
+            return Array.from(this.taxRollupService.statutoryRates().entries()).map(([jurisdiction, statutory]) => ({
+                jurisdiction,
+                statutory,
+                rate: overrides[jurisdiction] ?? statutory,
+                entityCount: lines.filter(l => l.jurisdiction === jurisdiction).length
+            }));
+        });
+        this.overrideCount = computed(() => Object.keys(this.taxRollupService.rateOverrides()).length);
+    }
+
+    setRate(jurisdiction: string, value: string) {
+        const rate = parseFloat(value);
+        this.taxRollupService.setRate(jurisdiction, isNaN(rate) ? null : rate);
+    }
+
+    resetRate(jurisdiction: string) {
+        this.taxRollupService.setRate(jurisdiction, null);
+    }
+
+    resetRates() {
+        this.taxRollupService.resetRates();
+    }
+
+    setPresentationCurrency(currency: string) {
+        this.fxService.presentationCurrency.set(currency);
+    }
+
+    openFxRates() {
+        this.fxService.isPanelOpen.set(true);
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    exportCsv() {
+        const format = (value: number | null) => value === null ? '' : value.toFixed(2);
+        const rollups = [
+            this.group(),
+            ...this.taxRollupService.byRegion().map(r => ({ ...r, label: `Region: ${r.label}` })),
+            ...this.taxRollupService.bySubtree().map(r => ({ ...r, label: `Subtree: ${r.label}` }))
+        ];
+        const rows: CsvValue[][] = [
+            [`Amounts in ${this.presentationCurrency()} at rates effective ${this.asOfDate()}`],
+            ['Scope', 'Entities', 'Attributable Profit', 'Losses', 'Tax', 'ETR %', 'What-if Tax', 'What-if ETR %', 'Missing Inputs'],
+            ...rollups.map(r => [
+                r.label, r.entityCount, r.attributableProfit, r.losses, r.tax, format(r.etr), r.whatIfTax, format(r.whatIfEtr),
+                r.missingInputs.map(id => this.labelOf(id)).join('; ')
+            ]),
+            [],
+            ['Entity', 'Jurisdiction', 'Region', 'Currency', 'Profit before Tax', 'FX Rate', 'FX Rate Date', 'FX Source',
+                'Effective Ownership %', 'Attributable Profit', 'Statutory Rate %', 'What-if Rate %', 'Tax', 'What-if Tax'],
+            ...this.lines().map(l => [
+                l.label, l.jurisdiction, l.region, l.currency, l.hasProfitInput ? l.profitBeforeTax : '',
+                l.conversion?.rate, l.conversion?.effectiveDate, l.conversion?.source,
+                l.effectiveOwnership, l.attributableProfit, l.statutoryRate, l.rate, l.tax, l.whatIfTax
+            ])
+        ];
+        downloadFile(toCsv(rows), 'etr-rollup.csv', 'text/csv');
+    }
+
+    close() {
+        this.taxRollupService.isPanelOpen.set(false);
+    }
+}
@@ -0,0 +1,90 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService } from '../../services/diagram.service';
+import { FxService, FxRate, FxImportResult } from '../../services/fx.service';
+import { toIsoDate } from '../../utils/iso-date';
+
+@Component({
+    selector: 'app-fx-rates-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './fx-rates-panel.component.html',
+    styleUrls: ['./fx-rates-panel.component.css']
+})
+export class FxRatesPanelComponent {
+    isOpen: Signal<boolean>;
+    rates: Signal<FxRate[]>;
+    presentationCurrency: Signal<string>;
+    asOfDate: Signal<string>;
+    // Local currencies in the structure and the rate each converts at
+    coverage: Signal<{ currency: string, entityCount: number, rate: number | null, detail: string }[]>;
+
+    importResult = signal<FxImportResult | null>(null);
+    newRate: FxRate = this.emptyRate();
+
+    constructor(
+        private diagramService: DiagramService,
+        private fxService: FxService
+    ) {
+        this.isOpen = this.fxService.isPanelOpen;
+        this.rates = this.fxService.rates;
+        this.presentationCurrency = this.fxService.presentationCurrency;
+        this.asOfDate = this.fxService.asOfDate;
+        this.coverage = computed(() => {
+            const counts = new Map<string, number>();
+            this.diagramService.nodes()
+                .filter(n => n.localCurrency)
+                .forEach(n => counts.set(n.localCurrency!.toUpperCase(), (counts.get(n.localCurrency!.toUpperCase()) ?? 0) + 1));
+            return Array.from(counts.entries())
+                .sort((a, b) => a[0].localeCompare(b[0]))
+                .map(([currency, entityCount]) => {
+                    const rate = this.fxService.findRate(currency, this.presentationCurrency(), this.asOfDate());
+                    return {
+                        currency,
+                        entityCount,
+                        rate: rate?.rate ?? null,
+                        detail: rate ? `${rate.source} · ${rate.effectiveDate}` : 'No rate on file'
+                    };
+                });
+        });
+    }
+
+    setPresentationCurrency(value: string) {
+        const currency = value.trim().toUpperCase();
+        if (/^[A-Z]{3}$/.test(currency)) this.fxService.presentationCurrency.set(currency);
+    }
+
+    setAsOfDate(value: string) {
+        if (value) this.fxService.asOfDate.set(value);
+    }
+
+    async importFile(event: Event) {
+        const input = event.target as HTMLInputElement;
+        const file = input.files?.[0];
+        input.value = '';
+        if (!file) return;
+        this.importResult.set(await this.fxService.importFile(file));
+    }
+
+    addRate() {
+        this.fxService.addRate({ ...this.newRate, rate: Number(this.newRate.rate) });
+        this.newRate = { ...this.emptyRate(), from: this.newRate.from, to: this.newRate.to };
+    }
+
+    removeRate(rate: FxRate) {
+        this.fxService.removeRate(rate);
+    }
+
+    clearRates() {
+        if (confirm('Remove every FX rate?')) this.fxService.clearRates();
+    }
+
+    close() {
+        this.fxService.isPanelOpen.set(false);
+    }
+
+    private emptyRate(): FxRate {
+        return { from: '', to: '', rate: 0, effectiveDate: toIsoDate(new Date()), source: '' };
+    }
+}
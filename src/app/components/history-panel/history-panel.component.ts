@@ -0,0 +1,38 @@
+import { Component, Signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { HistoryService, HistoryEntry } from '../../services/history.service';
+
+@Component({
+    selector: 'app-history-panel',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './history-panel.component.html',
+    styleUrls: ['./history-panel.component.css']
+})
+export class HistoryPanelComponent {
+    entries: Signal<{ entry: HistoryEntry, applied: boolean }[]>;
+    canUndo: Signal<boolean>;
+    canRedo: Signal<boolean>;
+    truncated: Signal<boolean>;
+    limit: number;
+
+    constructor(private historyService: HistoryService) {
+        this.entries = this.historyService.entries;
+        this.canUndo = this.historyService.canUndo;
+        this.canRedo = this.historyService.canRedo;
+        this.truncated = this.historyService.truncated;
+        this.limit = this.historyService.limit;
+    }
+
+    undo() {
+        this.historyService.undo();
+    }
+
+    redo() {
+        this.historyService.redo();
+    }
+
+    jumpTo(id: number | null) {
+        this.historyService.jumpTo(id);
+    }
+}
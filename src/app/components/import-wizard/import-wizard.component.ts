@@ -0,0 +1,72 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FlatEntity } from '../../services/diagram.service';
+import {
+    EntityImportService, ImportTable, ImportPreviewRow, ColumnMapping, IMPORT_FIELDS
+} from '../../services/entity-import.service';
+
+@Component({
+    selector: 'app-import-wizard',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './import-wizard.component.html',
+    styleUrls: ['./import-wizard.component.css']
+})
+export class ImportWizardComponent {
+    table: Signal<ImportTable | null>;
+    mapping: Signal<ColumnMapping>;
+    preview: Signal<ImportPreviewRow[]>;
+    invalidCount: Signal<number>;
+    fields = IMPORT_FIELDS;
+
+    step = signal<'map' | 'preview'>('map');
+    mode = signal<'replace' | 'merge'>('replace');
+
+    constructor(private importService: EntityImportService) {
+        this.table = this.importService.table;
+        this.mapping = this.importService.mapping;
+        this.preview = computed(() => {
+            const table = this.table();
+            return table ? this.importService.buildPreview(table, this.mapping(), this.mode()) : [];
+        });
+        this.invalidCount = computed(() => this.preview().filter(r => r.errors.length > 0).length);
+    }
+
+    selectSheet(name: string) {
+        this.importService.selectSheet(name);
+    }
+
+    mapColumn(field: keyof FlatEntity, column: string) {
+        this.importService.mapColumn(field, Number(column));
+    }
+
+    isMissingRequired(): boolean {
+        const mapping = this.mapping();
+        return this.fields.some(f => f.required && (mapping[f.key] ?? -1) < 0);
+    }
+
+    sampleValue(column: number | undefined): string {
+        const table = this.table();
+        if (!table || column === undefined || column < 0) return '';
+        const value = table.rows[0]?.[column];
+        return value instanceof Date ? value.toLocaleDateString() : String(value ?? '');
+    }
+
+    apply() {
+        const table = this.table();
+        const validCount = this.preview().length - this.invalidCount();
+        if (!table || validCount === 0) return;
+
+        const skipped = this.invalidCount() ? ` ${this.invalidCount()} row(s) with errors will be skipped.` : '';
+        const action = this.mode() === 'replace' ? 'Replace the current structure with' : 'Merge';
+        if (confirm(`${action} ${validCount} entities from ${table.fileName}?${skipped}`)) {
+            this.importService.apply(this.preview(), this.mode(), table.fileName);
+            this.close();
+        }
+    }
+
+    close() {
+        this.step.set('map');
+        this.importService.close();
+    }
+}
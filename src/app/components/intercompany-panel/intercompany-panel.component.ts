@@ -0,0 +1,126 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService, DiagramNode, Flow } from '../../services/diagram.service';
+import {
+    IntercompanyService, FlowMatrixRow, FlowType, FLOW_TYPES, FLOW_TYPE_LABELS, FLOW_TYPE_COLORS
+} from '../../services/intercompany.service';
+import { FxService } from '../../services/fx.service';
+
+@Component({
+    selector: 'app-intercompany-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './intercompany-panel.component.html',
+    styleUrls: ['./intercompany-panel.component.css']
+})
+export class IntercompanyPanelComponent {
+    isOpen: Signal<boolean>;
+    nodes: Signal<DiagramNode[]>;
+    // Flows touching the entity filter, or all of them
+    flows: Signal<Flow[]>;
+    matrix: Signal<FlowMatrixRow[]>;
+    // Column totals of the matrix per flow type
+    typeTotals: Signal<Record<FlowType, number>>;
+    presentationCurrency: Signal<string>;
+
+    flowTypes = FLOW_TYPES;
+    flowTypeLabels = FLOW_TYPE_LABELS;
+    flowTypeColors = FLOW_TYPE_COLORS;
+
+    view = signal<'flows' | 'matrix'>('flows');
+    entityFilter = signal<string>('');
+    newFlow: Omit<Flow, 'id'>;
+    error: string | null = null;
+
+    constructor(
+        private diagramService: DiagramService,
+        private intercompanyService: IntercompanyService,
+        private fxService: FxService
+    ) {
+        this.isOpen = this.intercompanyService.isPanelOpen;
+        this.presentationCurrency = this.fxService.presentationCurrency;
+        this.newFlow = this.emptyFlow();
+        this.nodes = computed(() => [...this.diagramService.nodes()].sort((a, b) => a.label.localeCompare(b.label)));
+        this.flows = computed(() => {
+            const id = this.entityFilter();
+            return id ? this.intercompanyService.flowsOf(id) : this.intercompanyService.flows();
+        });
+        this.matrix = computed(() => {
+            const id = this.entityFilter();
+            const rows = this.intercompanyService.matrix();
+            return id ? rows.filter(r => r.sourceId === id || r.targetId === id) : rows;
+        });
+        this.typeTotals = computed(() => {
+            const totals = { loan: 0, royalty: 0, 'service-fee': 0, dividend: 0 };
+            this.matrix().forEach(r => FLOW_TYPES.forEach(t => totals[t] += r.amounts[t]));
+            return totals;
+        });
+    }
+
+    labelOf(id: string): string {
+        return this.intercompanyService.labelOf(id);
+    }
+
+    // Amount in the presentation currency, or null without a rate
+    converted(flow: Flow): number | null {
+        return this.fxService.convert(flow.annualAmount, flow.currency)?.amount ?? null;
+    }
+
+    matrixTotal(): number {
+        return this.matrix().reduce((sum, r) => sum + r.total, 0);
+    }
+
+    // Starts the form from the filtered entity and its local currency
+    setEntityFilter(id: string) {
+        this.entityFilter.set(id);
+        if (id) {
+            this.newFlow = {
+                ...this.newFlow,
+                source: id,
+                currency: this.diagramService.nodes().find(n => n.id === id)?.localCurrency || this.newFlow.currency
+            };
+        }
+    }
+
+    addFlow() {
+        this.error = this.intercompanyService.addFlow({ ...this.newFlow, annualAmount: Number(this.newFlow.annualAmount) });
+        if (!this.error) this.newFlow = { ...this.emptyFlow(), source: this.newFlow.source, currency: this.newFlow.currency };
+    }
+
+    updateFlow(flow: Flow, partial: Partial<Omit<Flow, 'id'>>) {
+        this.error = this.intercompanyService.updateFlow(flow.id, partial);
+    }
+
+    removeFlow(flow: Flow) {
+        this.intercompanyService.removeFlow(flow.id);
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    showOnCanvas() {
+        this.diagramService.dataOverlay.set('FLOWS');
+        this.close();
+    }
+
+    openFxRates() {
+        this.fxService.isPanelOpen.set(true);
+    }
+
+    exportCsv() {
+        this.intercompanyService.exportMatrix(this.matrix());
+    }
+
+    close() {
+        this.intercompanyService.isPanelOpen.set(false);
+    }
+
+    private emptyFlow(): Omit<Flow, 'id'> {
+        return {
+            source: '', target: '', type: 'service-fee', annualAmount: 0,
+            currency: this.fxService.presentationCurrency(), agreementRef: ''
+        };
+    }
+}
@@ -0,0 +1,53 @@
+import { Component, Signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import { ValidationService, ValidationIssue, ValidationRule, RuleSetting, IssueSeverity } from '../../services/validation.service';
+
+@Component({
+    selector: 'app-issues-panel',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './issues-panel.component.html',
+    styleUrls: ['./issues-panel.component.css']
+})
+export class IssuesPanelComponent {
+    isOpen: Signal<boolean>;
+    issues: Signal<ValidationIssue[]>;
+    rules: Signal<ValidationRule[]>;
+    errorCount: Signal<number>;
+    warningCount: Signal<number>;
+    showRules = false;
+
+    constructor(
+        private diagramService: DiagramService,
+        private validationService: ValidationService
+    ) {
+        this.isOpen = this.validationService.isPanelOpen;
+        this.issues = this.validationService.issues;
+        this.rules = this.validationService.rules;
+        this.errorCount = this.validationService.errorCount;
+        this.warningCount = this.validationService.warningCount;
+    }
+
+    selectIssue(issue: ValidationIssue) {
+        if (issue.entityId) {
+            this.diagramService.selectNode(issue.entityId);
+        }
+    }
+
+    getSetting(rule: ValidationRule): RuleSetting {
+        return this.validationService.getSetting(rule);
+    }
+
+    toggleRule(rule: ValidationRule, enabled: boolean) {
+        this.validationService.updateSetting(rule, { enabled });
+    }
+
+    setSeverity(rule: ValidationRule, severity: IssueSeverity) {
+        this.validationService.updateSetting(rule, { severity });
+    }
+
+    close() {
+        this.validationService.isPanelOpen.set(false);
+    }
+}
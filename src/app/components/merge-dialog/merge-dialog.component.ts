@@ -0,0 +1,48 @@
+import { Component, Signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StructureMergeService, PendingMerge, MergeMatch, MergeSide, OverHeldEntity } from '../../services/structure-merge.service';
+
+@Component({
+    selector: 'app-merge-dialog',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './merge-dialog.component.html',
+    styleUrls: ['./merge-dialog.component.css']
+})
+export class MergeDialogComponent {
+    pending: Signal<PendingMerge | null>;
+    matches: Signal<MergeMatch[]>;
+    conflictCount: Signal<number>;
+    addedCount: Signal<number>;
+    matchedCount: Signal<number>;
+    overHeld: Signal<OverHeldEntity[]>;
+
+    constructor(private mergeService: StructureMergeService) {
+        this.pending = this.mergeService.pending;
+        this.matches = this.mergeService.matches;
+        this.conflictCount = this.mergeService.conflictCount;
+        this.overHeld = this.mergeService.overHeld;
+        this.addedCount = computed(() => this.matches().filter(m => !m.existingId).length);
+        this.matchedCount = computed(() => this.matches().filter(m => m.existingId).length);
+    }
+
+    isResolved(key: string, side: MergeSide): boolean {
+        return this.mergeService.getResolution(key) === side;
+    }
+
+    resolve(key: string, side: MergeSide) {
+        this.mergeService.resolve(key, side);
+    }
+
+    resolveAll(side: MergeSide) {
+        this.mergeService.resolveAll(side);
+    }
+
+    apply() {
+        this.mergeService.apply();
+    }
+
+    close() {
+        this.mergeService.close();
+    }
+}
@@ -0,0 +1,93 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import {
+    OfficerService, PersonSeats, Interlock, Seat, OFFICER_ROLE_LABELS
+} from '../../services/officer.service';
+import { toCsv, downloadFile } from '../../utils/file-export';
+
+@Component({
+    selector: 'app-officer-register',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './officer-register.component.html',
+    styleUrls: ['./officer-register.component.css']
+})
+export class OfficerRegisterComponent {
+    isOpen: Signal<boolean>;
+    interlocks: Signal<Interlock[]>;
+    rows: Signal<PersonSeats[]>;
+    multiBoardCount: Signal<number>;
+    roleLabels = OFFICER_ROLE_LABELS;
+
+    view = signal<'people' | 'interlocks'>('people');
+    search = signal<string>('');
+    showResigned = signal<boolean>(false);
+
+    constructor(
+        private diagramService: DiagramService,
+        private officerService: OfficerService
+    ) {
+        this.isOpen = this.officerService.isPanelOpen;
+        this.interlocks = this.officerService.interlocks;
+
+        this.rows = computed(() => {
+            const term = this.search().trim().toLowerCase();
+            return this.officerService.seats()
+                .filter(row => this.showResigned() || row.current.length > 0)
+                .filter(row => !term
+                    || row.person.name.toLowerCase().includes(term)
+                    || row.person.nationality?.toLowerCase().includes(term)
+                    || [...row.current, ...row.past].some(s => s.entityLabel.toLowerCase().includes(term)));
+        });
+
+        this.multiBoardCount = computed(() => this.officerService.seats()
+            .filter(row => new Set(row.current.filter(s => s.appointment.role === 'director')
+                .map(s => s.appointment.entityId)).size > 1).length);
+    }
+
+    updateName(personId: string, name: string) {
+        if (name.trim()) this.officerService.updatePerson(personId, { name: name.trim() });
+    }
+
+    updateNationality(personId: string, nationality: string) {
+        this.officerService.updatePerson(personId, { nationality: nationality.trim() || undefined });
+    }
+
+    removePerson(row: PersonSeats) {
+        if (row.current.length && !confirm(`${row.person.name} still holds ${row.current.length} appointment(s). Remove anyway?`)) return;
+        this.officerService.removePerson(row.person.id);
+    }
+
+    selectEntity(seat: Seat) {
+        this.diagramService.selectNode(seat.appointment.entityId);
+    }
+
+    selectEntityId(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    exportCsv() {
+        if (this.view() === 'interlocks') {
+            const rows = [
+                ['Entity', 'Entity', 'Shared Directors'],
+                ...this.interlocks().map(i => [i.entityLabels[0], i.entityLabels[1], i.directors.map(d => d.name).join('; ')])
+            ];
+            downloadFile(toCsv(rows), 'interlocking-directorships.csv', 'text/csv');
+            return;
+        }
+
+        const rows = [
+            ['Person', 'Nationality', 'Entity ID', 'Entity', 'Role', 'Appointed', 'Resigned'],
+            ...this.rows().flatMap(row => [...row.current, ...(this.showResigned() ? row.past : [])].map(seat => [
+                row.person.name, row.person.nationality, seat.appointment.entityId, seat.entityLabel,
+                OFFICER_ROLE_LABELS[seat.appointment.role], seat.appointment.appointedOn, seat.appointment.resignedOn
+            ]))
+        ];
+        downloadFile(toCsv(rows), 'who-sits-where.csv', 'text/csv');
+    }
+
+    close() {
+        this.officerService.isPanelOpen.set(false);
+    }
+}
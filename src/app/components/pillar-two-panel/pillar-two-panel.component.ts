@@ -0,0 +1,93 @@
+import { Component, Signal, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import {
+    PillarTwoService, JurisdictionEtr, SafeHarbourEvaluation, ETR_STATUS_COLORS, GLOBE_MINIMUM_RATE, SAFE_HARBOUR_TEST_LABELS
+} from '../../services/pillar-two.service';
+import { toCsv, downloadFile } from '../../utils/file-export';
+
+@Component({
+    selector: 'app-pillar-two-panel',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './pillar-two-panel.component.html',
+    styleUrls: ['./pillar-two-panel.component.css']
+})
+export class PillarTwoPanelComponent {
+    isOpen: Signal<boolean>;
+    jurisdictions: Signal<JurisdictionEtr[]>;
+    totalTopUpTax: Signal<number>;
+    carveOutRates: Signal<[number, number]>;
+    fiscalYear: Signal<number>;
+    showHeatMap: Signal<boolean>;
+    safeHarbours: Signal<SafeHarbourEvaluation[]>;
+    proposalCount: Signal<number>;
+    statusColors = ETR_STATUS_COLORS;
+    testLabels = SAFE_HARBOUR_TEST_LABELS;
+    minimumRate = GLOBE_MINIMUM_RATE;
+
+    view = signal<'etr' | 'safe-harbour'>('etr');
+
+    constructor(
+        private diagramService: DiagramService,
+        private pillarTwoService: PillarTwoService
+    ) {
+        this.isOpen = this.pillarTwoService.isPanelOpen;
+        this.jurisdictions = this.pillarTwoService.jurisdictions;
+        this.totalTopUpTax = this.pillarTwoService.totalTopUpTax;
+        this.carveOutRates = this.pillarTwoService.carveOutRates;
+        this.fiscalYear = this.pillarTwoService.fiscalYear;
+        this.showHeatMap = this.pillarTwoService.showHeatMap;
+        this.safeHarbours = this.pillarTwoService.safeHarbours;
+        this.proposalCount = this.pillarTwoService.proposalCount;
+    }
+
+    isSafeHarbourYear(): boolean {
+        return this.pillarTwoService.isSafeHarbourYear(this.fiscalYear());
+    }
+
+    applySafeHarbour(evaluation: SafeHarbourEvaluation) {
+        this.pillarTwoService.applySafeHarbour(evaluation);
+    }
+
+    applyAllSafeHarbours() {
+        const count = this.proposalCount();
+        if (confirm(`Update the Pillar Two status of ${count} entit${count === 1 ? 'y' : 'ies'}?`)) {
+            this.pillarTwoService.applyAllSafeHarbours();
+        }
+    }
+
+    setFiscalYear(value: string) {
+        const year = parseInt(value, 10);
+        if (!isNaN(year)) this.pillarTwoService.fiscalYear.set(year);
+    }
+
+    toggleHeatMap() {
+        this.pillarTwoService.showHeatMap.update(v => !v);
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    exportCsv() {
+        const rows = [
+            ['Jurisdiction', 'Entities', 'GloBE Income', 'Covered Taxes', 'ETR %', 'Substance Exclusion',
+                'Excess Profit', 'Top-up Rate %', 'Top-up Tax', 'Status', 'Missing Inputs'],
+            ...this.jurisdictions().map(j => [
+                j.jurisdiction, j.entityIds.map(id => this.labelOf(id)).join('; '), j.globeIncome, j.coveredTaxes,
+                j.etr === null ? '' : j.etr.toFixed(2), j.substanceExclusion, j.excessProfit, j.topUpRate.toFixed(2),
+                j.topUpTax, j.status, j.missingInputs.map(id => this.labelOf(id)).join('; ')
+            ])
+        ];
+        downloadFile(toCsv(rows), `pillar-two-etr-${this.fiscalYear()}.csv`, 'text/csv');
+    }
+
+    close() {
+        this.pillarTwoService.isPanelOpen.set(false);
+    }
+}
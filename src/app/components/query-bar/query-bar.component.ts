@@ -0,0 +1,110 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DiagramService } from '../../services/diagram.service';
+import { EntityQueryService, SavedFilter } from '../../services/entity-query.service';
+import { QuerySuggestion, QuerySuggestions } from '../../utils/entity-query';
+
+@Component({
+    selector: 'app-query-bar',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './query-bar.component.html',
+    styleUrls: ['./query-bar.component.css']
+})
+export class QueryBarComponent {
+    appliedQuery: Signal<string>;
+    withAncestors: Signal<boolean>;
+    savedFilters: Signal<SavedFilter[]>;
+    // What the input shows: the text being typed, else the applied query
+    text: Signal<string>;
+
+    // Text typed since the query was last applied from outside the bar
+    draft = signal<string | null>(null);
+    error = signal<string | null>(null);
+    suggestions = signal<QuerySuggestions>({ from: 0, to: 0, items: [] });
+    activeIndex = signal<number>(0);
+
+    constructor(
+        private diagramService: DiagramService,
+        private entityQueryService: EntityQueryService
+    ) {
+        this.appliedQuery = computed(() => this.diagramService.activeFilters().query ?? '');
+        this.withAncestors = computed(() => !!this.diagramService.activeFilters().withAncestors);
+        this.savedFilters = this.entityQueryService.savedFilters;
+        this.text = computed(() => this.draft() ?? this.appliedQuery());
+    }
+
+    onInput(input: HTMLInputElement) {
+        this.draft.set(input.value);
+        this.error.set(this.entityQueryService.setQuery(input.value));
+        this.refreshSuggestions(input);
+    }
+
+    refreshSuggestions(input: HTMLInputElement) {
+        this.suggestions.set(this.entityQueryService.suggest(input.value, input.selectionStart ?? input.value.length));
+        this.activeIndex.set(0);
+    }
+
+    onKeydown(event: KeyboardEvent, input: HTMLInputElement) {
+        const items = this.suggestions().items;
+        if (event.key === 'Escape') {
+            this.closeSuggestions();
+        } else if (items.length && event.key === 'ArrowDown') {
+            event.preventDefault();
+            this.activeIndex.set((this.activeIndex() + 1) % items.length);
+        } else if (items.length && event.key === 'ArrowUp') {
+            event.preventDefault();
+            this.activeIndex.set((this.activeIndex() - 1 + items.length) % items.length);
+        } else if (items.length && (event.key === 'Tab' || event.key === 'Enter')) {
+            event.preventDefault();
+            this.pick(items[this.activeIndex()], input);
+        }
+    }
+
+    pick(item: QuerySuggestion, input: HTMLInputElement) {
+        const { from, to } = this.suggestions();
+        const value = input.value;
+        input.value = `${value.slice(0, from)}${item.text} ${value.slice(to).trimStart()}`;
+        const cursor = from + item.text.length + 1;
+        input.setSelectionRange(cursor, cursor);
+        this.onInput(input);
+    }
+
+    // Back to the applied query once the typed one is valid
+    onBlur() {
+        this.closeSuggestions();
+        if (!this.error()) this.draft.set(null);
+    }
+
+    closeSuggestions() {
+        this.suggestions.set({ from: 0, to: 0, items: [] });
+    }
+
+    clear() {
+        this.entityQueryService.setQuery('');
+        this.draft.set(null);
+        this.error.set(null);
+    }
+
+    setWithAncestors(value: boolean) {
+        this.entityQueryService.setWithAncestors(value);
+    }
+
+    applySaved(filter: SavedFilter) {
+        this.entityQueryService.applyFilter(filter);
+        this.draft.set(null);
+        this.error.set(null);
+    }
+
+    saveFilter() {
+        const current = this.savedFilters().find(f => f.query === this.appliedQuery());
+        const name = prompt('Name this filter:', current?.name ?? '');
+        if (name === null) return;
+        const error = this.entityQueryService.saveFilter(name);
+        if (error) alert(error);
+    }
+
+    removeSaved(filter: SavedFilter) {
+        if (confirm(`Delete the saved filter "${filter.name}"?`)) this.entityQueryService.removeFilter(filter.id);
+    }
+}
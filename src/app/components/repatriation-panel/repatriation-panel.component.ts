@@ -0,0 +1,110 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService, DiagramNode } from '../../services/diagram.service';
+import { PillarTwoService } from '../../services/pillar-two.service';
+import {
+    RepatriationService, RepatriationRoute, WhtRate, ParticipationExemption
+} from '../../services/repatriation.service';
+
+@Component({
+    selector: 'app-repatriation-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './repatriation-panel.component.html',
+    styleUrls: ['./repatriation-panel.component.css']
+})
+export class RepatriationPanelComponent {
+    isOpen: Signal<boolean>;
+    nodes: Signal<DiagramNode[]>;
+    destinations: Signal<DiagramNode[]>;
+    routes: Signal<RepatriationRoute[]>;
+    chosenRoute: Signal<RepatriationRoute | undefined>;
+    sourceId: Signal<string | null>;
+    destinationId: Signal<string | null>;
+    amount: Signal<number>;
+    // Currency the simulated amount is entered in
+    currency: Signal<string>;
+    whtRates: Signal<WhtRate[]>;
+    exemptions: Signal<ParticipationExemption[]>;
+    // Jurisdictions in the structure, offered when adding table rows
+    jurisdictions: Signal<string[]>;
+
+    view = signal<'routes' | 'tables'>('routes');
+    newWht: WhtRate = { payer: '', recipient: '*', rate: 0 };
+    newExemption: ParticipationExemption = { jurisdiction: '', exemptPercent: 100, minHolding: 10 };
+
+    constructor(
+        private diagramService: DiagramService,
+        private pillarTwoService: PillarTwoService,
+        private repatriationService: RepatriationService
+    ) {
+        this.isOpen = this.repatriationService.isPanelOpen;
+        this.sourceId = this.repatriationService.sourceId;
+        this.destinationId = this.repatriationService.destinationId;
+        this.amount = this.repatriationService.amount;
+        this.destinations = this.repatriationService.destinations;
+        this.routes = this.repatriationService.routes;
+        this.chosenRoute = this.repatriationService.chosenRoute;
+        this.whtRates = this.repatriationService.whtRates;
+        this.exemptions = this.repatriationService.exemptions;
+        // Entities with a current parent can pay a dividend up
+        this.nodes = computed(() => {
+            const { nodes, edges } = this.diagramService.currentStructure();
+            return nodes
+                .filter(n => edges.some(e => e.target === n.id))
+                .sort((a, b) => a.label.localeCompare(b.label));
+        });
+        this.currency = computed(() =>
+            this.diagramService.nodes().find(n => n.id === this.sourceId())?.localCurrency || '');
+        this.jurisdictions = computed(() => Array.from(new Set(
+            this.diagramService.nodes().map(n => this.pillarTwoService.jurisdictionOf(n))
+        )).sort());
+    }
+
+    setSource(id: string) {
+        this.repatriationService.setSource(id || null);
+    }
+
+    setDestination(id: string) {
+        this.repatriationService.setDestination(id || null);
+    }
+
+    setAmount(value: number) {
+        if (Number.isFinite(value) && value >= 0) this.repatriationService.amount.set(value);
+    }
+
+    chooseRoute(route: RepatriationRoute) {
+        this.repatriationService.highlight(route);
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
+    addWhtRate() {
+        this.repatriationService.setWhtRate({ ...this.newWht, rate: Number(this.newWht.rate) });
+        this.newWht = { payer: this.newWht.payer, recipient: '*', rate: 0 };
+    }
+
+    removeWhtRate(rate: WhtRate) {
+        this.repatriationService.removeWhtRate(rate);
+    }
+
+    addExemption() {
+        this.repatriationService.setExemption({
+            ...this.newExemption,
+            exemptPercent: Number(this.newExemption.exemptPercent),
+            minHolding: Number(this.newExemption.minHolding)
+        });
+        this.newExemption = { jurisdiction: '', exemptPercent: 100, minHolding: 10 };
+    }
+
+    removeExemption(exemption: ParticipationExemption) {
+        this.repatriationService.removeExemption(exemption);
+    }
+
+    close() {
+        this.repatriationService.close();
+    }
+}
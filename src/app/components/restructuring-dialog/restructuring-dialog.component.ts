@@ -0,0 +1,137 @@
+import { Component, Signal, computed, effect, untracked } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService, DiagramNode, DiagramEdge } from '../../services/diagram.service';
+import { OfficerService } from '../../services/officer.service';
+import {
+    RestructuringService, RestructuringRequest, RestructuringOperation, RESTRUCTURING_LABELS, SplitOptions
+} from '../../services/restructuring.service';
+
+@Component({
+    selector: 'app-restructuring-dialog',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './restructuring-dialog.component.html',
+    styleUrls: ['./restructuring-dialog.component.css']
+})
+export class RestructuringDialogComponent {
+    request: Signal<RestructuringRequest | null>;
+    entity: Signal<DiagramNode | undefined>;
+    parentEdges: Signal<DiagramEdge[]>;
+    childEdges: Signal<DiagramEdge[]>;
+    // Entities the selected one may be moved under (not itself or anything it holds)
+    parentCandidates: Signal<DiagramNode[]>;
+    mergeCandidates: Signal<DiagramNode[]>;
+    // What a merge carries over to the surviving entity
+    mergeSummary: Signal<{ children: number, officers: number, owners: number }>;
+
+    operations: RestructuringOperation[] = ['reparent', 'merge', 'split', 'liquidate'];
+    operationLabels = RESTRUCTURING_LABELS;
+
+    targetId = '';
+    // '' moves nothing and adds the stake alongside existing parents
+    fromParentId = '';
+    percentage: number | null = null;
+    split: SplitOptions = { label: '', mode: 'hive-down', childIds: [], percentage: 100 };
+    distributeChildren = false;
+    error: string | null = null;
+
+    constructor(
+        private diagramService: DiagramService,
+        private officerService: OfficerService,
+        private restructuringService: RestructuringService
+    ) {
+        this.request = this.restructuringService.request;
+        this.entity = computed(() => {
+            const id = this.request()?.entityId;
+            return this.diagramService.nodes().find(n => n.id === id);
+        });
+        this.parentEdges = computed(() => {
+            const id = this.request()?.entityId;
+            return id ? this.restructuringService.parentEdges(id) : [];
+        });
+        this.childEdges = computed(() => {
+            const id = this.request()?.entityId;
+            return id ? this.restructuringService.childEdges(id) : [];
+        });
+        this.parentCandidates = computed(() => {
+            const id = this.request()?.entityId;
+            if (!id) return [];
+            const descendants = this.restructuringService.descendantsOf(id);
+            return this.diagramService.currentStructure().nodes.filter(n => n.id !== id && !descendants.has(n.id));
+        });
+        this.mergeCandidates = computed(() => {
+            const id = this.request()?.entityId;
+            return this.diagramService.currentStructure().nodes.filter(n => n.id !== id);
+        });
+        this.mergeSummary = computed(() => {
+            const id = this.request()?.entityId;
+            return {
+                children: this.childEdges().length,
+                officers: this.officerService.people()
+                    .filter(p => p.appointments.some(a => a.entityId === id && this.officerService.isCurrent(a))).length,
+                owners: this.diagramService.owners().filter(o => o.shareholdings.some(h => h.targetId === id)).length
+            };
+        });
+
+        // Reset the form whenever the dialog opens for another entity or operation
+        effect(() => {
+            const request = this.request();
+            if (!request) return;
+            const parents = untracked(() => this.restructuringService.parentEdges(request.entityId));
+            const largest = [...parents].sort((a, b) => (b.ownershipPercentage ?? 100) - (a.ownershipPercentage ?? 100))[0];
+            this.targetId = request.targetId ?? '';
+            this.fromParentId = largest?.source ?? '';
+            this.percentage = largest?.ownershipPercentage ?? 100;
+            this.split = { label: '', mode: 'hive-down', childIds: [], percentage: 100 };
+            this.distributeChildren = false;
+            this.error = null;
+        });
+    }
+
+    setOperation(operation: RestructuringOperation) {
+        const request = this.request();
+        if (request) this.restructuringService.open(operation, request.entityId, request.targetId);
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
+    toggleSplitChild(id: string, checked: boolean) {
+        const ids = this.split.childIds.filter(c => c !== id);
+        this.split = { ...this.split, childIds: checked ? [...ids, id] : ids };
+    }
+
+    apply() {
+        const request = this.request();
+        if (!request) return;
+
+        switch (request.operation) {
+            case 'reparent':
+                this.error = this.targetId
+                    ? this.restructuringService.reparent(request.entityId, this.targetId, {
+                        fromParentId: this.fromParentId || null,
+                        percentage: this.percentage ?? undefined
+                    })
+                    : 'Choose the new parent.';
+                break;
+            case 'merge':
+                this.error = this.targetId
+                    ? this.restructuringService.merge(request.entityId, this.targetId)
+                    : 'Choose the entity to merge into.';
+                break;
+            case 'split':
+                this.error = this.restructuringService.split(request.entityId, this.split);
+                break;
+            case 'liquidate':
+                this.error = this.restructuringService.liquidate(request.entityId, this.distributeChildren);
+                break;
+        }
+        if (!this.error) this.close();
+    }
+
+    close() {
+        this.restructuringService.close();
+    }
+}
@@ -0,0 +1,74 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService, SandboxScenario } from '../../services/diagram.service';
+import { ScenarioService, ScenarioMetrics, ScenarioEntityRow } from '../../services/scenario.service';
+
+@Component({
+    selector: 'app-scenario-panel',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './scenario-panel.component.html',
+    styleUrls: ['./scenario-panel.component.css']
+})
+export class ScenarioPanelComponent {
+    isOpen: Signal<boolean>;
+    scenarios: Signal<SandboxScenario[]>;
+    activeScenarioId: Signal<string | null>;
+    metrics: Signal<ScenarioMetrics[]>;
+    rows: Signal<ScenarioEntityRow[]>;
+
+    changedOnly = signal<boolean>(true);
+    newScenarioName = '';
+
+    constructor(
+        private diagramService: DiagramService,
+        private scenarioService: ScenarioService
+    ) {
+        this.isOpen = this.scenarioService.isPanelOpen;
+        this.scenarios = this.diagramService.scenarios;
+        this.activeScenarioId = this.diagramService.activeScenarioId;
+        this.metrics = this.scenarioService.metrics;
+        this.rows = computed(() => this.scenarioService.entityRows().filter(r => !this.changedOnly() || r.changed));
+    }
+
+    createScenario() {
+        this.diagramService.startSandbox(this.newScenarioName.trim() || undefined);
+        this.newScenarioName = '';
+    }
+
+    switchTo(id: string | null) {
+        this.diagramService.switchScenario(id);
+    }
+
+    rename(id: string, name: string) {
+        this.diagramService.renameScenario(id, name);
+    }
+
+    promote(scenario: SandboxScenario) {
+        if (confirm(`Replace the live structure with "${scenario.name}"? This can be undone.`)) {
+            this.diagramService.commitSandbox(scenario.id);
+        }
+    }
+
+    remove(scenario: SandboxScenario) {
+        if (confirm(`Delete scenario "${scenario.name}"?`)) {
+            this.diagramService.discardSandbox(scenario.id);
+        }
+    }
+
+    // Difference to the live column, for highlighting
+    delta(values: (number | null)[], index: number): number | null {
+        const live = values[0];
+        const value = values[index];
+        return index === 0 || live === null || value === null ? null : value - live;
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    close() {
+        this.scenarioService.isPanelOpen.set(false);
+    }
+}
@@ -1,7 +1,25 @@
-import { Component, Signal, effect } from '@angular/core';
+import { Component, Signal, computed, effect } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
-import { DiagramService, DiagramNode } from '../../services/diagram.service';
+import { DiagramService, DiagramNode, DiagramEdge, Obligation, Person } from '../../services/diagram.service';
+import {
+    PillarTwoService, JurisdictionEtr, SafeHarbourEvaluation, SAFE_HARBOUR_TEST_LABELS
+} from '../../services/pillar-two.service';
+import {
+    ComplianceService, ComplianceStatus, ObligationOccurrence, COMPLIANCE_STATE_LABELS
+} from '../../services/compliance.service';
+import {
+    OfficerService, OfficerRole, Seat, BoardEvent, OFFICER_ROLES, OFFICER_ROLE_LABELS
+} from '../../services/officer.service';
+import { UboService, UboEntityReport, OWNER_KIND_LABELS } from '../../services/ubo.service';
+import { TaxRollupService } from '../../services/tax-rollup.service';
+import { FxService, FxConversion } from '../../services/fx.service';
+import { RepatriationService } from '../../services/repatriation.service';
+import { AuditService, AuditEntry } from '../../services/audit.service';
+import { RestructuringService, RestructuringOperation, RESTRUCTURING_LABELS } from '../../services/restructuring.service';
+
+type TaxInputField = 'globeIncome' | 'coveredTaxes' | 'eligiblePayroll' | 'tangibleAssets'
+    | 'cbcrRevenue' | 'cbcrProfitBeforeTax' | 'cbcrIncomeTax' | 'citRate' | 'equity' | 'revenue' | 'profitBeforeTax';
 
 @Component({
     selector: 'app-side-drawer',
@@ -12,57 +30,266 @@ import { DiagramService, DiagramNode } from '../../services/diagram.service';
 })
 export class SideDrawerComponent {
     selectedNode: Signal<DiagramNode | null | undefined>;
-    activeTab: 'general' | 'details' | 'officers' | 'compliance' = 'general';
-    newOfficerName = '';
+    jurisdictionEtr: Signal<JurisdictionEtr | undefined>;
+    safeHarbour: Signal<SafeHarbourEvaluation | undefined>;
+    complianceStatus: Signal<ComplianceStatus | undefined>;
+    obligationRows: Signal<{ obligation: Obligation, next?: ObligationOccurrence }[]>;
+    templateCount: Signal<number>;
+    today: Signal<string>;
+    people: Signal<Person[]>;
+    board: Signal<Seat[]>;
+    boardHistory: Signal<BoardEvent[]>;
+    uboReport: Signal<UboEntityReport | undefined>;
+    // Financial inputs converted into the presentation currency
+    convertedFinancials: Signal<Partial<Record<TaxInputField, FxConversion | null>>>;
+    presentationCurrency: Signal<string>;
+    // Stakes group entities hold in the selected one, with their effective dates
+    parentEdges: Signal<DiagramEdge[]>;
+    // Audit entries for the selected entity, newest first
+    auditEntries: Signal<AuditEntry[]>;
+    activeTab: 'general' | 'details' | 'officers' | 'compliance' | 'tax' | 'audit' = 'general';
+
+    pillarTwoStatuses = ['In-Scope', 'Excluded', 'Safe-Harbor', 'Pending', 'N/A'];
+    globeInputs: { field: TaxInputField, label: string }[] = [
+        { field: 'globeIncome', label: 'GloBE Income' },
+        { field: 'coveredTaxes', label: 'Covered Taxes' },
+        { field: 'eligiblePayroll', label: 'Eligible Payroll' },
+        { field: 'tangibleAssets', label: 'Tangible Assets' }
+    ];
+    financialInputs: { field: TaxInputField, label: string }[] = [
+        { field: 'equity', label: 'Equity' },
+        { field: 'revenue', label: 'Revenue' },
+        { field: 'profitBeforeTax', label: 'Profit before Tax' }
+    ];
+    cbcrInputs: { field: TaxInputField, label: string }[] = [
+        { field: 'cbcrRevenue', label: 'Revenue' },
+        { field: 'cbcrProfitBeforeTax', label: 'Profit before Tax' },
+        { field: 'cbcrIncomeTax', label: 'Income Tax' }
+    ];
+    testLabels = SAFE_HARBOUR_TEST_LABELS;
+    stateLabels = COMPLIANCE_STATE_LABELS;
+    newObligation: Omit<Obligation, 'id'> = { type: '', recurrence: 'annual', firstDueDate: '' };
+    roles = OFFICER_ROLES;
+    roleLabels = OFFICER_ROLE_LABELS;
+    ownerKindLabels = OWNER_KIND_LABELS;
+    restructuringOperations: RestructuringOperation[] = ['reparent', 'merge', 'split', 'liquidate'];
+    restructuringLabels = RESTRUCTURING_LABELS;
+    newAppointment: { name: string, nationality: string, role: OfficerRole, appointedOn: string };
 
-    constructor(private diagramService: DiagramService) {
+    constructor(
+        private diagramService: DiagramService,
+        private pillarTwoService: PillarTwoService,
+        private complianceService: ComplianceService,
+        private officerService: OfficerService,
+        private uboService: UboService,
+        private restructuringService: RestructuringService,
+        private taxRollupService: TaxRollupService,
+        private fxService: FxService,
+        private repatriationService: RepatriationService,
+        private auditService: AuditService
+    ) {
         this.selectedNode = this.diagramService.selectedNode;
+        this.people = this.officerService.people;
+        this.newAppointment = this.emptyAppointment();
+        this.board = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.officerService.getBoard(node.id) : [];
+        });
+        this.uboReport = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.uboService.getReport(node.id) : undefined;
+        });
+        this.presentationCurrency = this.fxService.presentationCurrency;
+        this.parentEdges = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.diagramService.edges().filter(e => e.target === node.id) : [];
+        });
+        this.auditEntries = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.auditService.entriesFor(node.id) : [];
+        });
+        this.convertedFinancials = computed(() => {
+            const node = this.selectedNode();
+            if (!node) return {};
+            return Object.fromEntries(this.financialInputs.map(input => [
+                input.field,
+                this.fxService.convert(node[input.field], node.localCurrency)
+            ]));
+        });
+        this.boardHistory = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.officerService.getBoardHistory(node.id) : [];
+        });
+        this.jurisdictionEtr = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.pillarTwoService.jurisdictions().find(j => j.entityIds.includes(node.id)) : undefined;
+        });
+        this.safeHarbour = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.pillarTwoService.safeHarbours().find(e => e.entityIds.includes(node.id)) : undefined;
+        });
+        this.today = this.complianceService.today;
+        this.complianceStatus = computed(() => {
+            const node = this.selectedNode();
+            return node ? this.complianceService.getStatus(node) : undefined;
+        });
+        this.obligationRows = computed(() => {
+            const node = this.selectedNode();
+            if (!node) return [];
+            return (node.obligations || []).map(obligation => ({
+                obligation,
+                next: this.complianceService.getNextOpen(node, obligation.id)
+            }));
+        });
+        this.templateCount = computed(() => {
+            const node = this.selectedNode();
+            if (!node) return 0;
+            const existing = new Set((node.obligations || []).map(o => o.type));
+            return this.complianceService.getTemplates(node).filter(t => !existing.has(t.type)).length;
+        });
     }
 
-    setActiveTab(tab: 'general' | 'details' | 'officers' | 'compliance') {
+    setActiveTab(tab: 'general' | 'details' | 'officers' | 'compliance' | 'tax' | 'audit') {
         this.activeTab = tab;
     }
 
     updateLabel(event: any) {
         const node = this.selectedNode();
         if (node) {
-            this.diagramService.updateNode(node.id, { label: event.target.value });
+            this.diagramService.updateNode(node.id, { label: event.target.value }, { groupKey: `${node.id}:label` });
         }
     }
 
     updateColor(event: any) {
         const node = this.selectedNode();
         if (node) {
-            this.diagramService.updateNode(node.id, { color: event.target.value });
+            this.diagramService.updateNode(node.id, { color: event.target.value }, { groupKey: `${node.id}:color` });
         }
     }
 
     updateField(field: keyof DiagramNode, value: any) {
         const node = this.selectedNode();
         if (node) {
-            this.diagramService.updateNode(node.id, { [field]: value });
+            this.diagramService.updateNode(node.id, { [field]: value }, { groupKey: `${node.id}:${field}` });
         }
     }
 
-    addOfficer() {
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
+    // Cleared date inputs emit ''; store them as unset
+    updateStakeDate(edge: DiagramEdge, field: 'effectiveFrom' | 'effectiveTo', value: string) {
+        this.diagramService.updateEdge(edge.id, { [field]: value || undefined }, {
+            label: `Set ${this.labelOf(edge.source)} stake ${field === 'effectiveFrom' ? 'start' : 'end'} date`,
+            groupKey: `${edge.id}:${field}`
+        });
+    }
+
+    // Cleared number inputs emit null; store them as unset
+    updateNumber(field: TaxInputField, value: number | null) {
+        this.updateField(field, value === null || value === undefined ? undefined : Number(value));
+    }
+
+    applySafeHarbour(evaluation: SafeHarbourEvaluation) {
+        this.pillarTwoService.applySafeHarbour(evaluation);
+    }
+
+    addObligation() {
         const node = this.selectedNode();
-        if (node && this.newOfficerName.trim()) {
-            const currentOfficers = node.officers || [];
-            this.diagramService.updateNode(node.id, { officers: [...currentOfficers, this.newOfficerName.trim()] });
-            this.newOfficerName = '';
+        if (node && this.newObligation.type.trim() && this.newObligation.firstDueDate) {
+            this.complianceService.addObligation(node.id, { ...this.newObligation, type: this.newObligation.type.trim() });
+            this.newObligation = { type: '', recurrence: 'annual', firstDueDate: '' };
         }
     }
 
-    removeOfficer(index: number) {
+    applyComplianceTemplate() {
+        const node = this.selectedNode();
+        if (node) this.complianceService.applyTemplate(node.id);
+    }
+
+    removeObligation(obligationId: string) {
         const node = this.selectedNode();
-        if (node && node.officers) {
-            const updated = [...node.officers];
-            updated.splice(index, 1);
-            this.diagramService.updateNode(node.id, { officers: updated });
+        if (node) this.complianceService.removeObligation(node.id, obligationId);
+    }
+
+    toggleCompleted(occurrence: ObligationOccurrence) {
+        this.complianceService.toggleCompleted(occurrence);
+    }
+
+    openComplianceCalendar() {
+        this.complianceService.isCalendarOpen.set(true);
+    }
+
+    openPillarTwo() {
+        this.pillarTwoService.isPanelOpen.set(true);
+    }
+
+    openFxRates() {
+        this.fxService.isPanelOpen.set(true);
+    }
+
+    openTaxRollup() {
+        this.taxRollupService.isPanelOpen.set(true);
+    }
+
+    openRepatriation() {
+        const node = this.selectedNode();
+        if (node) this.repatriationService.open(node.id);
+    }
+
+    openAuditLog() {
+        const node = this.selectedNode();
+        if (node) this.auditService.open(node.id);
+    }
+
+    // A name not yet in the register creates a new person
+    isNewPerson(): boolean {
+        const name = this.newAppointment.name.trim().toLowerCase();
+        return !!name && !this.people().some(p => p.name.trim().toLowerCase() === name);
+    }
+
+    appointOfficer() {
+        const node = this.selectedNode();
+        if (node && this.newAppointment.name.trim()) {
+            const { name, nationality, role, appointedOn } = this.newAppointment;
+            this.officerService.appoint(node.id, { name, nationality }, role, appointedOn);
+            this.newAppointment = this.emptyAppointment();
         }
     }
 
+    resignOfficer(seat: Seat) {
+        this.officerService.resign(seat.person.id, seat.appointment.id);
+    }
+
+    removeAppointment(seat: Seat) {
+        this.officerService.removeAppointment(seat.person.id, seat.appointment.id);
+    }
+
+    openUboRegister() {
+        this.uboService.isPanelOpen.set(true);
+    }
+
+    openRestructuring(operation: RestructuringOperation) {
+        const node = this.selectedNode();
+        if (node) this.restructuringService.open(operation, node.id);
+    }
+
+    openOfficerRegister() {
+        this.officerService.refreshToday();
+        this.officerService.isPanelOpen.set(true);
+    }
+
+    // Leaving a field ends its edit group, so the next edit becomes a new undo step
+    closeHistoryGroup() {
+        this.diagramService.closeGroup();
+    }
+
     close() {
         this.diagramService.selectNode(null);
     }
+
+    private emptyAppointment() {
+        return { name: '', nationality: '', role: 'director' as OfficerRole, appointedOn: this.officerService.today() };
+    }
 }
@@ -108,7 +108,8 @@ export class SlidePanelComponent {
 
             // Footer / Metadata
             const mode = slide.viewState.coloringMode.toUpperCase();
-            const filterCount = Object.values(slide.viewState.activeFilters || {}).filter(Boolean).length;
+            const { withAncestors, ...filters } = slide.viewState.activeFilters || {};
+            const filterCount = Object.values(filters).filter(Boolean).length;
             doc.setFontSize(8);
             doc.text(`View Mode: ${mode} | Active Filters: ${filterCount}`, 10, 190);
         });
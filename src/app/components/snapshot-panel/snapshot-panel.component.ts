@@ -0,0 +1,68 @@
+import { Component, Signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { StructurePersistenceService } from '../../services/structure-persistence.service';
+import { StructureSnapshotSummary } from '../../services/structure-store';
+import { StructureDiffService } from '../../services/structure-diff.service';
+
+@Component({
+    selector: 'app-snapshot-panel',
+    standalone: true,
+    imports: [CommonModule],
+    templateUrl: './snapshot-panel.component.html',
+    styleUrls: ['./snapshot-panel.component.css']
+})
+export class SnapshotPanelComponent {
+    snapshots: Signal<StructureSnapshotSummary[]>;
+    saveStatus: Signal<'idle' | 'saving' | 'saved' | 'error'>;
+    lastSavedAt: Signal<number | null>;
+
+    constructor(
+        private persistence: StructurePersistenceService,
+        private structureDiffService: StructureDiffService
+    ) {
+        this.snapshots = this.persistence.snapshots;
+        this.saveStatus = this.persistence.saveStatus;
+        this.lastSavedAt = this.persistence.lastSavedAt;
+    }
+
+    saveSnapshot() {
+        const name = prompt('Name this snapshot:', `Snapshot ${this.snapshots().length + 1}`);
+        if (!name) return;
+        const asOfDate = prompt('Structure as of (YYYY-MM-DD):', new Date().toISOString().slice(0, 10));
+        if (!asOfDate) return;
+        this.persistence.saveSnapshot(name, asOfDate);
+    }
+
+    openSnapshot(snapshot: StructureSnapshotSummary) {
+        if (confirm(`Open "${snapshot.name}"? The current structure can be restored with Undo.`)) {
+            this.persistence.openSnapshot(snapshot.id);
+        }
+    }
+
+    // Highlights what changed on the live canvas since this snapshot
+    async compareSnapshot(snapshot: StructureSnapshotSummary) {
+        const saved = await this.persistence.getSnapshot(snapshot.id);
+        if (!saved) return;
+        this.structureDiffService.compare(
+            { key: `snapshot:${saved.id}`, label: saved.name, data: saved.data },
+            { key: 'live', label: 'Live structure', data: null }
+        );
+    }
+
+    renameSnapshot(snapshot: StructureSnapshotSummary) {
+        const name = prompt('Rename snapshot:', snapshot.name);
+        if (!name) return;
+        const asOfDate = prompt('Structure as of (YYYY-MM-DD):', snapshot.asOfDate);
+        this.persistence.renameSnapshot(snapshot.id, name, asOfDate || undefined);
+    }
+
+    duplicateSnapshot(snapshot: StructureSnapshotSummary) {
+        this.persistence.duplicateSnapshot(snapshot.id);
+    }
+
+    deleteSnapshot(snapshot: StructureSnapshotSummary) {
+        if (confirm(`Delete snapshot "${snapshot.name}"?`)) {
+            this.persistence.deleteSnapshot(snapshot.id);
+        }
+    }
+}
@@ -0,0 +1,77 @@
+import { Component, Signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService } from '../../services/diagram.service';
+import { TimelineService, TimelineEvent } from '../../services/timeline.service';
+import { toIsoDate } from '../../utils/iso-date';
+
+@Component({
+    selector: 'app-timeline-bar',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './timeline-bar.component.html',
+    styleUrls: ['./timeline-bar.component.css']
+})
+export class TimelineBarComponent {
+    date: Signal<string | null>;
+    playing: Signal<boolean>;
+    range: Signal<{ start: string, end: string }>;
+    span: Signal<number>;
+    offset: Signal<number>;
+    // Change dates placed along the scrubber, in percent
+    ticks: Signal<{ date: string, position: number, title: string }[]>;
+
+    periodFrom = '';
+    periodTo = '';
+    frameMs = 1500;
+
+    constructor(
+        private diagramService: DiagramService,
+        private timelineService: TimelineService
+    ) {
+        this.date = this.diagramService.timelineDate;
+        this.playing = this.timelineService.playing;
+        this.range = this.timelineService.range;
+        this.span = computed(() => Math.max(this.timelineService.offsetOf(this.range().end), 1));
+        this.offset = computed(() => {
+            const date = this.date();
+            return date ? this.timelineService.offsetOf(date) : this.span();
+        });
+        this.ticks = computed(() => this.timelineService.changeDates().map(date => ({
+            date,
+            position: this.timelineService.offsetOf(date) / this.span() * 100,
+            title: `${date}: ${this.timelineService.eventsOn(date).map(e => this.describe(e)).join('; ')}`
+        })));
+    }
+
+    toggle() {
+        this.timelineService.setDate(this.date() ? null : toIsoDate(new Date()));
+    }
+
+    setDate(value: string) {
+        if (value) this.timelineService.setDate(value);
+    }
+
+    scrub(offset: number) {
+        this.timelineService.setDate(this.timelineService.dateAt(offset));
+    }
+
+    // Plays the chosen period, or the whole timeline
+    togglePlay() {
+        if (this.playing()) {
+            this.timelineService.stop();
+            return;
+        }
+        const from = this.periodFrom || this.range().start;
+        const to = this.periodTo || this.range().end;
+        if (from > to) return;
+        this.timelineService.play(from, to, this.frameMs);
+    }
+
+    describe(event: TimelineEvent): string {
+        const verb = event.subject === 'entity'
+            ? (event.kind === 'added' ? 'Added' : 'Removed')
+            : (event.kind === 'added' ? 'Stake acquired' : 'Stake disposed');
+        return `${verb}: ${event.label}`;
+    }
+}
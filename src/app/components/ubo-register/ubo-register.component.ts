@@ -0,0 +1,114 @@
+import { Component, Signal, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { DiagramService, DiagramNode, Owner, Person } from '../../services/diagram.service';
+import { UboService, UboEntityReport, OwnerKind, OWNER_KIND_LABELS } from '../../services/ubo.service';
+
+type NewOwner = Omit<Owner, 'id' | 'shareholdings'>;
+
+@Component({
+    selector: 'app-ubo-register',
+    standalone: true,
+    imports: [CommonModule, FormsModule],
+    templateUrl: './ubo-register.component.html',
+    styleUrls: ['./ubo-register.component.css']
+})
+export class UboRegisterComponent {
+    isOpen: Signal<boolean>;
+    owners: Signal<Owner[]>;
+    nodes: Signal<DiagramNode[]>;
+    people: Signal<Person[]>;
+    thresholds: Signal<number[]>;
+    reports: Signal<UboEntityReport[]>;
+    kindLabels = OWNER_KIND_LABELS;
+    kinds: OwnerKind[] = ['natural-person', 'external-entity'];
+
+    view = signal<'report' | 'owners'>('report');
+    // Hide entities no outside owner reaches at any threshold
+    reportableOnly = signal<boolean>(true);
+
+    newOwner: NewOwner = this.emptyOwner();
+    // Stake being added per owner: target id and percentage
+    newStakes: Record<string, { targetId: string, percentage: number | null }> = {};
+
+    constructor(
+        private diagramService: DiagramService,
+        private uboService: UboService
+    ) {
+        this.isOpen = this.uboService.isPanelOpen;
+        this.owners = this.uboService.owners;
+        this.nodes = this.diagramService.nodes;
+        this.people = this.diagramService.people;
+        this.thresholds = this.uboService.thresholds;
+        this.reports = computed(() => this.uboService.report()
+            .filter(r => !this.reportableOnly() || r.holdings.length > 0));
+    }
+
+    setThresholds(value: string) {
+        this.uboService.setThresholds(value.split(',').map(v => Number(v.trim())));
+    }
+
+    labelOf(id: string): string {
+        return this.uboService.labelOf(id);
+    }
+
+    // Picking someone from the officer register copies their details
+    linkPerson(personId: string) {
+        const person = this.people().find(p => p.id === personId);
+        this.newOwner = person
+            ? { ...this.newOwner, personId, name: person.name, nationality: person.nationality }
+            : { ...this.newOwner, personId: undefined };
+    }
+
+    addOwner() {
+        if (!this.newOwner.name.trim()) return;
+        const owner: NewOwner = Object.fromEntries(
+            Object.entries({ ...this.newOwner, name: this.newOwner.name.trim() })
+                .filter(([, value]) => value !== undefined && value !== '')
+        ) as NewOwner;
+        this.uboService.addOwner(owner);
+        this.newOwner = this.emptyOwner();
+    }
+
+    updateOwner(ownerId: string, field: keyof NewOwner, value: string) {
+        if (field === 'name' && !value.trim()) return;
+        this.uboService.updateOwner(ownerId, { [field]: value.trim() || undefined });
+    }
+
+    removeOwner(owner: Owner) {
+        if (confirm(`Remove ${owner.name} and all of their shareholdings?`)) {
+            this.uboService.removeOwner(owner.id);
+        }
+    }
+
+    setShareholding(ownerId: string, targetId: string, percentage: number | null) {
+        this.uboService.setShareholding(ownerId, targetId, percentage === null ? null : Number(percentage));
+    }
+
+    getNewStake(ownerId: string) {
+        return this.newStakes[ownerId] ??= { targetId: '', percentage: null };
+    }
+
+    addShareholding(ownerId: string) {
+        const stake = this.getNewStake(ownerId);
+        if (!stake.targetId || !stake.percentage) return;
+        this.uboService.setShareholding(ownerId, stake.targetId, Number(stake.percentage));
+        this.newStakes[ownerId] = { targetId: '', percentage: null };
+    }
+
+    selectEntity(id: string) {
+        this.diagramService.selectNode(id);
+    }
+
+    export(format: 'csv' | 'xlsx') {
+        this.uboService.export(format, this.reports());
+    }
+
+    close() {
+        this.uboService.isPanelOpen.set(false);
+    }
+
+    private emptyOwner(): NewOwner {
+        return { name: '', kind: 'natural-person' };
+    }
+}
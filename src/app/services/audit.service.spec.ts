@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { DiagramEdge, DiagramNode, DiagramSnapshot, Person } from './diagram.service';
+import { AuditService } from './audit.service';
+import { HistoryService } from './history.service';
+import { StructureStore } from './structure-store';
+
+describe('AuditService', () => {
+    let service: AuditService;
+    let history: HistoryService;
+    let store: jasmine.SpyObj<StructureStore>;
+
+    const snapshot = (nodes: DiagramNode[], edges: DiagramEdge[] = [], people: Person[] = []): DiagramSnapshot =>
+        ({ nodes, edges, people, owners: [], flows: [] });
+    const hq = { id: 'HQ', label: 'Holding' } as DiagramNode;
+    const ie = { id: 'IE', label: 'Acme Ireland', citRate: 12.5 } as DiagramNode;
+    const logged = () => service.entries().map(e => [e.entityId, e.field, e.oldValue, e.newValue]);
+
+    beforeEach(async () => {
+        localStorage.removeItem('enterprise-audit-profile');
+        store = jasmine.createSpyObj<StructureStore>('StructureStore', ['loadAuditLog', 'appendAuditEntries']);
+        store.loadAuditLog.and.resolveTo([]);
+        store.appendAuditEntries.and.resolveTo();
+        TestBed.configureTestingModule({ providers: [{ provide: StructureStore, useValue: store }] });
+        service = TestBed.inject(AuditService);
+        history = TestBed.inject(HistoryService);
+        // Let the stored log load
+        await new Promise(resolve => setTimeout(resolve));
+    });
+
+    it('writes one entry per changed field, under one change id, with the user and reason', () => {
+        service.userName.set('Ann');
+        service.reason.set(' Board minute 12 ');
+        const before = snapshot([hq, ie]);
+
+        service.record('Edit Acme Ireland', before, snapshot([hq, { ...ie, citRate: 15, region: 'EMEA', effectiveOwnership: 80 }]));
+
+        expect(logged()).toEqual([['IE', 'citRate', '12.5', '15'], ['IE', 'region', '', 'EMEA']]);
+        const [first, second] = service.entries();
+        expect(first).toEqual(jasmine.objectContaining({ user: 'Ann', action: 'Edit Acme Ireland', reason: 'Board minute 12' }));
+        expect(second.changeId).toBe(first.changeId);
+        expect(store.appendAuditEntries).toHaveBeenCalledWith(service.entries());
+    });
+
+    it('logs a new or removed entity as one entry', () => {
+        service.record('Replace', snapshot([hq]), snapshot([ie]));
+
+        expect(logged()).toEqual([['IE', 'Entity', '', 'Created'], ['HQ', 'Entity', 'Existed', 'Removed']]);
+    });
+
+    it('logs stakes and appointments against the entity held or served', () => {
+        const stake = { id: 'e1', source: 'HQ', target: 'IE', ownershipPercentage: 100 } as DiagramEdge;
+        const ann = { id: 'p1', name: 'Ann', appointments: [{ id: 'a1', entityId: 'IE', role: 'director' as const }] };
+
+        service.record('Acquire', snapshot([hq, ie]), snapshot([hq, ie], [stake], [ann]));
+
+        expect(logged()).toEqual([
+            ['IE', 'Stake held by Holding', '', '100%'],
+            ['IE', 'Officer Ann (director)', '', 'Appointed']
+        ]);
+    });
+
+    it('logs an ended stake apart from the stake that replaces it', () => {
+        const old = { id: 'e1', source: 'HQ', target: 'IE', ownershipPercentage: 30 } as DiagramEdge;
+        const topUp = { id: 'e1-2025-06-15', source: 'HQ', target: 'IE', ownershipPercentage: 80, effectiveFrom: '2025-06-15' } as DiagramEdge;
+
+        service.record('Top up', snapshot([hq, ie], [old]), snapshot([hq, ie], [{ ...old, effectiveTo: '2025-06-14' }, topUp]));
+
+        expect(logged()).toEqual([
+            ['IE', 'Stake held by Holding: effectiveTo', '', '2025-06-14'],
+            ['IE', 'Stake held by Holding', '', '80%']
+        ]);
+    });
+
+    it('holds keystrokes into one field as a single pending change until the group closes', () => {
+        const typed = (from: string, to: string) => {
+            service.record('Edit Acme Ireland (label)', snapshot([{ ...ie, label: from }]), snapshot([{ ...ie, label: to }]), { groupKey: 'IE:label' });
+            history.record({ label: 'Edit Acme Ireland (label)', groupKey: 'IE:label', undo: () => { }, redo: () => { } });
+        };
+        typed('Acme Ireland', 'Acme I');
+        typed('Acme I', 'Acme IE');
+
+        expect(logged()).toEqual([['IE', 'label', 'Acme Ireland', 'Acme IE']]);
+        expect(store.appendAuditEntries).not.toHaveBeenCalled();
+
+        service.closeGroup();
+        expect(store.appendAuditEntries).toHaveBeenCalledTimes(1);
+        expect(logged().length).toBe(1);
+    });
+
+    it('records nothing while suspended', () => {
+        service.suspend(() => service.record('Load', snapshot([]), snapshot([hq])));
+
+        expect(service.entries()).toEqual([]);
+    });
+
+    it('warns once when entries cannot be stored', async () => {
+        store.appendAuditEntries.and.rejectWith(new Error('blocked'));
+        spyOn(window, 'alert');
+        spyOn(console, 'error');
+
+        service.record('Add', snapshot([]), snapshot([hq]));
+        service.record('Add', snapshot([hq]), snapshot([hq, ie]));
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(window.alert).toHaveBeenCalledTimes(1);
+        expect(service.storageError()).not.toBeNull();
+    });
+});
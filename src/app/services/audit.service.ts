@@ -0,0 +1,322 @@
+import { Injectable, signal, computed, effect } from '@angular/core';
+import type { DiagramSnapshot, DiagramNode, DiagramEdge, Person, Owner, Flow } from './diagram.service';
+import { HistoryService } from './history.service';
+import { StructureStore } from './structure-store';
+import { CsvValue, toCsv, downloadFile } from '../utils/file-export';
+
+export interface AuditEntry {
+    id: string;
+    // Entries written by one mutation share a change id
+    changeId: string;
+    timestamp: string;
+    user: string;
+    // The edit as named in the undo history
+    action: string;
+    // Scenario the change was made in; unset for the live structure
+    scenario?: string;
+    entityId?: string;
+    entityLabel?: string;
+    field: string;
+    oldValue: string;
+    newValue: string;
+    reason?: string;
+}
+
+type AuditChange = Pick<AuditEntry, 'entityId' | 'entityLabel' | 'field' | 'oldValue' | 'newValue'>;
+
+// Layout state, calendar revision counters and figures derived from the ownership edges,
+// which are audited on the edges themselves
+const IGNORED_NODE_FIELDS = new Set([
+    'id', 'position', 'dimension', 'transform', 'data', 'meta', 'hidden', 'filingRevision',
+    'ownershipPercentage', 'effectiveOwnership', 'indirectOwnership', 'attributableOwnership', 'minorityInterest'
+]);
+const EDGE_FIELDS: (keyof DiagramEdge)[] = ['ownershipPercentage', 'effectiveFrom', 'effectiveTo', 'isDraft'];
+const APPOINTMENT_FIELDS = ['role', 'entityId', 'appointedOn', 'resignedOn'] as const;
+const FLOW_FIELDS: (keyof Flow)[] = ['type', 'annualAmount', 'currency', 'agreementRef', 'isDraft'];
+
+// Where the log was kept before it moved to the structure store; read once to migrate
+const LEGACY_LOG_KEY = 'enterprise-audit-log';
+const PROFILE_KEY = 'enterprise-audit-profile';
+
+const EXPORT_COLUMNS = [
+    'Timestamp', 'User', 'Action', 'Scenario', 'Entity ID', 'Entity Name', 'Field', 'Old Value', 'New Value', 'Reason', 'Change ID'
+];
+
+/**
+ * Append-only audit trail. DiagramService hands over the before and after snapshot of
+ * every mutation (including undo and redo); the difference is written as one entry per
+ * changed field, stamped with the local user's name and the reason they gave. Keystrokes
+ * into the same field (one undo step) are held as a pending change until the undo history
+ * closes its group, and only then appended; stored entries are never edited or removed.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class AuditService {
+    readonly isPanelOpen = signal<boolean>(false);
+    // Written entries followed by the change still being typed
+    readonly entries = computed(() => [...this.written(), ...this.pending()]);
+    // Set when entries could not be stored, so the log would be lost on reload
+    readonly storageError = signal<string | null>(null);
+    readonly userName = signal<string>('');
+    // Applied to every change until cleared
+    readonly reason = signal<string>('');
+    // Entity the log panel is narrowed to
+    readonly entityFilter = signal<string | null>(null);
+
+    readonly users = computed(() => Array.from(new Set(this.entries().map(e => e.user))).sort());
+
+    private readonly written = signal<AuditEntry[]>([]);
+    private readonly pending = signal<AuditEntry[]>([]);
+    private suspended = false;
+    private openGroup: { key: string, changeId: string, before: DiagramSnapshot } | null = null;
+
+    constructor(
+        private store: StructureStore,
+        private history: HistoryService
+    ) {
+        this.load();
+        effect(() => localStorage.setItem(PROFILE_KEY, JSON.stringify({ userName: this.userName() })));
+        // A change still being typed is written before the page goes away
+        window.addEventListener('pagehide', () => this.closeGroup());
+    }
+
+    record(action: string, before: DiagramSnapshot, after: DiagramSnapshot, options: { groupKey?: string, scenario?: string } = {}) {
+        if (this.suspended) return;
+
+        // Called before the history records the command, so its group state is still the previous step's
+        const group = this.openGroup;
+        const continuing = !!options.groupKey && group?.key === options.groupKey && this.history.isGroupOpen(options.groupKey);
+        if (!continuing) this.closeGroup();
+        const base = continuing ? group!.before : before;
+        const changeId = continuing ? group!.changeId : this.createId('chg');
+
+        const timestamp = new Date().toISOString();
+        const entries: AuditEntry[] = this.diff(base, after).map(change => ({
+            ...change,
+            id: this.createId('aud'),
+            changeId,
+            timestamp,
+            user: this.userName().trim() || 'Unknown user',
+            action,
+            scenario: options.scenario,
+            reason: this.reason().trim() || undefined
+        }));
+        if (options.groupKey) {
+            this.openGroup = { key: options.groupKey, changeId, before: base };
+            this.pending.set(entries);
+        } else {
+            this.append(entries);
+        }
+    }
+
+    // Appends the pending change for good; the next grouped edit starts a new change
+    closeGroup() {
+        const entries = this.pending();
+        this.openGroup = null;
+        if (!entries.length) return;
+        this.pending.set([]);
+        this.append(entries);
+    }
+
+    open(entityId?: string) {
+        this.entityFilter.set(entityId ?? null);
+        this.isPanelOpen.set(true);
+    }
+
+    // Runs fn without auditing, for loads that restore state rather than change it
+    suspend<T>(fn: () => T): T {
+        this.suspended = true;
+        try {
+            return fn();
+        } finally {
+            this.suspended = false;
+        }
+    }
+
+    entriesFor(entityId: string): AuditEntry[] {
+        return this.entries().filter(e => e.entityId === entityId).reverse();
+    }
+
+    export(format: 'csv' | 'json', entries = this.entries()) {
+        const stamp = new Date().toISOString().slice(0, 10);
+        if (format === 'json') {
+            downloadFile(JSON.stringify(entries, null, 2), `audit-log-${stamp}.json`, 'application/json');
+            return;
+        }
+        const rows: CsvValue[][] = [EXPORT_COLUMNS, ...entries.map(e => [
+            e.timestamp, e.user, e.action, e.scenario, e.entityId, e.entityLabel, e.field, e.oldValue, e.newValue, e.reason, e.changeId
+        ])];
+        downloadFile(toCsv(rows), `audit-log-${stamp}.csv`, 'text/csv');
+    }
+
+    private diff(before: DiagramSnapshot, after: DiagramSnapshot): AuditChange[] {
+        const labels = new Map([...before.nodes, ...after.nodes].map(n => [n.id, n.label]));
+        const labelOf = (id: string) => labels.get(id) || id;
+        return [
+            ...(before.nodes === after.nodes ? [] : this.diffNodes(before.nodes, after.nodes)),
+            ...(before.edges === after.edges ? [] : this.diffEdges(before.edges, after.edges, labelOf)),
+            ...(before.people === after.people ? [] : this.diffPeople(before.people, after.people, labelOf)),
+            ...(before.owners === after.owners ? [] : this.diffOwners(before.owners, after.owners, labelOf)),
+            ...(before.flows === after.flows ? [] : this.diffFlows(before.flows ?? [], after.flows ?? [], labelOf))
+        ];
+    }
+
+    // A new or removed entity is one entry; an edited one gets an entry per field
+    private diffNodes(before: DiagramNode[], after: DiagramNode[]): AuditChange[] {
+        const old = new Map(before.map(n => [n.id, n]));
+        const changes: AuditChange[] = [];
+        after.forEach(node => {
+            const previous = old.get(node.id);
+            const entity = { entityId: node.id, entityLabel: node.label };
+            if (!previous) {
+                changes.push({ ...entity, field: 'Entity', oldValue: '', newValue: 'Created' });
+                return;
+            }
+            if (previous === node) return;
+            const fields = new Set([...Object.keys(previous), ...Object.keys(node)] as (keyof DiagramNode)[]);
+            fields.forEach(field => {
+                if (IGNORED_NODE_FIELDS.has(field)) return;
+                const from = this.format(previous[field]);
+                const to = this.format(node[field]);
+                if (from !== to) changes.push({ ...entity, field, oldValue: from, newValue: to });
+            });
+        });
+        const kept = new Set(after.map(n => n.id));
+        before.filter(n => !kept.has(n.id)).forEach(n => changes.push({
+            entityId: n.id, entityLabel: n.label, field: 'Entity', oldValue: 'Existed', newValue: 'Removed'
+        }));
+        return changes;
+    }
+
+    // Stakes are logged against the subsidiary. They are matched by ID, as a stake ended
+    // and replaced keeps its record next to the new one between the same two entities.
+    private diffEdges(before: DiagramEdge[], after: DiagramEdge[], labelOf: (id: string) => string): AuditChange[] {
+        return this.diffRecords(before, after, e => e.id, edge => ({
+            entityId: edge.target,
+            entityLabel: labelOf(edge.target),
+            field: `Stake held by ${labelOf(edge.source)}`
+        }), edge => `${edge.ownershipPercentage ?? 100}%`, EDGE_FIELDS);
+    }
+
+    // Appointments are logged against the entity the officer serves
+    private diffPeople(before: Person[], after: Person[], labelOf: (id: string) => string): AuditChange[] {
+        const flatten = (people: Person[]) => people.flatMap(p => p.appointments.map(a => ({ ...a, personName: p.name })));
+        type Seat = ReturnType<typeof flatten>[number];
+        const changes = this.diffRecords<Seat>(flatten(before), flatten(after), a => a.id, a => ({
+            entityId: a.entityId,
+            entityLabel: labelOf(a.entityId),
+            field: `Officer ${a.personName} (${a.role})`
+        }), a => `Appointed${a.appointedOn ? ' ' + a.appointedOn : ''}${a.resignedOn ? ', resigned ' + a.resignedOn : ''}`, APPOINTMENT_FIELDS);
+
+        const old = new Map(before.map(p => [p.id, p]));
+        after.forEach(person => {
+            const previous = old.get(person.id);
+            if (!previous || previous === person) return;
+            (['name', 'nationality'] as const).forEach(field => {
+                const from = this.format(previous[field]);
+                const to = this.format(person[field]);
+                if (from !== to) changes.push({ field: `Person ${previous.name}: ${field}`, oldValue: from, newValue: to });
+            });
+        });
+        return changes;
+    }
+
+    // Outside shareholdings are logged against the entity held
+    private diffOwners(before: Owner[], after: Owner[], labelOf: (id: string) => string): AuditChange[] {
+        const names = new Map([...before, ...after].map(o => [o.id, o.name]));
+        const flatten = (owners: Owner[]) => owners.flatMap(o => o.shareholdings.map(h => ({ ownerId: o.id, ...h })));
+        type Holding = ReturnType<typeof flatten>[number];
+        return this.diffRecords<Holding>(flatten(before), flatten(after), h => `${h.ownerId}>${h.targetId}`, h => ({
+            entityId: h.targetId,
+            entityLabel: labelOf(h.targetId),
+            field: `Outside shareholder ${names.get(h.ownerId) || h.ownerId}`
+        }), h => `${h.percentage}%`, ['percentage']);
+    }
+
+    // Flows are logged against the paying or lending entity
+    private diffFlows(before: Flow[], after: Flow[], labelOf: (id: string) => string): AuditChange[] {
+        return this.diffRecords(before, after, f => f.id, f => ({
+            entityId: f.source,
+            entityLabel: labelOf(f.source),
+            field: `Flow to ${labelOf(f.target)}`
+        }), f => `${f.type} ${f.annualAmount} ${f.currency}${f.agreementRef ? ' (' + f.agreementRef + ')' : ''}`, FLOW_FIELDS);
+    }
+
+    private diffRecords<T>(
+        before: T[],
+        after: T[],
+        key: (record: T) => string,
+        subject: (record: T) => Omit<AuditChange, 'oldValue' | 'newValue'>,
+        summary: (record: T) => string,
+        fields: readonly (keyof T)[]
+    ): AuditChange[] {
+        const old = new Map(before.map(r => [key(r), r]));
+        const changes: AuditChange[] = [];
+        after.forEach(record => {
+            const previous = old.get(key(record));
+            if (!previous) {
+                changes.push({ ...subject(record), oldValue: '', newValue: summary(record) });
+                return;
+            }
+            if (previous === record) return;
+            fields.forEach(field => {
+                const from = this.format(previous[field]);
+                const to = this.format(record[field]);
+                if (from !== to) {
+                    const base = subject(record);
+                    changes.push({ ...base, field: `${base.field}: ${String(field)}`, oldValue: from, newValue: to });
+                }
+            });
+        });
+        const kept = new Set(after.map(key));
+        before.filter(r => !kept.has(key(r))).forEach(record => {
+            changes.push({ ...subject(record), oldValue: summary(record), newValue: '' });
+        });
+        return changes;
+    }
+
+    private append(entries: AuditEntry[]) {
+        if (!entries.length) return;
+        this.written.update(log => [...log, ...entries]);
+        this.store.appendAuditEntries(entries).catch(e => {
+            console.error('Failed to store audit entries', e);
+            if (!this.storageError()) alert('The audit log could not be saved. Recent changes will be missing from it after a reload.');
+            this.storageError.set('Recent entries could not be saved and will be missing after a reload. Export the log to keep them.');
+        });
+    }
+
+    private format(value: unknown): string {
+        if (value === undefined || value === null || value === '') return '';
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    }
+
+    private createId(prefix: string): string {
+        return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+
+    private async load() {
+        try {
+            const profile = localStorage.getItem(PROFILE_KEY);
+            if (profile) this.userName.set(JSON.parse(profile).userName || '');
+        } catch (e) {
+            console.error('Failed to parse audit profile from storage', e);
+        }
+        try {
+            const legacy = localStorage.getItem(LEGACY_LOG_KEY);
+            if (legacy) {
+                await this.store.appendAuditEntries(JSON.parse(legacy));
+                localStorage.removeItem(LEGACY_LOG_KEY);
+            }
+            const stored = await this.store.loadAuditLog();
+            // Entries recorded while loading may already be among the stored ones
+            this.written.update(log => {
+                const recorded = new Set(log.map(e => e.id));
+                return [...stored.filter(e => !recorded.has(e.id)), ...log];
+            });
+        } catch (e) {
+            console.error('Failed to load audit log from storage', e);
+            this.storageError.set('The stored audit log could not be read.');
+        }
+    }
+}
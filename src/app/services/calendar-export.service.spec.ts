@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramNode, DiagramService } from './diagram.service';
+import { ComplianceService } from './compliance.service';
+import { CalendarExportService } from './calendar-export.service';
+
+describe('CalendarExportService', () => {
+    let service: CalendarExportService;
+
+    const entity = (fields: Partial<DiagramNode>) => ({ id: 'IE1', label: 'Acme Ireland Ltd', ...fields }) as DiagramNode;
+
+    // Physical lines, and the logical lines with RFC 5545 folding undone
+    const physicalLines = (ics: string) => ics.split('\r\n').filter(Boolean);
+    const logicalLines = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n').filter(Boolean);
+    const property = (ics: string, name: string) => logicalLines(ics)
+        .filter(line => line.startsWith(`${name}:`))
+        .map(line => line.slice(name.length + 1));
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { nodes: signal<DiagramNode[]>([]) } }]
+        });
+        TestBed.inject(ComplianceService).today.set('2025-01-10');
+        service = TestBed.inject(CalendarExportService);
+    });
+
+    it('escapes commas, semicolons, backslashes and line breaks in text', () => {
+        const ics = service.buildCalendar([entity({
+            label: 'Acme, Holdings; Ireland \\ Ltd', jurisdiction: 'Ireland', filingDueDate: '2025-03-01'
+        })]);
+
+        expect(property(ics, 'SUMMARY')).toEqual(['Filing – Acme\\, Holdings\\; Ireland \\\\ Ltd']);
+        expect(property(ics, 'DESCRIPTION')[0])
+            .toBe('Entity: Acme\\, Holdings\\; Ireland \\\\ Ltd (IE1)\\nJurisdiction: Ireland');
+    });
+
+    it('folds lines longer than 75 octets without splitting characters', () => {
+        const label = 'Société Générale d’Investissement Européen – Holding Intermédiaire Luxembourgeoise S.à r.l.';
+        const ics = service.buildCalendar([entity({ label, filingDueDate: '2025-03-01' })]);
+
+        const encoder = new TextEncoder();
+        physicalLines(ics).forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+        expect(ics).toContain('\r\n ');
+        expect(property(ics, 'SUMMARY')).toEqual([`Filing – ${label}`]);
+    });
+
+    it('keeps the UID of a deadline when its date moves and raises the sequence', () => {
+        const before = service.buildCalendar([entity({ filingDueDate: '2025-03-01' })]);
+        const after = service.buildCalendar([entity({ filingDueDate: '2025-04-01', filingRevision: 1 })]);
+
+        expect(property(before, 'UID')).toEqual(['IE1.filing-1.0@enterprise-entity-management']);
+        expect(property(after, 'UID')).toEqual(property(before, 'UID'));
+        expect(property(before, 'SEQUENCE')).toEqual(['0']);
+        expect(property(after, 'SEQUENCE')).toEqual(['1']);
+    });
+
+    it('keeps the UID of a legacy filing once it is completed as an obligation', () => {
+        const open = service.buildCalendar([entity({ filingDueDate: '2025-03-01' })]);
+        const filed = service.buildCalendar([entity({
+            obligations: [{
+                id: 'filing-1', type: 'Filing', recurrence: 'once', firstDueDate: '2025-03-01',
+                completedDates: ['2025-03-01'], revision: 1
+            }]
+        })]);
+
+        expect(property(filed, 'UID')).toEqual(property(open, 'UID'));
+        expect(property(filed, 'SUMMARY')).toEqual(['Filed: Filing – Acme Ireland Ltd']);
+        expect(filed).not.toContain('BEGIN:VALARM');
+    });
+
+    it('gives each period of a recurring obligation its own stable UID', () => {
+        const obligation = { id: 'vat', type: 'VAT Return', recurrence: 'quarterly' as const, firstDueDate: '2025-01-23' };
+        const ics = service.buildCalendar([entity({ obligations: [obligation] })], 7);
+        const moved = service.buildCalendar([entity({ obligations: [{ ...obligation, firstDueDate: '2025-01-25', revision: 1 }] })], 7);
+
+        expect(property(ics, 'UID')).toEqual([
+            'IE1.vat.0@enterprise-entity-management',
+            'IE1.vat.1@enterprise-entity-management',
+            'IE1.vat.2@enterprise-entity-management'
+        ]);
+        expect(property(moved, 'UID')).toEqual(property(ics, 'UID'));
+        expect(property(moved, 'DTSTART;VALUE=DATE')).toEqual(['20250125', '20250425', '20250725']);
+    });
+
+    it('leaves out completed deadlines that have passed', () => {
+        const ics = service.buildCalendar([entity({
+            obligations: [{
+                id: 'cit', type: 'CIT Return', recurrence: 'once', firstDueDate: '2024-09-23', completedDates: ['2024-09-23']
+            }]
+        })]);
+
+        expect(ics).not.toContain('BEGIN:VEVENT');
+        expect(ics.endsWith('END:VCALENDAR\r\n')).toBeTrue();
+    });
+});
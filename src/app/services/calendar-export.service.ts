@@ -0,0 +1,121 @@
+import { Injectable } from '@angular/core';
+import { DiagramNode } from './diagram.service';
+import { ComplianceService, ObligationOccurrence, DUE_SOON_DAYS } from './compliance.service';
+import { addDays, addMonths } from '../utils/iso-date';
+import { downloadFile } from '../utils/file-export';
+
+// Domain part of event UIDs; must never change or calendars will duplicate events on re-import
+const UID_DOMAIN = 'enterprise-entity-management';
+
+// How far ahead recurring obligations are expanded into events
+const DEFAULT_MONTHS_AHEAD = 12;
+
+@Injectable({
+    providedIn: 'root'
+})
+export class CalendarExportService {
+
+    constructor(private complianceService: ComplianceService) { }
+
+    // Open overdue deadlines plus everything due in the coming months, one event per occurrence
+    exportIcs(nodes: DiagramNode[], filename = 'filing-deadlines.ics', monthsAhead = DEFAULT_MONTHS_AHEAD) {
+        downloadFile(this.buildCalendar(nodes, monthsAhead), filename, 'text/calendar;charset=utf-8');
+    }
+
+    buildCalendar(nodes: DiagramNode[], monthsAhead = DEFAULT_MONTHS_AHEAD): string {
+        const today = this.complianceService.today();
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        const occurrences = this.complianceService
+            .getOccurrences(nodes, '0000-01-01', addMonths(today, monthsAhead))
+            .filter(o => o.dueDate >= today || !o.completed);
+        const stamp = this.formatTimestamp(new Date());
+
+        const lines = [
+            'BEGIN:VCALENDAR',
+            'VERSION:2.0',
+            'PRODID:-//Enterprise Entity Management//Compliance Calendar//EN',
+            'CALSCALE:GREGORIAN',
+            'METHOD:PUBLISH',
+            'X-WR-CALNAME:Filing Deadlines',
+            ...occurrences.flatMap(o => this.buildEvent(o, byId.get(o.entityId)!, stamp)),
+            'END:VCALENDAR'
+        ];
+        return lines.map(line => this.fold(line)).join('\r\n') + '\r\n';
+    }
+
+    private buildEvent(occurrence: ObligationOccurrence, node: DiagramNode, stamp: string): string[] {
+        const details = [
+            `Entity: ${node.label} (${node.id})`,
+            node.taxResidency || node.jurisdiction ? `Jurisdiction: ${node.taxResidency || node.jurisdiction}` : '',
+            node.taxId ? `Tax ID: ${node.taxId}` : '',
+            occurrence.completed ? 'Status: Filed' : ''
+        ].filter(Boolean).join('\n');
+
+        return [
+            'BEGIN:VEVENT',
+            `UID:${this.uidFor(occurrence, node)}`,
+            `DTSTAMP:${stamp}`,
+            // Moving or completing a deadline raises its revision, so clients replace the event
+            `SEQUENCE:${occurrence.revision}`,
+            `DTSTART;VALUE=DATE:${this.formatDate(occurrence.dueDate)}`,
+            `DTEND;VALUE=DATE:${this.formatDate(addDays(occurrence.dueDate, 1))}`,
+            `SUMMARY:${this.escape(`${occurrence.completed ? 'Filed: ' : ''}${occurrence.type} – ${node.label}`)}`,
+            `DESCRIPTION:${this.escape(details)}`,
+            `CATEGORIES:${this.escape(node.taxResidency || node.jurisdiction || 'Compliance')}`,
+            'TRANSP:TRANSPARENT',
+            ...(occurrence.completed ? [] : [
+                'BEGIN:VALARM',
+                'ACTION:DISPLAY',
+                `DESCRIPTION:${this.escape(`${occurrence.type} for ${node.label} due in ${DUE_SOON_DAYS} days`)}`,
+                `TRIGGER:-P${DUE_SOON_DAYS}D`,
+                'END:VALARM'
+            ]),
+            'END:VEVENT'
+        ];
+    }
+
+    // Identifies the entity, obligation and period rather than the date, so re-exports
+    // replace earlier events even after a deadline moves or a filing is completed
+    private uidFor(occurrence: ObligationOccurrence, node: DiagramNode): string {
+        const obligation = occurrence.obligationId ?? this.complianceService.legacyFilingId(node);
+        return `${occurrence.entityId}.${obligation}.${occurrence.period}@${UID_DOMAIN}`
+            .replace(/[^A-Za-z0-9.@_-]/g, '-');
+    }
+
+    private formatDate(isoDate: string): string {
+        return isoDate.replace(/-/g, '');
+    }
+
+    private formatTimestamp(date: Date): string {
+        return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    }
+
+    // RFC 5545 §3.3.11 text escaping
+    private escape(text: string): string {
+        return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+    }
+
+    // RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space
+    private fold(line: string): string {
+        const encoder = new TextEncoder();
+        if (encoder.encode(line).length <= 75) return line;
+
+        const parts: string[] = [];
+        let current = '';
+        let currentBytes = 0;
+        for (const char of line) {
+            const bytes = encoder.encode(char).length;
+            // Continuation lines start with a space, leaving 74 octets of content
+            const limit = parts.length === 0 ? 75 : 74;
+            if (currentBytes + bytes > limit) {
+                parts.push(current);
+                current = '';
+                currentBytes = 0;
+            }
+            current += char;
+            currentBytes += bytes;
+        }
+        parts.push(current);
+        return parts.join('\r\n ');
+    }
+}
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { DiagramNode, DiagramService, Obligation } from './diagram.service';
+import { ComplianceService } from './compliance.service';
+
+describe('ComplianceService', () => {
+    let service: ComplianceService;
+    let nodes: DiagramNode[];
+    let updateNode: jasmine.Spy;
+
+    const entity = (obligations: Obligation[], fields: Partial<DiagramNode> = {}) =>
+        ({ id: 'IE1', label: 'Acme Ireland', obligations, ...fields }) as DiagramNode;
+    const obligation = (recurrence: Obligation['recurrence'], firstDueDate: string, fields: Partial<Obligation> = {}): Obligation =>
+        ({ id: 'ob1', type: 'VAT Return', recurrence, firstDueDate, ...fields });
+    const dueDates = (node: DiagramNode, from: string, to: string) => service.getOccurrences([node], from, to).map(o => o.dueDate);
+
+    beforeEach(() => {
+        nodes = [];
+        updateNode = jasmine.createSpy('updateNode');
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { nodes: () => nodes, updateNode } }]
+        });
+        service = TestBed.inject(ComplianceService);
+        service.today.set('2025-06-15');
+    });
+
+    describe('recurrence', () => {
+        it('repeats monthly, quarterly and annually from the first due date', () => {
+            expect(dueDates(entity([obligation('monthly', '2025-01-10')]), '2025-04-01', '2025-06-30'))
+                .toEqual(['2025-04-10', '2025-05-10', '2025-06-10']);
+            expect(dueDates(entity([obligation('quarterly', '2025-01-23')]), '2025-01-01', '2025-12-31'))
+                .toEqual(['2025-01-23', '2025-04-23', '2025-07-23', '2025-10-23']);
+            expect(dueDates(entity([obligation('annual', '2023-09-23')]), '2020-01-01', '2026-12-31'))
+                .toEqual(['2023-09-23', '2024-09-23', '2025-09-23', '2026-09-23']);
+        });
+
+        it('keeps month-end deadlines at the end of shorter months without drifting', () => {
+            expect(dueDates(entity([obligation('monthly', '2024-01-31')]), '2024-01-01', '2024-05-31'))
+                .toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+        });
+
+        it('falls due once for a one-off obligation', () => {
+            expect(dueDates(entity([obligation('once', '2025-03-31')]), '2020-01-01', '2030-12-31')).toEqual(['2025-03-31']);
+        });
+
+        it('numbers the periods and marks the completed ones', () => {
+            const node = entity([obligation('quarterly', '2025-01-23', { completedDates: ['2025-04-23'], revision: 2 })]);
+
+            expect(service.getOccurrences([node], '2025-04-01', '2025-07-31').map(o => [o.dueDate, o.period, o.completed, o.revision]))
+                .toEqual([['2025-04-23', 1, true, 2], ['2025-07-23', 2, false, 2]]);
+        });
+    });
+
+    describe('status', () => {
+        it('is overdue while an earlier occurrence is still open', () => {
+            const node = entity([obligation('quarterly', '2025-01-23', { completedDates: ['2025-01-23'] })]);
+
+            expect(service.getStatus(node)).toEqual({ state: 'overdue', next: jasmine.objectContaining({ dueDate: '2025-04-23' }) });
+        });
+
+        it('is due soon within the warning window and in good standing beyond it', () => {
+            const node = entity([obligation('annual', '2025-07-10')]);
+            expect(service.getStatus(node).state).toBe('due-soon');
+
+            service.today.set('2025-06-01');
+            expect(service.getStatus(entity([obligation('annual', '2025-07-10')])).state).toBe('good');
+        });
+
+        it('is not applicable without obligations', () => {
+            expect(service.getStatus(entity([])).state).toBe('none');
+        });
+    });
+
+    describe('templates', () => {
+        it('add the jurisdiction obligations not tracked yet, due next on or after today', () => {
+            nodes = [entity([obligation('annual', '2025-09-23', { type: 'CIT Return (CT1)' })], { taxResidency: 'Ireland' })];
+
+            service.applyTemplate('IE1');
+
+            const [, { obligations }, { label }] = updateNode.calls.mostRecent().args;
+            expect(obligations.slice(1).map((o: Obligation) => [o.type, o.recurrence, o.firstDueDate])).toEqual([
+                ['Annual Return (B1)', 'annual', '2025-10-28'],
+                ['VAT Return', 'quarterly', '2025-07-23']
+            ]);
+            expect(label).toBe('Apply Ireland obligations to Acme Ireland');
+        });
+    });
+
+    describe('completing', () => {
+        it('records the completed date on the obligation', () => {
+            nodes = [entity([obligation('quarterly', '2025-01-23', { completedDates: ['2025-04-23'] })])];
+            const [first] = service.getOccurrences(nodes, '2025-01-01', '2025-01-31');
+
+            service.toggleCompleted(first);
+
+            expect(updateNode.calls.mostRecent().args[1].obligations[0].completedDates).toEqual(['2025-01-23', '2025-04-23']);
+        });
+
+        it('turns a completed legacy filing date into a one-off obligation', () => {
+            nodes = [entity([], { filingDueDate: '2025-03-31', filingRevision: 1 })];
+            const [filing] = service.getOccurrences(nodes, '2025-01-01', '2025-12-31');
+
+            service.toggleCompleted(filing);
+
+            expect(updateNode.calls.mostRecent().args[1]).toEqual({
+                filingDueDate: undefined,
+                obligations: [{ id: 'filing-1', type: 'Filing', recurrence: 'once', firstDueDate: '2025-03-31', completedDates: ['2025-03-31'], revision: 2 }]
+            });
+        });
+    });
+});
@@ -0,0 +1,300 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramNode, Obligation } from './diagram.service';
+import { toIsoDate, addDays, addMonths } from '../utils/iso-date';
+
+export type Recurrence = Obligation['recurrence'];
+
+export type ComplianceState = 'overdue' | 'due-soon' | 'good' | 'none';
+
+export interface ObligationTemplate {
+    type: string;
+    recurrence: Recurrence;
+    // First due date in a calendar year, for a 31 December year end
+    month: number;
+    day: number;
+}
+
+export interface ObligationOccurrence {
+    entityId: string;
+    entityLabel: string;
+    // Null for the legacy single filingDueDate
+    obligationId: string | null;
+    type: string;
+    dueDate: string;
+    completed: boolean;
+    // Which occurrence of the obligation this is, counting from 0; moving the dates keeps it
+    period: number;
+    // Revision of the obligation or filing date, raised on every change
+    revision: number;
+}
+
+export interface ComplianceStatus {
+    state: ComplianceState;
+    // Nearest open occurrence driving the state
+    next?: ObligationOccurrence;
+}
+
+// Days ahead of a deadline that count as "due soon"
+export const DUE_SOON_DAYS = 30;
+
+export const COMPLIANCE_STATE_COLORS: Record<ComplianceState, string> = {
+    overdue: '#ef4444', // Red
+    'due-soon': '#f59e0b', // Orange
+    good: '#10b981', // Green
+    none: 'transparent'
+};
+
+export const COMPLIANCE_STATE_LABELS: Record<ComplianceState, string> = {
+    overdue: 'Overdue',
+    'due-soon': 'Due Soon',
+    good: 'Good Standing',
+    none: 'N/A'
+};
+
+// Indicative statutory deadlines per tax residency; adjust per entity after applying
+export const JURISDICTION_TEMPLATES: Record<string, ObligationTemplate[]> = {
+    'USA': [
+        { type: 'Federal CIT Return (Form 1120)', recurrence: 'annual', month: 4, day: 15 },
+        { type: 'Estimated Tax Payment', recurrence: 'quarterly', month: 4, day: 15 },
+        { type: 'Delaware Franchise Tax Report', recurrence: 'annual', month: 3, day: 1 }
+    ],
+    'United Kingdom': [
+        { type: 'CIT Return (CT600)', recurrence: 'annual', month: 12, day: 31 },
+        { type: 'Audited Accounts', recurrence: 'annual', month: 9, day: 30 },
+        { type: 'Confirmation Statement', recurrence: 'annual', month: 1, day: 14 },
+        { type: 'VAT Return', recurrence: 'quarterly', month: 2, day: 7 }
+    ],
+    'Ireland': [
+        { type: 'CIT Return (CT1)', recurrence: 'annual', month: 9, day: 23 },
+        { type: 'Annual Return (B1)', recurrence: 'annual', month: 10, day: 28 },
+        { type: 'VAT Return', recurrence: 'quarterly', month: 1, day: 23 }
+    ],
+    'Germany': [
+        { type: 'CIT & Trade Tax Return', recurrence: 'annual', month: 7, day: 31 },
+        { type: 'Annual Accounts Publication', recurrence: 'annual', month: 12, day: 31 },
+        { type: 'VAT Advance Return', recurrence: 'monthly', month: 1, day: 10 }
+    ],
+    'Luxembourg': [
+        { type: 'CIT Return', recurrence: 'annual', month: 5, day: 31 },
+        { type: 'Annual Accounts', recurrence: 'annual', month: 7, day: 31 },
+        { type: 'VAT Return', recurrence: 'quarterly', month: 1, day: 15 }
+    ],
+    'France': [
+        { type: 'CIT Return (Liasse Fiscale)', recurrence: 'annual', month: 5, day: 15 },
+        { type: 'Annual Accounts', recurrence: 'annual', month: 7, day: 31 },
+        { type: 'VAT Return', recurrence: 'monthly', month: 1, day: 19 }
+    ],
+    'China': [
+        { type: 'Annual CIT Reconciliation', recurrence: 'annual', month: 5, day: 31 },
+        { type: 'CIT Prepayment', recurrence: 'quarterly', month: 1, day: 15 },
+        { type: 'Annual Report (SAMR)', recurrence: 'annual', month: 6, day: 30 }
+    ],
+    'Singapore': [
+        { type: 'Estimated Chargeable Income', recurrence: 'annual', month: 3, day: 31 },
+        { type: 'CIT Return (Form C)', recurrence: 'annual', month: 11, day: 30 },
+        { type: 'Annual Return (ACRA)', recurrence: 'annual', month: 7, day: 31 }
+    ],
+    'Hong Kong': [
+        { type: 'Profits Tax Return', recurrence: 'annual', month: 8, day: 15 },
+        { type: 'Annual Return', recurrence: 'annual', month: 1, day: 31 }
+    ],
+    'Australia': [
+        { type: 'Company Tax Return', recurrence: 'annual', month: 7, day: 15 },
+        { type: 'Business Activity Statement', recurrence: 'quarterly', month: 1, day: 28 },
+        { type: 'ASIC Annual Review', recurrence: 'annual', month: 1, day: 31 }
+    ],
+    'Brazil': [
+        { type: 'ECD Bookkeeping', recurrence: 'annual', month: 5, day: 31 },
+        { type: 'ECF CIT Return', recurrence: 'annual', month: 7, day: 31 }
+    ],
+    'Bermuda': [
+        { type: 'Economic Substance Declaration', recurrence: 'annual', month: 12, day: 31 }
+    ],
+    'Cayman Islands': [
+        { type: 'Annual Return', recurrence: 'annual', month: 1, day: 31 },
+        { type: 'Economic Substance Notification', recurrence: 'annual', month: 1, day: 31 }
+    ]
+};
+
+const RECURRENCE_MONTHS: Record<Recurrence, number> = { once: 0, monthly: 1, quarterly: 3, annual: 12 };
+
+// Upper bound on generated occurrences per obligation
+const MAX_OCCURRENCES = 600;
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ComplianceService {
+    readonly isCalendarOpen = signal<boolean>(false);
+
+    // Today as an ISO date, refreshed when the calendar opens
+    readonly today = signal<string>(toIsoDate(new Date()));
+
+    readonly statusByEntity = computed(() => {
+        const statuses = new Map<string, ComplianceStatus>();
+        this.diagramService.nodes().forEach(node => statuses.set(node.id, this.computeStatus(node)));
+        return statuses;
+    });
+
+    constructor(private diagramService: DiagramService) { }
+
+    getStatus(node: DiagramNode): ComplianceStatus {
+        return this.statusByEntity().get(node.id) ?? this.computeStatus(node);
+    }
+
+    getTemplates(node: DiagramNode): ObligationTemplate[] {
+        return JURISDICTION_TEMPLATES[node.taxResidency?.trim() || ''] || JURISDICTION_TEMPLATES[node.jurisdiction?.trim() || ''] || [];
+    }
+
+    // Every occurrence between two ISO dates (inclusive) across the given entities
+    getOccurrences(nodes: DiagramNode[], from: string, to: string): ObligationOccurrence[] {
+        return nodes
+            .flatMap(node => this.occurrencesFor(node, to).filter(o => o.dueDate >= from))
+            .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.entityLabel.localeCompare(b.entityLabel));
+    }
+
+    // Earliest open occurrence, of one obligation or any: overdue ones first, then the next upcoming one
+    getNextOpen(node: DiagramNode, obligationId?: string): ObligationOccurrence | undefined {
+        const horizon = addMonths(this.today(), 13);
+        return this.occurrencesFor(node, horizon)
+            .find(o => !o.completed && (obligationId === undefined || o.obligationId === obligationId));
+    }
+
+    addObligation(entityId: string, obligation: Omit<Obligation, 'id'>) {
+        const node = this.diagramService.nodes().find(n => n.id === entityId);
+        if (!node) return;
+        const created = { ...obligation, id: this.createId() };
+        this.diagramService.updateNode(entityId, { obligations: [...(node.obligations || []), created] }, {
+            label: `Add ${obligation.type} to ${node.label}`
+        });
+    }
+
+    // Adds the jurisdiction's template obligations the entity does not track yet
+    applyTemplate(entityId: string) {
+        const node = this.diagramService.nodes().find(n => n.id === entityId);
+        if (!node) return;
+
+        const existing = new Set((node.obligations || []).map(o => o.type));
+        const added = this.getTemplates(node)
+            .filter(t => !existing.has(t.type))
+            .map(t => ({
+                id: this.createId(),
+                type: t.type,
+                recurrence: t.recurrence,
+                firstDueDate: this.nextTemplateDate(t)
+            }));
+        if (added.length === 0) return;
+
+        this.diagramService.updateNode(entityId, { obligations: [...(node.obligations || []), ...added] }, {
+            label: `Apply ${node.taxResidency || node.jurisdiction} obligations to ${node.label}`
+        });
+    }
+
+    removeObligation(entityId: string, obligationId: string) {
+        const node = this.diagramService.nodes().find(n => n.id === entityId);
+        const obligation = node?.obligations?.find(o => o.id === obligationId);
+        if (!node || !obligation) return;
+        this.diagramService.updateNode(entityId, {
+            obligations: node.obligations!.filter(o => o.id !== obligationId)
+        }, { label: `Remove ${obligation.type} from ${node.label}` });
+    }
+
+    toggleCompleted(occurrence: ObligationOccurrence) {
+        const node = this.diagramService.nodes().find(n => n.id === occurrence.entityId);
+        if (!node) return;
+        const verb = occurrence.completed ? 'Reopen' : 'Complete';
+        const label = `${verb} ${occurrence.type} (${occurrence.dueDate}) for ${node.label}`;
+
+        // The legacy filing date has nowhere to record completion, so completing it turns it
+        // into a one-off obligation under the id its calendar event already uses
+        if (occurrence.obligationId === null) {
+            if (occurrence.completed) return;
+            const filed: Obligation = {
+                id: this.legacyFilingId(node),
+                type: occurrence.type,
+                recurrence: 'once',
+                firstDueDate: occurrence.dueDate,
+                completedDates: [occurrence.dueDate],
+                revision: (node.filingRevision ?? 0) + 1
+            };
+            this.diagramService.updateNode(node.id, {
+                filingDueDate: undefined,
+                obligations: [...(node.obligations || []), filed]
+            }, { label });
+            return;
+        }
+
+        this.diagramService.updateNode(node.id, {
+            obligations: (node.obligations || []).map(o => {
+                if (o.id !== occurrence.obligationId) return o;
+                const completed = (o.completedDates || []).filter(d => d !== occurrence.dueDate);
+                return { ...o, completedDates: occurrence.completed ? completed : [...completed, occurrence.dueDate].sort() };
+            })
+        }, { label });
+    }
+
+    // Obligation id the entity's legacy filing date is exported under, and kept under once
+    // completed; numbered so a later filing date gets an event of its own
+    legacyFilingId(node: DiagramNode): string {
+        const filed = (node.obligations || []).filter(o => /^filing-\d+$/.test(o.id)).length;
+        return `filing-${filed + 1}`;
+    }
+
+    refreshToday() {
+        this.today.set(toIsoDate(new Date()));
+    }
+
+    // Occurrences of every obligation from its first due date up to `to`, earliest first
+    private occurrencesFor(node: DiagramNode, to: string): ObligationOccurrence[] {
+        const occurrences: ObligationOccurrence[] = [];
+
+        if (node.filingDueDate && node.filingDueDate <= to) {
+            occurrences.push({
+                entityId: node.id, entityLabel: node.label, obligationId: null,
+                type: 'Filing', dueDate: node.filingDueDate.slice(0, 10), completed: false,
+                period: 0, revision: node.filingRevision ?? 0
+            });
+        }
+
+        (node.obligations || []).forEach(obligation => {
+            const completed = new Set(obligation.completedDates || []);
+            const step = RECURRENCE_MONTHS[obligation.recurrence];
+            for (let i = 0; i < MAX_OCCURRENCES; i++) {
+                const dueDate = addMonths(obligation.firstDueDate, step * i);
+                if (dueDate > to) break;
+                occurrences.push({
+                    entityId: node.id, entityLabel: node.label, obligationId: obligation.id,
+                    type: obligation.type, dueDate, completed: completed.has(dueDate),
+                    period: i, revision: obligation.revision ?? 0
+                });
+                if (step === 0) break;
+            }
+        });
+
+        return occurrences.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+    }
+
+    private computeStatus(node: DiagramNode): ComplianceStatus {
+        const next = this.getNextOpen(node);
+        if (!next) return { state: 'none' };
+
+        const today = this.today();
+        if (next.dueDate < today) return { state: 'overdue', next };
+        if (next.dueDate <= addDays(today, DUE_SOON_DAYS)) return { state: 'due-soon', next };
+        return { state: 'good', next };
+    }
+
+    // First date on or after today in the template's cycle
+    private nextTemplateDate(template: ObligationTemplate): string {
+        const today = this.today();
+        const anchor = toIsoDate(new Date(Number(today.slice(0, 4)), template.month - 1, template.day));
+        const step = RECURRENCE_MONTHS[template.recurrence] || 12;
+        let date = anchor;
+        for (let i = 1; date < today; i++) date = addMonths(anchor, step * i);
+        return date;
+    }
+
+    private createId(): string {
+        return `ob-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+}
@@ -0,0 +1,142 @@
+import { TestBed, discardPeriodicTasks, fakeAsync, tick } from '@angular/core/testing';
+import { DiagramNode, DiagramService } from './diagram.service';
+import { AuditService } from './audit.service';
+import { HistoryService } from './history.service';
+import { OwnershipEngineService } from './ownership-engine.service';
+import { addDays, parseIsoDate, toIsoDate } from '../utils/iso-date';
+
+describe('DiagramService', () => {
+    let service: DiagramService;
+    let history: HistoryService;
+
+    const entity = () => service.nodes().find(n => n.id === 'IE1')!;
+    const obligation = { id: 'ob1', type: 'VAT Return', recurrence: 'quarterly' as const, firstDueDate: '2025-01-20' };
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: AuditService, useValue: { record: () => { }, closeGroup: () => { }, suspend: (action: () => void) => action() } }
+            ]
+        });
+        service = TestBed.inject(DiagramService);
+        history = TestBed.inject(HistoryService);
+        service.loadDiagram({
+            nodes: [{ id: 'IE1', label: 'Acme Ireland', filingDueDate: '2025-09-30', obligations: [obligation] }],
+            edges: []
+        });
+    });
+
+    describe('deadline revisions', () => {
+        it('raises the revision whenever a deadline moves, undo and redo included', () => {
+            service.updateNode('IE1', { filingDueDate: '2025-10-31' });
+            service.updateNode('IE1', { filingDueDate: '2025-11-30' });
+            expect(entity().filingRevision).toBe(2);
+
+            history.undo();
+            expect(entity()).toEqual(jasmine.objectContaining({ filingDueDate: '2025-10-31', filingRevision: 3 }));
+
+            history.redo();
+            expect(entity()).toEqual(jasmine.objectContaining({ filingDueDate: '2025-11-30', filingRevision: 4 }));
+        });
+
+        it('keeps the higher revision when an undo leaves the deadline where it is', () => {
+            service.updateNode('IE1', { obligations: [{ ...obligation, completedDates: ['2025-01-20'] }] });
+            service.updateNode('IE1', { jurisdiction: 'IE' });
+
+            history.undo();
+            history.undo();
+            history.redo();
+
+            expect(entity().obligations![0].revision).toBe(3);
+            history.redo();
+            expect(entity().obligations![0].revision).toBe(3);
+        });
+
+        it('leaves entities without a moved deadline unversioned', () => {
+            service.updateNode('IE1', { label: 'Acme Ireland DAC' });
+            history.undo();
+
+            expect(entity().filingRevision).toBeUndefined();
+            expect(entity().obligations![0].revision).toBeUndefined();
+        });
+    });
+
+    describe('scenarios', () => {
+        const labels = () => service.nodes().map(n => n.label);
+
+        it('keep their edits off the live structure', () => {
+            service.startSandbox('Hive-down');
+            service.updateNode('IE1', { label: 'Acme Ireland Holdings' });
+            expect(service.sandboxMode()).toBeTrue();
+            expect(service.getLiveData().data!.nodes[0].label).toBe('Acme Ireland');
+
+            service.switchScenario(null);
+
+            expect(labels()).toEqual(['Acme Ireland']);
+            expect(service.getScenarioData(service.scenarios()[0].id)!.data!.nodes[0].label).toBe('Acme Ireland Holdings');
+        });
+
+        it('each keep their own undo history', () => {
+            service.updateNode('IE1', { label: 'Live edit' });
+            service.startSandbox('A');
+            service.updateNode('IE1', { label: 'Edit in A' });
+            const scenarioA = service.activeScenarioId();
+
+            service.switchScenario(null);
+            expect(history.undoStack().map(e => e.label)).toEqual(['Import diagram', 'Edit Acme Ireland (label)']);
+
+            service.switchScenario(scenarioA);
+            history.undo();
+            expect(labels()).toEqual(['Live edit']);
+        });
+
+        it('promote to live as one undoable step and become permanent', () => {
+            service.startSandbox('Acquisition');
+            service.addNode({ id: 'DE1', label: 'Target GmbH', isDraft: true } as DiagramNode);
+            service.commitSandbox();
+
+            expect(service.sandboxMode()).toBeFalse();
+            expect(service.scenarios()).toEqual([]);
+            expect(service.nodes().map(n => [n.id, n.isDraft])).toEqual([['IE1', false], ['DE1', false]]);
+            expect(history.undoStack().at(-1)!.label).toBe('Promote scenario Acquisition');
+
+            history.undo();
+            expect(service.nodes().map(n => n.id)).toEqual(['IE1']);
+        });
+
+        it('return to live when the active one is discarded', () => {
+            service.startSandbox('Throwaway');
+            service.updateNode('IE1', { label: 'Gone' });
+            service.discardSandbox();
+
+            expect(service.sandboxMode()).toBeFalse();
+            expect(service.scenarios()).toEqual([]);
+            expect(labels()).toEqual(['Acme Ireland']);
+        });
+    });
+
+    describe('today', () => {
+        it('rolls over at midnight, taking stakes that start on the new day into the ownership figures', fakeAsync(() => {
+            // Built inside the fake zone so its minute check runs on the fake clock
+            const fresh = new DiagramService(history, TestBed.inject(OwnershipEngineService), TestBed.inject(AuditService));
+            const now = new Date();
+            const today = toIsoDate(now);
+            const tomorrow = addDays(today, 1);
+            fresh.loadDiagram({
+                nodes: [{ id: 'HQ', label: 'Holding' }, { id: 'IE1', label: 'Acme Ireland' }],
+                edges: [
+                    { id: 'e1', source: 'HQ', target: 'IE1', ownershipPercentage: 100, effectiveTo: today },
+                    { id: 'e2', source: 'HQ', target: 'IE1', ownershipPercentage: 60, effectiveFrom: tomorrow }
+                ]
+            });
+            expect(fresh.currentStructure().edges.map(e => e.id)).toEqual(['e1']);
+
+            tick(parseIsoDate(tomorrow).getTime() - now.getTime() + 60 * 1000);
+
+            expect(fresh.today()).toBe(tomorrow);
+            expect(fresh.currentStructure().edges.map(e => e.id)).toEqual(['e2']);
+            expect(fresh.nodes().find(n => n.id === 'IE1')!.effectiveOwnership).toBe(60);
+            discardPeriodicTasks();
+        }));
+    });
+});
@@ -1,8 +1,22 @@
 import { Injectable, signal, computed } from '@angular/core';
 import { z } from 'zod';
 import { Edge, Node } from '@swimlane/ngx-graph';
+import { HistoryService, HistoryStash } from './history.service';
+import { OwnershipEngineService } from './ownership-engine.service';
+import { AuditService } from './audit.service';
+import { isEffectiveOn, toIsoDate } from '../utils/iso-date';
+import { QueryField, queryFieldsOf, parseQuery } from '../utils/entity-query';
 
 // Zod Schemas
+export const ObligationSchema = z.object({
+    id: z.string(),
+    type: z.string(), // e.g. 'CIT Return', 'VAT Return'
+    recurrence: z.enum(['once', 'monthly', 'quarterly', 'annual']),
+    firstDueDate: z.string(), // ISO Date string anchoring the recurrence
+    completedDates: z.array(z.string()).optional(), // Due dates of completed occurrences
+    revision: z.number().optional(), // Bumped on every change, so calendar clients take exported updates
+});
+
 export const NodeSchema = z.object({
     id: z.string(),
     label: z.string(),
@@ -11,17 +25,46 @@ export const NodeSchema = z.object({
     // Enterprise Enhancements
     jurisdiction: z.string().optional(),
     taxId: z.string().optional(),
-    officers: z.array(z.string()).optional(),
-    filingDueDate: z.string().optional(), // ISO Date string
+    officers: z.array(z.string()).optional(), // Legacy officer names, migrated into people on load
+    filingDueDate: z.string().optional(), // ISO Date string, treated as a one-off obligation
+    filingRevision: z.number().optional(), // Bumped whenever filingDueDate changes, like Obligation.revision
+    obligations: z.array(ObligationSchema).optional(),
     isDraft: z.boolean().optional(), // Sandbox Mode
     // Enterprise Specific
     taxResidency: z.string().optional(),
     localCurrency: z.string().optional(),
     citRate: z.number().optional(),
     effectiveOwnership: z.number().optional(),
+    ownershipPercentage: z.number().optional(), // Direct stake held by group parents
+    indirectOwnership: z.number().optional(),
+    attributableOwnership: z.number().optional(), // Net of circular holdings
+    minorityInterest: z.number().optional(),
     status: z.enum(['Active', 'Liquidation', 'Acquisition']).optional(),
     region: z.string().optional(),
     pillarTwoStatus: z.enum(['In-Scope', 'Excluded', 'Safe-Harbor', 'Pending', 'N/A']).optional(),
+    // Incorporation or acquisition, and dissolution or disposal (ISO Date strings)
+    effectiveFrom: z.string().optional(),
+    effectiveTo: z.string().optional(),
+    // Financials from the statutory accounts, in the local currency
+    equity: z.number().optional(),
+    revenue: z.number().optional(),
+    profitBeforeTax: z.number().optional(),
+    // Pillar Two GloBE inputs for the fiscal year
+    globeIncome: z.number().optional(),
+    coveredTaxes: z.number().optional(),
+    eligiblePayroll: z.number().optional(),
+    tangibleAssets: z.number().optional(),
+    // Country-by-country report figures for the transitional safe harbour
+    cbcrRevenue: z.number().optional(),
+    cbcrProfitBeforeTax: z.number().optional(),
+    cbcrIncomeTax: z.number().optional(),
+    // Which safe harbour test justified the Safe-Harbor status
+    safeHarbour: z.object({
+        test: z.enum(['de-minimis', 'simplified-etr', 'routine-profits']),
+        fiscalYear: z.number(),
+        evaluatedAt: z.string(), // ISO timestamp
+        detail: z.string(),
+    }).optional(),
 });
 
 export const EdgeSchema = z.object({
@@ -31,16 +74,122 @@ export const EdgeSchema = z.object({
     label: z.string().optional(),
     ownershipPercentage: z.number().optional(),
     isDraft: z.boolean().optional(),
+    // When the stake was acquired and last held (ISO Date strings)
+    effectiveFrom: z.string().optional(),
+    effectiveTo: z.string().optional(),
+});
+
+export const AppointmentSchema = z.object({
+    id: z.string(),
+    entityId: z.string(),
+    role: z.enum(['director', 'secretary', 'signatory']),
+    appointedOn: z.string().optional(), // ISO Date string
+    resignedOn: z.string().optional(), // ISO Date string, unset while in office
+});
+
+// Officers are people in their own right, holding appointments across the group
+export const PersonSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    nationality: z.string().optional(),
+    appointments: z.array(AppointmentSchema),
+});
+
+export const ShareholdingSchema = z.object({
+    targetId: z.string(), // Group entity or another outside owner
+    percentage: z.number(),
+});
+
+// Shareholders outside the group: natural persons (potential UBOs) and external companies
+export const OwnerSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    kind: z.enum(['natural-person', 'external-entity']),
+    personId: z.string().optional(), // Same individual in the officer register
+    nationality: z.string().optional(),
+    countryOfResidence: z.string().optional(),
+    dateOfBirth: z.string().optional(), // ISO Date string
+    registrationNumber: z.string().optional(), // External shareholders only
+    shareholdings: z.array(ShareholdingSchema),
+});
+
+// Inter-company flow: the annual amount moves from source to target, i.e. the payer of
+// royalties, service fees, dividends or interest, or the lender of a loan
+export const FlowSchema = z.object({
+    id: z.string(),
+    source: z.string(),
+    target: z.string(),
+    type: z.enum(['loan', 'royalty', 'service-fee', 'dividend']),
+    annualAmount: z.number(),
+    currency: z.string(),
+    agreementRef: z.string().optional(),
+    isDraft: z.boolean().optional(),
 });
 
 export const DiagramSchema = z.object({
     nodes: z.array(NodeSchema),
     edges: z.array(EdgeSchema),
+    people: z.array(PersonSchema).optional(),
+    owners: z.array(OwnerSchema).optional(),
+    flows: z.array(FlowSchema).optional(),
 });
 
+export type DiagramData = z.infer<typeof DiagramSchema>;
+export type Obligation = z.infer<typeof ObligationSchema>;
+export type Appointment = z.infer<typeof AppointmentSchema>;
+export type Person = z.infer<typeof PersonSchema>;
+export type Owner = z.infer<typeof OwnerSchema>;
+export type Flow = z.infer<typeof FlowSchema>;
+export type DataOverlay = 'TAX' | 'OWNERSHIP' | 'FLOWS';
 export type DiagramNode = z.infer<typeof NodeSchema> & Node;
 export type DiagramEdge = z.infer<typeof EdgeSchema> & Edge;
 
+// Percentages that must lie between 0 and 100 wherever they are typed in or imported
+export const PERCENT_FIELDS = ['citRate', 'ownershipPercentage'];
+
+// Entity fields holding an ISO date string
+export const DATE_FIELDS = ['filingDueDate', 'effectiveFrom', 'effectiveTo'];
+
+// Entity fields the query bar can filter on, less the calendar revision counter
+export const QUERY_FIELDS: QueryField[] = queryFieldsOf(NodeSchema, DATE_FIELDS).filter(f => f.name !== 'filingRevision');
+
+export interface EntityFilters {
+    region?: string;
+    type?: string;
+    pillarTwo?: string;
+    // Query bar expression over QUERY_FIELDS
+    query?: string;
+    // Keep the ancestors of query matches so the tree stays connected
+    withAncestors?: boolean;
+}
+
+// Row of a flat entity list: the parent relationship is given inline
+export type FlatEntity = Partial<z.infer<typeof NodeSchema>> & { id: string, parentId?: string };
+
+export interface DiagramSnapshot {
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+    people: Person[];
+    owners: Owner[];
+    flows: Flow[];
+}
+
+// Named what-if branch of the live structure
+export interface SandboxScenario {
+    id: string;
+    name: string;
+    createdAt: number;
+    // Working copy as last left; the state signals hold it while the scenario is active
+    data: DiagramSnapshot;
+    history: HistoryStash | null;
+}
+
+// A working copy checked against the schema; error names the fields that failed
+export interface DiagramDataResult {
+    data: DiagramData | null;
+    error: string | null;
+}
+
 @Injectable({
     providedIn: 'root'
 })
@@ -48,52 +197,146 @@ export class DiagramService {
     // State Signals
     readonly nodes = signal<DiagramNode[]>([]);
     readonly edges = signal<DiagramEdge[]>([]);
+    readonly people = signal<Person[]>([]);
+    readonly owners = signal<Owner[]>([]);
+    readonly flows = signal<Flow[]>([]);
     readonly selectedNodeId = signal<string | null>(null);
     // View State
     readonly viewMode = signal<'diagram' | 'list' | 'designer'>('designer');
     readonly coloringMode = signal<'type' | 'jurisdiction' | 'status'>('type');
     readonly highlightedPath = signal<Set<string>>(new Set());
     // Enterprise Overlays
-    readonly dataOverlay = signal<'TAX' | 'OWNERSHIP'>('OWNERSHIP');
+    readonly dataOverlay = signal<DataOverlay>('OWNERSHIP');
     readonly isJsonDrawerOpen = signal<boolean>(false);
-    readonly activeFilters = signal<{ region?: string, type?: string, pillarTwo?: string }>({});
+    readonly activeFilters = signal<EntityFilters>({});
+    // Point-in-time view: the canvas shows the structure on this date; null shows every record
+    readonly timelineDate = signal<string | null>(null);
+    // Local calendar date the current structure is taken on; rolls over at midnight
+    readonly today = signal<string>(toIsoDate(new Date()));
+    // Canvas only: holdings drawn without their subsidiaries, and the entity whose subtree is shown
+    readonly collapsedIds = signal<Set<string>>(new Set());
+    readonly focusRootId = signal<string | null>(null);
 
     // View State Capture
     readonly requestCapture = signal<string | null>(null);
     readonly restoreViewState = signal<any>(null);
 
     // Sandbox State
-    readonly sandboxMode = signal<boolean>(false);
-    private originalState: { nodes: DiagramNode[], edges: DiagramEdge[] } | null = null;
+    readonly scenarios = signal<SandboxScenario[]>([]);
+    readonly activeScenarioId = signal<string | null>(null);
+    readonly sandboxMode = computed(() => this.activeScenarioId() !== null);
+    readonly activeScenario = computed(() => this.scenarios().find(s => s.id === this.activeScenarioId()) || null);
+    // Live structure and its undo history, set aside while a scenario is active
+    private originalState: DiagramSnapshot | null = null;
+    private liveHistory: HistoryStash | null = null;
 
     // Computed
     readonly selectedNode = computed(() =>
         this.nodes().find(n => n.id === this.selectedNodeId()) || null
     );
 
+    // Entities and stakes effective on the timeline date, with ownership recalculated for that date
+    readonly datedStructure = computed(() => {
+        const date = this.timelineDate();
+        if (!date) return { nodes: this.nodes(), edges: this.edges() };
+        const { nodes, edges } = this.effectiveOn(this.nodes(), this.edges(), date);
+        return { nodes: this.calculateEffectiveOwnership(nodes, edges), edges };
+    });
+
+    // Entities and stakes in force today. Totals, UBO look-through, the ETR rollup and
+    // repatriation routes work from this, so disposed entities and sold stakes drop out
+    readonly currentStructure = computed(() => this.effectiveOn(this.nodes(), this.edges(), this.today()));
+
+    readonly parsedQuery = computed(() => parseQuery(this.activeFilters().query ?? '', QUERY_FIELDS));
+
+    // Ancestors shown only to connect query matches to the top of the tree
+    readonly queryContextIds = computed(() => {
+        const { nodes, edges } = this.datedStructure();
+        return this.queryContext(nodes.filter(node => this.passesFilters(node)), edges);
+    });
+
     readonly filteredNodes = computed(() => {
-        const filters = this.activeFilters();
-        return this.nodes().filter(node => {
-            const regionMatch = !filters.region || node.region === filters.region;
-            const typeMatch = !filters.type || node.entityType === filters.type;
-            const pillarMatch = !filters.pillarTwo || node.pillarTwoStatus === filters.pillarTwo;
-            return regionMatch && typeMatch && pillarMatch;
-        });
+        const context = this.queryContextIds();
+        return this.datedStructure().nodes.filter(node => this.passesFilters(node) || context.has(node.id));
     });
 
     readonly filteredEdges = computed(() => {
         const visibleNodeIds = new Set(this.filteredNodes().map(n => n.id));
-        return this.edges().filter(edge =>
+        return this.datedStructure().edges.filter(edge =>
             visibleNodeIds.has(edge.source) && visibleNodeIds.has(edge.target)
         );
     });
 
-    constructor() {
+    // The filtered structure narrowed to the focused entity and everything below it
+    readonly focusedStructure = computed(() => {
+        const nodes = this.filteredNodes();
+        const edges = this.filteredEdges();
+        const focusId = this.focusRootId();
+        if (!focusId || !nodes.some(n => n.id === focusId)) return { nodes, edges };
+        const subtree = this.descendantsOf(focusId, this.childrenOf(edges)).add(focusId);
+        return {
+            nodes: nodes.filter(n => subtree.has(n.id)),
+            edges: edges.filter(e => subtree.has(e.source) && subtree.has(e.target))
+        };
+    });
+
+    // What the canvas draws: the focused structure less the entities below collapsed
+    // holdings, unless an expanded parent on the canvas holds them too
+    readonly canvasStructure = computed(() => {
+        const { nodes, edges } = this.focusedStructure();
+        const children = this.childrenOf(edges);
+        const descendantCounts = new Map(nodes
+            .filter(n => children.has(n.id))
+            .map(n => [n.id, this.descendantsOf(n.id, children).size]));
+        const collapsed = new Set(Array.from(this.collapsedIds()).filter(id => descendantCounts.has(id)));
+        const below = new Set<string>();
+        collapsed.forEach(id => this.descendantsOf(id, children).forEach(d => below.add(d)));
+
+        const visible = new Set(nodes.filter(n => !below.has(n.id)).map(n => n.id));
+        const queue = Array.from(visible);
+        while (queue.length) {
+            const id = queue.shift()!;
+            if (collapsed.has(id)) continue;
+            (children.get(id) ?? []).filter(child => !visible.has(child)).forEach(child => {
+                visible.add(child);
+                queue.push(child);
+            });
+        }
+
+        // Subsidiaries each collapsed holding is hiding
+        const hiddenCounts = new Map(Array.from(collapsed).map(id =>
+            [id, Array.from(this.descendantsOf(id, children)).filter(d => !visible.has(d)).length]));
+        return {
+            nodes: nodes.filter(n => visible.has(n.id)),
+            edges: edges.filter(e => visible.has(e.source) && visible.has(e.target)),
+            descendantCounts,
+            hiddenCounts
+        };
+    });
+
+    readonly focusRoot = computed(() => this.nodes().find(n => n.id === this.focusRootId()) || null);
+
+    constructor(
+        private history: HistoryService,
+        private ownershipEngine: OwnershipEngineService,
+        private audit: AuditService
+    ) {
         // Load initial sample data for testing
-        this.loadSampleData();
+        this.audit.suspend(() => this.loadSampleData());
+        this.history.clear();
+        // Checked every minute, so a session left open overnight moves on to the new day
+        setInterval(() => this.refreshToday(), 60 * 1000);
+    }
+
+    // Stakes starting or ending on the new day change the stored ownership figures too
+    refreshToday() {
+        const today = toIsoDate(new Date());
+        if (today === this.today()) return;
+        this.today.set(today);
+        this.nodes.set(this.withCurrentOwnership(this.nodes(), this.edges()));
     }
 
-    loadDiagram(json: unknown) {
+    loadDiagram(json: unknown, historyLabel = 'Import diagram') {
         try {
             const result = DiagramSchema.safeParse(json);
             if (!result.success) {
@@ -103,12 +346,18 @@ export class DiagramService {
             }
 
             const data = result.data;
-            this.nodes.set(data.nodes.map(n => ({
+            const { nodes, people } = this.migrateOfficers(data.nodes.map(n => ({
                 ...n,
                 label: n.label || n.id,
                 dimension: { width: 200, height: 90 }
-            }))); // Ensure basics for ngx-graph
-            this.edges.set(data.edges);
+            })), data.people || []); // Ensure basics for ngx-graph
+            this.recordChange(historyLabel, () => {
+                this.nodes.set(this.withCurrentOwnership(nodes, data.edges));
+                this.edges.set(data.edges);
+                this.people.set(people);
+                this.owners.set(data.owners || []);
+                this.flows.set(data.flows || []);
+            });
             this.selectedNodeId.set(null);
             this.highlightedPath.set(new Set());
         } catch (e) {
@@ -117,67 +366,325 @@ export class DiagramService {
         }
     }
 
-    updateNode(id: string, partial: Partial<DiagramNode>) {
-        this.nodes.update(nodes =>
-            nodes.map(n => n.id === id ? { ...n, ...partial } : n)
-        );
+    // Pass a groupKey to merge rapid successive edits (e.g. keystrokes) into one undo step
+    updateNode(id: string, partial: Partial<DiagramNode>, options: { label?: string, groupKey?: string } = {}) {
+        const node = this.nodes().find(n => n.id === id);
+        if (!node) return;
+
+        const label = options.label || `Edit ${node.label} (${Object.keys(partial).join(', ')})`;
+        this.recordChange(label, () => {
+            const nodes = this.nodes().map(n => n.id === id ? { ...n, ...partial } : n);
+            this.nodes.set(this.changesDates(partial) ? this.withCurrentOwnership(nodes, this.edges()) : nodes);
+        }, options.groupKey);
+    }
+
+    // Applies several entity edits as one undo step
+    updateNodes(updates: { id: string, partial: Partial<DiagramNode> }[], label: string) {
+        const byId = new Map(updates.map(u => [u.id, u.partial]));
+        if (!this.nodes().some(n => byId.has(n.id))) return;
+
+        this.recordChange(label, () => {
+            const nodes = this.nodes().map(n => byId.has(n.id) ? { ...n, ...byId.get(n.id) } : n);
+            this.nodes.set(updates.some(u => this.changesDates(u.partial)) ? this.withCurrentOwnership(nodes, this.edges()) : nodes);
+        });
+    }
+
+    updateEdge(id: string, partial: Partial<DiagramEdge>, options: { label?: string, groupKey?: string } = {}) {
+        const edge = this.edges().find(e => e.id === id);
+        if (!edge) return;
+
+        const label = options.label || `Edit stake ${edge.source} → ${edge.target} (${Object.keys(partial).join(', ')})`;
+        this.recordChange(label, () => {
+            const edges = this.edges().map(e => e.id === id ? { ...e, ...partial } : e);
+            this.edges.set(edges);
+            this.nodes.set(this.withCurrentOwnership(this.nodes(), edges));
+        }, options.groupKey);
+    }
+
+    // Replaces the officer register; appointments and resignations go through here
+    updatePeople(people: Person[], options: { label: string, groupKey?: string }) {
+        this.recordChange(options.label, () => this.people.set(people), options.groupKey);
+    }
+
+    // Replaces the register of outside shareholders and their stakes
+    updateOwners(owners: Owner[], options: { label: string, groupKey?: string }) {
+        this.recordChange(options.label, () => this.owners.set(owners), options.groupKey);
+    }
+
+    // Replaces the inter-company flows (loans, royalties, fees, dividends)
+    updateFlows(flows: Flow[], options: { label: string, groupKey?: string }) {
+        this.recordChange(options.label, () => this.flows.set(flows), options.groupKey);
     }
 
     selectNode(id: string | null) {
         this.selectedNodeId.set(id);
         if (id) {
+            this.revealNode(id);
             this.tracePathToRoot(id);
         } else {
             this.highlightedPath.set(new Set());
         }
     }
 
+    toggleCollapsed(id: string) {
+        this.collapsedIds.update(ids => {
+            const next = new Set(ids);
+            if (!next.delete(id)) next.add(id);
+            return next;
+        });
+    }
+
+    expandAll() {
+        this.collapsedIds.set(new Set());
+    }
+
+    // Collapses every holding `depth` levels below the top of the tree or the focused entity
+    collapseToDepth(depth: number) {
+        const { nodes, edges } = this.focusedStructure();
+        const children = this.childrenOf(edges);
+        const targets = new Set(edges.map(e => e.target));
+        let level = nodes.filter(n => !targets.has(n.id)).map(n => n.id);
+        const seen = new Set(level);
+        for (let i = 0; i < depth; i++) {
+            level = level.flatMap(id => children.get(id) ?? []).filter(id => !seen.has(id));
+            level.forEach(id => seen.add(id));
+        }
+        this.collapsedIds.set(new Set([
+            ...Array.from(this.collapsedIds()).filter(id => !seen.has(id)),
+            ...level.filter(id => children.has(id))
+        ]));
+    }
+
+    // Expands the collapsed holdings above the entity so the canvas shows it
+    revealNode(id: string) {
+        const collapsed = this.collapsedIds();
+        if (!collapsed.size || this.canvasStructure().nodes.some(n => n.id === id)) return;
+        const ancestors = new Set<string>();
+        const queue = [id];
+        while (queue.length) {
+            const current = queue.shift()!;
+            this.edges().filter(e => e.target === current && !ancestors.has(e.source)).forEach(e => {
+                ancestors.add(e.source);
+                queue.push(e.source);
+            });
+        }
+        if (Array.from(ancestors).some(a => collapsed.has(a))) {
+            this.collapsedIds.set(new Set(Array.from(collapsed).filter(a => !ancestors.has(a))));
+        }
+    }
+
+    focusOn(id: string | null) {
+        this.focusRootId.set(id);
+        if (id) this.revealNode(id);
+    }
+
+    // Query bar matches among the given entities, with their ancestors when asked, for views besides the canvas
+    applyQuery(nodes: DiagramNode[], edges: DiagramEdge[]): DiagramNode[] {
+        const predicate = this.parsedQuery().predicate;
+        if (!predicate) return nodes;
+        const matches = nodes.filter(n => predicate(n));
+        const context = this.queryContext(matches, edges);
+        return nodes.filter(n => matches.includes(n) || context.has(n.id));
+    }
+
     toggleColoringMode(mode: 'type' | 'jurisdiction' | 'status') {
         this.coloringMode.set(mode);
     }
 
     // Sandbox Methods
-    startSandbox() {
-        if (this.sandboxMode()) return;
-        this.originalState = {
-            nodes: JSON.parse(JSON.stringify(this.nodes())),
-            edges: JSON.parse(JSON.stringify(this.edges()))
+    // Each scenario branches from the live structure. While one is active the state signals
+    // hold its working copy; the live structure and its undo history are set aside until
+    // the user switches back, and every branch keeps its own undo history.
+    startSandbox(name = `Scenario ${this.scenarios().length + 1}`) {
+        const id = `sc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+        this.stashActiveBranch();
+        const scenario: SandboxScenario = {
+            id,
+            name,
+            createdAt: Date.now(),
+            data: this.cloneSnapshot(this.originalState ?? this.snapshot()),
+            history: null
         };
-        this.sandboxMode.set(true);
+        this.scenarios.update(scenarios => [...scenarios, scenario]);
+        this.activateBranch(id);
     }
 
-    commitSandbox() {
-        if (!this.sandboxMode()) return;
-        // Make all draft nodes permanent
-        this.nodes.update(nodes => nodes.map(n => ({ ...n, isDraft: false })));
-        this.edges.update(edges => edges.map(e => ({ ...e, isDraft: false })));
-        this.originalState = null;
-        this.sandboxMode.set(false);
+    // Pass null to return to the live structure; scenarios stay available
+    switchScenario(id: string | null) {
+        if (id === this.activeScenarioId()) return;
+        if (id !== null && !this.scenarios().some(s => s.id === id)) return;
+        this.stashActiveBranch();
+        this.activateBranch(id);
     }
 
-    discardSandbox() {
-        if (!this.sandboxMode() || !this.originalState) return;
-        this.nodes.set(this.originalState.nodes);
-        this.edges.set(this.originalState.edges);
+    renameScenario(id: string, name: string) {
+        if (!name.trim()) return;
+        this.scenarios.update(scenarios => scenarios.map(s => s.id === id ? { ...s, name: name.trim() } : s));
+    }
+
+    // Working copy of a scenario, including unsaved edits when it is the active one
+    getScenarioData(id: string): DiagramDataResult | null {
+        const scenario = this.scenarios().find(s => s.id === id);
+        if (!scenario) return null;
+        return this.checkData(id === this.activeScenarioId() ? this.snapshot() : scenario.data);
+    }
+
+    // The live structure, whichever branch is being edited
+    getLiveData(): DiagramDataResult {
+        return this.checkData(this.originalState ?? this.snapshot());
+    }
+
+    // Brings back scenarios kept from an earlier session, ahead of any started since; their undo history is not kept
+    restoreScenarios(scenarios: { id: string, name: string, createdAt: number, data: DiagramData }[]) {
+        const current = this.scenarios();
+        const restored: SandboxScenario[] = scenarios.filter(s => !current.some(c => c.id === s.id)).map(s => ({
+            id: s.id,
+            name: s.name,
+            createdAt: s.createdAt,
+            data: {
+                nodes: s.data.nodes.map(n => ({ ...n, label: n.label || n.id, dimension: { width: 200, height: 90 } })),
+                edges: s.data.edges,
+                people: s.data.people ?? [],
+                owners: s.data.owners ?? [],
+                flows: s.data.flows ?? []
+            },
+            history: null
+        }));
+        this.scenarios.set([...restored, ...current]);
+    }
+
+    private checkData(snapshot: DiagramSnapshot): DiagramDataResult {
+        const result = DiagramSchema.safeParse(snapshot);
+        if (result.success) return { data: result.data, error: null };
+        const error = result.error.issues.slice(0, 3).map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        return { data: null, error };
+    }
+
+    // Promotes the active (or given) scenario to live as one undoable step; drafts become permanent
+    commitSandbox(id = this.activeScenarioId()) {
+        const scenario = this.scenarios().find(s => s.id === id);
+        if (!scenario) return;
+        this.switchScenario(scenario.id);
+        const promoted = this.snapshot();
+
+        this.scenarios.update(scenarios => scenarios.filter(s => s.id !== scenario.id));
+        this.activateBranch(null);
+        this.recordChange(`Promote scenario ${scenario.name}`, () => {
+            this.nodes.set(promoted.nodes.map(n => ({ ...n, isDraft: false })));
+            this.edges.set(promoted.edges.map(e => ({ ...e, isDraft: false })));
+            this.people.set(promoted.people);
+            this.owners.set(promoted.owners);
+            this.flows.set((promoted.flows ?? []).map(f => ({ ...f, isDraft: false })));
+        });
+    }
+
+    // Deletes the active (or given) scenario; deleting the active one returns to live
+    discardSandbox(id = this.activeScenarioId()) {
+        if (!id || !this.scenarios().some(s => s.id === id)) return;
+        if (id === this.activeScenarioId()) {
+            this.scenarios.update(scenarios => scenarios.filter(s => s.id !== id));
+            this.activateBranch(null);
+        } else {
+            this.scenarios.update(scenarios => scenarios.filter(s => s.id !== id));
+        }
+    }
+
+    // Committed structure the running sandbox started from
+    getSandboxBaseline(): DiagramData | null {
+        return this.originalState ? DiagramSchema.parse(this.originalState) : null;
+    }
+
+    // Sets the current branch aside: the live structure, or the active scenario's working copy
+    private stashActiveBranch() {
+        const activeId = this.activeScenarioId();
+        if (activeId === null) {
+            this.originalState = this.cloneSnapshot(this.snapshot());
+            this.liveHistory = this.history.stash();
+            return;
+        }
+        const data = this.snapshot();
+        const history = this.history.stash();
+        this.scenarios.update(scenarios => scenarios.map(s => s.id === activeId ? { ...s, data, history } : s));
+    }
+
+    // Loads a branch into the state signals without recording an undo step
+    private activateBranch(id: string | null) {
+        const scenario = this.scenarios().find(s => s.id === id);
+        if (scenario) {
+            this.restoreSnapshot(scenario.data);
+            this.history.restore(scenario.history);
+            this.activeScenarioId.set(scenario.id);
+            return;
+        }
+        if (this.originalState) {
+            this.restoreSnapshot(this.originalState);
+            this.history.restore(this.liveHistory);
+        }
         this.originalState = null;
-        this.sandboxMode.set(false);
+        this.liveHistory = null;
+        this.activeScenarioId.set(null);
+    }
+
+    private cloneSnapshot(snapshot: DiagramSnapshot): DiagramSnapshot {
+        return JSON.parse(JSON.stringify(snapshot));
     }
 
     addNode(node: DiagramNode) {
         node.dimension = { width: 200, height: 90 };
-        this.nodes.update(nodes => [...nodes, node]);
+        this.recordChange(`Add ${node.label}`, () => {
+            this.nodes.update(nodes => [...nodes, node]);
+        });
     }
 
     removeNode(id: string) {
-        this.nodes.update(nodes => nodes.filter(n => n.id !== id));
-        this.edges.update(edges => edges.filter(e => e.source !== id && e.target !== id));
+        const node = this.nodes().find(n => n.id === id);
+        if (!node) return;
+
+        this.recordChange(`Remove ${node.label}`, () => {
+            const edges = this.edges().filter(e => e.source !== id && e.target !== id);
+            this.nodes.set(this.withCurrentOwnership(this.nodes().filter(n => n.id !== id), edges));
+            this.edges.set(edges);
+            if (this.people().some(p => p.appointments.some(a => a.entityId === id))) {
+                this.people.set(this.people().map(p => ({
+                    ...p,
+                    appointments: p.appointments.filter(a => a.entityId !== id)
+                })));
+            }
+            if (this.owners().some(o => o.shareholdings.some(h => h.targetId === id))) {
+                this.owners.set(this.owners().map(o => ({
+                    ...o,
+                    shareholdings: o.shareholdings.filter(h => h.targetId !== id)
+                })));
+            }
+            if (this.flows().some(f => f.source === id || f.target === id)) {
+                this.flows.set(this.flows().filter(f => f.source !== id && f.target !== id));
+            }
+        });
         if (this.selectedNodeId() === id) {
             this.selectedNodeId.set(null);
         }
     }
 
+    // Replaces the given parts of the structure as one undo step and recalculates
+    // ownership; used by the restructuring operations (see RestructuringService)
+    applyRestructuring(label: string, next: Partial<DiagramSnapshot>, selectId?: string) {
+        this.recordChange(label, () => {
+            const edges = next.edges ?? this.edges();
+            const nodes = (next.nodes ?? this.nodes())
+                .map(n => n.dimension ? n : { ...n, dimension: { width: 200, height: 90 } });
+            this.nodes.set(this.withCurrentOwnership(nodes, edges));
+            this.edges.set(edges);
+            if (next.people) this.people.set(next.people);
+            if (next.owners) this.owners.set(next.owners);
+            if (next.flows) this.flows.set(next.flows);
+        });
+
+        const selectedId = selectId ?? this.selectedNodeId();
+        this.selectNode(selectedId && this.nodes().some(n => n.id === selectedId) ? selectedId : null);
+    }
+
     // Enterprise Hierarchy Transformation Logic
-    loadFlatEntityList(entities: any[]) {
+    loadFlatEntityList(entities: any[], historyLabel = 'Load entity list') {
         const nodes: DiagramNode[] = [];
         const edges: DiagramEdge[] = [];
 
@@ -190,47 +697,262 @@ export class DiagramService {
 
             // 2. Create edges if parentId exists
             if (ent.parentId) {
-                edges.push({
-                    id: `e-${ent.parentId}-${ent.id}`,
-                    source: ent.parentId,
-                    target: ent.id,
-                    label: `${ent.ownershipPercentage}%`,
-                    ownershipPercentage: ent.ownershipPercentage
-                });
+                edges.push(this.createOwnershipEdge(ent.parentId, ent.id, ent.ownershipPercentage));
             }
         });
 
-        // 3. Calculate Effective Ownership
-        this.calculateEffectiveOwnership(nodes, edges);
+        // 3. Officer names become people with appointments
+        const migrated = this.migrateOfficers(nodes, []);
 
-        this.nodes.set(nodes);
-        this.edges.set(edges);
+        // 4. Calculate Effective Ownership
+        const ownedNodes = this.withCurrentOwnership(migrated.nodes, edges);
+
+        this.recordChange(historyLabel, () => {
+            this.nodes.set(ownedNodes);
+            this.edges.set(edges);
+            this.people.set(migrated.people);
+            this.owners.set([]);
+            this.flows.set([]);
+        });
     }
 
-    private calculateEffectiveOwnership(nodes: DiagramNode[], edges: DiagramEdge[]) {
-        // Simple recursive calculation for effective ownership
-        // Find roots (nodes with no parents)
-        const roots = nodes.filter(n => !edges.some(e => e.target === n.id));
+    // Upserts entities by id into the current structure: matching entities are updated,
+    // new ones are added, and a given parentId replaces the entity's parent edges
+    mergeFlatEntityList(entities: FlatEntity[], historyLabel = 'Merge entity list') {
+        const nodes = [...this.nodes()];
+        let edges = [...this.edges()];
 
-        roots.forEach(root => {
-            root.effectiveOwnership = 100;
-            this.propagateOwnership(root.id, 100, nodes, edges);
+        entities.forEach(ent => {
+            const { parentId, ...fields } = ent;
+            const provided = Object.fromEntries(
+                Object.entries(fields).filter(([, value]) => value !== undefined && value !== '')
+            );
+            const index = nodes.findIndex(n => n.id === ent.id);
+            if (index >= 0) {
+                nodes[index] = { ...nodes[index], ...provided };
+            } else {
+                nodes.push({ ...provided, id: ent.id, label: ent.label || ent.id, dimension: { width: 220, height: 100 } });
+            }
+
+            if (parentId) {
+                edges = edges.filter(e => e.target !== ent.id);
+                edges.push(this.createOwnershipEdge(parentId, ent.id, ent.ownershipPercentage));
+            }
+        });
+
+        const migrated = this.migrateOfficers(nodes, this.people());
+        this.recordChange(historyLabel, () => {
+            this.nodes.set(this.withCurrentOwnership(migrated.nodes, edges));
+            this.edges.set(edges);
+            this.people.set(migrated.people);
         });
     }
 
-    private propagateOwnership(parentId: string, parentEffective: number, nodes: DiagramNode[], edges: DiagramEdge[]) {
-        const childrenEdges = edges.filter(e => e.source === parentId);
-        childrenEdges.forEach(edge => {
-            const childNode = nodes.find(n => n.id === edge.target);
-            if (childNode) {
-                const directStake = edge.ownershipPercentage || 0;
-                const effectiveStake = (parentEffective * directStake) / 100;
-                childNode.effectiveOwnership = (childNode.effectiveOwnership || 0) + effectiveStake;
-                this.propagateOwnership(childNode.id, effectiveStake, nodes, edges);
-            }
+    // Turns legacy officer name lists into director appointments. Names are matched to
+    // existing people case-insensitively; seats a person already holds are not duplicated.
+    private migrateOfficers(nodes: DiagramNode[], people: Person[]): { nodes: DiagramNode[], people: Person[] } {
+        if (!nodes.some(n => n.officers?.length)) return { nodes, people };
+
+        const result = people.map(p => ({ ...p, appointments: [...p.appointments] }));
+        const stamp = Date.now().toString(36);
+        let sequence = 0;
+
+        const migratedNodes = nodes.map(node => {
+            if (!node.officers) return node;
+            node.officers.map(name => name.trim()).filter(Boolean).forEach(name => {
+                let person = result.find(p => p.name.trim().toLowerCase() === name.toLowerCase());
+                if (!person) {
+                    person = { id: `p-${stamp}-${sequence++}`, name, appointments: [] };
+                    result.push(person);
+                }
+                if (!person.appointments.some(a => a.entityId === node.id && !a.resignedOn)) {
+                    person.appointments.push({ id: `ap-${stamp}-${sequence++}`, entityId: node.id, role: 'director' });
+                }
+            });
+            const { officers, ...rest } = node;
+            return rest;
+        });
+        return { nodes: migratedNodes, people: result };
+    }
+
+    // A stake of unstated size is taken as whole; the import wizard asks for it explicitly
+    createOwnershipEdge(parentId: string, childId: string, ownershipPercentage = 100): DiagramEdge {
+        return {
+            id: `e-${parentId}-${childId}`,
+            source: parentId,
+            target: childId,
+            label: `${ownershipPercentage}%`,
+            ownershipPercentage
+        };
+    }
+
+    private effectiveOn(nodes: DiagramNode[], edges: DiagramEdge[], date: string): { nodes: DiagramNode[], edges: DiagramEdge[] } {
+        const effective = nodes.filter(n => isEffectiveOn(n, date));
+        const ids = new Set(effective.map(n => n.id));
+        return { nodes: effective, edges: edges.filter(e => isEffectiveOn(e, date) && ids.has(e.source) && ids.has(e.target)) };
+    }
+
+    // A new start or end date can bring an entity into, or take it out of, today's structure
+    private changesDates(partial: Partial<DiagramNode>): boolean {
+        return 'effectiveFrom' in partial || 'effectiveTo' in partial;
+    }
+
+    // Stored ownership reflects today's structure; ended stakes stay on record for the timeline
+    private withCurrentOwnership(nodes: DiagramNode[], edges: DiagramEdge[]): DiagramNode[] {
+        return this.calculateEffectiveOwnership(nodes, this.effectiveOn(nodes, edges, this.today()).edges);
+    }
+
+    // Returns copies of the nodes carrying direct, effective, attributable and minority
+    // ownership. Handles multiple parents and circular holdings (see OwnershipEngineService).
+    private calculateEffectiveOwnership(nodes: DiagramNode[], edges: DiagramEdge[]): DiagramNode[] {
+        const { results } = this.ownershipEngine.analyze(nodes.map(n => n.id), edges);
+        return nodes.map(node => {
+            const result = results.get(node.id)!;
+            return {
+                ...node,
+                ownershipPercentage: result.ultimateParentId ? result.directOwnership : (node.ownershipPercentage ?? 100),
+                effectiveOwnership: result.effectiveOwnership,
+                indirectOwnership: result.indirectOwnership,
+                attributableOwnership: result.attributableOwnership,
+                minorityInterest: result.minorityInterest
+            };
         });
     }
 
+    // History: every mutation is captured as a before/after snapshot command.
+    // Signal arrays are replaced, never mutated, so snapshots are cheap references.
+    // The audit log sees the same before/after pairs, undo and redo included.
+    // Ends the edit being typed, so the next one is its own undo step and audit change
+    closeGroup() {
+        this.history.closeGroup();
+        this.audit.closeGroup();
+    }
+
+    private recordChange(label: string, mutate: () => void, groupKey?: string) {
+        const before = this.snapshot();
+        mutate();
+        this.bumpDeadlineRevisions(before.nodes);
+        const after = this.snapshot();
+        if (before.nodes === after.nodes && before.edges === after.edges
+            && before.people === after.people && before.owners === after.owners
+            && before.flows === after.flows) return;
+
+        this.audit.record(label, before, after, { groupKey, scenario: this.activeScenario()?.name });
+        this.history.record({
+            label,
+            groupKey,
+            undo: () => this.restoreAudited(`Undo: ${label}`, before),
+            redo: () => this.restoreAudited(`Redo: ${label}`, after)
+        });
+    }
+
+    // Whatever made the change (an edit, an import, a merge, an undo), a moved or completed
+    // deadline gets a higher revision than it had, which the calendar export sends as SEQUENCE.
+    // Revisions never go down: undo and redo bring back nodes carrying earlier revisions, so
+    // an unmoved deadline keeps the higher of the two.
+    private bumpDeadlineRevisions(previous: DiagramNode[]) {
+        const nodes = this.nodes();
+        if (nodes === previous) return;
+        const before = new Map(previous.map(n => [n.id, n]));
+        const deadlineOf = (o: Obligation) => [o.type, o.recurrence, o.firstDueDate, ...(o.completedDates || [])].join('|');
+        const revisionAfter = (moved: boolean, current = 0, prior = 0) => moved ? Math.max(current, prior + 1) : Math.max(current, prior);
+        let bumped = false;
+        const next = nodes.map(node => {
+            const old = before.get(node.id);
+            if (!old || old === node) return node;
+            const filingRevision = revisionAfter(old.filingDueDate !== node.filingDueDate, node.filingRevision, old.filingRevision);
+            const oldObligations = new Map((old.obligations || []).map(o => [o.id, o]));
+            let obligationsBumped = false;
+            const obligations = old.obligations === node.obligations ? node.obligations : node.obligations?.map(o => {
+                const prior = oldObligations.get(o.id);
+                if (!prior) return o;
+                const revision = revisionAfter(deadlineOf(prior) !== deadlineOf(o), o.revision, prior.revision);
+                if (revision === (o.revision ?? 0)) return o;
+                obligationsBumped = true;
+                return { ...o, revision };
+            });
+            let updated = node;
+            if (filingRevision !== (node.filingRevision ?? 0)) updated = { ...updated, filingRevision };
+            if (obligationsBumped) updated = { ...updated, obligations };
+            if (updated !== node) bumped = true;
+            return updated;
+        });
+        if (bumped) this.nodes.set(next);
+    }
+
+    private restoreAudited(label: string, snapshot: DiagramSnapshot) {
+        const current = this.nodes();
+        this.audit.record(label, this.snapshot(), snapshot, { scenario: this.activeScenario()?.name });
+        this.restoreSnapshot(snapshot);
+        this.bumpDeadlineRevisions(current);
+    }
+
+    private snapshot(): DiagramSnapshot {
+        return {
+            nodes: this.nodes(), edges: this.edges(), people: this.people(), owners: this.owners(), flows: this.flows()
+        };
+    }
+
+    private restoreSnapshot(snapshot: DiagramSnapshot) {
+        this.nodes.set(snapshot.nodes);
+        this.edges.set(snapshot.edges);
+        this.people.set(snapshot.people);
+        this.owners.set(snapshot.owners);
+        // Snapshots saved before flows were tracked have none
+        this.flows.set(snapshot.flows ?? []);
+
+        const selectedId = this.selectedNodeId();
+        if (selectedId && !snapshot.nodes.some(n => n.id === selectedId)) {
+            this.selectNode(null);
+        } else if (selectedId) {
+            this.tracePathToRoot(selectedId);
+        }
+    }
+
+    private passesFilters(node: DiagramNode): boolean {
+        const filters = this.activeFilters();
+        const predicate = this.parsedQuery().predicate;
+        const regionMatch = !filters.region || node.region === filters.region;
+        const typeMatch = !filters.type || node.entityType === filters.type;
+        const pillarMatch = !filters.pillarTwo || node.pillarTwoStatus === filters.pillarTwo;
+        const queryMatch = !predicate || predicate(node);
+        return regionMatch && typeMatch && pillarMatch && queryMatch;
+    }
+
+    private childrenOf(edges: DiagramEdge[]): Map<string, string[]> {
+        const children = new Map<string, string[]>();
+        edges.forEach(e => children.set(e.source, [...(children.get(e.source) ?? []), e.target]));
+        return children;
+    }
+
+    private descendantsOf(id: string, children: Map<string, string[]>): Set<string> {
+        const found = new Set<string>();
+        const queue = [id];
+        while (queue.length) {
+            (children.get(queue.shift()!) ?? []).filter(child => child !== id && !found.has(child)).forEach(child => {
+                found.add(child);
+                queue.push(child);
+            });
+        }
+        return found;
+    }
+
+    // Ancestors of the matches that did not match themselves; empty unless asked for
+    private queryContext(matches: DiagramNode[], edges: DiagramEdge[]): Set<string> {
+        const context = new Set<string>();
+        if (!this.activeFilters().withAncestors || !this.activeFilters().query?.trim()) return context;
+        const matched = new Set(matches.map(n => n.id));
+        const queue = [...matched];
+        while (queue.length) {
+            const id = queue.shift()!;
+            edges.filter(e => e.target === id && !matched.has(e.source) && !context.has(e.source)).forEach(e => {
+                context.add(e.source);
+                queue.push(e.source);
+            });
+        }
+        return context;
+    }
+
     private tracePathToRoot(startNodeId: string) {
         const path = new Set<string>();
         const queue = [startNodeId];
@@ -253,10 +975,20 @@ export class DiagramService {
         this.highlightedPath.set(path);
     }
 
+    // Plain, schema-shaped copy of the structure without ngx-graph layout state
+    getDiagramData(): DiagramData {
+        return DiagramSchema.parse({
+            nodes: this.nodes(), edges: this.edges(), people: this.people(), owners: this.owners(), flows: this.flows()
+        });
+    }
+
     exportDiagram(): string {
         const data = {
             nodes: this.nodes(),
-            edges: this.edges()
+            edges: this.edges(),
+            people: this.people(),
+            owners: this.owners(),
+            flows: this.flows()
         };
         return JSON.stringify(data, null, 2);
     }
@@ -264,31 +996,31 @@ export class DiagramService {
     public loadSampleData() {
         const sampleNodes = [
             // Level 1: Global Holding (USA)
-            { id: 'G1', label: 'Enterprise Global Holdings Inc.', entityType: 'Holding', taxResidency: 'USA', localCurrency: 'USD', pillarTwoStatus: 'In-Scope', citRate: 21, status: 'Active', ownershipPercentage: 100, region: 'Americas' },
+            { id: 'G1', label: 'Enterprise Global Holdings Inc.', officers: ['Margaret Chen', 'David Okafor'], entityType: 'Holding', taxResidency: 'USA', localCurrency: 'USD', pillarTwoStatus: 'In-Scope', citRate: 21, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2011-03-14', region: 'Americas' },
 
             // Level 2: Regional Hubs
-            { id: 'G2', parentId: 'G1', label: 'Enterprise EMEA Hub S.a.r.l.', entityType: 'Holding', taxResidency: 'Luxembourg', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 24.9, status: 'Active', ownershipPercentage: 100, region: 'EMEA' },
-            { id: 'G3', parentId: 'G1', label: 'Enterprise APAC Pte Ltd.', entityType: 'Holding', taxResidency: 'Singapore', localCurrency: 'SGD', pillarTwoStatus: 'Safe-Harbor', citRate: 17, status: 'Active', ownershipPercentage: 100, region: 'APAC' },
+            { id: 'G2', parentId: 'G1', label: 'Enterprise EMEA Hub S.a.r.l.', officers: ['David Okafor', 'Luc Weber'], entityType: 'Holding', taxResidency: 'Luxembourg', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 24.9, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2013-09-02', region: 'EMEA' },
+            { id: 'G3', parentId: 'G1', label: 'Enterprise APAC Pte Ltd.', officers: ['Margaret Chen', 'Wei Lim'], entityType: 'Holding', taxResidency: 'Singapore', localCurrency: 'SGD', pillarTwoStatus: 'Safe-Harbor', citRate: 17, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2014-01-20', region: 'APAC' },
 
             // Level 3: EMEA Operations
-            { id: 'G4', parentId: 'G2', label: 'Enterprise Tech Ireland', entityType: 'Subsidiary', taxResidency: 'Ireland', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 12.5, status: 'Active', ownershipPercentage: 100, region: 'EMEA' },
-            { id: 'G5', parentId: 'G2', label: 'Enterprise DE Ops GmbH', entityType: 'Subsidiary', taxResidency: 'Germany', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 30, status: 'Active', ownershipPercentage: 90, region: 'EMEA' },
-            { id: 'G6', parentId: 'G2', label: 'Enterprise FR Trust', entityType: 'Trust', taxResidency: 'France', localCurrency: 'EUR', pillarTwoStatus: 'Excluded', citRate: 25, status: 'Active', ownershipPercentage: 100, region: 'EMEA' },
+            { id: 'G4', parentId: 'G2', label: 'Enterprise Tech Ireland', officers: ['Luc Weber', 'Aoife Byrne'], entityType: 'Subsidiary', taxResidency: 'Ireland', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 12.5, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2016-06-01', region: 'EMEA' },
+            { id: 'G5', parentId: 'G2', label: 'Enterprise DE Ops GmbH', officers: ['Luc Weber'], entityType: 'Subsidiary', taxResidency: 'Germany', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 30, status: 'Active', ownershipPercentage: 90, effectiveFrom: '2017-04-03', region: 'EMEA' },
+            { id: 'G6', parentId: 'G2', label: 'Enterprise FR Trust', entityType: 'Trust', taxResidency: 'France', localCurrency: 'EUR', pillarTwoStatus: 'Excluded', citRate: 25, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2018-11-19', region: 'EMEA' },
 
             // Level 3: APAC Operations
-            { id: 'G7', parentId: 'G3', label: 'Enterprise AU Pty Ltd', entityType: 'Subsidiary', taxResidency: 'Australia', localCurrency: 'AUD', pillarTwoStatus: 'Safe-Harbor', citRate: 30, status: 'Active', ownershipPercentage: 80, region: 'APAC' },
-            { id: 'G8', parentId: 'G3', label: 'Enterprise CN Manufacturing', entityType: 'Subsidiary', taxResidency: 'China', localCurrency: 'CNY', pillarTwoStatus: 'In-Scope', citRate: 25, status: 'Active', ownershipPercentage: 100, region: 'APAC' },
+            { id: 'G7', parentId: 'G3', label: 'Enterprise AU Pty Ltd', entityType: 'Subsidiary', taxResidency: 'Australia', localCurrency: 'AUD', pillarTwoStatus: 'Safe-Harbor', citRate: 30, status: 'Active', ownershipPercentage: 80, effectiveFrom: '2019-07-01', region: 'APAC' },
+            { id: 'G8', parentId: 'G3', label: 'Enterprise CN Manufacturing', officers: ['Wei Lim'], entityType: 'Subsidiary', taxResidency: 'China', localCurrency: 'CNY', pillarTwoStatus: 'In-Scope', citRate: 25, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2020-02-17', region: 'APAC' },
 
             // Level 4: Complex Indirects & Special Cases
-            { id: 'G9', parentId: 'G4', label: 'Enterprise UK Innovation', entityType: 'Limited', taxResidency: 'United Kingdom', localCurrency: 'GBP', pillarTwoStatus: 'Pending', citRate: 25, status: 'Acquisition', ownershipPercentage: 50, region: 'EMEA' },
-            { id: 'G10', parentId: 'G9', label: 'Enterprise IP Labs', entityType: 'Shell', taxResidency: 'Cayman Islands', localCurrency: 'USD', pillarTwoStatus: 'N/A', citRate: 0, status: 'Liquidation', ownershipPercentage: 100, region: 'EMEA' },
-            { id: 'G11', parentId: 'G5', label: 'Berlin Logistics J.V.', entityType: 'Subsidiary', taxResidency: 'Germany', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 30, status: 'Active', ownershipPercentage: 49, region: 'EMEA' },
-            { id: 'G12', parentId: 'G8', label: 'H.K. Trading Port', entityType: 'Branch', taxResidency: 'Hong Kong', localCurrency: 'HKD', pillarTwoStatus: 'Excluded', citRate: 16.5, status: 'Active', ownershipPercentage: 100, region: 'APAC' },
+            { id: 'G9', parentId: 'G4', label: 'Enterprise UK Innovation', entityType: 'Limited', taxResidency: 'United Kingdom', localCurrency: 'GBP', pillarTwoStatus: 'Pending', citRate: 25, status: 'Acquisition', ownershipPercentage: 50, effectiveFrom: '2023-10-02', region: 'EMEA' },
+            { id: 'G10', parentId: 'G9', label: 'Enterprise IP Labs', entityType: 'Shell', taxResidency: 'Cayman Islands', localCurrency: 'USD', pillarTwoStatus: 'N/A', citRate: 0, status: 'Liquidation', ownershipPercentage: 100, effectiveFrom: '2023-10-02', region: 'EMEA' },
+            { id: 'G11', parentId: 'G5', label: 'Berlin Logistics J.V.', entityType: 'Subsidiary', taxResidency: 'Germany', localCurrency: 'EUR', pillarTwoStatus: 'In-Scope', citRate: 30, status: 'Active', ownershipPercentage: 49, effectiveFrom: '2021-09-13', region: 'EMEA' },
+            { id: 'G12', parentId: 'G8', label: 'H.K. Trading Port', entityType: 'Branch', taxResidency: 'Hong Kong', localCurrency: 'HKD', pillarTwoStatus: 'Excluded', citRate: 16.5, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2022-03-01', region: 'APAC' },
 
             // Level 5: Deep Tier
-            { id: 'G13', parentId: 'G10', label: 'Legacy Asset Pool', entityType: 'Trust', taxResidency: 'Bermuda', localCurrency: 'USD', pillarTwoStatus: 'Excluded', citRate: 0, status: 'Liquidation', ownershipPercentage: 100, region: 'EMEA' },
-            { id: 'G14', parentId: 'G7', label: 'Sydney Sales Branch', entityType: 'Branch', taxResidency: 'Australia', localCurrency: 'AUD', pillarTwoStatus: 'Safe-Harbor', citRate: 30, status: 'Active', ownershipPercentage: 100, region: 'APAC' },
-            { id: 'G15', parentId: 'G1', label: 'Enterprise LatAm Assets', entityType: 'Holding', taxResidency: 'Brazil', localCurrency: 'BRL', pillarTwoStatus: 'Pending', citRate: 34, status: 'Active', ownershipPercentage: 100, region: 'Americas' }
+            { id: 'G13', parentId: 'G10', label: 'Legacy Asset Pool', entityType: 'Trust', taxResidency: 'Bermuda', localCurrency: 'USD', pillarTwoStatus: 'Excluded', citRate: 0, status: 'Liquidation', ownershipPercentage: 100, effectiveFrom: '2023-10-02', region: 'EMEA' },
+            { id: 'G14', parentId: 'G7', label: 'Sydney Sales Branch', entityType: 'Branch', taxResidency: 'Australia', localCurrency: 'AUD', pillarTwoStatus: 'Safe-Harbor', citRate: 30, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2023-01-09', region: 'APAC' },
+            { id: 'G15', parentId: 'G1', label: 'Enterprise LatAm Assets', entityType: 'Holding', taxResidency: 'Brazil', localCurrency: 'BRL', pillarTwoStatus: 'Pending', citRate: 34, status: 'Active', ownershipPercentage: 100, effectiveFrom: '2024-06-03', region: 'Americas' }
         ];
         this.loadFlatEntityList(sampleNodes);
     }
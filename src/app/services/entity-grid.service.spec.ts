@@ -0,0 +1,144 @@
+import { TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { DiagramEdge, DiagramNode, DiagramService } from './diagram.service';
+import { ComplianceService, ComplianceState } from './compliance.service';
+import { OfficerService } from './officer.service';
+import { EntityGridService, GridColumn } from './entity-grid.service';
+import { isEffectiveOn } from '../utils/iso-date';
+
+describe('EntityGridService', () => {
+    const TODAY = '2025-06-15';
+    const STORAGE_KEY = 'enterprise-entity-grid';
+
+    let service: EntityGridService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let edges: ReturnType<typeof signal<DiagramEdge[]>>;
+    let states: Record<string, ComplianceState>;
+
+    const entity = (id: string, fields: Partial<DiagramNode> = {}) => ({ id, label: id, ...fields }) as DiagramNode;
+    const stake = (source: string, target: string, ownershipPercentage: number, fields: Partial<DiagramEdge> = {}) =>
+        ({ id: `e-${source}-${target}`, source, target, ownershipPercentage, ...fields }) as DiagramEdge;
+    const column = (key: string) => service.columns.find(c => c.key === key)!;
+    const parse = (key: string, raw: string | boolean) => service.parse(column(key), raw);
+    const order = (key: string) => {
+        service.sort.set({ key, direction: 'asc' });
+        const asc = service.arrange(nodes())[0].nodes.map(n => n.id);
+        service.sort.set({ key, direction: 'desc' });
+        return [asc, service.arrange(nodes())[0].nodes.map(n => n.id)];
+    };
+
+    beforeEach(() => {
+        localStorage.removeItem(STORAGE_KEY);
+        nodes = signal([
+            entity('HQ', { label: 'Holding', jurisdiction: 'US', citRate: 21 }),
+            entity('IE1', { label: 'Ireland 10', jurisdiction: 'IE', citRate: 12.5 }),
+            entity('IE2', { label: 'Ireland 9', jurisdiction: 'IE' }),
+            entity('LU1', { label: 'Lux', citRate: 24.94 })
+        ]);
+        edges = signal([stake('HQ', 'IE1', 100), stake('HQ', 'IE2', 60), stake('IE1', 'IE2', 40), stake('HQ', 'LU1', 100)]);
+        states = { HQ: 'good', IE1: 'overdue', IE2: 'none', LU1: 'due-soon' };
+
+        const today = signal(TODAY);
+        TestBed.configureTestingModule({
+            providers: [
+                {
+                    provide: DiagramService,
+                    useValue: {
+                        nodes, edges, today,
+                        currentStructure: computed(() => ({
+                            nodes: nodes(),
+                            edges: edges().filter(e => isEffectiveOn(e, today()))
+                        }))
+                    }
+                },
+                { provide: ComplianceService, useValue: { getStatus: (node: DiagramNode) => ({ state: states[node.id] }) } },
+                { provide: OfficerService, useValue: { getBoard: () => [] } }
+            ]
+        });
+        service = TestBed.inject(EntityGridService);
+    });
+
+    describe('parse', () => {
+        it('reads numbers and keeps percentages between 0 and 100', () => {
+            expect(parse('citRate', ' 12.5 ')).toEqual({ value: 12.5 });
+            expect(parse('citRate', 'high')).toEqual({ error: 'CIT Rate % needs a number, not "high".' });
+            expect(parse('citRate', '101')).toEqual({ error: 'CIT Rate % must be between 0 and 100.' });
+            expect(parse('globeIncome', '-250000')).toEqual({ value: -250000 });
+        });
+
+        it('clears a field left empty, except the entity name', () => {
+            expect(parse('citRate', '  ')).toEqual({ value: undefined });
+            expect(parse('label', '')).toEqual({ error: 'Entity name cannot be empty.' });
+        });
+
+        it('needs calendar dates as YYYY-MM-DD', () => {
+            expect(parse('filingDueDate', '2025-02-28')).toEqual({ value: '2025-02-28' });
+            expect(parse('filingDueDate', '2025-02-30')).toEqual({ error: 'Filing Due needs a calendar date as YYYY-MM-DD.' });
+            expect(parse('filingDueDate', '28/02/2025')).toEqual({ error: 'Filing Due needs a calendar date as YYYY-MM-DD.' });
+        });
+
+        it('stores the canonical enum option whatever the case typed', () => {
+            expect(parse('status', 'liquidation')).toEqual({ value: 'Liquidation' });
+            expect(parse('status', 'Closed')).toEqual({ error: 'Status is one of Active, Liquidation, Acquisition.' });
+        });
+
+        it('reads booleans from a checkbox or typed text', () => {
+            const flag: GridColumn = { key: 'flag', label: 'Flag', kind: 'boolean', readOnly: false, bulkEditable: true, defaultWidth: 90 };
+
+            expect(service.parse(flag, true)).toEqual({ value: true });
+            expect(service.parse(flag, 'TRUE')).toEqual({ value: true });
+            expect(service.parse(flag, 'no')).toEqual({ value: false });
+        });
+    });
+
+    describe('sort', () => {
+        it('cycles ascending, descending and unsorted', () => {
+            service.toggleSort('label');
+            expect(service.sort()).toEqual({ key: 'label', direction: 'asc' });
+            service.toggleSort('label');
+            expect(service.sort()).toEqual({ key: 'label', direction: 'desc' });
+            service.toggleSort('label');
+            expect(service.sort()).toBeNull();
+        });
+
+        it('orders numbers by value and keeps empty cells last either way', () => {
+            expect(order('citRate')).toEqual([['IE1', 'HQ', 'LU1', 'IE2'], ['LU1', 'HQ', 'IE1', 'IE2']]);
+        });
+
+        it('orders text with the numbers in it compared as numbers', () => {
+            expect(order('label')[0]).toEqual(['HQ', 'IE2', 'IE1', 'LU1']);
+        });
+
+        it('orders compliance by urgency rather than by its label', () => {
+            expect(order('compliance')[0]).toEqual(['IE1', 'LU1', 'HQ', 'IE2']);
+        });
+    });
+
+    describe('arrange', () => {
+        it('groups by parent under the largest stake, with the top of the structure last', () => {
+            service.grouping.set('parent');
+
+            expect(service.arrange(nodes()).map(g => [g.label, g.nodes.map(n => n.id)])).toEqual([
+                ['Holding', ['IE1', 'IE2', 'LU1']],
+                ['Top of structure', ['HQ']]
+            ]);
+        });
+
+        it('shows only a parent whose stake is still in force', () => {
+            edges.set([stake('HQ', 'IE1', 100), stake('HQ', 'IE2', 60, { effectiveTo: '2025-06-14' }), stake('IE1', 'IE2', 40)]);
+
+            expect(service.value(nodes()[2], 'parent')).toBe('Ireland 10');
+        });
+
+        it('groups by jurisdiction, with entities without one last', () => {
+            service.grouping.set('jurisdiction');
+            service.sort.set({ key: 'label', direction: 'asc' });
+
+            expect(service.arrange(nodes()).map(g => [g.label, g.nodes.map(n => n.id)])).toEqual([
+                ['IE', ['IE2', 'IE1']],
+                ['US', ['HQ']],
+                ['No jurisdiction', ['LU1']]
+            ]);
+        });
+    });
+});
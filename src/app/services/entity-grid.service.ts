@@ -0,0 +1,264 @@
+import { Injectable, signal, computed, effect } from '@angular/core';
+import { DiagramService, DiagramNode, PERCENT_FIELDS, QUERY_FIELDS } from './diagram.service';
+import { ComplianceService, COMPLIANCE_STATE_LABELS, ComplianceState } from './compliance.service';
+import { OfficerService } from './officer.service';
+import { QueryFieldKind } from '../utils/entity-query';
+import { isIsoDate } from '../utils/iso-date';
+
+export type GridGrouping = 'none' | 'jurisdiction' | 'parent';
+
+export interface GridColumn {
+    key: string;
+    label: string;
+    kind: QueryFieldKind;
+    // Allowed values of an enum column
+    options?: string[];
+    // Derived from the stakes, officers or filings, or set by the app
+    readOnly: boolean;
+    // Unique per entity, so never set for many at once
+    bulkEditable: boolean;
+    defaultWidth: number;
+}
+
+export interface GridSort {
+    key: string;
+    direction: 'asc' | 'desc';
+}
+
+export interface GridGroup {
+    // Empty when the grid is not grouped
+    label: string;
+    nodes: DiagramNode[];
+}
+
+interface GridPreferences {
+    visible: string[];
+    widths: Record<string, number>;
+    sort: GridSort | null;
+    grouping: GridGrouping;
+}
+
+const STORAGE_KEY = 'enterprise-entity-grid';
+const MIN_WIDTH = 60;
+
+const LABELS: Record<string, string> = {
+    id: 'ID',
+    label: 'Entity Name',
+    entityType: 'Type',
+    taxId: 'Tax ID',
+    filingDueDate: 'Filing Due',
+    isDraft: 'Draft',
+    citRate: 'CIT Rate %',
+    effectiveOwnership: 'Effective %',
+    ownershipPercentage: 'Direct %',
+    indirectOwnership: 'Indirect %',
+    attributableOwnership: 'Attributable %',
+    minorityInterest: 'Minority %',
+    pillarTwoStatus: 'Pillar Two',
+    globeIncome: 'GloBE Income',
+    cbcrRevenue: 'CbCR Revenue',
+    cbcrProfitBeforeTax: 'CbCR PBT',
+    cbcrIncomeTax: 'CbCR Income Tax'
+};
+
+// Computed by the ownership roll-up or managed by sandbox mode
+const DERIVED_FIELDS = ['id', 'isDraft', 'effectiveOwnership', 'ownershipPercentage', 'indirectOwnership',
+    'attributableOwnership', 'minorityInterest'];
+const UNIQUE_FIELDS = ['id', 'label', 'taxId'];
+const DEFAULT_VISIBLE = ['label', 'entityType', 'jurisdiction', 'region', 'status', 'citRate', 'effectiveOwnership',
+    'parent', 'officers', 'compliance'];
+const COMPLIANCE_ORDER = Object.keys(COMPLIANCE_STATE_LABELS) as ComplianceState[];
+
+function humanize(name: string): string {
+    return name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+}
+
+/**
+ * Columns and layout of the entity grid. Every scalar field of an entity is a column,
+ * along with its parent, officer count and compliance status; the shown columns, their
+ * widths, the sort and the grouping are kept between sessions. Edits made in the grid go
+ * through the diagram service, so they are undoable and audited like any other.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class EntityGridService {
+    readonly columns: GridColumn[] = [
+        ...QUERY_FIELDS.map(f => ({
+            key: f.name,
+            label: LABELS[f.name] ?? humanize(f.name),
+            kind: f.kind,
+            options: f.options,
+            readOnly: DERIVED_FIELDS.includes(f.name),
+            bulkEditable: !DERIVED_FIELDS.includes(f.name) && !UNIQUE_FIELDS.includes(f.name),
+            defaultWidth: f.name === 'label' ? 240 : f.kind === 'number' ? 110 : 140
+        })),
+        { key: 'parent', label: 'Parent', kind: 'string', readOnly: true, bulkEditable: false, defaultWidth: 180 },
+        { key: 'officers', label: 'Officers', kind: 'number', readOnly: true, bulkEditable: false, defaultWidth: 90 },
+        { key: 'compliance', label: 'Status', kind: 'string', readOnly: true, bulkEditable: false, defaultWidth: 130 }
+    ];
+
+    readonly visibleKeys = signal<string[]>(DEFAULT_VISIBLE);
+    readonly widths = signal<Record<string, number>>({});
+    readonly sort = signal<GridSort | null>(null);
+    readonly grouping = signal<GridGrouping>('none');
+
+    readonly visibleColumns = computed(() => {
+        const visible = new Set(this.visibleKeys());
+        return this.columns.filter(c => visible.has(c.key));
+    });
+
+    // Largest current holder of each entity, by stake, for the Parent column and grouping
+    private readonly parentLabels = computed(() => {
+        const labels = new Map(this.diagramService.nodes().map(n => [n.id, n.label]));
+        const best = new Map<string, { label: string, stake: number }>();
+        this.diagramService.currentStructure().edges.forEach(e => {
+            const stake = e.ownershipPercentage ?? 0;
+            const current = best.get(e.target);
+            if (!current || stake > current.stake) best.set(e.target, { label: labels.get(e.source) ?? e.source, stake });
+        });
+        return new Map(Array.from(best.entries()).map(([id, parent]) => [id, parent.label]));
+    });
+
+    constructor(
+        private diagramService: DiagramService,
+        private complianceService: ComplianceService,
+        private officerService: OfficerService
+    ) {
+        this.load();
+        effect(() => {
+            const preferences: GridPreferences = {
+                visible: this.visibleKeys(),
+                widths: this.widths(),
+                sort: this.sort(),
+                grouping: this.grouping()
+            };
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+        });
+    }
+
+    value(node: DiagramNode, key: string): unknown {
+        switch (key) {
+            case 'parent': return this.parentLabels().get(node.id);
+            case 'officers': return this.officerService.getBoard(node.id).length;
+            case 'compliance': return COMPLIANCE_STATE_LABELS[this.complianceService.getStatus(node).state];
+            default: return node[key as keyof DiagramNode];
+        }
+    }
+
+    widthOf(column: GridColumn): number {
+        return this.widths()[column.key] ?? column.defaultWidth;
+    }
+
+    setWidth(key: string, width: number) {
+        this.widths.update(w => ({ ...w, [key]: Math.max(MIN_WIDTH, Math.round(width)) }));
+    }
+
+    // Ascending, then descending, then unsorted
+    toggleSort(key: string) {
+        const current = this.sort();
+        if (current?.key !== key) this.sort.set({ key, direction: 'asc' });
+        else if (current.direction === 'asc') this.sort.set({ key, direction: 'desc' });
+        else this.sort.set(null);
+    }
+
+    toggleColumn(key: string) {
+        this.visibleKeys.update(keys => keys.includes(key) ? keys.filter(k => k !== key) : [...keys, key]);
+    }
+
+    resetColumns() {
+        this.visibleKeys.set(DEFAULT_VISIBLE);
+        this.widths.set({});
+    }
+
+    // Sorted rows, in groups ordered by name with the unassigned group last
+    arrange(nodes: DiagramNode[]): GridGroup[] {
+        const sorted = this.sorted(nodes);
+        const grouping = this.grouping();
+        if (grouping === 'none') return [{ label: '', nodes: sorted }];
+
+        const fallback = grouping === 'jurisdiction' ? 'No jurisdiction' : 'Top of structure';
+        const groups = new Map<string, DiagramNode[]>();
+        sorted.forEach(node => {
+            const label = (grouping === 'jurisdiction' ? node.jurisdiction : this.parentLabels().get(node.id)) || fallback;
+            groups.set(label, [...(groups.get(label) ?? []), node]);
+        });
+        return Array.from(groups.entries())
+            .map(([label, members]) => ({ label, nodes: members }))
+            .sort((a, b) => a.label === fallback ? 1 : b.label === fallback ? -1 : a.label.localeCompare(b.label));
+    }
+
+    // Reads a typed or picked cell value; an empty value clears the field
+    parse(column: GridColumn, raw: string | boolean): { value?: unknown, error?: string } {
+        if (typeof raw === 'boolean') return { value: raw };
+        const text = raw.trim();
+        if (!text) {
+            return column.key === 'label' ? { error: 'Entity name cannot be empty.' } : { value: undefined };
+        }
+        if (column.kind === 'number') {
+            const value = Number(text);
+            if (!Number.isFinite(value)) return { error: `${column.label} needs a number, not "${text}".` };
+            if (PERCENT_FIELDS.includes(column.key) && (value < 0 || value > 100)) {
+                return { error: `${column.label} must be between 0 and 100.` };
+            }
+            return { value };
+        }
+        if (column.kind === 'date' && !isIsoDate(text)) {
+            return { error: `${column.label} needs a calendar date as YYYY-MM-DD.` };
+        }
+        if (column.kind === 'enum') {
+            // Matched regardless of case, as in the query bar, and stored as the canonical option
+            const option = column.options?.find(o => o.toLowerCase() === text.toLowerCase());
+            return option ? { value: option } : { error: `${column.label} is one of ${column.options?.join(', ')}.` };
+        }
+        if (column.kind === 'boolean') return { value: text.toLowerCase() === 'true' };
+        return { value: text };
+    }
+
+    updateCell(node: DiagramNode, column: GridColumn, value: unknown) {
+        if (column.readOnly || node[column.key as keyof DiagramNode] === value) return;
+        this.diagramService.updateNode(node.id, { [column.key]: value } as Partial<DiagramNode>, { label: `Edit ${node.label} (${column.label})` });
+    }
+
+    // One undo step for the whole selection
+    bulkUpdate(ids: string[], column: GridColumn, value: unknown) {
+        if (!column.bulkEditable || !ids.length) return;
+        this.diagramService.updateNodes(ids.map(id => ({ id, partial: { [column.key]: value } as Partial<DiagramNode> })),
+            `Set ${column.label} for ${ids.length} entities`);
+    }
+
+    private sorted(nodes: DiagramNode[]): DiagramNode[] {
+        const sort = this.sort();
+        if (!sort) return nodes;
+        const factor = sort.direction === 'asc' ? 1 : -1;
+        const rank = (node: DiagramNode): unknown => sort.key === 'compliance'
+            ? COMPLIANCE_ORDER.indexOf(this.complianceService.getStatus(node).state)
+            : this.value(node, sort.key);
+        const keyed = nodes.map(node => ({ node, value: rank(node) }));
+        keyed.sort((a, b) => {
+            // Empty cells stay at the bottom either way
+            const aEmpty = a.value === undefined || a.value === null || a.value === '';
+            const bEmpty = b.value === undefined || b.value === null || b.value === '';
+            if (aEmpty || bEmpty) return Number(aEmpty) - Number(bEmpty);
+            if (typeof a.value === 'number' && typeof b.value === 'number') return (a.value - b.value) * factor;
+            return String(a.value).localeCompare(String(b.value), undefined, { numeric: true }) * factor;
+        });
+        return keyed.map(k => k.node);
+    }
+
+    private load() {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            try {
+                const preferences: GridPreferences = JSON.parse(stored);
+                const known = new Set(this.columns.map(c => c.key));
+                this.visibleKeys.set((preferences.visible ?? DEFAULT_VISIBLE).filter(k => known.has(k)));
+                this.widths.set(preferences.widths ?? {});
+                this.sort.set(preferences.sort ?? null);
+                this.grouping.set(preferences.grouping ?? 'none');
+            } catch (e) {
+                console.error('Failed to parse entity grid settings from storage', e);
+            }
+        }
+    }
+}
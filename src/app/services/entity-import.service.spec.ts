@@ -0,0 +1,101 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramNode, DiagramService } from './diagram.service';
+import { EntityImportService, ImportTable } from './entity-import.service';
+
+describe('EntityImportService', () => {
+    let service: EntityImportService;
+    let existing: ReturnType<typeof signal<DiagramNode[]>>;
+
+    const HEADERS = ['Entity ID', 'Name', 'Parent', 'Ownership %', 'CIT Rate', 'Incorporated', 'Directors'];
+    const table = (...rows: unknown[][]): ImportTable =>
+        ({ fileName: 'entities.csv', sheetNames: ['Sheet1'], sheetName: 'Sheet1', headers: HEADERS, rows });
+    const preview = (rows: unknown[][], mode: 'replace' | 'merge' = 'replace') =>
+        service.buildPreview(table(...rows), service.suggestMapping(HEADERS), mode);
+
+    beforeEach(() => {
+        existing = signal<DiagramNode[]>([]);
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { nodes: existing } }]
+        });
+        service = TestBed.inject(EntityImportService);
+    });
+
+    it('maps headers by their known spellings only', () => {
+        const mapping = service.suggestMapping(['Code', 'Legal Name', 'From', 'To', 'Dissolved']);
+
+        expect(mapping.id).toBe(0);
+        expect(mapping.label).toBe(1);
+        expect(mapping.effectiveFrom).toBe(-1);
+        expect(mapping.effectiveTo).toBe(4);
+    });
+
+    it('converts numbers, dates and lists', () => {
+        const [row] = preview([['HQ', 'Holding', '', '', '21 %', new Date(2011, 2, 14), 'Ann Lee; Bo Chen|Cy Diaz']]);
+
+        expect(row.errors).toEqual([]);
+        expect(row.entity).toEqual(jasmine.objectContaining({
+            id: 'HQ', label: 'Holding', citRate: 21, effectiveFrom: '2011-03-14', officers: ['Ann Lee', 'Bo Chen', 'Cy Diaz']
+        }));
+        expect(row.entity.parentId).toBeUndefined();
+    });
+
+    it('rejects values that are not numbers or calendar dates', () => {
+        const [row] = preview([['HQ', 'Holding', '', '', 'high', '2024-02-30', '']]);
+
+        expect(row.errors).toContain('CIT Rate: "high" is not a number');
+        expect(row.errors).toContain('Effective From: "2024-02-30" is not a calendar date');
+    });
+
+    it('checks required fields and percentage ranges', () => {
+        const [missing, outOfRange] = preview([
+            ['', '', '', '', '', '', ''],
+            ['HQ', 'Holding', '', '', '120', '', '']
+        ]);
+
+        expect(missing.errors).toEqual(['Entity ID is required', 'Entity Name is required']);
+        expect(outOfRange.errors).toEqual(['CIT Rate must be between 0 and 100']);
+    });
+
+    it('requires a stake size when a parent is given', () => {
+        const [, child] = preview([
+            ['HQ', 'Holding', '', '', '', '', ''],
+            ['SUB', 'Subsidiary', 'HQ', '', '', '', '']
+        ]);
+
+        expect(child.errors).toEqual(['Ownership % is required when a parent is given']);
+    });
+
+    it('flags duplicate IDs and entities owning themselves', () => {
+        const rows = preview([
+            ['HQ', 'Holding', '', '', '', '', ''],
+            ['HQ', 'Holding copy', '', '', '', '', ''],
+            ['SELF', 'Loop', 'SELF', '100', '', '', '']
+        ]);
+
+        expect(rows[0].errors).toEqual(['Duplicate entity ID "HQ"']);
+        expect(rows[1].errors).toEqual(['Duplicate entity ID "HQ"']);
+        expect(rows[2].errors).toEqual(['Entity cannot be its own parent']);
+    });
+
+    it('drops every row stranded below a row with errors', () => {
+        const rows = preview([
+            ['HQ', 'Holding', '', '', 'n/a', '', ''],
+            ['SUB', 'Subsidiary', 'HQ', '100', '', '', ''],
+            ['OPCO', 'Operating Co', 'SUB', '60', '', '', ''],
+            ['ORPHAN', 'Orphan', 'NOPE', '100', '', '', '']
+        ]);
+
+        expect(rows[1].errors).toEqual(['Parent "HQ" is not imported (row 2 has errors)']);
+        expect(rows[2].errors).toEqual(['Parent "SUB" is not imported (row 3 has errors)']);
+        expect(rows[3].errors).toEqual(['Unknown parent "NOPE"']);
+    });
+
+    it('accepts parents already in the structure when merging', () => {
+        existing.set([{ id: 'HQ', label: 'Holding' } as DiagramNode]);
+        const rows = [['SUB', 'Subsidiary', 'HQ', '100', '', '', '']];
+
+        expect(preview(rows, 'merge')[0].errors).toEqual([]);
+        expect(preview(rows, 'replace')[0].errors).toEqual(['Unknown parent "HQ"']);
+    });
+});
@@ -0,0 +1,213 @@
+import { Injectable, signal } from '@angular/core';
+import type { WorkBook } from 'xlsx';
+import { DiagramService, FlatEntity, NodeSchema, PERCENT_FIELDS } from './diagram.service';
+import { isIsoDate } from '../utils/iso-date';
+
+export type ImportFieldType = 'string' | 'number' | 'date' | 'list';
+
+export interface ImportField {
+    key: keyof FlatEntity;
+    label: string;
+    type: ImportFieldType;
+    required?: boolean;
+    // Header spellings recognised when suggesting a mapping
+    aliases: string[];
+}
+
+export interface ImportTable {
+    fileName: string;
+    sheetNames: string[];
+    sheetName: string;
+    headers: string[];
+    rows: unknown[][];
+}
+
+// Column index per target field; -1 leaves the field unmapped
+export type ColumnMapping = Partial<Record<keyof FlatEntity, number>>;
+
+export interface ImportPreviewRow {
+    rowNumber: number;
+    entity: FlatEntity;
+    errors: string[];
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+    { key: 'id', label: 'Entity ID', type: 'string', required: true, aliases: ['id', 'entityid', 'entitycode', 'code'] },
+    { key: 'label', label: 'Entity Name', type: 'string', required: true, aliases: ['label', 'name', 'entityname', 'legalname'] },
+    { key: 'parentId', label: 'Parent ID', type: 'string', aliases: ['parentid', 'parent', 'parentcode', 'parententity'] },
+    { key: 'ownershipPercentage', label: 'Ownership %', type: 'number', aliases: ['ownershippercentage', 'ownership', 'stake', 'holding'] },
+    { key: 'entityType', label: 'Entity Type', type: 'string', aliases: ['entitytype', 'type'] },
+    { key: 'jurisdiction', label: 'Jurisdiction', type: 'string', aliases: ['jurisdiction', 'country', 'incorporation'] },
+    { key: 'taxId', label: 'Tax ID', type: 'string', aliases: ['taxid', 'ein', 'tin', 'vat'] },
+    { key: 'taxResidency', label: 'Tax Residency', type: 'string', aliases: ['taxresidency', 'residency', 'residence'] },
+    { key: 'localCurrency', label: 'Local Currency', type: 'string', aliases: ['localcurrency', 'currency', 'ccy'] },
+    { key: 'citRate', label: 'CIT Rate', type: 'number', aliases: ['citrate', 'cit', 'taxrate'] },
+    { key: 'equity', label: 'Equity', type: 'number', aliases: ['equity', 'netassets', 'totalequity'] },
+    { key: 'revenue', label: 'Revenue', type: 'number', aliases: ['revenue', 'turnover', 'sales'] },
+    { key: 'profitBeforeTax', label: 'Profit before Tax', type: 'number', aliases: ['profitbeforetax', 'pbt', 'pretaxprofit'] },
+    { key: 'status', label: 'Status', type: 'string', aliases: ['status'] },
+    { key: 'region', label: 'Region', type: 'string', aliases: ['region'] },
+    { key: 'pillarTwoStatus', label: 'Pillar Two Status', type: 'string', aliases: ['pillartwostatus', 'pillartwo', 'p2', 'globe'] },
+    { key: 'filingDueDate', label: 'Filing Due Date', type: 'date', aliases: ['filingduedate', 'duedate', 'filingdate'] },
+    { key: 'effectiveFrom', label: 'Effective From', type: 'date', aliases: ['effectivefrom', 'incorporated', 'incorporationdate', 'acquired'] },
+    { key: 'effectiveTo', label: 'Effective To', type: 'date', aliases: ['effectiveto', 'dissolved', 'dissolutiondate', 'disposed'] },
+    { key: 'officers', label: 'Officers (; separated)', type: 'list', aliases: ['officers', 'directors'] },
+    { key: 'color', label: 'Color', type: 'string', aliases: ['color', 'colour'] }
+];
+
+@Injectable({
+    providedIn: 'root'
+})
+export class EntityImportService {
+    readonly table = signal<ImportTable | null>(null);
+    readonly mapping = signal<ColumnMapping>({});
+
+    private workbook: WorkBook | null = null;
+
+    constructor(private diagramService: DiagramService) { }
+
+    async openFile(file: File) {
+        const XLSX = await import('xlsx');
+        const isCsv = /\.csv$/i.test(file.name);
+        // raw keeps CSV cells as text so codes like "007" survive
+        this.workbook = isCsv
+            ? XLSX.read(await file.text(), { type: 'string', raw: true })
+            : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+        this.table.set({ fileName: file.name, sheetNames: this.workbook.SheetNames, sheetName: '', headers: [], rows: [] });
+        await this.selectSheet(this.workbook.SheetNames[0]);
+    }
+
+    async selectSheet(sheetName: string) {
+        const table = this.table();
+        if (!this.workbook || !table) return;
+
+        const XLSX = await import('xlsx');
+        const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(this.workbook.Sheets[sheetName], {
+            header: 1, raw: true, defval: '', blankrows: false
+        });
+        const headers = headerRow.map(h => String(h).trim());
+        this.table.set({ ...table, sheetName, headers, rows });
+        this.mapping.set(this.suggestMapping(headers));
+    }
+
+    mapColumn(field: keyof FlatEntity, column: number) {
+        this.mapping.update(mapping => ({ ...mapping, [field]: column }));
+    }
+
+    close() {
+        this.table.set(null);
+        this.workbook = null;
+    }
+
+    suggestMapping(headers: string[]): ColumnMapping {
+        const normalized = headers.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ''));
+        const mapping: ColumnMapping = {};
+        IMPORT_FIELDS.forEach(field => {
+            mapping[field.key] = normalized.findIndex(h => field.aliases.includes(h));
+        });
+        return mapping;
+    }
+
+    buildPreview(table: ImportTable, mapping: ColumnMapping, mode: 'replace' | 'merge'): ImportPreviewRow[] {
+        const preview = table.rows.map((row, index) => this.convertRow(row, index + 2, mapping));
+
+        // Cross-row checks: unique IDs and resolvable parents
+        const idCounts = new Map<string, number>();
+        preview.forEach(r => idCounts.set(r.entity.id, (idCounts.get(r.entity.id) || 0) + 1));
+        preview.forEach(({ entity, errors }) => {
+            if (entity.id && idCounts.get(entity.id)! > 1) errors.push(`Duplicate entity ID "${entity.id}"`);
+            if (entity.parentId && entity.parentId === entity.id) errors.push('Entity cannot be its own parent');
+        });
+
+        // Only rows that will be imported can be parents. Skipping a row can strand its
+        // subsidiaries in turn, so repeat until no more rows drop out.
+        const existingIds = new Set(mode === 'merge' ? this.diagramService.nodes().map(n => n.id) : []);
+        const rowsById = new Map(preview.map(r => [r.entity.id, r]));
+        let stranded: ImportPreviewRow[];
+        do {
+            const importedIds = new Set(preview.filter(r => r.errors.length === 0).map(r => r.entity.id));
+            stranded = preview.filter(({ entity, errors }) => errors.length === 0 && entity.parentId
+                && !importedIds.has(entity.parentId) && !existingIds.has(entity.parentId));
+            stranded.forEach(({ entity, errors }) => {
+                const parentRow = rowsById.get(entity.parentId!);
+                errors.push(parentRow
+                    ? `Parent "${entity.parentId}" is not imported (row ${parentRow.rowNumber} has errors)`
+                    : `Unknown parent "${entity.parentId}"`);
+            });
+        } while (stranded.length);
+
+        return preview;
+    }
+
+    apply(rows: ImportPreviewRow[], mode: 'replace' | 'merge', fileName: string) {
+        const entities = rows.filter(r => r.errors.length === 0).map(r => r.entity);
+        if (mode === 'replace') {
+            this.diagramService.loadFlatEntityList(entities, `Import ${fileName}`);
+        } else {
+            this.diagramService.mergeFlatEntityList(entities, `Merge ${fileName}`);
+        }
+    }
+
+    private convertRow(row: unknown[], rowNumber: number, mapping: ColumnMapping): ImportPreviewRow {
+        const errors: string[] = [];
+        const entity: Record<string, unknown> = {};
+
+        IMPORT_FIELDS.forEach(field => {
+            const column = mapping[field.key] ?? -1;
+            const raw = column >= 0 ? row[column] : undefined;
+            const isBlank = raw === undefined || raw === null || String(raw).trim() === '';
+
+            if (isBlank) {
+                if (field.required) errors.push(`${field.label} is required`);
+                return;
+            }
+
+            const { value, error } = this.convertValue(raw, field.type);
+            if (error) errors.push(`${field.label}: ${error}`);
+            else entity[field.key] = value;
+        });
+
+        IMPORT_FIELDS.filter(f => PERCENT_FIELDS.includes(f.key)).forEach(field => {
+            const value = entity[field.key];
+            if (typeof value === 'number' && (value < 0 || value > 100)) errors.push(`${field.label} must be between 0 and 100`);
+        });
+        // The stake needs a size, or the subsidiary would come in 0% owned
+        if (entity['parentId'] !== undefined && entity['ownershipPercentage'] === undefined
+            && !errors.some(e => e.startsWith('Ownership %'))) {
+            errors.push('Ownership % is required when a parent is given');
+        }
+
+        const { parentId, ...nodeFields } = entity;
+        const result = NodeSchema.partial().safeParse(nodeFields);
+        if (!result.success) {
+            result.error.issues.forEach(issue => errors.push(`${issue.path.join('.')}: ${issue.message}`));
+        }
+
+        return { rowNumber, entity: entity as FlatEntity, errors };
+    }
+
+    private convertValue(raw: unknown, type: ImportFieldType): { value?: unknown, error?: string } {
+        switch (type) {
+            case 'number': {
+                const value = typeof raw === 'number' ? raw : Number(String(raw).replace(/[%\s]/g, ''));
+                return isNaN(value) ? { error: `"${raw}" is not a number` } : { value };
+            }
+            case 'date': {
+                const text = String(raw).trim();
+                if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+                    return isIsoDate(text) ? { value: text } : { error: `"${raw}" is not a calendar date` };
+                }
+                const date = raw instanceof Date ? raw : new Date(text);
+                if (isNaN(date.getTime())) return { error: `"${raw}" is not a valid date` };
+                // Spreadsheet dates are local midnight; format without shifting to UTC
+                const pad = (n: number) => String(n).padStart(2, '0');
+                return { value: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` };
+            }
+            case 'list':
+                return { value: String(raw).split(/[;|]/).map(v => v.trim()).filter(Boolean) };
+            case 'string':
+                return { value: String(raw).trim() };
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramService, EntityFilters } from './diagram.service';
+import { EntityQueryService } from './entity-query.service';
+
+describe('EntityQueryService', () => {
+    const STORAGE_KEY = 'enterprise-saved-filters';
+    let activeFilters: ReturnType<typeof signal<EntityFilters>>;
+
+    const create = () => {
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { activeFilters } }]
+        });
+        return TestBed.inject(EntityQueryService);
+    };
+
+    beforeEach(() => {
+        activeFilters = signal<EntityFilters>({});
+        localStorage.removeItem(STORAGE_KEY);
+    });
+
+    it('loads the saved filters that are intact and drops the rest', () => {
+        const intact = { id: 'qf-1', name: 'Low tax', query: 'citRate < 15', withAncestors: false };
+        localStorage.setItem(STORAGE_KEY, JSON.stringify([intact, { id: 'qf-2', name: 'Broken' }, 'junk']));
+        spyOn(console, 'error');
+
+        expect(create().savedFilters()).toEqual([intact]);
+        expect(console.error).toHaveBeenCalledTimes(2);
+    });
+
+    it('starts without filters when the stored value is not a list', () => {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ id: 'qf-1' }));
+        spyOn(console, 'error');
+
+        expect(create().savedFilters()).toEqual([]);
+        expect(console.error).toHaveBeenCalledWith('Failed to parse saved filters from storage', jasmine.anything());
+    });
+
+    it('applies only expressions that parse', () => {
+        const service = create();
+
+        expect(service.setQuery('citRate <')).toBe("Expected a value after 'citRate <'.");
+        expect(activeFilters().query).toBeUndefined();
+        expect(service.setQuery(' effectiveTo < 2030-01-01 ')).toBeNull();
+        expect(activeFilters().query).toBe('effectiveTo < 2030-01-01');
+    });
+});
@@ -0,0 +1,92 @@
+import { Injectable, signal, effect } from '@angular/core';
+import { z } from 'zod';
+import { DiagramService, QUERY_FIELDS } from './diagram.service';
+import { parseQuery, suggestQuery, QuerySuggestions } from '../utils/entity-query';
+
+export const SavedFilterSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    query: z.string(),
+    withAncestors: z.boolean(),
+});
+
+export type SavedFilter = z.infer<typeof SavedFilterSchema>;
+
+const STORAGE_KEY = 'enterprise-saved-filters';
+
+/**
+ * Query bar shared by the canvas and the entity list. The applied expression lives in the
+ * diagram's active filters, so both views, saved slides and the register export see the
+ * same selection; this service validates what is typed, offers completions and keeps
+ * the named filters.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class EntityQueryService {
+    readonly savedFilters = signal<SavedFilter[]>([]);
+
+    constructor(private diagramService: DiagramService) {
+        this.load();
+        effect(() => localStorage.setItem(STORAGE_KEY, JSON.stringify(this.savedFilters())));
+    }
+
+    // Applies the expression if it parses and returns the error otherwise
+    setQuery(query: string): string | null {
+        const { error } = parseQuery(query, QUERY_FIELDS);
+        if (error) return error;
+        this.diagramService.activeFilters.update(f => ({ ...f, query: query.trim() || undefined }));
+        return null;
+    }
+
+    setWithAncestors(withAncestors: boolean) {
+        this.diagramService.activeFilters.update(f => ({ ...f, withAncestors: withAncestors || undefined }));
+    }
+
+    suggest(text: string, cursor: number): QuerySuggestions {
+        return suggestQuery(text, cursor, QUERY_FIELDS);
+    }
+
+    // Saving under an existing name replaces that filter
+    saveFilter(name: string): string | null {
+        const trimmed = name.trim();
+        const { query, withAncestors } = this.diagramService.activeFilters();
+        if (!trimmed) return 'Enter a name for the filter.';
+        if (!query) return 'Enter a query to save.';
+        const existing = this.savedFilters().find(f => f.name.toLowerCase() === trimmed.toLowerCase());
+        const filter: SavedFilter = { id: existing?.id ?? this.createId(), name: trimmed, query, withAncestors: !!withAncestors };
+        this.savedFilters.update(list => [...list.filter(f => f.id !== filter.id), filter]
+            .sort((a, b) => a.name.localeCompare(b.name)));
+        return null;
+    }
+
+    applyFilter(filter: SavedFilter) {
+        this.diagramService.activeFilters.update(f => ({ ...f, query: filter.query, withAncestors: filter.withAncestors || undefined }));
+    }
+
+    removeFilter(id: string) {
+        this.savedFilters.update(list => list.filter(f => f.id !== id));
+    }
+
+    private createId(): string {
+        return `qf-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+
+    private load() {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            try {
+                const result = z.array(z.unknown()).safeParse(JSON.parse(stored));
+                if (!result.success) throw result.error;
+                // A damaged entry is dropped, not the whole list
+                this.savedFilters.set(result.data.flatMap(item => {
+                    const filter = SavedFilterSchema.safeParse(item);
+                    if (!filter.success) console.error('Invalid saved filter in storage:', filter.error);
+                    return filter.success ? [filter.data] : [];
+                }));
+            } catch (e) {
+                console.error('Failed to parse saved filters from storage', e);
+            }
+        }
+    }
+}
@@ -0,0 +1,70 @@
+import { TestBed } from '@angular/core/testing';
+import { FxService } from './fx.service';
+
+describe('FxService', () => {
+    let service: FxService;
+
+    beforeEach(() => {
+        localStorage.removeItem('enterprise-fx');
+        TestBed.configureTestingModule({});
+        service = TestBed.inject(FxService);
+        service.asOfDate.set('2025-06-30');
+        service.addRate({ from: 'EUR', to: 'USD', rate: 1.1, effectiveDate: '2025-01-01', source: 'ECB' });
+        service.addRate({ from: 'EUR', to: 'USD', rate: 1.2, effectiveDate: '2025-06-01', source: 'ECB' });
+        service.addRate({ from: 'GBP', to: 'USD', rate: 1.25, effectiveDate: '2025-05-31', source: 'BoE' });
+    });
+
+    it('uses the latest rate effective on the as-of date', () => {
+        expect(service.convert(100, 'eur')).toEqual(jasmine.objectContaining({ amount: 120, rate: 1.2, effectiveDate: '2025-06-01' }));
+        expect(service.convert(100, 'EUR', 'USD', '2025-03-31')!.amount).toBeCloseTo(110, 9);
+        expect(service.convert(100, 'EUR', 'USD', '2024-12-31')).toBeNull();
+    });
+
+    it('inverts a rate quoted the other way round', () => {
+        const conversion = service.convert(120, 'USD', 'EUR')!;
+
+        expect(conversion.amount).toBeCloseTo(100, 9);
+        expect(conversion.source).toBe('ECB (inverse)');
+    });
+
+    it('prefers a direct quote to an inverse one of the same date', () => {
+        service.addRate({ from: 'USD', to: 'EUR', rate: 0.8, effectiveDate: '2025-06-01', source: 'Treasury' });
+
+        expect(service.findRate('USD', 'EUR')).toEqual(jasmine.objectContaining({ rate: 0.8, source: 'Treasury' }));
+    });
+
+    it('crosses through a shared currency, dated by the older leg', () => {
+        const cross = service.findRate('EUR', 'GBP')!;
+
+        expect(cross.rate).toBeCloseTo(1.2 / 1.25, 9);
+        expect(cross.effectiveDate).toBe('2025-05-31');
+        expect(cross.source).toBe('Cross via USD (ECB; BoE (inverse))');
+    });
+
+    it('has no rate for an unknown currency or a missing amount', () => {
+        expect(service.convert(100, 'JPY')).toBeNull();
+        expect(service.convert(undefined, 'EUR')).toBeNull();
+        expect(service.convert(5, 'USD')).toEqual(jasmine.objectContaining({ amount: 5, source: 'Same currency' }));
+    });
+
+    it('replaces a rate for the same pair and date and skips invalid ones', () => {
+        service.addRate({ from: ' eur ', to: 'usd', rate: 1.21, effectiveDate: '2025-06-01' });
+        service.addRate({ from: 'EUR', to: 'EUR', rate: 1, effectiveDate: '2025-06-01' });
+        service.addRate({ from: 'EUR', to: 'CHF', rate: -1, effectiveDate: '2025-06-01' });
+
+        expect(service.rates().map(r => [r.from, r.to, r.rate, r.effectiveDate])).toEqual([
+            ['EUR', 'USD', 1.21, '2025-06-01'],
+            ['EUR', 'USD', 1.1, '2025-01-01'],
+            ['GBP', 'USD', 1.25, '2025-05-31']
+        ]);
+    });
+
+    it('imports a rate table and reports the rows it cannot read', async () => {
+        const csv = 'Base,Quote,Exchange Rate,As Of\nUSD,KRW,"1,380.25",2025-06-01\nUSD,KRW,n/a,2025-06-02\n';
+
+        const result = await service.importFile(new File([csv], 'rates.csv'));
+
+        expect(result).toEqual({ imported: 1, errors: ['Row 3: expected two currency codes, a positive rate and a YYYY-MM-DD date'] });
+        expect(service.findRate('USD', 'KRW')).toEqual(jasmine.objectContaining({ rate: 1380.25, source: 'rates.csv' }));
+    });
+});
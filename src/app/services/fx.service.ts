@@ -0,0 +1,206 @@
+import { Injectable, signal, computed, effect } from '@angular/core';
+import { toIsoDate } from '../utils/iso-date';
+
+// One unit of `from` buys `rate` units of `to` from the effective date on
+export interface FxRate {
+    from: string;
+    to: string;
+    rate: number;
+    effectiveDate: string;
+    source?: string;
+}
+
+export interface FxConversion {
+    amount: number;
+    from: string;
+    to: string;
+    rate: number;
+    // Effective date of the rate used; for a cross rate, the older of the two legs
+    effectiveDate: string;
+    source: string;
+}
+
+export interface FxImportResult {
+    imported: number;
+    errors: string[];
+}
+
+// Header spellings recognised when importing a rate table
+const COLUMN_ALIASES: Record<keyof FxRate, string[]> = {
+    from: ['from', 'base', 'fromcurrency', 'sourcecurrency', 'ccy1'],
+    to: ['to', 'quote', 'tocurrency', 'targetcurrency', 'ccy2'],
+    rate: ['rate', 'fxrate', 'exchangerate', 'value'],
+    effectiveDate: ['effectivedate', 'date', 'asof', 'validfrom', 'ratedate'],
+    source: ['source', 'provider', 'ratesource']
+};
+
+const STORAGE_KEY = 'enterprise-fx';
+
+/**
+ * FX rate table and presentation currency. Entity figures are held in their local
+ * currency and converted at the latest rate effective on the as-of date, using the
+ * direct rate, its inverse, or a cross rate through a shared currency.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class FxService {
+    readonly isPanelOpen = signal<boolean>(false);
+    readonly rates = signal<FxRate[]>([]);
+    readonly presentationCurrency = signal<string>('USD');
+    readonly asOfDate = signal<string>(toIsoDate(new Date()));
+
+    readonly currencies = computed(() =>
+        Array.from(new Set(this.rates().flatMap(r => [r.from, r.to]).concat(this.presentationCurrency()))).sort());
+
+    constructor() {
+        this.load();
+        effect(() => {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify({
+                rates: this.rates(),
+                presentationCurrency: this.presentationCurrency()
+            }));
+        });
+    }
+
+    /**
+     * Converts into the presentation currency (or `to`). Returns null when the currency is
+     * unknown or no rate is effective yet; a missing amount converts to null as well.
+     */
+    convert(amount: number | undefined, from: string | undefined, to = this.presentationCurrency(), asOf = this.asOfDate()): FxConversion | null {
+        if (amount === undefined || !from) return null;
+        const rate = this.findRate(from.toUpperCase(), to.toUpperCase(), asOf);
+        return rate ? { ...rate, amount: amount * rate.rate } : null;
+    }
+
+    findRate(from: string, to: string, asOf = this.asOfDate()): Omit<FxConversion, 'amount'> | null {
+        if (from === to) return { from, to, rate: 1, effectiveDate: asOf, source: 'Same currency' };
+
+        const direct = this.lookup(from, to, asOf);
+        if (direct) return direct;
+
+        // Cross rate through any currency both legs are quoted against
+        const pivots = this.currencies().filter(c => c !== from && c !== to);
+        for (const pivot of pivots) {
+            const first = this.lookup(from, pivot, asOf);
+            const second = first && this.lookup(pivot, to, asOf);
+            if (first && second) {
+                return {
+                    from,
+                    to,
+                    rate: first.rate * second.rate,
+                    effectiveDate: first.effectiveDate < second.effectiveDate ? first.effectiveDate : second.effectiveDate,
+                    source: `Cross via ${pivot} (${first.source}; ${second.source})`
+                };
+            }
+        }
+        return null;
+    }
+
+    addRate(rate: FxRate) {
+        const cleaned = this.clean(rate);
+        if (!cleaned) return;
+        this.rates.update(rates => [...rates.filter(r => !this.sameKey(r, cleaned)), cleaned].sort(this.compare));
+    }
+
+    removeRate(rate: FxRate) {
+        this.rates.update(rates => rates.filter(r => r !== rate));
+    }
+
+    clearRates() {
+        this.rates.set([]);
+    }
+
+    // Imports a CSV (or workbook) with from, to, rate, effective date and optional source columns
+    async importFile(file: File): Promise<FxImportResult> {
+        const XLSX = await import('xlsx');
+        const workbook = /\.csv$/i.test(file.name)
+            ? XLSX.read(await file.text(), { type: 'string', raw: true })
+            : XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+        const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[workbook.SheetNames[0]], {
+            header: 1, blankrows: false, defval: ''
+        });
+
+        const headers = headerRow.map(h => String(h).toLowerCase().replace(/[^a-z0-9]/g, ''));
+        const column = (field: keyof FxRate) => headers.findIndex(h => COLUMN_ALIASES[field].includes(h));
+        const columns = { from: column('from'), to: column('to'), rate: column('rate'), effectiveDate: column('effectiveDate'), source: column('source') };
+        const missing = (['from', 'to', 'rate', 'effectiveDate'] as const).filter(f => columns[f] < 0);
+        if (missing.length) return { imported: 0, errors: [`Missing column(s): ${missing.join(', ')}`] };
+
+        const errors: string[] = [];
+        const imported: FxRate[] = [];
+        rows.forEach((row, i) => {
+            const value = (index: number) => index < 0 ? '' : row[index];
+            const date = value(columns.effectiveDate);
+            const rate = this.clean({
+                from: String(value(columns.from)),
+                to: String(value(columns.to)),
+                rate: Number(String(value(columns.rate)).replace(/,/g, '')),
+                effectiveDate: date instanceof Date ? toIsoDate(date) : String(date).trim(),
+                source: String(value(columns.source)) || file.name
+            });
+            if (rate) {
+                imported.push(rate);
+            } else {
+                errors.push(`Row ${i + 2}: expected two currency codes, a positive rate and a YYYY-MM-DD date`);
+            }
+        });
+
+        this.rates.update(rates => [
+            ...rates.filter(r => !imported.some(i => this.sameKey(r, i))),
+            ...imported
+        ].sort(this.compare));
+        return { imported: imported.length, errors };
+    }
+
+    private lookup(from: string, to: string, asOf: string): Omit<FxConversion, 'amount'> | null {
+        let best: { rate: FxRate, inverse: boolean } | null = null;
+        for (const rate of this.rates()) {
+            if (rate.effectiveDate > asOf) continue;
+            const inverse = rate.from === to && rate.to === from;
+            if (!inverse && !(rate.from === from && rate.to === to)) continue;
+            // Prefer the most recent rate; on the same date a direct quote beats an inverse
+            if (!best || rate.effectiveDate > best.rate.effectiveDate
+                || (rate.effectiveDate === best.rate.effectiveDate && best.inverse && !inverse)) {
+                best = { rate, inverse };
+            }
+        }
+        if (!best) return null;
+        return {
+            from,
+            to,
+            rate: best.inverse ? 1 / best.rate.rate : best.rate.rate,
+            effectiveDate: best.rate.effectiveDate,
+            source: (best.rate.source || 'Manual') + (best.inverse ? ' (inverse)' : '')
+        };
+    }
+
+    private clean(rate: FxRate): FxRate | null {
+        const from = rate.from.trim().toUpperCase();
+        const to = rate.to.trim().toUpperCase();
+        const valid = /^[A-Z]{3}$/.test(from) && /^[A-Z]{3}$/.test(to) && from !== to
+            && Number.isFinite(rate.rate) && rate.rate > 0 && /^\d{4}-\d{2}-\d{2}$/.test(rate.effectiveDate);
+        return valid ? { from, to, rate: rate.rate, effectiveDate: rate.effectiveDate, source: rate.source?.trim() || undefined } : null;
+    }
+
+    private sameKey(a: FxRate, b: FxRate): boolean {
+        return a.from === b.from && a.to === b.to && a.effectiveDate === b.effectiveDate;
+    }
+
+    private compare(a: FxRate, b: FxRate): number {
+        return a.from.localeCompare(b.from) || a.to.localeCompare(b.to) || b.effectiveDate.localeCompare(a.effectiveDate);
+    }
+
+    private load() {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            try {
+                const parsed = JSON.parse(stored);
+                this.rates.set(parsed.rates || []);
+                if (parsed.presentationCurrency) this.presentationCurrency.set(parsed.presentationCurrency);
+            } catch (e) {
+                console.error('Failed to parse FX rates from storage', e);
+            }
+        }
+    }
+}
@@ -0,0 +1,130 @@
+import { TestBed } from '@angular/core/testing';
+import { HistoryService } from './history.service';
+
+describe('HistoryService', () => {
+    let history: HistoryService;
+    let value: string;
+
+    // Records a change of `value` the way DiagramService records its mutations
+    const set = (next: string, groupKey?: string) => {
+        const before = value;
+        value = next;
+        history.record({ label: `Set ${next}`, groupKey, undo: () => value = before, redo: () => value = next });
+    };
+    const labels = () => history.undoStack().map(e => e.label);
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({});
+        history = TestBed.inject(HistoryService);
+        value = 'initial';
+    });
+
+    it('undoes and redoes changes in order', () => {
+        set('a');
+        set('b');
+
+        history.undo();
+        expect(value).toBe('a');
+        expect(history.canRedo()).toBeTrue();
+
+        history.undo();
+        expect(value).toBe('initial');
+        expect(history.canUndo()).toBeFalse();
+
+        history.redo();
+        history.redo();
+        expect(value).toBe('b');
+        expect(history.canRedo()).toBeFalse();
+    });
+
+    it('merges consecutive commands with the same group key into one step', () => {
+        set('L', 'label');
+        set('La', 'label');
+        set('Lab', 'label');
+
+        expect(labels()).toEqual(['Set L']);
+        history.undo();
+        expect(value).toBe('initial');
+        history.redo();
+        expect(value).toBe('Lab');
+    });
+
+    it('starts a new step once the group is closed or another key is used', () => {
+        set('L', 'label');
+        history.closeGroup();
+        set('La', 'label');
+        set('x', 'region');
+
+        expect(labels()).toEqual(['Set L', 'Set La', 'Set x']);
+        expect(history.isGroupOpen('region')).toBeTrue();
+        expect(history.isGroupOpen('label')).toBeFalse();
+    });
+
+    it('does not merge into a step that was undone and redone', () => {
+        set('L', 'label');
+        history.undo();
+        history.redo();
+        set('La', 'label');
+
+        expect(labels()).toEqual(['Set L', 'Set La']);
+    });
+
+    it('drops the redo branch when a new change is recorded', () => {
+        set('a');
+        set('b');
+        history.undo();
+        set('c');
+
+        expect(labels()).toEqual(['Set a', 'Set c']);
+        expect(history.canRedo()).toBeFalse();
+        history.redo();
+        expect(value).toBe('c');
+    });
+
+    it('stashes a timeline and restores it for another branch', () => {
+        set('a');
+        set('b');
+        history.undo();
+        const live = history.stash();
+
+        // A scenario starts with an empty history of its own
+        history.restore(null);
+        expect(history.canUndo()).toBeFalse();
+        expect(history.canRedo()).toBeFalse();
+        set('scenario');
+        const scenario = history.stash();
+
+        history.restore(live);
+        expect(labels()).toEqual(['Set a']);
+        expect(history.redoStack().map(e => e.label)).toEqual(['Set b']);
+
+        history.restore(scenario);
+        expect(labels()).toEqual(['Set scenario']);
+    });
+
+    it('keeps the latest steps and marks the history as truncated past the limit', () => {
+        for (let i = 1; i <= history.limit + 1; i++) set(`v${i}`);
+
+        expect(history.undoStack().length).toBe(history.limit);
+        expect(history.truncated()).toBeTrue();
+        history.jumpTo(null);
+        expect(value).toBe('v1');
+
+        history.clear();
+        expect(history.truncated()).toBeFalse();
+    });
+
+    it('jumps to an entry by undoing or redoing up to it', () => {
+        set('a');
+        set('b');
+        set('c');
+        const [first] = history.undoStack();
+
+        history.jumpTo(first.id);
+        expect(value).toBe('a');
+        expect(history.entries().map(e => e.applied)).toEqual([true, false, false]);
+
+        history.jumpTo(null);
+        expect(value).toBe('initial');
+    });
+});
@@ -0,0 +1,129 @@
+import { Injectable, signal, computed } from '@angular/core';
+
+export interface HistoryCommand {
+    label: string;
+    // Consecutive commands sharing a group key collapse into one step (e.g. typing a label)
+    groupKey?: string;
+    undo(): void;
+    redo(): void;
+}
+
+export interface HistoryEntry extends HistoryCommand {
+    id: number;
+    timestamp: number;
+}
+
+// Undo and redo stacks set aside while another branch of the structure is being edited
+export interface HistoryStash {
+    undo: HistoryEntry[];
+    redo: HistoryEntry[];
+    truncated: boolean;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class HistoryService {
+    readonly limit = 100;
+
+    // Applied entries, oldest first
+    readonly undoStack = signal<HistoryEntry[]>([]);
+    // Undone entries, most recently undone last
+    readonly redoStack = signal<HistoryEntry[]>([]);
+    // Whether the oldest steps were dropped at the limit, so the bottom of the undo stack
+    // is no longer the state the history started from
+    readonly truncated = signal(false);
+
+    readonly canUndo = computed(() => this.undoStack().length > 0);
+    readonly canRedo = computed(() => this.redoStack().length > 0);
+
+    // Full timeline for the history list: applied entries followed by undone ones
+    readonly entries = computed(() => [
+        ...this.undoStack().map(entry => ({ entry, applied: true })),
+        ...[...this.redoStack()].reverse().map(entry => ({ entry, applied: false }))
+    ]);
+
+    private nextId = 1;
+    private groupOpen = false;
+
+    record(command: HistoryCommand) {
+        const stack = this.undoStack();
+        const top = stack[stack.length - 1];
+
+        if (top && this.groupOpen && command.groupKey && top.groupKey === command.groupKey) {
+            // Keep the original undo so the whole group reverts in one step
+            const merged: HistoryEntry = { ...top, redo: command.redo, timestamp: Date.now() };
+            this.undoStack.set([...stack.slice(0, -1), merged]);
+        } else {
+            const entry: HistoryEntry = { ...command, id: this.nextId++, timestamp: Date.now() };
+            if (stack.length >= this.limit) this.truncated.set(true);
+            this.undoStack.set([...stack, entry].slice(-this.limit));
+        }
+
+        this.groupOpen = !!command.groupKey;
+        this.redoStack.set([]);
+    }
+
+    // Ends the current group so the next command starts a new step
+    closeGroup() {
+        this.groupOpen = false;
+    }
+
+    // Whether a command with this key would merge into the latest step
+    isGroupOpen(groupKey: string): boolean {
+        const stack = this.undoStack();
+        return this.groupOpen && stack[stack.length - 1]?.groupKey === groupKey;
+    }
+
+    undo() {
+        const stack = this.undoStack();
+        const entry = stack[stack.length - 1];
+        if (!entry) return;
+
+        this.groupOpen = false;
+        entry.undo();
+        this.undoStack.set(stack.slice(0, -1));
+        this.redoStack.update(redo => [...redo, entry]);
+    }
+
+    redo() {
+        const stack = this.redoStack();
+        const entry = stack[stack.length - 1];
+        if (!entry) return;
+
+        this.groupOpen = false;
+        entry.redo();
+        this.redoStack.set(stack.slice(0, -1));
+        this.undoStack.update(undo => [...undo, entry]);
+    }
+
+    // Undo or redo until the given entry is the latest applied one (null = the oldest state
+    // still reachable, which is the initial state unless the history was truncated)
+    jumpTo(id: number | null) {
+        const latestId = () => this.undoStack()[this.undoStack().length - 1]?.id ?? null;
+        if (id !== null && this.redoStack().some(e => e.id === id)) {
+            while (latestId() !== id) this.redo();
+        } else if (id === null || this.undoStack().some(e => e.id === id)) {
+            while (latestId() !== id) this.undo();
+        }
+    }
+
+    clear() {
+        this.undoStack.set([]);
+        this.redoStack.set([]);
+        this.truncated.set(false);
+        this.groupOpen = false;
+    }
+
+    stash(): HistoryStash {
+        return { undo: this.undoStack(), redo: this.redoStack(), truncated: this.truncated() };
+    }
+
+    // Swaps in a stashed timeline; without one the history starts empty
+    restore(stash: HistoryStash | null) {
+        this.undoStack.set(stash?.undo ?? []);
+        this.redoStack.set(stash?.redo ?? []);
+        this.truncated.set(stash?.truncated ?? false);
+        this.groupOpen = false;
+    }
+}
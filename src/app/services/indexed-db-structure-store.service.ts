@@ -0,0 +1,110 @@
+import { Injectable } from '@angular/core';
+import { DiagramData } from './diagram.service';
+import { AuditEntry } from './audit.service';
+import { StoredScenario, StructureSnapshot, StructureSnapshotSummary, StructureStore } from './structure-store';
+
+const DB_NAME = 'enterprise-entity-management';
+// Bump when object stores change and migrate in onupgradeneeded
+const DB_VERSION = 2;
+const AUTOSAVE_STORE = 'autosave';
+const SNAPSHOT_STORE = 'snapshots';
+const AUDIT_STORE = 'audit';
+const AUTOSAVE_KEY = 'current';
+const SCENARIOS_KEY = 'scenarios';
+
+@Injectable()
+export class IndexedDbStructureStore extends StructureStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    async loadAutosave(): Promise<DiagramData | null> {
+        const record = await this.request<{ data: DiagramData } | undefined>(AUTOSAVE_STORE, 'readonly',
+            store => store.get(AUTOSAVE_KEY));
+        return record?.data ?? null;
+    }
+
+    async saveAutosave(data: DiagramData): Promise<void> {
+        await this.request(AUTOSAVE_STORE, 'readwrite',
+            store => store.put({ data, savedAt: Date.now() }, AUTOSAVE_KEY));
+    }
+
+    async loadScenarios(): Promise<StoredScenario[]> {
+        const record = await this.request<{ scenarios: StoredScenario[] } | undefined>(AUTOSAVE_STORE, 'readonly',
+            store => store.get(SCENARIOS_KEY));
+        return record?.scenarios ?? [];
+    }
+
+    async saveScenarios(scenarios: StoredScenario[]): Promise<void> {
+        await this.request(AUTOSAVE_STORE, 'readwrite',
+            store => store.put({ scenarios, savedAt: Date.now() }, SCENARIOS_KEY));
+    }
+
+    async listSnapshots(): Promise<StructureSnapshotSummary[]> {
+        const snapshots = await this.request<StructureSnapshot[]>(SNAPSHOT_STORE, 'readonly', store => store.getAll());
+        return snapshots
+            .map(({ data, ...summary }) => summary)
+            .sort((a, b) => b.asOfDate.localeCompare(a.asOfDate) || b.createdAt - a.createdAt);
+    }
+
+    async getSnapshot(id: string): Promise<StructureSnapshot | null> {
+        const snapshot = await this.request<StructureSnapshot | undefined>(SNAPSHOT_STORE, 'readonly',
+            store => store.get(id));
+        return snapshot ?? null;
+    }
+
+    async putSnapshot(snapshot: StructureSnapshot): Promise<void> {
+        await this.request(SNAPSHOT_STORE, 'readwrite', store => store.put(snapshot));
+    }
+
+    async deleteSnapshot(id: string): Promise<void> {
+        await this.request(SNAPSHOT_STORE, 'readwrite', store => store.delete(id));
+    }
+
+    async loadAuditLog(): Promise<AuditEntry[]> {
+        return this.request<AuditEntry[]>(AUDIT_STORE, 'readonly', store => store.getAll());
+    }
+
+    // Keys increase with each entry, so the log reads back in the order it was written
+    async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = db.transaction(AUDIT_STORE, 'readwrite');
+            const store = transaction.objectStore(AUDIT_STORE);
+            entries.forEach(entry => store.add(entry));
+            transaction.oncomplete = () => resolve();
+            // A full disk aborts the transaction rather than failing a request
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(DB_NAME, DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+                        db.createObjectStore(AUTOSAVE_STORE);
+                    }
+                    if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+                        db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' });
+                    }
+                    if (!db.objectStoreNames.contains(AUDIT_STORE)) {
+                        db.createObjectStore(AUDIT_STORE, { autoIncrement: true });
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(storeName: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = run(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
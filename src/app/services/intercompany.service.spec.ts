@@ -0,0 +1,100 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramNode, DiagramService, Flow } from './diagram.service';
+import { FxService } from './fx.service';
+import { IntercompanyService } from './intercompany.service';
+
+describe('IntercompanyService', () => {
+    let service: IntercompanyService;
+    let flows: ReturnType<typeof signal<Flow[]>>;
+    let visible: DiagramNode[];
+    let sandboxMode: ReturnType<typeof signal<boolean>>;
+    let updateFlows: jasmine.Spy;
+
+    const nodes = [{ id: 'HQ', label: 'Holding' }, { id: 'IE', label: 'Ireland' }, { id: 'DE', label: 'Germany' }] as DiagramNode[];
+    const flow = (id: string, source: string, target: string, type: Flow['type'], annualAmount: number, currency = 'EUR', fields: Partial<Flow> = {}): Flow =>
+        ({ id, source, target, type, annualAmount, currency, ...fields });
+    // EUR and USD only, at 1 EUR = 1.1 USD
+    const convert = (amount: number, from: string) => ({ EUR: { amount: amount * 1.1 }, USD: { amount } } as Record<string, { amount: number }>)[from] ?? null;
+
+    beforeEach(() => {
+        flows = signal([
+            flow('f1', 'HQ', 'IE', 'loan', 1000, 'EUR', { agreementRef: 'LA-1' }),
+            flow('f2', 'HQ', 'IE', 'royalty', 500, 'USD', { agreementRef: 'LA-1' }),
+            flow('f3', 'IE', 'DE', 'service-fee', 200, 'GBP'),
+            flow('f4', 'DE', 'HQ', 'dividend', 3000, 'USD')
+        ]);
+        visible = nodes;
+        sandboxMode = signal(false);
+        updateFlows = jasmine.createSpy('updateFlows').and.callFake((next: Flow[]) => flows.set(next));
+        TestBed.configureTestingModule({
+            providers: [
+                {
+                    provide: DiagramService,
+                    useValue: { flows, nodes: () => nodes, canvasStructure: () => ({ nodes: visible }), sandboxMode, updateFlows }
+                },
+                { provide: FxService, useValue: { convert, presentationCurrency: signal('USD') } }
+            ]
+        });
+        service = TestBed.inject(IntercompanyService);
+    });
+
+    it('totals inbound and outbound flows per entity in the presentation currency', () => {
+        const totals = service.totalsByEntity();
+
+        expect(totals.get('HQ')).toEqual({ inbound: 3000, outbound: 1600, count: 3, unconverted: 0 });
+        expect(totals.get('IE')).toEqual({ inbound: 1600, outbound: 0, count: 3, unconverted: 1 });
+    });
+
+    it('builds a payer to payee matrix, largest total first', () => {
+        expect(service.matrix().map(r => [r.sourceId, r.targetId, r.total, r.flowCount, r.unconverted])).toEqual([
+            ['DE', 'HQ', 3000, 1, 0],
+            ['HQ', 'IE', 1600, 2, 0],
+            ['IE', 'DE', 0, 1, 1]
+        ]);
+        expect(service.matrix()[1]).toEqual(jasmine.objectContaining({
+            amounts: { loan: 1100, royalty: 500, 'service-fee': 0, dividend: 0 },
+            agreementRefs: ['LA-1']
+        }));
+    });
+
+    it('draws only flows between entities on the canvas', () => {
+        visible = nodes.filter(n => n.id !== 'DE');
+        flows.update(list => [...list, flow('f5', 'IE', 'HQ', 'loan', 2500000, 'EUR')]);
+
+        expect(service.canvasLinks().map(l => [l.id, l.label, l.flowType])).toEqual([
+            ['flow-f1', 'Loan 1k EUR', 'loan'],
+            ['flow-f2', 'Royalty 500 USD', 'royalty'],
+            ['flow-f5', 'Loan 2.5m EUR', 'loan']
+        ]);
+    });
+
+    describe('editing', () => {
+        it('adds a flow with its currency tidied, marked draft in a scenario', () => {
+            sandboxMode.set(true);
+
+            expect(service.addFlow({ source: 'IE', target: 'HQ', type: 'dividend', annualAmount: 10, currency: ' usd ', agreementRef: ' ' })).toBeNull();
+
+            expect(flows()[4]).toEqual(jasmine.objectContaining({ currency: 'USD', agreementRef: undefined, isDraft: true }));
+            expect(updateFlows.calls.mostRecent().args[1]).toEqual({ label: 'Add dividend Ireland → Holding' });
+        });
+
+        it('rejects flows that do not make sense', () => {
+            const add = (fields: Partial<Flow>) => service.addFlow({ source: 'HQ', target: 'IE', type: 'loan', annualAmount: 1, currency: 'EUR', ...fields });
+
+            expect(add({ target: 'HQ' })).toBe('A flow needs two different entities.');
+            expect(add({ target: 'XX' })).toBe('Entity not found.');
+            expect(add({ annualAmount: -5 })).toBe('Enter an annual amount of zero or more.');
+            expect(add({ currency: 'EURO' })).toBe('Enter a three-letter currency code.');
+            expect(updateFlows).not.toHaveBeenCalled();
+        });
+
+        it('updates a flow as one undo step per field being typed', () => {
+            expect(service.updateFlow('f1', { annualAmount: 1200 })).toBeNull();
+
+            expect(flows()[0].annualAmount).toBe(1200);
+            expect(updateFlows.calls.mostRecent().args[1]).toEqual({ label: 'Edit loan Holding → Ireland', groupKey: 'f1:annualAmount' });
+            expect(service.updateFlow('nope', {})).toBe('Flow not found.');
+        });
+    });
+});
@@ -0,0 +1,231 @@
+import { Injectable, Signal, signal, computed } from '@angular/core';
+import { DiagramService, DiagramEdge, Flow } from './diagram.service';
+import { FxService } from './fx.service';
+import { CsvValue, toCsv, downloadFile } from '../utils/file-export';
+
+export type FlowType = Flow['type'];
+
+export const FLOW_TYPES: FlowType[] = ['loan', 'royalty', 'service-fee', 'dividend'];
+
+export const FLOW_TYPE_LABELS: Record<FlowType, string> = {
+    loan: 'Loan',
+    royalty: 'Royalty',
+    'service-fee': 'Service Fee',
+    dividend: 'Dividend'
+};
+
+export const FLOW_TYPE_COLORS: Record<FlowType, string> = {
+    loan: '#0ea5e9',
+    royalty: '#a855f7',
+    'service-fee': '#f97316',
+    dividend: '#16a34a'
+};
+
+// A flow drawn on the canvas next to the ownership edges
+export interface FlowLink extends DiagramEdge {
+    flowType: FlowType;
+}
+
+// Per-entity totals in the presentation currency
+export interface EntityFlowTotals {
+    inbound: number;
+    outbound: number;
+    count: number;
+    // Flows left out of the totals for want of an FX rate
+    unconverted: number;
+}
+
+export interface FlowMatrixRow {
+    sourceId: string;
+    sourceLabel: string;
+    targetId: string;
+    targetLabel: string;
+    // Annual amounts per type, in the presentation currency
+    amounts: Record<FlowType, number>;
+    total: number;
+    flowCount: number;
+    agreementRefs: string[];
+    unconverted: number;
+}
+
+const MATRIX_COLUMNS = ['Payer / Lender ID', 'Payer / Lender', 'Payee / Borrower ID', 'Payee / Borrower'];
+
+/**
+ * Inter-company flows (loans, royalties, service fees and dividends) between group
+ * entities, for transfer pricing review. A flow runs from the paying or lending entity to
+ * the receiving one; amounts are held in the agreement currency and converted into the
+ * presentation currency for totals and the flow matrix.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class IntercompanyService {
+    readonly isPanelOpen = signal<boolean>(false);
+
+    readonly flows: Signal<Flow[]>;
+
+    // Only flows between entities shown on the canvas are drawn: filtered, in focus and not collapsed
+    readonly canvasLinks = computed<FlowLink[]>(() => {
+        const visible = new Set(this.diagramService.canvasStructure().nodes.map(n => n.id));
+        return this.flows()
+            .filter(f => visible.has(f.source) && visible.has(f.target))
+            .map(f => ({
+                id: `flow-${f.id}`,
+                source: f.source,
+                target: f.target,
+                label: `${FLOW_TYPE_LABELS[f.type]} ${this.formatAmount(f.annualAmount)} ${f.currency}`,
+                isDraft: f.isDraft,
+                flowType: f.type
+            }));
+    });
+
+    readonly totalsByEntity = computed(() => {
+        const totals = new Map<string, EntityFlowTotals>();
+        const entry = (id: string) => {
+            if (!totals.has(id)) totals.set(id, { inbound: 0, outbound: 0, count: 0, unconverted: 0 });
+            return totals.get(id)!;
+        };
+        this.flows().forEach(f => {
+            const amount = this.fxService.convert(f.annualAmount, f.currency)?.amount;
+            const source = entry(f.source);
+            const target = entry(f.target);
+            source.count++;
+            target.count++;
+            if (amount === undefined) {
+                source.unconverted++;
+                target.unconverted++;
+                return;
+            }
+            source.outbound += amount;
+            target.inbound += amount;
+        });
+        return totals;
+    });
+
+    // One row per payer -> payee pair, largest total first
+    readonly matrix = computed<FlowMatrixRow[]>(() => {
+        const rows = new Map<string, FlowMatrixRow>();
+        this.flows().forEach(f => {
+            const key = `${f.source}>${f.target}`;
+            if (!rows.has(key)) {
+                rows.set(key, {
+                    sourceId: f.source,
+                    sourceLabel: this.labelOf(f.source),
+                    targetId: f.target,
+                    targetLabel: this.labelOf(f.target),
+                    amounts: { loan: 0, royalty: 0, 'service-fee': 0, dividend: 0 },
+                    total: 0,
+                    flowCount: 0,
+                    agreementRefs: [],
+                    unconverted: 0
+                });
+            }
+            const row = rows.get(key)!;
+            const amount = this.fxService.convert(f.annualAmount, f.currency)?.amount;
+            row.flowCount++;
+            if (f.agreementRef && !row.agreementRefs.includes(f.agreementRef)) row.agreementRefs.push(f.agreementRef);
+            if (amount === undefined) {
+                row.unconverted++;
+                return;
+            }
+            row.amounts[f.type] += amount;
+            row.total += amount;
+        });
+        return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+    });
+
+    constructor(
+        private diagramService: DiagramService,
+        private fxService: FxService
+    ) {
+        this.flows = this.diagramService.flows;
+    }
+
+    flowsOf(entityId: string): Flow[] {
+        return this.flows().filter(f => f.source === entityId || f.target === entityId);
+    }
+
+    // Returns an error message instead of adding an invalid flow
+    addFlow(flow: Omit<Flow, 'id' | 'isDraft'>): string | null {
+        const cleaned = { ...flow, currency: flow.currency.trim().toUpperCase(), agreementRef: flow.agreementRef?.trim() || undefined };
+        const error = this.validate(cleaned);
+        if (error) return error;
+        this.diagramService.updateFlows([...this.flows(), {
+            ...cleaned,
+            id: this.createId(),
+            isDraft: this.diagramService.sandboxMode() || undefined
+        }], {
+            label: `Add ${FLOW_TYPE_LABELS[flow.type].toLowerCase()} ${this.labelOf(flow.source)} → ${this.labelOf(flow.target)}`
+        });
+        return null;
+    }
+
+    updateFlow(flowId: string, partial: Partial<Omit<Flow, 'id'>>): string | null {
+        const flow = this.flows().find(f => f.id === flowId);
+        if (!flow) return 'Flow not found.';
+        const updated = { ...flow, ...partial, currency: (partial.currency ?? flow.currency).trim().toUpperCase() };
+        const error = this.validate(updated);
+        if (error) return error;
+        this.diagramService.updateFlows(this.flows().map(f => f.id === flowId
+            ? { ...updated, isDraft: this.diagramService.sandboxMode() || f.isDraft }
+            : f), {
+            label: `Edit ${FLOW_TYPE_LABELS[flow.type].toLowerCase()} ${this.labelOf(flow.source)} → ${this.labelOf(flow.target)}`,
+            groupKey: `${flowId}:${Object.keys(partial)[0]}`
+        });
+        return null;
+    }
+
+    removeFlow(flowId: string) {
+        const flow = this.flows().find(f => f.id === flowId);
+        if (!flow) return;
+        this.diagramService.updateFlows(this.flows().filter(f => f.id !== flowId), {
+            label: `Remove ${FLOW_TYPE_LABELS[flow.type].toLowerCase()} ${this.labelOf(flow.source)} → ${this.labelOf(flow.target)}`
+        });
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label || id;
+    }
+
+    exportMatrix(rows = this.matrix()) {
+        const currency = this.fxService.presentationCurrency();
+        const csv: CsvValue[][] = [
+            [
+                ...MATRIX_COLUMNS,
+                ...FLOW_TYPES.map(t => `${FLOW_TYPE_LABELS[t]} (${currency})`),
+                `Total (${currency})`, 'Flows', 'Agreements', 'Unconverted Flows'
+            ],
+            ...rows.map(r => [
+                r.sourceId, r.sourceLabel, r.targetId, r.targetLabel,
+                ...FLOW_TYPES.map(t => this.round(r.amounts[t])),
+                this.round(r.total), r.flowCount, r.agreementRefs.join('; '), r.unconverted
+            ])
+        ];
+        downloadFile(toCsv(csv), 'intercompany-flow-matrix.csv', 'text/csv');
+    }
+
+    private validate(flow: Omit<Flow, 'id'>): string | null {
+        if (!flow.source || !flow.target) return 'Choose both entities.';
+        if (flow.source === flow.target) return 'A flow needs two different entities.';
+        const ids = new Set(this.diagramService.nodes().map(n => n.id));
+        if (!ids.has(flow.source) || !ids.has(flow.target)) return 'Entity not found.';
+        if (!Number.isFinite(flow.annualAmount) || flow.annualAmount < 0) return 'Enter an annual amount of zero or more.';
+        if (!/^[A-Z]{3}$/.test(flow.currency)) return 'Enter a three-letter currency code.';
+        return null;
+    }
+
+    private formatAmount(amount: number): string {
+        if (Math.abs(amount) >= 1e9) return `${this.round(amount / 1e9)}bn`;
+        if (Math.abs(amount) >= 1e6) return `${this.round(amount / 1e6)}m`;
+        if (Math.abs(amount) >= 1e3) return `${this.round(amount / 1e3)}k`;
+        return String(this.round(amount));
+    }
+
+    private round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+
+    private createId(): string {
+        return `f-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+}
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { Appointment, DiagramNode, DiagramService, Person } from './diagram.service';
+import { OfficerService } from './officer.service';
+
+describe('OfficerService', () => {
+    let service: OfficerService;
+    let people: ReturnType<typeof signal<Person[]>>;
+    let updatePeople: jasmine.Spy;
+
+    const seat = (id: string, entityId: string, fields: Partial<Appointment> = {}): Appointment =>
+        ({ id, entityId, role: 'director', appointedOn: '2020-01-01', ...fields });
+    const interlocks = () => service.interlocks().map(i => [i.entityIds, i.directors.map(d => d.name)]);
+
+    beforeEach(() => {
+        people = signal<Person[]>([
+            { id: 'p1', name: 'Ann', appointments: [seat('a1', 'HQ'), seat('a2', 'IE'), seat('a3', 'DE')] },
+            { id: 'p2', name: 'Bo', appointments: [seat('b1', 'IE'), seat('b2', 'HQ')] },
+            { id: 'p3', name: 'Cy', appointments: [seat('c1', 'DE'), seat('c2', 'IE', { role: 'secretary' })] }
+        ]);
+        updatePeople = jasmine.createSpy('updatePeople').and.callFake((next: Person[]) => people.set(next));
+        const nodes = [{ id: 'HQ', label: 'Holding' }, { id: 'IE', label: 'Ireland' }, { id: 'DE', label: 'Germany' }] as DiagramNode[];
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { people, nodes: () => nodes, updatePeople } }]
+        });
+        service = TestBed.inject(OfficerService);
+        service.today.set('2025-06-15');
+    });
+
+    describe('interlocks', () => {
+        it('pairs every two boards a director sits on, most shared directors first', () => {
+            expect(interlocks()).toEqual([
+                [['HQ', 'IE'], ['Ann', 'Bo']],
+                [['DE', 'HQ'], ['Ann']],
+                [['DE', 'IE'], ['Ann']]
+            ]);
+            expect(service.interlocks()[0].entityLabels).toEqual(['Holding', 'Ireland']);
+        });
+
+        it('count only directors in office today', () => {
+            service.resign('p1', 'a3', '2025-06-15');
+            service.updateAppointment('p2', 'b2', { appointedOn: '2025-07-01' });
+
+            expect(interlocks()).toEqual([[['HQ', 'IE'], ['Ann']]]);
+        });
+
+        it('ignore other roles and a second seat on the same board', () => {
+            people.update(list => list.map(p => p.id === 'p2' ? { ...p, appointments: [...p.appointments, seat('b3', 'IE', { role: 'signatory' })] } : p));
+
+            expect(interlocks().find(([ids]) => ids.join() === 'DE,IE')).toEqual([['DE', 'IE'], ['Ann']]);
+        });
+    });
+
+    describe('boards', () => {
+        it('list the serving officers by role, then name', () => {
+            expect(service.getBoard('IE').map(s => [s.person.name, s.appointment.role]))
+                .toEqual([['Ann', 'director'], ['Bo', 'director'], ['Cy', 'secretary']]);
+        });
+
+        it('keep a resignation in the history, newest first', () => {
+            service.resign('p2', 'b1', '2025-03-31');
+
+            expect(service.getBoard('IE').map(s => s.person.name)).toEqual(['Ann', 'Cy']);
+            expect(service.getBoardHistory('IE').slice(0, 2).map(e => [e.date, e.kind, e.seat.person.name]))
+                .toEqual([['2025-03-31', 'resigned', 'Bo'], ['2020-01-01', 'appointed', 'Ann']]);
+            expect(service.seats().find(s => s.person.id === 'p2')!.past.map(s => s.appointment.id)).toEqual(['b1']);
+        });
+    });
+
+    describe('appointing', () => {
+        it('reuses a person found by name', () => {
+            service.appoint('DE', { name: ' bo ' }, 'signatory', '2025-06-01');
+
+            expect(people().length).toBe(3);
+            expect(people()[1].appointments[2]).toEqual(jasmine.objectContaining({ entityId: 'DE', role: 'signatory', appointedOn: '2025-06-01' }));
+            expect(updatePeople.calls.mostRecent().args[1]).toEqual({ label: 'Appoint Bo as Authorised Signatory of Germany' });
+        });
+
+        it('registers someone new', () => {
+            service.appoint('HQ', { name: 'Dee', nationality: ' IE ' }, 'director');
+
+            expect(people()[3]).toEqual(jasmine.objectContaining({ name: 'Dee', nationality: 'IE' }));
+            expect(service.getBoard('HQ').map(s => s.person.name)).toEqual(['Ann', 'Bo', 'Dee']);
+        });
+    });
+});
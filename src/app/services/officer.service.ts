@@ -0,0 +1,212 @@
+import { Injectable, Signal, signal, computed } from '@angular/core';
+import { DiagramService, Person, Appointment } from './diagram.service';
+import { toIsoDate } from '../utils/iso-date';
+
+export type OfficerRole = Appointment['role'];
+
+export const OFFICER_ROLES: OfficerRole[] = ['director', 'secretary', 'signatory'];
+
+export const OFFICER_ROLE_LABELS: Record<OfficerRole, string> = {
+    director: 'Director',
+    secretary: 'Company Secretary',
+    signatory: 'Authorised Signatory'
+};
+
+export interface Seat {
+    person: Person;
+    appointment: Appointment;
+    entityLabel: string;
+}
+
+// "Who sits where": one row per person
+export interface PersonSeats {
+    person: Person;
+    current: Seat[];
+    past: Seat[];
+}
+
+// Two entities whose boards share at least one serving director
+export interface Interlock {
+    entityIds: [string, string];
+    entityLabels: [string, string];
+    directors: Person[];
+}
+
+export interface BoardEvent {
+    // Empty for appointments recorded without a date
+    date: string;
+    kind: 'appointed' | 'resigned';
+    seat: Seat;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class OfficerService {
+    readonly isPanelOpen = signal<boolean>(false);
+    readonly today = signal<string>(toIsoDate(new Date()));
+
+    readonly people: Signal<Person[]>;
+
+    readonly seats = computed<PersonSeats[]>(() => {
+        const today = this.today();
+        return this.people()
+            .map(person => {
+                const seats = person.appointments.map(appointment => this.toSeat(person, appointment));
+                return {
+                    person,
+                    current: seats.filter(s => this.isCurrent(s.appointment, today)),
+                    past: seats.filter(s => !this.isCurrent(s.appointment, today))
+                };
+            })
+            .sort((a, b) => b.current.length - a.current.length || a.person.name.localeCompare(b.person.name));
+    });
+
+    readonly interlocks = computed<Interlock[]>(() => {
+        const today = this.today();
+        const pairs = new Map<string, Interlock>();
+
+        this.people().forEach(person => {
+            const boards = Array.from(new Set(person.appointments
+                .filter(a => a.role === 'director' && this.isCurrent(a, today))
+                .map(a => a.entityId))).sort();
+
+            for (let i = 0; i < boards.length; i++) {
+                for (let j = i + 1; j < boards.length; j++) {
+                    const key = `${boards[i]}|${boards[j]}`;
+                    const interlock = pairs.get(key) ?? {
+                        entityIds: [boards[i], boards[j]] as [string, string],
+                        entityLabels: [this.labelOf(boards[i]), this.labelOf(boards[j])] as [string, string],
+                        directors: []
+                    };
+                    interlock.directors.push(person);
+                    pairs.set(key, interlock);
+                }
+            }
+        });
+        return Array.from(pairs.values()).sort((a, b) => b.directors.length - a.directors.length);
+    });
+
+    constructor(private diagramService: DiagramService) {
+        this.people = this.diagramService.people;
+    }
+
+    // In office on the given date: appointed on or before it and not yet resigned
+    isCurrent(appointment: Appointment, asOf = this.today()): boolean {
+        return (!appointment.appointedOn || appointment.appointedOn <= asOf)
+            && (!appointment.resignedOn || appointment.resignedOn > asOf);
+    }
+
+    getBoard(entityId: string, asOf = this.today()): Seat[] {
+        return this.people()
+            .flatMap(person => person.appointments
+                .filter(a => a.entityId === entityId && this.isCurrent(a, asOf))
+                .map(a => this.toSeat(person, a)))
+            .sort((a, b) => OFFICER_ROLES.indexOf(a.appointment.role) - OFFICER_ROLES.indexOf(b.appointment.role)
+                || a.person.name.localeCompare(b.person.name));
+    }
+
+    // Appointments and resignations on the entity's board, most recent first
+    getBoardHistory(entityId: string): BoardEvent[] {
+        const events = this.people().flatMap(person => person.appointments
+            .filter(a => a.entityId === entityId)
+            .flatMap(a => {
+                const seat = this.toSeat(person, a);
+                const appointed: BoardEvent = { date: a.appointedOn || '', kind: 'appointed', seat };
+                return a.resignedOn ? [appointed, { date: a.resignedOn, kind: 'resigned' as const, seat }] : [appointed];
+            }));
+        return events.sort((a, b) => b.date.localeCompare(a.date) || (a.kind === 'resigned' ? -1 : 1));
+    }
+
+    // Appoints an existing person (by id, else by name) or registers a new one
+    appoint(entityId: string, person: { id?: string, name: string, nationality?: string }, role: OfficerRole, appointedOn?: string) {
+        const name = person.name.trim();
+        if (!name) return;
+
+        const people = this.people();
+        const existing = people.find(p => p.id === person.id)
+            ?? people.find(p => p.name.trim().toLowerCase() === name.toLowerCase());
+        const appointment: Appointment = { id: this.createId('ap'), entityId, role, appointedOn: appointedOn || undefined };
+
+        const updated = existing
+            ? people.map(p => p.id === existing.id ? { ...p, appointments: [...p.appointments, appointment] } : p)
+            : [...people, {
+                id: this.createId('p'),
+                name,
+                nationality: person.nationality?.trim() || undefined,
+                appointments: [appointment]
+            }];
+        this.diagramService.updatePeople(updated, {
+            label: `Appoint ${existing?.name ?? name} as ${OFFICER_ROLE_LABELS[role]} of ${this.labelOf(entityId)}`
+        });
+    }
+
+    resign(personId: string, appointmentId: string, resignedOn = this.today()) {
+        const seat = this.findSeat(personId, appointmentId);
+        if (!seat) return;
+        this.updateAppointment(personId, appointmentId, { resignedOn }, {
+            label: `Resign ${seat.person.name} from ${seat.entityLabel}`
+        });
+    }
+
+    updateAppointment(personId: string, appointmentId: string, partial: Partial<Omit<Appointment, 'id' | 'entityId'>>,
+        options: { label?: string, groupKey?: string } = {}) {
+        const seat = this.findSeat(personId, appointmentId);
+        if (!seat) return;
+        this.diagramService.updatePeople(this.people().map(p => p.id !== personId ? p : {
+            ...p,
+            appointments: p.appointments.map(a => a.id === appointmentId ? { ...a, ...partial } : a)
+        }), {
+            label: options.label ?? `Edit ${seat.person.name} on ${seat.entityLabel}`,
+            groupKey: options.groupKey
+        });
+    }
+
+    // Deleting an appointment corrects a mistake; use resign() to end one and keep the history
+    removeAppointment(personId: string, appointmentId: string) {
+        const seat = this.findSeat(personId, appointmentId);
+        if (!seat) return;
+        this.diagramService.updatePeople(this.people().map(p => p.id !== personId ? p : {
+            ...p,
+            appointments: p.appointments.filter(a => a.id !== appointmentId)
+        }), { label: `Remove ${seat.person.name} from ${seat.entityLabel}` });
+    }
+
+    updatePerson(personId: string, partial: Partial<Pick<Person, 'name' | 'nationality'>>) {
+        const person = this.people().find(p => p.id === personId);
+        if (!person) return;
+        const field = Object.keys(partial)[0];
+        this.diagramService.updatePeople(this.people().map(p => p.id === personId ? { ...p, ...partial } : p), {
+            label: `Edit ${person.name}`,
+            groupKey: `${personId}:${field}`
+        });
+    }
+
+    removePerson(personId: string) {
+        const person = this.people().find(p => p.id === personId);
+        if (!person) return;
+        this.diagramService.updatePeople(this.people().filter(p => p.id !== personId), { label: `Remove ${person.name}` });
+    }
+
+    refreshToday() {
+        this.today.set(toIsoDate(new Date()));
+    }
+
+    private findSeat(personId: string, appointmentId: string): Seat | undefined {
+        const person = this.people().find(p => p.id === personId);
+        const appointment = person?.appointments.find(a => a.id === appointmentId);
+        return person && appointment ? this.toSeat(person, appointment) : undefined;
+    }
+
+    private toSeat(person: Person, appointment: Appointment): Seat {
+        return { person, appointment, entityLabel: this.labelOf(appointment.entityId) };
+    }
+
+    private labelOf(entityId: string): string {
+        return this.diagramService.nodes().find(n => n.id === entityId)?.label || entityId;
+    }
+
+    private createId(prefix: string): string {
+        return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+}
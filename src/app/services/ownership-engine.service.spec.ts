@@ -0,0 +1,96 @@
+import { TestBed } from '@angular/core/testing';
+import { OwnershipEngineService, OwnershipEdgeInput } from './ownership-engine.service';
+
+describe('OwnershipEngineService', () => {
+    let engine: OwnershipEngineService;
+
+    const stake = (source: string, target: string, ownershipPercentage: number): OwnershipEdgeInput =>
+        ({ source, target, ownershipPercentage });
+
+    beforeEach(() => {
+        TestBed.configureTestingModule({});
+        engine = TestBed.inject(OwnershipEngineService);
+    });
+
+    it('multiplies stakes down a simple chain', () => {
+        const { results, cycles, diverged } = engine.analyze(['A', 'B', 'C'], [stake('A', 'B', 60), stake('B', 'C', 50)]);
+
+        expect(results.get('A')).toEqual(jasmine.objectContaining({ ultimateParentId: null, effectiveOwnership: 100 }));
+        expect(results.get('B')).toEqual(jasmine.objectContaining({
+            ultimateParentId: 'A', directOwnership: 60, parentDirectOwnership: 60, effectiveOwnership: 60,
+            indirectOwnership: 0, minorityInterest: 40
+        }));
+        expect(results.get('C')).toEqual(jasmine.objectContaining({
+            ultimateParentId: 'A', directOwnership: 50, parentDirectOwnership: 0, effectiveOwnership: 30,
+            indirectOwnership: 30, minorityInterest: 70, inCycle: false
+        }));
+        expect(cycles).toEqual([]);
+        expect(diverged).toBeFalse();
+    });
+
+    it('adds up stakes held through several parents', () => {
+        const { results } = engine.analyze(['A', 'B', 'C', 'D'], [
+            stake('A', 'B', 100), stake('A', 'C', 100), stake('B', 'D', 40), stake('C', 'D', 30), stake('A', 'D', 10)
+        ]);
+
+        expect(results.get('D')).toEqual(jasmine.objectContaining({
+            ultimateParentId: 'A', directOwnership: 80, parentDirectOwnership: 10, effectiveOwnership: 80,
+            indirectOwnership: 70, minorityInterest: 20
+        }));
+    });
+
+    it('integrates a reciprocal holding and nets it out of the attributable stake', () => {
+        const { results, cycles, diverged } = engine.analyze(['R', 'A', 'B'], [
+            stake('R', 'A', 80), stake('A', 'B', 60), stake('B', 'A', 20)
+        ]);
+
+        // e(A) = 0.8 + 0.2·e(B), e(B) = 0.6·e(A)
+        expect(results.get('A')!.effectiveOwnership).toBeCloseTo(90.9091, 3);
+        expect(results.get('B')!.effectiveOwnership).toBeCloseTo(54.5455, 3);
+        expect(results.get('A')!.inCycle).toBeTrue();
+        expect(results.get('B')!.inCycle).toBeTrue();
+        expect(cycles.length).toBe(1);
+        expect(cycles[0]).toEqual(jasmine.arrayWithExactContents(['A', 'B']));
+        expect(diverged).toBeFalse();
+    });
+
+    it('reports a cycle holding all of itself as diverged and caps the figures', () => {
+        const { results, diverged } = engine.analyze(['R', 'A', 'B'], [
+            stake('R', 'A', 50), stake('A', 'B', 100), stake('B', 'A', 100)
+        ]);
+
+        expect(diverged).toBeTrue();
+        expect(results.get('A')!.effectiveOwnership).toBe(100);
+        expect(results.get('B')!.effectiveOwnership).toBe(100);
+        expect(results.get('A')!.minorityInterest).toBe(0);
+    });
+
+    it('keeps attributable equal to effective ownership outside cycles', () => {
+        const { results } = engine.analyze(['A', 'B', 'C'], [stake('A', 'B', 75), stake('B', 'C', 40)]);
+
+        expect(results.get('B')!.attributableOwnership).toBe(results.get('B')!.effectiveOwnership);
+        expect(results.get('C')!.attributableOwnership).toBe(results.get('C')!.effectiveOwnership);
+    });
+
+    it('treats the reciprocal stake like treasury shares in the attributable figure', () => {
+        const { results } = engine.analyze(['R', 'A', 'B'], [
+            stake('R', 'A', 80), stake('A', 'B', 60), stake('B', 'A', 20)
+        ]);
+
+        // Dividing by the loop factor 1 / (1 - 0.6·0.2) leaves the outside stakes
+        expect(results.get('A')!.attributableOwnership).toBeCloseTo(80, 3);
+        expect(results.get('B')!.attributableOwnership).toBeCloseTo(48, 3);
+        expect(results.get('A')!.effectiveOwnership).toBeGreaterThan(results.get('A')!.attributableOwnership);
+    });
+
+    it('finds cycles in a chain deeper than the call stack', () => {
+        const ids = Array.from({ length: 20000 }, (_, i) => `E${i}`);
+        const edges = ids.slice(1).map((id, i) => stake(ids[i], id, 100));
+        edges.push(stake(ids[ids.length - 1], ids[ids.length - 2], 10));
+
+        const { cycles } = engine.analyze(ids, edges);
+
+        expect(cycles.length).toBe(1);
+        expect(cycles[0]).toEqual(jasmine.arrayWithExactContents([ids[ids.length - 2], ids[ids.length - 1]]));
+    });
+});
@@ -0,0 +1,228 @@
+import { Injectable } from '@angular/core';
+
+export interface OwnershipEdgeInput {
+    source: string;
+    target: string;
+    ownershipPercentage?: number;
+}
+
+export interface OwnershipResult {
+    entityId: string;
+    // Ultimate parent the figures below are measured against
+    ultimateParentId: string | null;
+    // Sum of stakes held directly by group entities
+    directOwnership: number;
+    // Stake held directly by the ultimate parent
+    parentDirectOwnership: number;
+    // Integrated ownership over every path, including reciprocal loops: the
+    // ultimate parent's economic claim on the entity's own assets
+    effectiveOwnership: number;
+    // Effective ownership not held directly by the ultimate parent
+    indirectOwnership: number;
+    // Stake in the entity's equity with reciprocal holdings netted out like treasury
+    // shares; equals effective ownership outside cycles
+    attributableOwnership: number;
+    // Economic claim on the entity's assets held by shareholders outside the group
+    minorityInterest: number;
+    inCycle: boolean;
+}
+
+export interface OwnershipAnalysis {
+    results: Map<string, OwnershipResult>;
+    // Groups of entities holding each other's shares, directly or through a chain
+    cycles: string[][];
+    // True when a cycle holds 100% or more of itself and the figures cannot converge
+    diverged: boolean;
+}
+
+const MAX_ITERATIONS = 1000;
+const TOLERANCE = 1e-9;
+
+@Injectable({
+    providedIn: 'root'
+})
+export class OwnershipEngineService {
+
+    analyze(entityIds: string[], edges: OwnershipEdgeInput[]): OwnershipAnalysis {
+        const { stakes, incoming } = this.buildStakes(entityIds, edges);
+
+        const roots = new Set(entityIds.filter(id => incoming.get(id)!.length === 0));
+        const cycles = this.findCycles(entityIds, stakes);
+        const cycleMembers = new Set(cycles.flat());
+        let diverged = false;
+
+        // Integrated ownership of every entity from each root: e = a_root + e·A
+        const byRoot = new Map<string, Map<string, number>>();
+        roots.forEach(root => {
+            const { values, converged } = this.integrate(root, entityIds, incoming);
+            diverged = diverged || !converged;
+            byRoot.set(root, values);
+        });
+
+        // Loop factor (I - A)^-1_jj, only differs from 1 for entities inside cycles
+        const loopFactor = new Map<string, number>();
+        cycleMembers.forEach(id => {
+            const { values, converged } = this.integrate(id, entityIds, incoming);
+            diverged = diverged || !converged;
+            loopFactor.set(id, 1 + (values.get(id) || 0));
+        });
+
+        const results = new Map<string, OwnershipResult>();
+        entityIds.forEach(id => {
+            const direct = incoming.get(id)!.reduce((sum, s) => sum + s.share, 0);
+
+            if (roots.has(id)) {
+                results.set(id, {
+                    entityId: id, ultimateParentId: null, directOwnership: 0, parentDirectOwnership: 100,
+                    effectiveOwnership: 100, indirectOwnership: 0, attributableOwnership: 100,
+                    minorityInterest: 0, inCycle: false
+                });
+                return;
+            }
+
+            // Measure against the root with the largest economic interest
+            let ultimateParentId: string | null = null;
+            let effective = 0;
+            for (const [root, values] of byRoot) {
+                const value = values.get(id) || 0;
+                if (value > effective) {
+                    effective = value;
+                    ultimateParentId = root;
+                }
+            }
+
+            // A cycle holding 100% or more of itself diverges; keep figures readable
+            effective = Math.min(effective, 1);
+
+            const parentDirect = incoming.get(id)!
+                .filter(s => s.source === ultimateParentId)
+                .reduce((sum, s) => sum + s.share, 0);
+            const attributable = Math.min(effective / (loopFactor.get(id) || 1), 1);
+
+            results.set(id, {
+                entityId: id,
+                ultimateParentId,
+                directOwnership: this.toPercent(direct),
+                parentDirectOwnership: this.toPercent(parentDirect),
+                effectiveOwnership: this.toPercent(effective),
+                indirectOwnership: this.toPercent(Math.max(effective - parentDirect, 0)),
+                attributableOwnership: this.toPercent(attributable),
+                minorityInterest: this.toPercent(Math.max(1 - effective, 0)),
+                inCycle: cycleMembers.has(id)
+            });
+        });
+
+        return { results, cycles, diverged };
+    }
+
+    // Integrated stake (percent) a single holder has in every other id, summed over all chains.
+    // Used for owners outside the group, e.g. a natural person holding shares in the top company.
+    analyzeHolder(holderId: string, ids: string[], edges: OwnershipEdgeInput[]): { stakes: Map<string, number>, converged: boolean } {
+        const { incoming } = this.buildStakes(ids, edges);
+        const { values, converged } = this.integrate(holderId, ids, incoming);
+        const stakes = new Map<string, number>();
+        values.forEach((value, id) => {
+            if (id !== holderId && value > 0) stakes.set(id, this.toPercent(Math.min(value, 1)));
+        });
+        return { stakes, converged };
+    }
+
+    private buildStakes(entityIds: string[], edges: OwnershipEdgeInput[]) {
+        const ids = new Set(entityIds);
+        const stakes = edges
+            .filter(e => ids.has(e.source) && ids.has(e.target))
+            .map(e => ({ source: e.source, target: e.target, share: (e.ownershipPercentage || 0) / 100 }));
+
+        const incoming = new Map<string, { source: string, share: number }[]>();
+        entityIds.forEach(id => incoming.set(id, []));
+        stakes.forEach(s => incoming.get(s.target)!.push({ source: s.source, share: s.share }));
+        return { stakes, incoming };
+    }
+
+    // Gauss-Seidel iteration of the ownership flowing out of `origin` along every walk of length >= 1
+    private integrate(origin: string, entityIds: string[], incoming: Map<string, { source: string, share: number }[]>) {
+        const values = new Map<string, number>(entityIds.map(id => [id, 0]));
+
+        for (let i = 0; i < MAX_ITERATIONS; i++) {
+            let delta = 0;
+            entityIds.forEach(id => {
+                const next = incoming.get(id)!.reduce((sum, s) =>
+                    sum + s.share * (s.source === origin ? 1 + values.get(origin)! : values.get(s.source)!), 0);
+                delta = Math.max(delta, Math.abs(next - values.get(id)!));
+                values.set(id, next);
+            });
+            if (delta < TOLERANCE) return { values, converged: true };
+            if (delta > 1e6) break;
+        }
+        return { values, converged: false };
+    }
+
+    // Tarjan's strongly connected components; any component with a loop is a circular holding
+    private findCycles(entityIds: string[], stakes: { source: string, target: string }[]): string[][] {
+        const outgoing = new Map<string, string[]>(entityIds.map(id => [id, []]));
+        stakes.forEach(s => outgoing.get(s.source)!.push(s.target));
+
+        const index = new Map<string, number>();
+        const lowLink = new Map<string, number>();
+        const onStack = new Set<string>();
+        const stack: string[] = [];
+        const cycles: string[][] = [];
+        let counter = 0;
+
+        // Depth-first search with an explicit stack, so a long chain of holdings cannot overflow the call stack
+        const visit = (start: string) => {
+            const frames: { id: string, next: number }[] = [];
+            const open = (id: string) => {
+                index.set(id, counter);
+                lowLink.set(id, counter);
+                counter++;
+                stack.push(id);
+                onStack.add(id);
+                frames.push({ id, next: 0 });
+            };
+            open(start);
+
+            while (frames.length) {
+                const frame = frames[frames.length - 1];
+                const targets = outgoing.get(frame.id)!;
+                if (frame.next < targets.length) {
+                    const next = targets[frame.next++];
+                    if (!index.has(next)) {
+                        open(next);
+                    } else if (onStack.has(next)) {
+                        lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(next)!));
+                    }
+                    continue;
+                }
+
+                // All holdings explored: hand the low link back to the holder
+                frames.pop();
+                const holder = frames[frames.length - 1];
+                if (holder) lowLink.set(holder.id, Math.min(lowLink.get(holder.id)!, lowLink.get(frame.id)!));
+
+                if (lowLink.get(frame.id) === index.get(frame.id)) {
+                    const component: string[] = [];
+                    let member: string;
+                    do {
+                        member = stack.pop()!;
+                        onStack.delete(member);
+                        component.push(member);
+                    } while (member !== frame.id);
+
+                    if (component.length > 1 || targets.includes(frame.id)) {
+                        cycles.push(component);
+                    }
+                }
+            }
+        };
+
+        entityIds.forEach(id => {
+            if (!index.has(id)) visit(id);
+        });
+        return cycles;
+    }
+
+    private toPercent(fraction: number): number {
+        return Math.round(fraction * 1e6) / 1e4;
+    }
+}
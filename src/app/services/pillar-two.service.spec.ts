@@ -0,0 +1,146 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramNode, DiagramService } from './diagram.service';
+import { PillarTwoService } from './pillar-two.service';
+
+describe('PillarTwoService', () => {
+    let service: PillarTwoService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let updateNodes: jasmine.Spy;
+
+    const entity = (id: string, fields: Partial<DiagramNode>) => ({ id, label: id, ...fields }) as DiagramNode;
+
+    beforeEach(() => {
+        nodes = signal<DiagramNode[]>([]);
+        updateNodes = jasmine.createSpy('updateNodes');
+        TestBed.configureTestingModule({
+            providers: [{
+                provide: DiagramService,
+                useValue: { currentStructure: () => ({ nodes: nodes(), edges: [] }), updateNodes }
+            }]
+        });
+        service = TestBed.inject(PillarTwoService);
+        service.fiscalYear.set(2025);
+    });
+
+    describe('jurisdictional ETR', () => {
+        it('charges top-up tax on the excess profit after the substance-based carve-out', () => {
+            nodes.set([
+                entity('IE1', { jurisdiction: 'Ireland', pillarTwoStatus: 'In-Scope', globeIncome: 1000, coveredTaxes: 100,
+                    eligiblePayroll: 1000, tangibleAssets: 500 }),
+                entity('IE2', { taxResidency: 'Ireland', pillarTwoStatus: 'In-Scope', globeIncome: 1000, coveredTaxes: 50 })
+            ]);
+
+            const [ireland] = service.jurisdictions();
+            expect(ireland.entityIds).toEqual(['IE1', 'IE2']);
+            expect(ireland.etr).toBeCloseTo(7.5, 6);
+            // 2025 carve-out: 9.6% of payroll and 7.6% of tangible assets
+            expect(ireland.substanceExclusion).toBeCloseTo(96 + 38, 6);
+            expect(ireland.excessProfit).toBeCloseTo(1866, 6);
+            expect(ireland.topUpRate).toBeCloseTo(7.5, 6);
+            expect(ireland.topUpTax).toBeCloseTo(139.95, 6);
+            expect(ireland.status).toBe('top-up');
+            expect(service.totalTopUpTax()).toBeCloseTo(139.95, 6);
+        });
+
+        it('treats an ETR at or above the minimum rate as compliant', () => {
+            nodes.set([entity('DE1', { jurisdiction: 'Germany', pillarTwoStatus: 'In-Scope', globeIncome: 100, coveredTaxes: 15 })]);
+
+            expect(service.jurisdictions()[0]).toEqual(jasmine.objectContaining({ etr: 15, topUpTax: 0, status: 'compliant' }));
+        });
+
+        it('reports losses and jurisdictions without inputs separately', () => {
+            nodes.set([
+                entity('MT1', { jurisdiction: 'Malta', pillarTwoStatus: 'In-Scope', globeIncome: -50, coveredTaxes: 0 }),
+                entity('CY1', { jurisdiction: 'Cyprus', pillarTwoStatus: 'In-Scope' }),
+                entity('US1', { jurisdiction: 'USA', pillarTwoStatus: 'Excluded', globeIncome: 100, coveredTaxes: 0 })
+            ]);
+
+            const byName = new Map(service.jurisdictions().map(j => [j.jurisdiction, j]));
+            expect(byName.get('Malta')).toEqual(jasmine.objectContaining({ status: 'loss', etr: null, topUpTax: 0 }));
+            expect(byName.get('Cyprus')).toEqual(jasmine.objectContaining({ status: 'no-data', missingInputs: ['CY1'] }));
+            expect(byName.has('USA')).toBeFalse();
+        });
+
+        it('phases the carve-out rates down over the transition', () => {
+            expect(service.getCarveOutRates(2020)).toEqual([10, 8]);
+            expect(service.getCarveOutRates(2028)).toEqual([9, 7]);
+            expect(service.getCarveOutRates(2040)).toEqual([5, 5]);
+        });
+    });
+
+    describe('transitional safe harbours', () => {
+        const evaluation = (jurisdiction: string) => service.safeHarbours().find(e => e.jurisdiction === jurisdiction)!;
+
+        it('passes the de minimis test for small revenue and profit', () => {
+            nodes.set([entity('MT1', { jurisdiction: 'Malta', pillarTwoStatus: 'Pending',
+                cbcrRevenue: 5_000_000, cbcrProfitBeforeTax: 500_000, cbcrIncomeTax: 10_000 })]);
+
+            expect(evaluation('Malta').passedTest).toBe('de-minimis');
+            expect(evaluation('Malta').proposals).toEqual([{ entityId: 'MT1', status: 'Safe-Harbor' }]);
+        });
+
+        it('passes the simplified ETR test at the transition rate for the year', () => {
+            nodes.set([entity('IE1', { jurisdiction: 'Ireland', pillarTwoStatus: 'In-Scope',
+                cbcrRevenue: 50_000_000, cbcrProfitBeforeTax: 10_000_000, cbcrIncomeTax: 1_600_000 })]);
+
+            const ireland = evaluation('Ireland');
+            expect(ireland.simplifiedEtr).toBeCloseTo(16, 6);
+            expect(ireland.checks.map(c => c.passed)).toEqual([false, true, false]);
+            expect(ireland.passedTest).toBe('simplified-etr');
+
+            service.fiscalYear.set(2026);
+            expect(evaluation('Ireland').passedTest).toBeNull();
+        });
+
+        it('passes the routine profits test when profit stays within the carve-out', () => {
+            nodes.set([entity('DE1', { jurisdiction: 'Germany', pillarTwoStatus: 'In-Scope',
+                cbcrRevenue: 50_000_000, cbcrProfitBeforeTax: 2_000_000, cbcrIncomeTax: 100_000,
+                eligiblePayroll: 20_000_000, tangibleAssets: 10_000_000 })]);
+
+            const germany = evaluation('Germany');
+            expect(germany.substanceExclusion).toBeCloseTo(1_920_000 + 760_000, 6);
+            expect(germany.passedTest).toBe('routine-profits');
+        });
+
+        it('proposes revoking the status when every test fails', () => {
+            nodes.set([entity('LU1', { jurisdiction: 'Luxembourg', pillarTwoStatus: 'Safe-Harbor',
+                cbcrRevenue: 50_000_000, cbcrProfitBeforeTax: 10_000_000, cbcrIncomeTax: 500_000 })]);
+
+            expect(evaluation('Luxembourg').passedTest).toBeNull();
+            expect(evaluation('Luxembourg').proposals).toEqual([{ entityId: 'LU1', status: 'In-Scope' }]);
+        });
+
+        it('proposes nothing without complete inputs or outside the transition years', () => {
+            nodes.set([
+                entity('MT1', { jurisdiction: 'Malta', pillarTwoStatus: 'Pending', cbcrRevenue: 5_000_000, cbcrProfitBeforeTax: 500_000 }),
+                entity('MT2', { jurisdiction: 'Malta', pillarTwoStatus: 'Pending', cbcrRevenue: 1_000 })
+            ]);
+            expect(evaluation('Malta').missingInputs).toEqual(['MT2']);
+            expect(evaluation('Malta').checks).toEqual([]);
+            expect(evaluation('Malta').proposals).toEqual([]);
+
+            nodes.set([entity('MT1', { jurisdiction: 'Malta', pillarTwoStatus: 'Pending', cbcrRevenue: 5_000_000, cbcrProfitBeforeTax: 500_000 })]);
+            service.fiscalYear.set(2027);
+            expect(service.isSafeHarbourYear(2027)).toBeFalse();
+            expect(evaluation('Malta').proposals).toEqual([]);
+        });
+
+        it('records the qualifying test when applying a result', () => {
+            nodes.set([entity('MT1', { jurisdiction: 'Malta', pillarTwoStatus: 'Pending',
+                cbcrRevenue: 5_000_000, cbcrProfitBeforeTax: 500_000, cbcrIncomeTax: 10_000 })]);
+
+            service.applySafeHarbour(evaluation('Malta'));
+
+            const [updates, label] = updateNodes.calls.mostRecent().args;
+            expect(label).toBe('Apply de minimis safe harbour to Malta');
+            expect(updates).toEqual([{
+                id: 'MT1',
+                partial: {
+                    pillarTwoStatus: 'Safe-Harbor',
+                    safeHarbour: jasmine.objectContaining({ test: 'de-minimis', fiscalYear: 2025 })
+                }
+            }]);
+        });
+    });
+});
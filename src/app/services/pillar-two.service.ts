@@ -0,0 +1,275 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramNode } from './diagram.service';
+
+export const GLOBE_MINIMUM_RATE = 15;
+
+export type JurisdictionEtrStatus = 'top-up' | 'compliant' | 'loss' | 'no-data';
+
+export interface JurisdictionEtr {
+    jurisdiction: string;
+    entityIds: string[];
+    globeIncome: number;
+    coveredTaxes: number;
+    // Null when the jurisdiction has a net GloBE loss
+    etr: number | null;
+    substanceExclusion: number;
+    excessProfit: number;
+    topUpRate: number;
+    topUpTax: number;
+    // In-scope entities without GloBE income or covered taxes entered
+    missingInputs: string[];
+    status: JurisdictionEtrStatus;
+}
+
+export type SafeHarbourTest = 'de-minimis' | 'simplified-etr' | 'routine-profits';
+
+export interface SafeHarbourCheck {
+    test: SafeHarbourTest;
+    passed: boolean;
+    detail: string;
+}
+
+export interface SafeHarbourEvaluation {
+    jurisdiction: string;
+    entityIds: string[];
+    revenue: number;
+    profitBeforeTax: number;
+    incomeTax: number;
+    // Null when profit before tax is zero or negative
+    simplifiedEtr: number | null;
+    substanceExclusion: number;
+    checks: SafeHarbourCheck[];
+    // First test passed, or null when the jurisdiction does not qualify
+    passedTest: SafeHarbourTest | null;
+    // Entities without CbCR revenue or profit before tax entered
+    missingInputs: string[];
+    // Entities whose status differs from what the tests support
+    proposals: { entityId: string, status: 'Safe-Harbor' | 'In-Scope' }[];
+}
+
+export const SAFE_HARBOUR_TEST_LABELS: Record<SafeHarbourTest, string> = {
+    'de-minimis': 'De minimis',
+    'simplified-etr': 'Simplified ETR',
+    'routine-profits': 'Routine profits'
+};
+
+// CbCR thresholds are in EUR; figures are taken as entered
+const DE_MINIMIS_REVENUE = 10_000_000;
+const DE_MINIMIS_PROFIT = 1_000_000;
+
+// Transition rate for the simplified ETR test; the transitional safe harbour ends after 2026
+const SIMPLIFIED_ETR_RATES: Record<number, number> = { 2023: 15, 2024: 15, 2025: 16, 2026: 17 };
+
+// Substance-based income exclusion carve-out rates (% of payroll, % of tangible assets), Article 9.2 transition
+const CARVE_OUT_RATES: Record<number, [number, number]> = {
+    2023: [10, 8], 2024: [9.8, 7.8], 2025: [9.6, 7.6], 2026: [9.4, 7.4], 2027: [9.2, 7.2], 2028: [9, 7],
+    2029: [8.2, 6.6], 2030: [7.4, 6.2], 2031: [6.6, 5.8], 2032: [5.8, 5.4]
+};
+
+export const ETR_STATUS_COLORS: Record<JurisdictionEtrStatus, string> = {
+    'top-up': '#ef4444', // Red
+    compliant: '#10b981', // Emerald
+    loss: '#94a3b8', // Slate
+    'no-data': '#cbd5e1' // Light slate
+};
+
+@Injectable({
+    providedIn: 'root'
+})
+export class PillarTwoService {
+    readonly fiscalYear = signal<number>(new Date().getFullYear());
+    readonly isPanelOpen = signal<boolean>(false);
+    readonly showHeatMap = signal<boolean>(false);
+
+    readonly carveOutRates = computed(() => this.getCarveOutRates(this.fiscalYear()));
+
+    readonly jurisdictions = computed<JurisdictionEtr[]>(() => {
+        const [payrollRate, assetRate] = this.carveOutRates();
+        const groups = new Map<string, DiagramNode[]>();
+        this.diagramService.currentStructure().nodes
+            .filter(n => n.pillarTwoStatus === 'In-Scope')
+            .forEach(n => {
+                const key = this.jurisdictionOf(n);
+                groups.set(key, [...(groups.get(key) || []), n]);
+            });
+
+        return Array.from(groups.entries())
+            .map(([jurisdiction, entities]) => this.calculate(jurisdiction, entities, payrollRate, assetRate))
+            .sort((a, b) => b.topUpTax - a.topUpTax || a.jurisdiction.localeCompare(b.jurisdiction));
+    });
+
+    readonly totalTopUpTax = computed(() => this.jurisdictions().reduce((sum, j) => sum + j.topUpTax, 0));
+
+    // Jurisdictional result per in-scope entity, for the canvas heat map
+    readonly entityHeat = computed(() => {
+        const heat = new Map<string, JurisdictionEtr>();
+        if (!this.showHeatMap()) return heat;
+        this.jurisdictions().forEach(j => j.entityIds.forEach(id => heat.set(id, j)));
+        return heat;
+    });
+
+    // Transitional CbCR safe harbour tests per jurisdiction, over in-scope, safe harbour and pending entities
+    readonly safeHarbours = computed<SafeHarbourEvaluation[]>(() => {
+        const year = this.fiscalYear();
+        const groups = new Map<string, DiagramNode[]>();
+        this.diagramService.currentStructure().nodes
+            .filter(n => n.pillarTwoStatus === 'In-Scope' || n.pillarTwoStatus === 'Safe-Harbor' || n.pillarTwoStatus === 'Pending')
+            .forEach(n => {
+                const key = this.jurisdictionOf(n);
+                groups.set(key, [...(groups.get(key) || []), n]);
+            });
+
+        return Array.from(groups.entries())
+            .map(([jurisdiction, entities]) => this.evaluateSafeHarbour(jurisdiction, entities, year))
+            .sort((a, b) => a.jurisdiction.localeCompare(b.jurisdiction));
+    });
+
+    readonly proposalCount = computed(() => this.safeHarbours().reduce((sum, e) => sum + e.proposals.length, 0));
+
+    constructor(private diagramService: DiagramService) { }
+
+    isSafeHarbourYear(year: number): boolean {
+        return year in SIMPLIFIED_ETR_RATES;
+    }
+
+    // Sets the proposed status on every entity of the jurisdiction, recording the qualifying test
+    applySafeHarbour(evaluation: SafeHarbourEvaluation) {
+        if (evaluation.proposals.length === 0) return;
+        this.diagramService.updateNodes(this.toUpdates([evaluation]), this.describeProposal(evaluation));
+    }
+
+    applyAllSafeHarbours() {
+        const evaluations = this.safeHarbours().filter(e => e.proposals.length > 0);
+        if (evaluations.length === 0) return;
+        this.diagramService.updateNodes(this.toUpdates(evaluations), `Apply safe harbour results (${this.fiscalYear()})`);
+    }
+
+    jurisdictionOf(node: DiagramNode): string {
+        return node.taxResidency?.trim() || node.jurisdiction?.trim() || 'Unknown';
+    }
+
+    getCarveOutRates(year: number): [number, number] {
+        if (year < 2023) return CARVE_OUT_RATES[2023];
+        return CARVE_OUT_RATES[year] || [5, 5];
+    }
+
+    private toUpdates(evaluations: SafeHarbourEvaluation[]) {
+        const evaluatedAt = new Date().toISOString();
+        return evaluations.flatMap(evaluation => {
+            const passed = evaluation.checks.find(c => c.test === evaluation.passedTest);
+            return evaluation.proposals.map(p => ({
+                id: p.entityId,
+                partial: {
+                    pillarTwoStatus: p.status,
+                    safeHarbour: passed
+                        ? { test: passed.test, fiscalYear: this.fiscalYear(), evaluatedAt, detail: passed.detail }
+                        : undefined
+                }
+            }));
+        });
+    }
+
+    private describeProposal(evaluation: SafeHarbourEvaluation): string {
+        return evaluation.passedTest
+            ? `Apply ${SAFE_HARBOUR_TEST_LABELS[evaluation.passedTest].toLowerCase()} safe harbour to ${evaluation.jurisdiction}`
+            : `Revoke safe harbour for ${evaluation.jurisdiction}`;
+    }
+
+    private evaluateSafeHarbour(jurisdiction: string, entities: DiagramNode[], year: number): SafeHarbourEvaluation {
+        const sum = (field: 'cbcrRevenue' | 'cbcrProfitBeforeTax' | 'cbcrIncomeTax' | 'eligiblePayroll' | 'tangibleAssets') =>
+            entities.reduce((total, n) => total + (n[field] || 0), 0);
+
+        const revenue = sum('cbcrRevenue');
+        const profitBeforeTax = sum('cbcrProfitBeforeTax');
+        const incomeTax = sum('cbcrIncomeTax');
+        const [payrollRate, assetRate] = this.getCarveOutRates(year);
+        const substanceExclusion = sum('eligiblePayroll') * payrollRate / 100 + sum('tangibleAssets') * assetRate / 100;
+        const simplifiedEtr = profitBeforeTax > 0 ? incomeTax / profitBeforeTax * 100 : null;
+        const missingInputs = entities
+            .filter(n => n.cbcrRevenue === undefined || n.cbcrProfitBeforeTax === undefined)
+            .map(n => n.id);
+
+        const checks: SafeHarbourCheck[] = [];
+        const transitionRate = SIMPLIFIED_ETR_RATES[year];
+        if (transitionRate !== undefined && missingInputs.length === 0) {
+            checks.push({
+                test: 'de-minimis',
+                passed: revenue < DE_MINIMIS_REVENUE && profitBeforeTax < DE_MINIMIS_PROFIT,
+                detail: `Revenue ${this.formatAmount(revenue)} (< 10m) and profit before tax ${this.formatAmount(profitBeforeTax)} (< 1m)`
+            });
+            checks.push({
+                test: 'simplified-etr',
+                passed: simplifiedEtr !== null && simplifiedEtr >= transitionRate,
+                detail: simplifiedEtr === null
+                    ? 'No profit before tax'
+                    : `Simplified ETR ${simplifiedEtr.toFixed(1)}% against ${transitionRate}% transition rate`
+            });
+            checks.push({
+                test: 'routine-profits',
+                passed: profitBeforeTax <= substanceExclusion,
+                detail: `Profit before tax ${this.formatAmount(profitBeforeTax)} against SBIE ${this.formatAmount(substanceExclusion)}`
+            });
+        }
+
+        const passedTest = checks.find(c => c.passed)?.test ?? null;
+        // Without a complete evaluation nothing is proposed
+        const target: 'Safe-Harbor' | 'In-Scope' | null = checks.length === 0 ? null : (passedTest ? 'Safe-Harbor' : 'In-Scope');
+        const isUpToDate = (n: DiagramNode) => passedTest
+            ? n.pillarTwoStatus === 'Safe-Harbor' && n.safeHarbour?.test === passedTest && n.safeHarbour.fiscalYear === year
+            : n.pillarTwoStatus === 'In-Scope';
+        const proposals = target
+            ? entities.filter(n => !isUpToDate(n)).map(n => ({ entityId: n.id, status: target }))
+            : [];
+
+        return {
+            jurisdiction, entityIds: entities.map(n => n.id), revenue, profitBeforeTax, incomeTax,
+            simplifiedEtr, substanceExclusion, checks, passedTest, missingInputs, proposals
+        };
+    }
+
+    private formatAmount(value: number): string {
+        return Math.round(value).toLocaleString('en-US');
+    }
+
+    private calculate(jurisdiction: string, entities: DiagramNode[], payrollRate: number, assetRate: number): JurisdictionEtr {
+        const sum = (field: 'globeIncome' | 'coveredTaxes' | 'eligiblePayroll' | 'tangibleAssets') =>
+            entities.reduce((total, n) => total + (n[field] || 0), 0);
+
+        const globeIncome = sum('globeIncome');
+        const coveredTaxes = sum('coveredTaxes');
+        const missingInputs = entities
+            .filter(n => n.globeIncome === undefined || n.coveredTaxes === undefined)
+            .map(n => n.id);
+        const substanceExclusion = sum('eligiblePayroll') * payrollRate / 100 + sum('tangibleAssets') * assetRate / 100;
+
+        const result: JurisdictionEtr = {
+            jurisdiction,
+            entityIds: entities.map(n => n.id),
+            globeIncome,
+            coveredTaxes,
+            etr: null,
+            substanceExclusion,
+            excessProfit: 0,
+            topUpRate: 0,
+            topUpTax: 0,
+            missingInputs,
+            status: 'no-data'
+        };
+
+        if (missingInputs.length === entities.length) return result;
+        if (globeIncome <= 0) return { ...result, status: 'loss' };
+
+        const etr = coveredTaxes / globeIncome * 100;
+        const topUpRate = Math.max(GLOBE_MINIMUM_RATE - etr, 0);
+        const excessProfit = Math.max(globeIncome - substanceExclusion, 0);
+
+        return {
+            ...result,
+            etr,
+            excessProfit,
+            topUpRate,
+            topUpTax: excessProfit * topUpRate / 100,
+            status: topUpRate > 0 ? 'top-up' : 'compliant'
+        };
+    }
+}
@@ -0,0 +1,142 @@
+import { Injectable } from '@angular/core';
+import { DiagramService, DiagramNode, DiagramEdge } from './diagram.service';
+import { ComplianceService } from './compliance.service';
+import { OfficerService, OFFICER_ROLE_LABELS } from './officer.service';
+import { FxService } from './fx.service';
+import { CsvValue, toCsv, downloadFile, downloadWorkbook } from '../utils/file-export';
+
+export interface RegisterExportOptions {
+    format: 'csv' | 'xlsx';
+    // Limit the register to entities matching the active designer filters
+    respectFilters: boolean;
+}
+
+const ENTITY_COLUMNS = [
+    'Entity ID', 'Entity Name', 'Entity Type', 'Status', 'Region', 'Jurisdiction', 'Tax Residency', 'Tax ID',
+    'Local Currency', 'CIT Rate %', 'Pillar Two Status', 'Safe Harbour Test', 'Ultimate Parent', 'Parent Chain', 'Direct Parents',
+    'Direct Ownership %', 'Indirect Ownership %', 'Effective Ownership %', 'Attributable Ownership %',
+    'Minority Interest %', 'Effective From', 'Effective To', 'Filing Due Date', 'Next Obligation', 'Officers',
+    'Equity', 'Revenue', 'Profit before Tax', 'Presentation Currency', 'Equity (Converted)', 'Revenue (Converted)',
+    'Profit before Tax (Converted)', 'FX Rate', 'FX Rate Date', 'FX Source'
+];
+
+const EDGE_COLUMNS = ['Edge ID', 'Parent ID', 'Parent Name', 'Subsidiary ID', 'Subsidiary Name', 'Ownership %', 'Effective From', 'Effective To', 'Draft'];
+
+@Injectable({
+    providedIn: 'root'
+})
+export class RegisterExportService {
+
+    constructor(
+        private diagramService: DiagramService,
+        private complianceService: ComplianceService,
+        private officerService: OfficerService,
+        private fxService: FxService
+    ) { }
+
+    async export(options: RegisterExportOptions) {
+        const nodes = options.respectFilters ? this.diagramService.filteredNodes() : this.diagramService.nodes();
+        const edges = options.respectFilters ? this.diagramService.filteredEdges() : this.diagramService.edges();
+        // Parent chains are always resolved against the full structure in force today;
+        // ended stakes stay in the ownership sheet with their dates
+        const allNodes = this.diagramService.nodes();
+        const allEdges = this.diagramService.currentStructure().edges;
+
+        const entityRows = [ENTITY_COLUMNS, ...nodes.map(n => this.buildEntityRow(n, allNodes, allEdges))];
+        const edgeRows = [EDGE_COLUMNS, ...edges.map(e => this.buildEdgeRow(e, allNodes))];
+
+        if (options.format === 'csv') {
+            downloadFile(toCsv(entityRows), 'entity-register.csv', 'text/csv');
+            downloadFile(toCsv(edgeRows), 'entity-register-ownership.csv', 'text/csv');
+            return;
+        }
+
+        await downloadWorkbook([{ name: 'Entities', rows: entityRows }, { name: 'Ownership', rows: edgeRows }], 'entity-register.xlsx');
+    }
+
+    private buildEntityRow(node: DiagramNode, nodes: DiagramNode[], edges: DiagramEdge[]): CsvValue[] {
+        const chain = this.getParentChain(node.id, nodes, edges);
+        const next = this.complianceService.getNextOpen(node);
+        const parents = edges
+            .filter(e => e.target === node.id)
+            .map(e => `${this.labelOf(e.source, nodes)} (${e.ownershipPercentage ?? 0}%)`);
+        const currency = this.fxService.presentationCurrency();
+        const fx = node.localCurrency ? this.fxService.findRate(node.localCurrency.toUpperCase(), currency) : null;
+        const convert = (amount?: number) => amount === undefined || !fx ? '' : amount * fx.rate;
+
+        return [
+            node.id,
+            node.label,
+            node.entityType,
+            node.status,
+            node.region,
+            node.jurisdiction,
+            node.taxResidency,
+            node.taxId,
+            node.localCurrency,
+            node.citRate,
+            node.pillarTwoStatus,
+            node.safeHarbour ? `${node.safeHarbour.test} (FY${node.safeHarbour.fiscalYear})` : '',
+            chain.length ? chain[chain.length - 1] : '',
+            chain.join(' > '),
+            parents.join('; '),
+            node.ownershipPercentage,
+            node.indirectOwnership,
+            node.effectiveOwnership,
+            node.attributableOwnership,
+            node.minorityInterest,
+            node.effectiveFrom,
+            node.effectiveTo,
+            next?.dueDate,
+            next?.type,
+            this.officerService.getBoard(node.id)
+                .map(s => `${s.person.name} (${OFFICER_ROLE_LABELS[s.appointment.role]})`).join('; '),
+            node.equity,
+            node.revenue,
+            node.profitBeforeTax,
+            currency,
+            convert(node.equity),
+            convert(node.revenue),
+            convert(node.profitBeforeTax),
+            fx?.rate,
+            fx?.effectiveDate,
+            fx?.source
+        ];
+    }
+
+    private buildEdgeRow(edge: DiagramEdge, nodes: DiagramNode[]): CsvValue[] {
+        return [
+            edge.id,
+            edge.source,
+            this.labelOf(edge.source, nodes),
+            edge.target,
+            this.labelOf(edge.target, nodes),
+            edge.ownershipPercentage,
+            edge.effectiveFrom,
+            edge.effectiveTo,
+            edge.isDraft ? 'Yes' : 'No'
+        ];
+    }
+
+    // Labels from the immediate parent up to the top holding, following the largest stake
+    private getParentChain(id: string, nodes: DiagramNode[], edges: DiagramEdge[]): string[] {
+        const chain: string[] = [];
+        const visited = new Set<string>([id]);
+        let currentId = id;
+
+        while (true) {
+            const parentEdge = edges
+                .filter(e => e.target === currentId && !visited.has(e.source))
+                .sort((a, b) => (b.ownershipPercentage || 0) - (a.ownershipPercentage || 0))[0];
+            if (!parentEdge) return chain;
+
+            visited.add(parentEdge.source);
+            chain.push(this.labelOf(parentEdge.source, nodes));
+            currentId = parentEdge.source;
+        }
+    }
+
+    private labelOf(id: string, nodes: DiagramNode[]): string {
+        return nodes.find(n => n.id === id)?.label || id;
+    }
+}
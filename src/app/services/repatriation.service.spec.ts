@@ -0,0 +1,96 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramEdge, DiagramNode, DiagramService } from './diagram.service';
+import { PillarTwoService } from './pillar-two.service';
+import { RepatriationService } from './repatriation.service';
+
+describe('RepatriationService', () => {
+    let service: RepatriationService;
+    let highlightedPath: ReturnType<typeof signal<Set<string>>>;
+
+    const nodes = [
+        { id: 'HQ', label: 'Holding Inc', jurisdiction: 'United States', citRate: 21 },
+        { id: 'IE', label: 'Acme Ireland', jurisdiction: 'Ireland', citRate: 12.5 },
+        { id: 'DE', label: 'Acme GmbH', jurisdiction: 'Germany', citRate: 30 }
+    ] as DiagramNode[];
+    const edges = [
+        { id: 'e1', source: 'IE', target: 'DE', ownershipPercentage: 60 },
+        { id: 'e2', source: 'HQ', target: 'IE', ownershipPercentage: 100 },
+        { id: 'e3', source: 'HQ', target: 'DE', ownershipPercentage: 40 }
+    ] as DiagramEdge[];
+
+    beforeEach(() => {
+        localStorage.removeItem('enterprise-repatriation');
+        highlightedPath = signal(new Set<string>());
+        TestBed.configureTestingModule({
+            providers: [
+                {
+                    provide: DiagramService,
+                    useValue: { currentStructure: () => ({ nodes, edges }), highlightedPath, selectNode: () => { }, selectedNodeId: () => null }
+                },
+                { provide: PillarTwoService, useValue: { jurisdictionOf: (n: DiagramNode) => n.jurisdiction } }
+            ]
+        });
+        service = TestBed.inject(RepatriationService);
+        service.setWhtRate({ payer: 'Germany', recipient: '', rate: 25 });
+        service.setWhtRate({ payer: 'Germany', recipient: 'Ireland', rate: 5 });
+        service.setWhtRate({ payer: 'Ireland', recipient: 'United States', rate: 5 });
+        service.setExemption({ jurisdiction: 'Ireland', exemptPercent: 100, minHolding: 5 });
+        service.setExemption({ jurisdiction: 'United States', exemptPercent: 100, minHolding: 10 });
+        service.amount.set(1000000);
+    });
+
+    it('applies the treaty rate where there is one and the domestic rate otherwise', () => {
+        expect(service.whtRateFor('Germany', 'Ireland')).toBe(5);
+        expect(service.whtRateFor('Germany', 'United States')).toBe(25);
+        expect(service.whtRateFor('France', 'Ireland')).toBe(0);
+    });
+
+    it('exempts dividends only from a large enough stake', () => {
+        expect(service.exemptionFor('United States', 10)).toBe(100);
+        expect(service.exemptionFor('United States', 9.99)).toBe(0);
+        expect(service.exemptionFor('Germany', 100)).toBe(0);
+    });
+
+    it('pushes the dividend through every chain up to the destination, best first', () => {
+        service.open('DE');
+
+        expect(service.destinationId()).toBe('HQ');
+        const [viaIreland, direct] = service.routes();
+        expect(viaIreland.path).toEqual(['DE', 'IE', 'HQ']);
+        expect(viaIreland.hops.map(h => [h.distributed, h.wht, h.recipientTax, h.netReceived])).toEqual([
+            [600000, 30000, 0, 570000],
+            [570000, 28500, 0, 541500]
+        ]);
+        expect(viaIreland).toEqual(jasmine.objectContaining({ attributable: 600000, wht: 58500, netCash: 541500, leakage: 9.75 }));
+        expect(direct).toEqual(jasmine.objectContaining({ path: ['DE', 'HQ'], attributable: 400000, wht: 100000, netCash: 300000, leakage: 25 }));
+    });
+
+    it('taxes what the exemption leaves taxable, crediting the withholding tax', () => {
+        service.setWhtRate({ payer: 'Germany', recipient: 'United States', rate: 5 });
+        service.setExemption({ jurisdiction: 'United States', exemptPercent: 95, minHolding: 50 });
+        service.open('DE');
+
+        const direct = service.routes().find(r => r.key === 'e3')!;
+        expect(direct.hops[0]).toEqual(jasmine.objectContaining({ exemptPercent: 0, wht: 20000, recipientTax: 64000, netReceived: 316000 }));
+    });
+
+    it('highlights the chosen route on the canvas', () => {
+        service.open('DE');
+        expect(Array.from(highlightedPath())).toEqual(['DE', 'IE', 'HQ', 'e1', 'e2']);
+
+        service.highlight(service.routes()[1]);
+        expect(service.chosenRoute()!.key).toBe('e3');
+        expect(Array.from(highlightedPath())).toEqual(['DE', 'HQ', 'e3']);
+    });
+
+    it('ignores rates outside 0 to 100 and keeps one rate per pair', () => {
+        service.setWhtRate({ payer: 'Germany', recipient: 'Ireland', rate: 0 });
+        service.setWhtRate({ payer: 'Germany', recipient: 'Ireland', rate: 101 });
+
+        expect(service.whtRates().filter(r => r.payer === 'Germany')).toEqual([
+            { payer: 'Germany', recipient: '*', rate: 25 },
+            { payer: 'Germany', recipient: 'Ireland', rate: 0 }
+        ]);
+    });
+});
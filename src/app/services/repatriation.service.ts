@@ -0,0 +1,283 @@
+import { Injectable, signal, computed, effect } from '@angular/core';
+import { DiagramService, DiagramNode, DiagramEdge } from './diagram.service';
+import { PillarTwoService } from './pillar-two.service';
+
+// Dividend withholding tax charged by the payer's jurisdiction. A recipient of '*' is the
+// domestic rate, used for any recipient without a treaty or directive rate of its own.
+export interface WhtRate {
+    payer: string;
+    recipient: string;
+    rate: number;
+}
+
+// Share of a qualifying dividend exempt from corporate tax in the recipient's jurisdiction
+export interface ParticipationExemption {
+    jurisdiction: string;
+    exemptPercent: number;
+    // Minimum direct stake in the payer for the exemption to apply
+    minHolding: number;
+}
+
+export interface RepatriationHop {
+    payerId: string;
+    payerLabel: string;
+    payerJurisdiction: string;
+    recipientId: string;
+    recipientLabel: string;
+    recipientJurisdiction: string;
+    edgeId: string;
+    stake: number;
+    // Cash the payer distributes to this recipient, after its stake
+    distributed: number;
+    whtRate: number;
+    wht: number;
+    exemptPercent: number;
+    // Recipient corporate tax on the taxable part, less credit for the withholding tax
+    recipientTax: number;
+    // Cash the recipient holds after both taxes
+    netReceived: number;
+}
+
+export interface RepatriationRoute {
+    key: string;
+    // Entity ids from source to destination
+    path: string[];
+    hops: RepatriationHop[];
+    // Source cash the route carries after the stakes along the way
+    attributable: number;
+    wht: number;
+    recipientTax: number;
+    netCash: number;
+    // Tax lost along the route as a share of the attributable amount
+    leakage: number | null;
+}
+
+const STORAGE_KEY = 'enterprise-repatriation';
+// Guards against structures with many cross-holdings
+const MAX_ROUTES = 50;
+
+/**
+ * Dividend repatriation simulator. Enumerates every upward chain of ownership edges from
+ * a source subsidiary to a destination holding and pushes a distribution through each one:
+ * at every hop the payer's withholding tax applies, then the recipient taxes whatever its
+ * participation exemption leaves taxable at its CIT rate, crediting the withholding tax.
+ * Intermediate holdings pass on everything they keep. Routes rank by net cash arriving.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class RepatriationService {
+    readonly isPanelOpen = signal<boolean>(false);
+    readonly whtRates = signal<WhtRate[]>([]);
+    readonly exemptions = signal<ParticipationExemption[]>([]);
+
+    readonly sourceId = signal<string | null>(null);
+    readonly destinationId = signal<string | null>(null);
+    // In the source's local currency
+    readonly amount = signal<number>(1000000);
+    // Key of the route highlighted on the canvas; the best route when unset
+    readonly chosenKey = signal<string | null>(null);
+
+    // Entities above the source that cash can be routed to
+    readonly destinations = computed<DiagramNode[]>(() => {
+        const sourceId = this.sourceId();
+        if (!sourceId) return [];
+        const edges = this.diagramService.currentStructure().edges;
+        const found = new Set<string>();
+        const queue = [sourceId];
+        while (queue.length) {
+            const id = queue.shift()!;
+            edges.filter(e => e.target === id && !found.has(e.source)).forEach(e => {
+                found.add(e.source);
+                queue.push(e.source);
+            });
+        }
+        found.delete(sourceId);
+        return this.diagramService.currentStructure().nodes.filter(n => found.has(n.id));
+    });
+
+    readonly routes = computed<RepatriationRoute[]>(() => {
+        const sourceId = this.sourceId();
+        const destinationId = this.destinationId();
+        if (!sourceId || !destinationId || sourceId === destinationId) return [];
+        const nodes = new Map(this.diagramService.currentStructure().nodes.map(n => [n.id, n]));
+        return this.enumeratePaths(sourceId, destinationId, this.diagramService.currentStructure().edges)
+            .map(path => this.simulate(path, nodes))
+            .sort((a, b) => b.netCash - a.netCash);
+    });
+
+    readonly chosenRoute = computed<RepatriationRoute | undefined>(() =>
+        this.routes().find(r => r.key === this.chosenKey()) ?? this.routes()[0]);
+
+    constructor(
+        private diagramService: DiagramService,
+        private pillarTwoService: PillarTwoService
+    ) {
+        this.load();
+        effect(() => {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify({
+                whtRates: this.whtRates(),
+                exemptions: this.exemptions()
+            }));
+        });
+    }
+
+    // Opens the simulator with the entity as the source and its ultimate parent as the destination
+    open(sourceId?: string) {
+        if (sourceId) {
+            this.sourceId.set(sourceId);
+            const tops = this.destinations().filter(n => !this.diagramService.currentStructure().edges.some(e => e.target === n.id));
+            this.destinationId.set(tops[0]?.id ?? this.destinations()[0]?.id ?? null);
+            this.chosenKey.set(null);
+        }
+        this.isPanelOpen.set(true);
+        this.highlight(this.chosenRoute());
+    }
+
+    close() {
+        this.isPanelOpen.set(false);
+        // Back to the selection's own path to the root
+        this.diagramService.selectNode(this.diagramService.selectedNodeId());
+    }
+
+    setSource(id: string | null) {
+        this.sourceId.set(id);
+        if (!this.destinations().some(n => n.id === this.destinationId())) {
+            this.destinationId.set(this.destinations()[0]?.id ?? null);
+        }
+        this.highlight(this.routes()[0]);
+    }
+
+    setDestination(id: string | null) {
+        this.destinationId.set(id);
+        this.highlight(this.routes()[0]);
+    }
+
+    // Highlights the route's entities and edges the way selecting an entity traces its path
+    highlight(route: RepatriationRoute | undefined) {
+        this.chosenKey.set(route?.key ?? null);
+        this.diagramService.highlightedPath.set(route
+            ? new Set([...route.path, ...route.hops.map(h => h.edgeId)])
+            : new Set());
+    }
+
+    whtRateFor(payer: string, recipient: string): number {
+        const rates = this.whtRates();
+        return (rates.find(r => r.payer === payer && r.recipient === recipient)
+            ?? rates.find(r => r.payer === payer && r.recipient === '*'))?.rate ?? 0;
+    }
+
+    exemptionFor(jurisdiction: string, stake: number): number {
+        const exemption = this.exemptions().find(e => e.jurisdiction === jurisdiction);
+        return exemption && stake >= exemption.minHolding ? exemption.exemptPercent : 0;
+    }
+
+    setWhtRate(rate: WhtRate) {
+        const payer = rate.payer.trim();
+        const recipient = rate.recipient.trim() || '*';
+        if (!payer || !Number.isFinite(rate.rate) || rate.rate < 0 || rate.rate > 100) return;
+        this.whtRates.update(rates => [
+            ...rates.filter(r => !(r.payer === payer && r.recipient === recipient)),
+            { payer, recipient, rate: rate.rate }
+        ].sort((a, b) => a.payer.localeCompare(b.payer) || a.recipient.localeCompare(b.recipient)));
+    }
+
+    removeWhtRate(rate: WhtRate) {
+        this.whtRates.update(rates => rates.filter(r => r !== rate));
+    }
+
+    setExemption(exemption: ParticipationExemption) {
+        const jurisdiction = exemption.jurisdiction.trim();
+        const valid = [exemption.exemptPercent, exemption.minHolding].every(v => Number.isFinite(v) && v >= 0 && v <= 100);
+        if (!jurisdiction || !valid) return;
+        this.exemptions.update(list => [
+            ...list.filter(e => e.jurisdiction !== jurisdiction),
+            { jurisdiction, exemptPercent: exemption.exemptPercent, minHolding: exemption.minHolding }
+        ].sort((a, b) => a.jurisdiction.localeCompare(b.jurisdiction)));
+    }
+
+    removeExemption(exemption: ParticipationExemption) {
+        this.exemptions.update(list => list.filter(e => e !== exemption));
+    }
+
+    // Every simple chain of parent edges from the source up to the destination
+    private enumeratePaths(sourceId: string, destinationId: string, edges: DiagramEdge[]): DiagramEdge[][] {
+        const paths: DiagramEdge[][] = [];
+        const walk = (id: string, trail: DiagramEdge[], visited: Set<string>) => {
+            if (paths.length >= MAX_ROUTES) return;
+            if (id === destinationId) {
+                paths.push(trail);
+                return;
+            }
+            edges.filter(e => e.target === id && !visited.has(e.source)).forEach(e => {
+                walk(e.source, [...trail, e], new Set(visited).add(e.source));
+            });
+        };
+        walk(sourceId, [], new Set([sourceId]));
+        return paths;
+    }
+
+    private simulate(path: DiagramEdge[], nodes: Map<string, DiagramNode>): RepatriationRoute {
+        let cash = this.amount();
+        let attributable = this.amount();
+        const hops = path.map(edge => {
+            const payer = nodes.get(edge.target)!;
+            const recipient = nodes.get(edge.source)!;
+            const payerJurisdiction = this.pillarTwoService.jurisdictionOf(payer);
+            const recipientJurisdiction = this.pillarTwoService.jurisdictionOf(recipient);
+            const stake = edge.ownershipPercentage ?? 100;
+            const distributed = cash * stake / 100;
+            const whtRate = this.whtRateFor(payerJurisdiction, recipientJurisdiction);
+            const wht = distributed * whtRate / 100;
+            const exemptPercent = this.exemptionFor(recipientJurisdiction, stake);
+            const grossTax = distributed * (100 - exemptPercent) / 100 * (recipient.citRate ?? 0) / 100;
+            const recipientTax = Math.max(grossTax - wht, 0);
+            const netReceived = distributed - wht - recipientTax;
+
+            attributable = attributable * stake / 100;
+            cash = netReceived;
+            return {
+                payerId: payer.id,
+                payerLabel: payer.label,
+                payerJurisdiction,
+                recipientId: recipient.id,
+                recipientLabel: recipient.label,
+                recipientJurisdiction,
+                edgeId: edge.id,
+                stake,
+                distributed,
+                whtRate,
+                wht,
+                exemptPercent,
+                recipientTax,
+                netReceived
+            };
+        });
+
+        const wht = hops.reduce((sum, h) => sum + h.wht, 0);
+        const recipientTax = hops.reduce((sum, h) => sum + h.recipientTax, 0);
+        return {
+            key: path.map(e => e.id).join('>'),
+            path: [path[0]?.target, ...path.map(e => e.source)].filter(Boolean),
+            hops,
+            attributable,
+            wht,
+            recipientTax,
+            netCash: cash,
+            leakage: attributable > 0 ? (attributable - cash) / attributable * 100 : null
+        };
+    }
+
+    private load() {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            try {
+                const parsed = JSON.parse(stored);
+                this.whtRates.set(parsed.whtRates || []);
+                this.exemptions.set(parsed.exemptions || []);
+            } catch (e) {
+                console.error('Failed to parse repatriation tables from storage', e);
+            }
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { DiagramEdge, DiagramNode, DiagramService, Flow, Owner, Person } from './diagram.service';
+import { OfficerService } from './officer.service';
+import { RestructuringService } from './restructuring.service';
+import { isEffectiveOn } from '../utils/iso-date';
+
+describe('RestructuringService', () => {
+    const TODAY = '2025-06-15';
+    const YESTERDAY = '2025-06-14';
+
+    let service: RestructuringService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let edges: ReturnType<typeof signal<DiagramEdge[]>>;
+    let people: ReturnType<typeof signal<Person[]>>;
+    let owners: ReturnType<typeof signal<Owner[]>>;
+    let flows: ReturnType<typeof signal<Flow[]>>;
+    let sandboxMode: ReturnType<typeof signal<boolean>>;
+
+    const entity = (id: string, fields: Partial<DiagramNode> = {}) => ({ id, label: id, ...fields }) as DiagramNode;
+    const stake = (source: string, target: string, ownershipPercentage: number, fields: Partial<DiagramEdge> = {}) =>
+        ({ id: `e-${source}-${target}`, source, target, ownershipPercentage, label: `${ownershipPercentage}%`, ...fields }) as DiagramEdge;
+    const stakesOf = (target: string) => edges().filter(e => e.target === target)
+        .map(e => [e.source, e.ownershipPercentage, e.effectiveFrom, e.effectiveTo]);
+
+    beforeEach(() => {
+        nodes = signal([entity('HQ'), entity('A'), entity('B'), entity('C')]);
+        edges = signal([stake('HQ', 'A', 100), stake('HQ', 'B', 100), stake('A', 'C', 100)]);
+        people = signal<Person[]>([]);
+        owners = signal<Owner[]>([]);
+        flows = signal<Flow[]>([]);
+        sandboxMode = signal(false);
+
+        const today = signal(TODAY);
+        const diagramService = {
+            nodes, edges, people, owners, flows, sandboxMode, today,
+            currentStructure: computed(() => {
+                const current = nodes().filter(n => isEffectiveOn(n, today()));
+                const ids = new Set(current.map(n => n.id));
+                return {
+                    nodes: current,
+                    edges: edges().filter(e => isEffectiveOn(e, today()) && ids.has(e.source) && ids.has(e.target))
+                };
+            }),
+            createOwnershipEdge: (source: string, target: string, pct = 100) => stake(source, target, pct),
+            applyRestructuring: (label: string, next: { nodes?: DiagramNode[], edges?: DiagramEdge[], people?: Person[] }) => {
+                if (next.nodes) nodes.set(next.nodes);
+                if (next.edges) edges.set(next.edges);
+                if (next.people) people.set(next.people);
+            }
+        };
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: DiagramService, useValue: diagramService },
+                { provide: OfficerService, useValue: { isCurrent: (a: { resignedOn?: string }) => !a.resignedOn || a.resignedOn >= TODAY } }
+            ]
+        });
+        service = TestBed.inject(RestructuringService);
+    });
+
+    describe('re-parent', () => {
+        it('ends the moved stake yesterday and adds the new one from today', () => {
+            expect(service.reparent('C', 'B')).toBeNull();
+
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['B', 100, TODAY, undefined]
+            ]);
+            expect(new Set(edges().map(e => e.id)).size).toBe(edges().length);
+        });
+
+        it('moves the largest stake in force, not one that has ended', () => {
+            edges.update(list => [...list, stake('B', 'C', 100, { id: 'old', effectiveTo: '2019-12-31' })]);
+
+            service.reparent('C', 'HQ');
+
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['B', 100, undefined, '2019-12-31'],
+                ['HQ', 100, TODAY, undefined]
+            ]);
+        });
+
+        it('drops a stake that only started today instead of ending it before it began', () => {
+            edges.set([stake('HQ', 'A', 100), stake('HQ', 'B', 100), stake('A', 'C', 100, { effectiveFrom: TODAY })]);
+
+            service.reparent('C', 'B');
+
+            expect(stakesOf('C')).toEqual([['B', 100, TODAY, undefined]]);
+        });
+
+        it('tops up a stake the new parent already holds by replacing it', () => {
+            edges.update(list => [...list, stake('B', 'C', 30, { effectiveFrom: '2020-01-01' })]);
+
+            service.reparent('C', 'B', { fromParentId: 'A', percentage: 50 });
+
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['B', 30, '2020-01-01', YESTERDAY],
+                ['B', 80, TODAY, undefined]
+            ]);
+        });
+
+        it('rejects a move under its own subsidiary', () => {
+            expect(service.reparent('A', 'C')).toBe('C is held by A; moving it there would create a loop.');
+            expect(service.validateReparent('A', 'A')).toBe('An entity cannot hold itself.');
+        });
+    });
+
+    describe('merge', () => {
+        it('dissolves the source yesterday and moves its subsidiaries to the target', () => {
+            people.set([{ id: 'p1', name: 'Ann', appointments: [{ id: 'ap1', entityId: 'A', role: 'director', appointedOn: '2020-01-01' }] }]);
+
+            expect(service.merge('A', 'B')).toBeNull();
+
+            expect(nodes().find(n => n.id === 'A')!.effectiveTo).toBe(YESTERDAY);
+            expect(stakesOf('A')).toEqual([['HQ', 100, undefined, YESTERDAY]]);
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['B', 100, TODAY, undefined]
+            ]);
+            expect(people()[0].appointments).toEqual([
+                { id: 'ap1', entityId: 'A', role: 'director', appointedOn: '2020-01-01', resignedOn: YESTERDAY },
+                { id: 'ap1-B', entityId: 'B', role: 'director', appointedOn: TODAY }
+            ]);
+        });
+
+        it('hands the source parents to a target it held', () => {
+            service.merge('A', 'C');
+
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['HQ', 100, TODAY, undefined]
+            ]);
+        });
+    });
+
+    describe('split', () => {
+        it('hives down the chosen subsidiaries into a new entity incorporated today', () => {
+            expect(service.split('A', { label: 'A Newco', mode: 'hive-down', childIds: ['C'] })).toBeNull();
+
+            expect(nodes().find(n => n.id === 'A-S1')).toEqual(jasmine.objectContaining({ label: 'A Newco', effectiveFrom: TODAY }));
+            expect(stakesOf('A-S1')).toEqual([['A', 100, TODAY, undefined]]);
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['A-S1', 100, TODAY, undefined]
+            ]);
+        });
+    });
+
+    describe('liquidate', () => {
+        it('distributes subsidiaries to the parents and keeps the ended stakes', () => {
+            expect(service.liquidate('A', true)).toBeNull();
+
+            expect(nodes().find(n => n.id === 'A')!.status).toBe('Liquidation');
+            expect(stakesOf('C')).toEqual([
+                ['A', 100, undefined, YESTERDAY],
+                ['HQ', 100, TODAY, undefined]
+            ]);
+        });
+
+        it('needs a parent to distribute to', () => {
+            expect(service.liquidate('HQ', true)).toBe('HQ has no parent to distribute its subsidiaries to.');
+        });
+    });
+});
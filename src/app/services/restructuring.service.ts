@@ -0,0 +1,339 @@
+import { Injectable, signal } from '@angular/core';
+import { DiagramService, DiagramNode, DiagramEdge, Person, Owner, Flow } from './diagram.service';
+import { OfficerService } from './officer.service';
+import { addDays, isEffectiveOn } from '../utils/iso-date';
+
+export type RestructuringOperation = 'reparent' | 'merge' | 'split' | 'liquidate';
+
+export const RESTRUCTURING_LABELS: Record<RestructuringOperation, string> = {
+    reparent: 'Re-parent',
+    merge: 'Merge',
+    split: 'Split',
+    liquidate: 'Liquidate'
+};
+
+// What the restructuring dialog is open for
+export interface RestructuringRequest {
+    operation: RestructuringOperation;
+    entityId: string;
+    // New parent (re-parent) or surviving entity (merge)
+    targetId?: string;
+}
+
+export interface SplitOptions {
+    label: string;
+    // Hive-down: the new entity becomes a subsidiary of the original.
+    // Demerger: it sits alongside, held by the original's parents at the same stakes.
+    mode: 'hive-down' | 'demerger';
+    // Children that move to the new entity
+    childIds: string[];
+    // Stake the original holds after a hive-down
+    percentage?: number;
+}
+
+// Tax and classification attributes a split-off entity inherits
+const INHERITED_FIELDS = [
+    'entityType', 'jurisdiction', 'taxResidency', 'localCurrency', 'citRate', 'region', 'pillarTwoStatus', 'color'
+] as const;
+
+/**
+ * Guided restructuring steps. Each operation validates the move against today's structure,
+ * ends the stakes it moves or removes on the day before and adds new stakes from today (and
+ * updates the officer and owner registers where they follow the entity), so the timeline
+ * and change report keep the structure as it was. It lands as one undo step with ownership
+ * recalculated. In sandbox mode every touched entity and edge is marked as a draft.
+ * Operations return an error message instead of applying an invalid move.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class RestructuringService {
+    readonly request = signal<RestructuringRequest | null>(null);
+    // Dragging an entity onto another on the canvas re-parents it
+    readonly dragMode = signal<boolean>(false);
+
+    constructor(
+        private diagramService: DiagramService,
+        private officerService: OfficerService
+    ) { }
+
+    open(operation: RestructuringOperation, entityId: string, targetId?: string) {
+        this.request.set({ operation, entityId, targetId });
+    }
+
+    close() {
+        this.request.set(null);
+    }
+
+    toggleDragMode() {
+        this.dragMode.update(v => !v);
+    }
+
+    // Stakes in force today; ended ones stay on record but take no part in a restructuring
+    parentEdges(entityId: string): DiagramEdge[] {
+        return this.diagramService.currentStructure().edges.filter(e => e.target === entityId);
+    }
+
+    childEdges(entityId: string): DiagramEdge[] {
+        return this.diagramService.currentStructure().edges.filter(e => e.source === entityId);
+    }
+
+    // Every entity held directly or indirectly by the given one
+    descendantsOf(entityId: string, edges = this.diagramService.currentStructure().edges): Set<string> {
+        const found = new Set<string>();
+        const queue = [entityId];
+        while (queue.length) {
+            const id = queue.shift()!;
+            edges.filter(e => e.source === id && !found.has(e.target)).forEach(e => {
+                found.add(e.target);
+                queue.push(e.target);
+            });
+        }
+        found.delete(entityId);
+        return found;
+    }
+
+    validateReparent(childId: string, newParentId: string): string | null {
+        if (childId === newParentId) return 'An entity cannot hold itself.';
+        if (!this.findNode(childId) || !this.findNode(newParentId)) return 'Entity not found.';
+        if (this.descendantsOf(childId).has(newParentId)) {
+            return `${this.labelOf(newParentId)} is held by ${this.labelOf(childId)}; moving it there would create a loop.`;
+        }
+        return null;
+    }
+
+    /**
+     * Moves the stake held by fromParentId (default: the largest parent stake) to the new
+     * parent. The percentage defaults to the moved stake, or 100% for an unowned entity;
+     * an existing stake of the new parent is topped up.
+     */
+    reparent(childId: string, newParentId: string, options: { fromParentId?: string | null, percentage?: number } = {}): string | null {
+        const error = this.validateReparent(childId, newParentId);
+        if (error) return error;
+
+        const parents = this.parentEdges(childId);
+        const moved = options.fromParentId === null ? undefined : options.fromParentId
+            ? parents.find(e => e.source === options.fromParentId)
+            : [...parents].sort((a, b) => (b.ownershipPercentage ?? 100) - (a.ownershipPercentage ?? 100))[0];
+        if (moved?.source === newParentId) return `${this.labelOf(childId)} is already held by ${this.labelOf(newParentId)}.`;
+
+        const percentage = options.percentage ?? moved?.ownershipPercentage ?? 100;
+        const edges = this.addStake(
+            moved ? this.endStakes(this.diagramService.edges(), [moved]) : this.diagramService.edges(),
+            newParentId, childId, percentage
+        );
+
+        this.diagramService.applyRestructuring(
+            `Move ${this.labelOf(childId)} under ${this.labelOf(newParentId)}`,
+            { nodes: this.markDraft([childId]), edges }
+        );
+        return null;
+    }
+
+    // Adds a new entity wholly owned by the parent, incorporated today unless dated otherwise
+    addSubsidiary(parentId: string, node: DiagramNode) {
+        if (!this.findNode(parentId)) return;
+        const created = { ...node, effectiveFrom: node.effectiveFrom ?? this.diagramService.today() };
+        this.diagramService.applyRestructuring(
+            `Add ${node.label} under ${this.labelOf(parentId)}`,
+            { nodes: [...this.diagramService.nodes(), created], edges: this.addStake(this.diagramService.edges(), parentId, node.id, 100) },
+            node.id
+        );
+    }
+
+    validateMerge(sourceId: string, targetId: string): string | null {
+        if (sourceId === targetId) return 'Choose a different entity to merge into.';
+        if (!this.findNode(sourceId) || !this.findNode(targetId)) return 'Entity not found.';
+        return null;
+    }
+
+    /**
+     * Merges source into target: the source's subsidiaries, serving officers, outside
+     * shareholdings and inter-company flows move to the target, then the source is
+     * dissolved as of yesterday. Stakes both already held are added together, capped at
+     * 100%. A target left without a parent (merging a holding company into its own
+     * subsidiary) takes over the source's parents.
+     */
+    merge(sourceId: string, targetId: string): string | null {
+        const error = this.validateMerge(sourceId, targetId);
+        if (error) return error;
+
+        const sourceLabel = this.labelOf(sourceId);
+        const today = this.diagramService.today();
+        const yesterday = addDays(today, -1);
+        // A source incorporated only today leaves no history to keep and is removed outright
+        const removeSource = (this.findNode(sourceId)!.effectiveFrom ?? '') >= today;
+
+        const sourceEdges = [...this.parentEdges(sourceId), ...this.childEdges(sourceId)];
+        let edges = this.endStakes(this.diagramService.edges(), sourceEdges);
+        this.childEdges(sourceId)
+            .filter(e => e.target !== targetId)
+            .forEach(e => edges = this.addStake(edges, targetId, e.target, e.ownershipPercentage ?? 100));
+        if (!this.parentEdges(targetId).some(e => e.source !== sourceId)) {
+            this.parentEdges(sourceId)
+                .filter(e => e.source !== targetId)
+                .forEach(e => edges = this.addStake(edges, e.source, targetId, e.ownershipPercentage ?? 100));
+        }
+        if (removeSource) edges = edges.filter(e => e.source !== sourceId && e.target !== sourceId);
+
+        // Serving officers resign from the source and are appointed to the target from today
+        const people: Person[] = this.diagramService.people().map(person => {
+            const serving = person.appointments.filter(a => a.entityId === sourceId && this.officerService.isCurrent(a));
+            if (!serving.length) return person;
+            const appointments = person.appointments.flatMap(a => !serving.includes(a) ? [a]
+                : removeSource || (a.appointedOn ?? '') >= today ? [] : [{ ...a, resignedOn: yesterday }]);
+            serving.forEach(a => {
+                const alreadySeated = person.appointments.some(other => other.entityId === targetId
+                    && other.role === a.role && this.officerService.isCurrent(other));
+                if (!alreadySeated) appointments.push({ id: `${a.id}-${targetId}`, entityId: targetId, role: a.role, appointedOn: today });
+            });
+            return { ...person, appointments };
+        });
+
+        const owners: Owner[] = this.diagramService.owners().map(owner => {
+            const stake = owner.shareholdings.find(h => h.targetId === sourceId);
+            if (!stake) return owner;
+            const existing = owner.shareholdings.find(h => h.targetId === targetId);
+            const shareholdings = owner.shareholdings
+                .filter(h => h.targetId !== sourceId && h.targetId !== targetId)
+                .concat({ targetId, percentage: Math.min((existing?.percentage ?? 0) + stake.percentage, 100) });
+            return { ...owner, shareholdings };
+        });
+
+        // Flows between the two merging entities become internal and are dropped
+        const flows: Flow[] = this.diagramService.flows()
+            .filter(f => !([f.source, f.target].includes(sourceId) && [f.source, f.target].includes(targetId)))
+            .map(f => f.source === sourceId || f.target === sourceId
+                ? {
+                    ...f,
+                    source: f.source === sourceId ? targetId : f.source,
+                    target: f.target === sourceId ? targetId : f.target,
+                    isDraft: this.diagramService.sandboxMode() || f.isDraft
+                }
+                : f);
+
+        const nodes = this.markDraft([targetId, sourceId]).flatMap(n => n.id !== sourceId ? [n]
+            : removeSource ? [] : [{ ...n, effectiveTo: yesterday }]);
+        this.diagramService.applyRestructuring(
+            `Merge ${sourceLabel} into ${this.labelOf(targetId)}`,
+            { nodes, edges, people, owners, flows },
+            targetId
+        );
+        return null;
+    }
+
+    // Splits off a new entity with the original's tax attributes and moves the chosen children to it
+    split(entityId: string, options: SplitOptions): string | null {
+        const node = this.findNode(entityId);
+        const label = options.label.trim();
+        if (!node) return 'Entity not found.';
+        if (!label) return 'Name the new entity.';
+        const percentage = options.percentage ?? 100;
+        if (options.mode === 'hive-down' && !(percentage > 0 && percentage <= 100)) {
+            return 'Enter a stake between 0 and 100%.';
+        }
+
+        const draft = this.diagramService.sandboxMode();
+        const id = this.createId(entityId);
+        const created = INHERITED_FIELDS.reduce((acc, field) => ({ ...acc, [field]: node[field] }), {
+            id, label, status: 'Active', effectiveFrom: this.diagramService.today(), isDraft: draft || undefined
+        } as DiagramNode);
+
+        const moving = this.childEdges(entityId).filter(e => options.childIds.includes(e.target));
+        let edges = this.endStakes(this.diagramService.edges(), moving);
+        moving.forEach(e => edges = this.addStake(edges, id, e.target, e.ownershipPercentage ?? 100));
+
+        if (options.mode === 'hive-down') {
+            edges = this.addStake(edges, entityId, id, percentage);
+        } else {
+            this.parentEdges(entityId).forEach(e => edges = this.addStake(edges, e.source, id, e.ownershipPercentage ?? 100));
+        }
+
+        this.diagramService.applyRestructuring(
+            `Split ${label} from ${node.label}`,
+            { nodes: [...this.markDraft([entityId]), created], edges },
+            id
+        );
+        return null;
+    }
+
+    /**
+     * Marks the entity as in liquidation. With distributeChildren its subsidiaries pass to
+     * its parents in proportion to their stakes, as on a distribution in specie.
+     */
+    liquidate(entityId: string, distributeChildren: boolean): string | null {
+        const node = this.findNode(entityId);
+        if (!node) return 'Entity not found.';
+
+        const parents = this.parentEdges(entityId);
+        const children = this.childEdges(entityId);
+        if (distributeChildren && children.length && !parents.length) {
+            return `${node.label} has no parent to distribute its subsidiaries to.`;
+        }
+
+        let edges = this.diagramService.edges();
+        if (distributeChildren) {
+            edges = this.endStakes(edges, children);
+            children.forEach(child => parents.forEach(parent => {
+                const stake = (child.ownershipPercentage ?? 100) * (parent.ownershipPercentage ?? 100) / 100;
+                edges = this.addStake(edges, parent.source, child.target, Math.round(stake * 100) / 100);
+            }));
+        }
+
+        const nodes = this.markDraft([entityId]).map(n => n.id === entityId ? { ...n, status: 'Liquidation' as const } : n);
+        this.diagramService.applyRestructuring(`Liquidate ${node.label}`, { nodes, edges });
+        return null;
+    }
+
+    // Adds a stake held from today. A stake the parent already holds is topped up (capped at
+    // 100%) by ending it and adding the combined one, so the earlier size stays on record
+    private addStake(edges: DiagramEdge[], parentId: string, childId: string, percentage: number): DiagramEdge[] {
+        const draft = this.diagramService.sandboxMode() || undefined;
+        const today = this.diagramService.today();
+        const existing = edges.find(e => e.source === parentId && e.target === childId && isEffectiveOn(e, today));
+        const total = existing ? Math.min((existing.ownershipPercentage ?? 100) + percentage, 100) : percentage;
+        const kept = existing ? this.endStakes(edges, [existing]) : edges;
+        const stake = this.diagramService.createOwnershipEdge(parentId, childId, total);
+        return [...kept, { ...stake, id: this.uniqueEdgeId(kept, stake.id, today), effectiveFrom: today, isDraft: draft }];
+    }
+
+    // Ends the stakes the day before today; a stake that only starts today is dropped instead
+    private endStakes(edges: DiagramEdge[], ended: DiagramEdge[]): DiagramEdge[] {
+        const draft = this.diagramService.sandboxMode() || undefined;
+        const today = this.diagramService.today();
+        return edges.flatMap(e => !ended.includes(e) ? [e]
+            : e.effectiveFrom && e.effectiveFrom >= today ? []
+            : [{ ...e, effectiveTo: addDays(today, -1), isDraft: draft || e.isDraft }]);
+    }
+
+    // Ended stakes keep their ID, so a new stake between the same pair is told apart by its start date
+    private uniqueEdgeId(edges: DiagramEdge[], preferred: string, date: string): string {
+        const taken = new Set(edges.map(e => e.id));
+        if (!taken.has(preferred)) return preferred;
+        let id = `${preferred}-${date}`;
+        for (let i = 2; taken.has(id); i++) id = `${preferred}-${date}-${i}`;
+        return id;
+    }
+
+    private markDraft(ids: string[]): DiagramNode[] {
+        const nodes = this.diagramService.nodes();
+        if (!this.diagramService.sandboxMode()) return nodes;
+        return nodes.map(n => ids.includes(n.id) ? { ...n, isDraft: true } : n);
+    }
+
+    // Only entities in today's structure can be restructured
+    private findNode(id: string): DiagramNode | undefined {
+        return this.diagramService.currentStructure().nodes.find(n => n.id === id);
+    }
+
+    private labelOf(id: string): string {
+        return this.findNode(id)?.label || id;
+    }
+
+    private createId(baseId: string): string {
+        const ids = new Set(this.diagramService.nodes().map(n => n.id));
+        let n = 1;
+        while (ids.has(`${baseId}-S${n}`)) n++;
+        return `${baseId}-S${n}`;
+    }
+}
@@ -0,0 +1,103 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramData, DiagramDataResult } from './diagram.service';
+
+const EMPTY_DATA: DiagramData = { nodes: [], edges: [], people: [], owners: [], flows: [] };
+
+export interface ScenarioColumn {
+    // 'live' or the scenario id
+    key: string;
+    label: string;
+    // Empty when the working copy fails validation; the error says why
+    data: DiagramData;
+    error: string | null;
+}
+
+export interface ScenarioMetrics {
+    key: string;
+    label: string;
+    error: string | null;
+    entityCount: number;
+    draftCount: number;
+    jurisdictionCount: number;
+    // Entities the ultimate parent owns outright
+    whollyOwnedCount: number;
+    averageEffectiveOwnership: number | null;
+    // Statutory CIT rates weighted by the group's effective ownership of each entity
+    blendedTaxRate: number | null;
+}
+
+export interface ScenarioEntityRow {
+    entityId: string;
+    label: string;
+    // Effective ownership per column; null where the entity does not exist or the column is invalid
+    effectiveOwnership: (number | null)[];
+    changed: boolean;
+}
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ScenarioService {
+    readonly isPanelOpen = signal<boolean>(false);
+
+    readonly columns = computed<ScenarioColumn[]>(() => [
+        this.toColumn('live', 'Live', this.diagramService.getLiveData()),
+        ...this.diagramService.scenarios().map(s => this.toColumn(s.id, s.name, this.diagramService.getScenarioData(s.id)))
+    ]);
+
+    readonly metrics = computed<ScenarioMetrics[]>(() => this.columns().map(column => this.measure(column)));
+
+    readonly entityRows = computed<ScenarioEntityRow[]>(() => {
+        const columns = this.columns();
+        const labels = new Map<string, string>();
+        columns.forEach(c => c.data.nodes.forEach(n => {
+            if (!labels.has(n.id)) labels.set(n.id, n.label);
+        }));
+
+        return Array.from(labels.entries()).map(([entityId, label]) => {
+            const effectiveOwnership = columns.map(c => {
+                if (c.error) return null;
+                const node = c.data.nodes.find(n => n.id === entityId);
+                return node ? node.effectiveOwnership ?? 0 : null;
+            });
+            const first = effectiveOwnership[0];
+            return {
+                entityId,
+                label,
+                effectiveOwnership,
+                changed: effectiveOwnership.some((v, i) => !columns[i].error
+                    && (v === null || first === null || Math.abs(v - first) > 1e-6))
+            };
+        });
+    });
+
+    constructor(private diagramService: DiagramService) { }
+
+    private toColumn(key: string, label: string, result: DiagramDataResult | null): ScenarioColumn {
+        if (result?.data) return { key, label, data: result.data, error: null };
+        return { key, label, data: EMPTY_DATA, error: result?.error ?? 'Scenario not found' };
+    }
+
+    private measure(column: ScenarioColumn): ScenarioMetrics {
+        const nodes = column.data.nodes;
+        const owned = nodes.filter(n => n.effectiveOwnership !== undefined);
+        const taxed = nodes.filter(n => n.citRate !== undefined && (n.effectiveOwnership ?? 0) > 0);
+        const weight = taxed.reduce((sum, n) => sum + n.effectiveOwnership!, 0);
+
+        return {
+            key: column.key,
+            label: column.label,
+            error: column.error,
+            entityCount: nodes.length,
+            draftCount: nodes.filter(n => n.isDraft).length,
+            jurisdictionCount: new Set(nodes.map(n => n.taxResidency || n.jurisdiction).filter(Boolean)).size,
+            whollyOwnedCount: nodes.filter(n => (n.effectiveOwnership ?? 0) >= 100).length,
+            averageEffectiveOwnership: owned.length
+                ? owned.reduce((sum, n) => sum + n.effectiveOwnership!, 0) / owned.length
+                : null,
+            blendedTaxRate: weight > 0
+                ? taxed.reduce((sum, n) => sum + n.citRate! * n.effectiveOwnership!, 0) / weight
+                : null
+        };
+    }
+}
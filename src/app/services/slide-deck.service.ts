@@ -1,4 +1,5 @@
 import { Injectable, signal } from '@angular/core';
+import { EntityFilters } from './diagram.service';
 
 export interface SlideDefinition {
     id: string;
@@ -9,7 +10,7 @@ export interface SlideDefinition {
         zoomLevel: number;
         pan: { x: number, y: number };
         coloringMode: 'type' | 'jurisdiction' | 'status';
-        activeFilters?: { region?: string, type?: string, pillarTwo?: string };
+        activeFilters?: EntityFilters;
         selectedNodeId?: string | null;
     };
 }
@@ -0,0 +1,97 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramData, DiagramEdge, DiagramNode, DiagramService } from './diagram.service';
+import { StructureDiffService } from './structure-diff.service';
+
+describe('StructureDiffService', () => {
+    let service: StructureDiffService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let edges: ReturnType<typeof signal<DiagramEdge[]>>;
+    let base: DiagramData;
+
+    const stake = (source: string, target: string, ownershipPercentage: number, fields: Partial<DiagramEdge> = {}) =>
+        ({ id: `e-${source}-${target}`, source, target, ownershipPercentage, ...fields }) as DiagramEdge;
+    const kinds = (diff: { changes: { kind: string, entityId: string }[] }) => diff.changes.map(c => [c.kind, c.entityId]);
+
+    beforeEach(() => {
+        base = {
+            nodes: [
+                { id: 'HQ', label: 'Holding', jurisdiction: 'Ireland', effectiveOwnership: 100 },
+                { id: 'A', label: 'Alpha', jurisdiction: 'Germany', citRate: 30, effectiveOwnership: 100 },
+                { id: 'B', label: 'Beta', effectiveOwnership: 100 },
+                { id: 'C', label: 'Gamma', effectiveOwnership: 100 }
+            ],
+            edges: [stake('HQ', 'A', 100), stake('HQ', 'B', 100), stake('A', 'C', 100)]
+        };
+        nodes = signal(base.nodes as DiagramNode[]);
+        edges = signal(base.edges as DiagramEdge[]);
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { nodes, edges, today: signal('2025-06-15') } }]
+        });
+        service = TestBed.inject(StructureDiffService);
+    });
+
+    it('finds no changes between identical structures', () => {
+        const diff = service.diff(base, base, 'Before', 'After');
+
+        expect(diff.changes).toEqual([]);
+        expect(diff.counts).toEqual({ added: 0, removed: 0, renamed: 0, ownership: 0, tax: 0, reparented: 0 });
+        expect([diff.baseLabel, diff.targetLabel]).toEqual(['Before', 'After']);
+    });
+
+    it('reports added, removed, renamed and tax changes', () => {
+        const target: DiagramData = {
+            nodes: [
+                base.nodes[0],
+                { ...base.nodes[1], label: 'Alpha GmbH', citRate: 29.9 },
+                base.nodes[2],
+                { id: 'D', label: 'Delta' }
+            ],
+            edges: [base.edges[0], base.edges[1], stake('A', 'D', 100)]
+        };
+
+        const diff = service.diff(base, target);
+
+        expect(kinds(diff)).toEqual([['renamed', 'A'], ['tax', 'A'], ['added', 'D'], ['removed', 'C']]);
+        expect(diff.changes[1]).toEqual(jasmine.objectContaining({
+            field: 'citRate', before: 30, after: 29.9, description: 'citRate changed from 30 to 29.9'
+        }));
+    });
+
+    it('reports a new parent and a changed stake, ignoring rounding noise', () => {
+        const target: DiagramData = {
+            nodes: base.nodes.map(n => n.id === 'C' ? { ...n, effectiveOwnership: 100.004 } : n),
+            edges: [stake('HQ', 'A', 80), base.edges[1], stake('B', 'C', 100)]
+        };
+
+        const diff = service.diff(base, target);
+
+        expect(kinds(diff)).toEqual([['ownership', 'A'], ['reparented', 'C']]);
+        expect(diff.changes[0].description).toBe('Stake held by Holding 100% → 80%');
+        expect(diff.changes[1].description).toBe('Parent changed from Alpha to Beta');
+    });
+
+    it('compares the stakes and entities in force, not those ended and kept on record', () => {
+        const target: DiagramData = {
+            nodes: base.nodes.map(n => n.id === 'A' ? { ...n, effectiveTo: '2025-06-14' } : n),
+            edges: [...base.edges.map(e => ({ ...e, effectiveTo: '2025-06-14' })),
+                stake('HQ', 'B', 100, { id: 'e2', effectiveFrom: '2025-06-15' }),
+                stake('B', 'C', 100, { id: 'e3', effectiveFrom: '2025-06-15' })]
+        };
+
+        expect(kinds(service.diff(base, target))).toEqual([['reparented', 'C'], ['removed', 'A']]);
+    });
+
+    it('highlights changes on the canvas while it shows the comparison target', () => {
+        const snapshot = { ...base, nodes: base.nodes.filter(n => n.id !== 'C'), edges: base.edges.slice(0, 2) };
+        service.compare({ key: 'snapshot:s1', label: 'Year end', data: snapshot }, { key: 'live', label: 'Live', data: null });
+
+        expect(Array.from(service.canvasHighlights().entries())).toEqual([['C', ['added']]]);
+
+        nodes.update(list => list.map(n => n.id === 'B' ? { ...n, label: 'Beta Ltd' } : n));
+        expect(service.canvasHighlights().get('B')).toEqual(['renamed']);
+
+        service.showOverlay.set(false);
+        expect(service.canvasHighlights().size).toBe(0);
+    });
+});
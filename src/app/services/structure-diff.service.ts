@@ -0,0 +1,207 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramData } from './diagram.service';
+import { isEffectiveOn } from '../utils/iso-date';
+
+export type ChangeKind = 'added' | 'removed' | 'renamed' | 'ownership' | 'tax' | 'reparented';
+
+export interface StructureChange {
+    kind: ChangeKind;
+    entityId: string;
+    entityLabel: string;
+    field?: string;
+    before?: string | number;
+    after?: string | number;
+    description: string;
+}
+
+export interface StructureDiff {
+    baseLabel: string;
+    targetLabel: string;
+    changes: StructureChange[];
+    counts: Record<ChangeKind, number>;
+}
+
+// A side of a comparison; data is null for the live structure on the canvas
+export interface DiffSource {
+    key: string; // 'live', 'sandbox', 'scenario:<id>' or 'snapshot:<id>'
+    label: string;
+    data: DiagramData | null;
+}
+
+type DiagramNodeData = DiagramData['nodes'][number];
+type DiagramEdgeData = DiagramData['edges'][number];
+
+const TAX_FIELDS: (keyof DiagramNodeData)[] = ['jurisdiction', 'taxResidency', 'taxId', 'citRate', 'pillarTwoStatus', 'localCurrency'];
+
+// Tolerance for floating point noise in computed ownership
+const OWNERSHIP_EPSILON = 0.01;
+
+export const CHANGE_KIND_COLORS: Record<ChangeKind, string> = {
+    added: '#10b981', // Emerald
+    removed: '#ef4444', // Red
+    renamed: '#f59e0b', // Amber
+    ownership: '#6366f1', // Indigo
+    tax: '#d946ef', // Fuchsia
+    reparented: '#0ea5e9' // Sky
+};
+
+@Injectable({
+    providedIn: 'root'
+})
+export class StructureDiffService {
+    readonly comparison = signal<{ base: DiffSource, target: DiffSource } | null>(null);
+    readonly showOverlay = signal<boolean>(true);
+    readonly isReportOpen = signal<boolean>(false);
+
+    private liveData = computed<DiagramData>(() => ({
+        nodes: this.diagramService.nodes(),
+        edges: this.diagramService.edges()
+    }));
+
+    // Recomputed on every edit while the live structure is one side of the comparison
+    readonly activeDiff = computed(() => {
+        const comparison = this.comparison();
+        if (!comparison) return null;
+        return this.diff(
+            comparison.base.data ?? this.liveData(),
+            comparison.target.data ?? this.liveData(),
+            comparison.base.label,
+            comparison.target.label
+        );
+    });
+
+    // Change kinds per entity, only when the canvas shows the comparison target
+    readonly canvasHighlights = computed(() => {
+        const comparison = this.comparison();
+        const diff = this.activeDiff();
+        const highlights = new Map<string, ChangeKind[]>();
+        if (!comparison || !diff || comparison.target.data !== null || !this.showOverlay()) return highlights;
+
+        diff.changes.forEach(change => {
+            const kinds = highlights.get(change.entityId) || [];
+            if (!kinds.includes(change.kind)) kinds.push(change.kind);
+            highlights.set(change.entityId, kinds);
+        });
+        return highlights;
+    });
+
+    constructor(private diagramService: DiagramService) { }
+
+    compare(base: DiffSource, target: DiffSource) {
+        this.comparison.set({ base, target });
+        this.showOverlay.set(true);
+    }
+
+    clear() {
+        this.comparison.set(null);
+    }
+
+    diff(baseData: DiagramData, targetData: DiagramData, baseLabel = 'Base', targetLabel = 'Target'): StructureDiff {
+        // Ended entities and stakes stay on record; each side is compared as it stands today
+        const today = this.diagramService.today();
+        const base = this.inForce(baseData, today);
+        const target = this.inForce(targetData, today);
+        const changes: StructureChange[] = [];
+        const baseNodes = new Map(base.nodes.map(n => [n.id, n]));
+        const targetNodes = new Map(target.nodes.map(n => [n.id, n]));
+
+        target.nodes.forEach(node => {
+            const before = baseNodes.get(node.id);
+            if (!before) {
+                changes.push({ kind: 'added', entityId: node.id, entityLabel: node.label, description: `Added ${node.label}` });
+                return;
+            }
+
+            if (before.label !== node.label) {
+                changes.push({
+                    kind: 'renamed', entityId: node.id, entityLabel: node.label, field: 'label',
+                    before: before.label, after: node.label,
+                    description: `Renamed from "${before.label}" to "${node.label}"`
+                });
+            }
+
+            TAX_FIELDS.forEach(field => {
+                const from = before[field] as string | number | undefined;
+                const to = node[field] as string | number | undefined;
+                if ((from ?? '') !== (to ?? '')) {
+                    changes.push({
+                        kind: 'tax', entityId: node.id, entityLabel: node.label, field,
+                        before: from, after: to,
+                        description: `${field} changed from ${from ?? '-'} to ${to ?? '-'}`
+                    });
+                }
+            });
+
+            const effectiveBefore = before.effectiveOwnership ?? 0;
+            const effectiveAfter = node.effectiveOwnership ?? 0;
+            if (Math.abs(effectiveBefore - effectiveAfter) > OWNERSHIP_EPSILON) {
+                changes.push({
+                    kind: 'ownership', entityId: node.id, entityLabel: node.label, field: 'effectiveOwnership',
+                    before: effectiveBefore, after: effectiveAfter,
+                    description: `Effective ownership ${effectiveBefore.toFixed(1)}% → ${effectiveAfter.toFixed(1)}%`
+                });
+            }
+
+            changes.push(...this.diffParents(node, base, target, baseNodes, targetNodes));
+        });
+
+        base.nodes.forEach(node => {
+            if (!targetNodes.has(node.id)) {
+                changes.push({ kind: 'removed', entityId: node.id, entityLabel: node.label, description: `Removed ${node.label}` });
+            }
+        });
+
+        const counts = { added: 0, removed: 0, renamed: 0, ownership: 0, tax: 0, reparented: 0 };
+        changes.forEach(c => counts[c.kind]++);
+
+        return { baseLabel, targetLabel, changes, counts };
+    }
+
+    private inForce(data: DiagramData, date: string): DiagramData {
+        const nodes = data.nodes.filter(n => isEffectiveOn(n, date));
+        const ids = new Set(nodes.map(n => n.id));
+        return { nodes, edges: data.edges.filter(e => isEffectiveOn(e, date) && ids.has(e.source) && ids.has(e.target)) };
+    }
+
+    private diffParents(
+        node: DiagramNodeData,
+        base: DiagramData,
+        target: DiagramData,
+        baseNodes: Map<string, DiagramNodeData>,
+        targetNodes: Map<string, DiagramNodeData>
+    ): StructureChange[] {
+        const changes: StructureChange[] = [];
+        const baseParents = new Map(base.edges.filter(e => e.target === node.id).map(e => [e.source, e]));
+        const targetParents = new Map(target.edges.filter(e => e.target === node.id).map(e => [e.source, e]));
+        const labelOf = (id: string) => targetNodes.get(id)?.label || baseNodes.get(id)?.label || id;
+        const describe = (parents: Map<string, DiagramEdgeData>) =>
+            Array.from(parents.keys()).map(labelOf).sort().join(', ') || 'none';
+
+        const sameParents = baseParents.size === targetParents.size &&
+            Array.from(baseParents.keys()).every(id => targetParents.has(id));
+
+        if (!sameParents) {
+            changes.push({
+                kind: 'reparented', entityId: node.id, entityLabel: node.label, field: 'parent',
+                before: describe(baseParents), after: describe(targetParents),
+                description: `Parent changed from ${describe(baseParents)} to ${describe(targetParents)}`
+            });
+        }
+
+        targetParents.forEach((edge, parentId) => {
+            const previous = baseParents.get(parentId);
+            if (!previous) return;
+            const from = previous.ownershipPercentage ?? 0;
+            const to = edge.ownershipPercentage ?? 0;
+            if (Math.abs(from - to) > OWNERSHIP_EPSILON) {
+                changes.push({
+                    kind: 'ownership', entityId: node.id, entityLabel: node.label, field: `stake held by ${labelOf(parentId)}`,
+                    before: from, after: to,
+                    description: `Stake held by ${labelOf(parentId)} ${from}% → ${to}%`
+                });
+            }
+        });
+
+        return changes;
+    }
+}
@@ -0,0 +1,177 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramData, DiagramService } from './diagram.service';
+import { StructureMergeService } from './structure-merge.service';
+
+describe('StructureMergeService', () => {
+    let service: StructureMergeService;
+    let current: DiagramData;
+    let loadDiagram: jasmine.Spy;
+
+    const merged = (): DiagramData => loadDiagram.calls.mostRecent().args[0];
+
+    beforeEach(() => {
+        current = {
+            nodes: [
+                { id: 'HQ', label: 'Holding', jurisdiction: 'Ireland', taxId: 'IE-100' },
+                { id: 'SUB', label: 'Subsidiary', taxId: 'DE-200' }
+            ],
+            edges: [{ id: 'e1', source: 'HQ', target: 'SUB', ownershipPercentage: 60, label: '60%' }]
+        };
+        loadDiagram = jasmine.createSpy('loadDiagram');
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { getDiagramData: () => current, loadDiagram, today: signal('2025-06-15') } }]
+        });
+        service = TestBed.inject(StructureMergeService);
+    });
+
+    describe('matching', () => {
+        it('pairs entities by ID first, then by a unique tax ID', () => {
+            service.open({
+                nodes: [
+                    { id: 'HQ', label: 'Holding' },
+                    { id: 'DE-SUB', label: 'Subsidiary', taxId: ' DE-200 ' },
+                    { id: 'NEW', label: 'New Co', taxId: 'FR-300' }
+                ],
+                edges: []
+            }, 'update.json');
+
+            expect(service.matches().map(m => [m.incomingId, m.existingId, m.matchedBy])).toEqual([
+                ['HQ', 'HQ', 'id'],
+                ['DE-SUB', 'SUB', 'taxId'],
+                ['NEW', null, null]
+            ]);
+        });
+
+        it('does not pair by a tax ID shared by several entities', () => {
+            current.nodes.push({ id: 'SUB2', label: 'Second Subsidiary', taxId: 'DE-200' });
+            service.open({ nodes: [{ id: 'X', label: 'Unknown', taxId: 'DE-200' }], edges: [] }, 'update.json');
+
+            expect(service.matches()[0].existingId).toBeNull();
+        });
+
+        it('reports fields and stakes that differ, but not blanks on either side', () => {
+            service.open({
+                nodes: [
+                    { id: 'HQ', label: 'Holding plc', jurisdiction: 'Ireland', entityType: 'PLC' },
+                    { id: 'SUB', label: 'Subsidiary', jurisdiction: 'Germany' }
+                ],
+                edges: [{ id: 'x1', source: 'HQ', target: 'SUB', ownershipPercentage: 75, effectiveFrom: '2020-01-01' }]
+            }, 'update.json');
+
+            const [hq, sub] = service.matches();
+            expect(hq.conflicts).toEqual([{ key: 'HQ:label', field: 'label', ours: 'Holding', theirs: 'Holding plc' }]);
+            expect(sub.conflicts).toEqual([
+                { key: 'SUB:stake:HQ', field: 'Stake held by Holding', ours: '60%', theirs: '75%' }
+            ]);
+            expect(service.conflictCount()).toBe(2);
+        });
+
+        it('rejects files that are not a structure', () => {
+            spyOn(window, 'alert');
+            spyOn(console, 'error');
+
+            service.open({ nodes: [{ label: 'No ID' }] }, 'broken.json');
+
+            expect(service.pending()).toBeNull();
+            expect(window.alert).toHaveBeenCalled();
+        });
+    });
+
+    describe('applying', () => {
+        const update = (): DiagramData => ({
+            nodes: [
+                { id: 'HQ', label: 'Holding plc', entityType: 'PLC' },
+                { id: 'DE-SUB', label: 'Subsidiary GmbH', taxId: 'DE-200' },
+                { id: 'NEW', label: 'New Co' }
+            ],
+            edges: [
+                { id: 'x1', source: 'HQ', target: 'DE-SUB', ownershipPercentage: 75, label: '75%' },
+                { id: 'e1', source: 'DE-SUB', target: 'NEW', ownershipPercentage: 100, label: '100%' }
+            ]
+        });
+
+        it('takes their side of every conflict by default and fills blanks', () => {
+            service.open(update(), 'update.json');
+            service.apply();
+
+            const { nodes, edges } = merged();
+            expect(nodes).toEqual([
+                { id: 'HQ', label: 'Holding plc', jurisdiction: 'Ireland', taxId: 'IE-100', entityType: 'PLC' },
+                { id: 'SUB', label: 'Subsidiary GmbH', taxId: 'DE-200' },
+                { id: 'NEW', label: 'New Co' }
+            ]);
+            expect(edges[0]).toEqual({ id: 'e1', source: 'HQ', target: 'SUB', ownershipPercentage: 75, label: '75%' });
+            expect(loadDiagram.calls.mostRecent().args[1]).toBe('Merge update.json');
+            expect(service.pending()).toBeNull();
+        });
+
+        it('keeps our side where the user resolved it so', () => {
+            service.open(update(), 'update.json');
+            service.resolve('HQ:label', 'ours');
+            service.resolve('SUB:stake:HQ', 'ours');
+            service.apply();
+
+            const { nodes, edges } = merged();
+            expect(nodes[0]).toEqual(jasmine.objectContaining({ label: 'Holding', entityType: 'PLC' }));
+            expect(nodes[1].label).toBe('Subsidiary GmbH');
+            expect(edges[0]).toEqual(jasmine.objectContaining({ ownershipPercentage: 60, label: '60%' }));
+        });
+
+        it('resolves every conflict at once', () => {
+            service.open(update(), 'update.json');
+            service.resolveAll('ours');
+
+            expect(service.getResolution('HQ:label')).toBe('ours');
+            expect(service.getResolution('SUB:label')).toBe('ours');
+            expect(service.getResolution('SUB:stake:HQ')).toBe('ours');
+        });
+
+        it('adds new stakes between the matched entities under an unused ID', () => {
+            service.open(update(), 'update.json');
+            service.apply();
+
+            const { edges } = merged();
+            expect(edges.length).toBe(2);
+            expect(edges[1]).toEqual({ id: 'e-SUB-NEW', source: 'SUB', target: 'NEW', ownershipPercentage: 100, label: '100%' });
+        });
+    });
+
+    describe('over-held entities', () => {
+        beforeEach(() => {
+            current.nodes.push({ id: 'MIN', label: 'Minority Holder' });
+            current.edges.push({ id: 'e2', source: 'MIN', target: 'SUB', ownershipPercentage: 30, label: '30%' });
+            service.open({
+                nodes: [{ id: 'HQ', label: 'Holding' }, { id: 'SUB', label: 'Subsidiary' }],
+                edges: [{ id: 'e1', source: 'HQ', target: 'SUB', ownershipPercentage: 75, label: '75%' }]
+            }, 'update.json');
+            spyOn(window, 'alert');
+        });
+
+        it('does not apply a merge that leaves an entity more than 100% owned', () => {
+            expect(service.overHeld()).toEqual([{ id: 'SUB', label: 'Subsidiary', total: 105 }]);
+
+            service.apply();
+
+            expect(loadDiagram).not.toHaveBeenCalled();
+            expect(window.alert).toHaveBeenCalledWith('The merge cannot be applied: Subsidiary (105%) would be more than 100% owned. '
+                + 'Keep our side of the stakes or correct the file first.');
+            expect(service.pending()).not.toBeNull();
+        });
+
+        it('applies once the resolutions bring the total back to 100%', () => {
+            service.resolve('SUB:stake:HQ', 'ours');
+            expect(service.overHeld()).toEqual([]);
+
+            service.apply();
+
+            expect(loadDiagram).toHaveBeenCalled();
+        });
+
+        it('leaves ended stakes out of the total', () => {
+            current.edges[1] = { ...current.edges[1], effectiveTo: '2024-12-31' };
+
+            expect(service.overHeld()).toEqual([]);
+        });
+    });
+});
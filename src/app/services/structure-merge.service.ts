@@ -0,0 +1,354 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramData, DiagramSchema, NodeSchema, EdgeSchema, Person, Owner, Flow } from './diagram.service';
+import { isEffectiveOn } from '../utils/iso-date';
+
+type DiagramNodeData = DiagramData['nodes'][number];
+type DiagramEdgeData = DiagramData['edges'][number];
+
+export type MergeSide = 'ours' | 'theirs';
+
+export interface MergeConflict {
+    // Resolution key: '<entityId>:<field>', '<entityId>:stake:<parentId>' for the percentage
+    // or '<entityId>:stake:<parentId>:<field>' for the stake's other fields
+    key: string;
+    field: string;
+    ours: string;
+    theirs: string;
+}
+
+export interface MergeMatch {
+    incomingId: string;
+    // Entity in the current structure the incoming one is reconciled with; null when it is new
+    existingId: string | null;
+    matchedBy: 'id' | 'taxId' | null;
+    label: string;
+    conflicts: MergeConflict[];
+}
+
+// Entity whose stakes in force today would add up to more than 100% after the merge
+export interface OverHeldEntity {
+    id: string;
+    label: string;
+    total: number;
+}
+
+export interface PendingMerge {
+    fileName: string;
+    data: DiagramData;
+}
+
+// Entity attributes reconciled field by field: every field of the schema, so new ones are
+// merged too, except the ID and the ownership figures recalculated after the merge
+const COMPUTED_NODE_FIELDS = ['id', 'ownershipPercentage', 'effectiveOwnership', 'indirectOwnership',
+    'attributableOwnership', 'minorityInterest', 'filingRevision'];
+const MERGE_FIELDS = (Object.keys(NodeSchema.shape) as (keyof DiagramNodeData)[])
+    .filter(field => !COMPUTED_NODE_FIELDS.includes(field));
+// Stake attributes reconciled the same way; the label follows the percentage
+const STAKE_MERGE_FIELDS = (Object.keys(EdgeSchema.shape) as (keyof DiagramEdgeData)[])
+    .filter(field => !['id', 'source', 'target', 'label'].includes(field));
+
+@Injectable({
+    providedIn: 'root'
+})
+export class StructureMergeService {
+    readonly pending = signal<PendingMerge | null>(null);
+    readonly resolutions = signal<Record<string, MergeSide>>({});
+
+    readonly matches = computed<MergeMatch[]>(() => {
+        const pending = this.pending();
+        return pending ? this.match(pending.data, this.diagramService.getDiagramData()) : [];
+    });
+
+    readonly conflictCount = computed(() => this.matches().reduce((sum, m) => sum + m.conflicts.length, 0));
+
+    // Follows the resolutions, so the user can see which choices leave an entity over-held
+    readonly overHeld = computed<OverHeldEntity[]>(() => {
+        const pending = this.pending();
+        return pending ? this.overHeldIn(this.mergedData(pending)) : [];
+    });
+
+    constructor(private diagramService: DiagramService) { }
+
+    open(json: unknown, fileName: string) {
+        const result = DiagramSchema.safeParse(json);
+        if (!result.success) {
+            console.error('Validation Error:', result.error);
+            alert('Invalid JSON format. Please check the console for details.');
+            return;
+        }
+        this.pending.set({ fileName, data: result.data });
+        this.resolutions.set({});
+    }
+
+    close() {
+        this.pending.set(null);
+        this.resolutions.set({});
+    }
+
+    // Incoming data is usually the fresher copy, so theirs wins until the user decides otherwise
+    getResolution(key: string): MergeSide {
+        return this.resolutions()[key] || 'theirs';
+    }
+
+    resolve(key: string, side: MergeSide) {
+        this.resolutions.update(r => ({ ...r, [key]: side }));
+    }
+
+    resolveAll(side: MergeSide) {
+        const resolutions: Record<string, MergeSide> = {};
+        this.matches().forEach(m => m.conflicts.forEach(c => resolutions[c.key] = side));
+        this.resolutions.set(resolutions);
+    }
+
+    // A merge that would leave an entity more than 100% held is not applied
+    apply() {
+        const pending = this.pending();
+        if (!pending) return;
+
+        const data = this.mergedData(pending);
+        const overHeld = this.overHeldIn(data);
+        if (overHeld.length) {
+            alert(`The merge cannot be applied: ${overHeld.map(e => `${e.label} (${e.total}%)`).join(', ')} `
+                + 'would be more than 100% owned. Keep our side of the stakes or correct the file first.');
+            return;
+        }
+        this.diagramService.loadDiagram(data, `Merge ${pending.fileName}`);
+        this.close();
+    }
+
+    private mergedData(pending: PendingMerge): DiagramData {
+        const current = this.diagramService.getDiagramData();
+        const matches = this.match(pending.data, current);
+        const idMap = new Map(matches.map(m => [m.incomingId, m.existingId ?? m.incomingId]));
+        const incomingById = new Map(pending.data.nodes.map(n => [n.id, n]));
+        const conflictKeys = new Set(matches.flatMap(m => m.conflicts.map(c => c.key)));
+
+        const nodes = current.nodes.map(node => {
+            const match = matches.find(m => m.existingId === node.id);
+            if (!match) return node;
+
+            const theirs = incomingById.get(match.incomingId)!;
+            const merged: Record<string, unknown> = { ...node };
+            MERGE_FIELDS.forEach(field => {
+                const key = `${node.id}:${field}`;
+                const take = conflictKeys.has(key) ? this.getResolution(key) === 'theirs' : this.isBlank(node[field]);
+                if (take && !this.isBlank(theirs[field])) merged[field] = theirs[field];
+            });
+            return merged as DiagramNodeData;
+        });
+
+        matches.filter(m => !m.existingId).forEach(m => nodes.push(incomingById.get(m.incomingId)!));
+
+        const edges = [...current.edges];
+        pending.data.edges.forEach(edge => {
+            const source = idMap.get(edge.source) ?? edge.source;
+            const target = idMap.get(edge.target) ?? edge.target;
+            const index = edges.findIndex(e => e.source === source && e.target === target);
+
+            if (index < 0) {
+                edges.push({ ...edge, id: this.uniqueEdgeId(edges, edge.id, source, target), source, target });
+                return;
+            }
+            const merged: Record<string, unknown> = { ...edges[index] };
+            STAKE_MERGE_FIELDS.forEach(field => {
+                const key = this.stakeKey(target, source, field);
+                const take = conflictKeys.has(key) ? this.getResolution(key) === 'theirs' : this.isBlank(edges[index][field]);
+                if (take && !this.isBlank(edge[field])) merged[field] = edge[field];
+            });
+            if (merged['ownershipPercentage'] !== edges[index].ownershipPercentage) merged['label'] = `${merged['ownershipPercentage']}%`;
+            edges[index] = merged as DiagramEdgeData;
+        });
+
+        const people = this.mergePeople(current.people || [], pending.data.people || [], idMap);
+        const owners = this.mergeOwners(current.owners || [], pending.data.owners || [], idMap);
+        const flows = this.mergeFlows(current.flows || [], pending.data.flows || [], idMap);
+
+        return { nodes, edges, people, owners, flows };
+    }
+
+    // Same total as the 'ownership-total' validation rule, over the stakes in force today
+    private overHeldIn(data: DiagramData): OverHeldEntity[] {
+        const today = this.diagramService.today();
+        const current = new Set(data.nodes.filter(n => isEffectiveOn(n, today)).map(n => n.id));
+        const totals = new Map<string, number>();
+        data.edges
+            .filter(e => isEffectiveOn(e, today) && current.has(e.source) && current.has(e.target))
+            .forEach(e => totals.set(e.target, (totals.get(e.target) || 0) + (e.ownershipPercentage || 0)));
+        return Array.from(totals.entries())
+            .filter(([, total]) => total > 100 + 1e-9)
+            .map(([id, total]) => ({ id, label: data.nodes.find(n => n.id === id)?.label || id, total }));
+    }
+
+    // Pair incoming entities with current ones by ID first, then by tax ID
+    private match(incoming: DiagramData, current: DiagramData): MergeMatch[] {
+        const currentById = new Map(current.nodes.map(n => [n.id, n]));
+        const claimed = new Set<string>();
+
+        const pairs = incoming.nodes.map(node => {
+            let existing = currentById.get(node.id);
+            let matchedBy: MergeMatch['matchedBy'] = existing ? 'id' : null;
+
+            if (!existing && node.taxId?.trim()) {
+                const candidates = current.nodes.filter(n =>
+                    n.taxId?.trim() === node.taxId!.trim() && !claimed.has(n.id) && !incoming.nodes.some(i => i.id === n.id));
+                if (candidates.length === 1) {
+                    existing = candidates[0];
+                    matchedBy = 'taxId';
+                }
+            }
+            if (existing) claimed.add(existing.id);
+            return { node, existing, matchedBy };
+        });
+
+        const idMap = new Map(pairs.map(p => [p.node.id, p.existing?.id ?? p.node.id]));
+        const labelOf = (id: string) => currentById.get(id)?.label
+            || incoming.nodes.find(n => idMap.get(n.id) === id)?.label || id;
+
+        return pairs.map(({ node, existing, matchedBy }) => ({
+            incomingId: node.id,
+            existingId: existing?.id ?? null,
+            matchedBy,
+            label: existing?.label || node.label || node.id,
+            conflicts: existing
+                ? [
+                    ...this.fieldConflicts(existing, node),
+                    ...this.stakeConflicts(existing.id, node.id, incoming.edges, current.edges, idMap, labelOf)
+                ]
+                : []
+        }));
+    }
+
+    private fieldConflicts(ours: DiagramNodeData, theirs: DiagramNodeData): MergeConflict[] {
+        return MERGE_FIELDS
+            .filter(field => !this.isBlank(ours[field]) && !this.isBlank(theirs[field])
+                && this.format(ours[field]) !== this.format(theirs[field]))
+            .map(field => ({
+                key: `${ours.id}:${field}`,
+                field,
+                ours: this.format(ours[field]),
+                theirs: this.format(theirs[field])
+            }));
+    }
+
+    private stakeConflicts(
+        existingId: string,
+        incomingId: string,
+        incomingEdges: DiagramEdgeData[],
+        currentEdges: DiagramEdgeData[],
+        idMap: Map<string, string>,
+        labelOf: (id: string) => string
+    ): MergeConflict[] {
+        return incomingEdges
+            .filter(e => e.target === incomingId)
+            .flatMap(edge => {
+                const source = idMap.get(edge.source) ?? edge.source;
+                const ours = currentEdges.find(e => e.source === source && e.target === existingId);
+                if (!ours) return [];
+                return STAKE_MERGE_FIELDS
+                    .filter(field => !this.isBlank(ours[field]) && !this.isBlank(edge[field])
+                        && this.format(ours[field]) !== this.format(edge[field]))
+                    .map(field => field === 'ownershipPercentage'
+                        ? {
+                            key: this.stakeKey(existingId, source, field),
+                            field: `Stake held by ${labelOf(source)}`,
+                            ours: `${ours.ownershipPercentage}%`,
+                            theirs: `${edge.ownershipPercentage}%`
+                        }
+                        : {
+                            key: this.stakeKey(existingId, source, field),
+                            field: `Stake held by ${labelOf(source)} (${field})`,
+                            ours: this.format(ours[field]),
+                            theirs: this.format(edge[field])
+                        });
+            });
+    }
+
+    private stakeKey(targetId: string, sourceId: string, field: keyof DiagramEdgeData): string {
+        return field === 'ownershipPercentage' ? `${targetId}:stake:${sourceId}` : `${targetId}:stake:${sourceId}:${field}`;
+    }
+
+    // People are matched by ID, then by name; appointments the current register lacks are added
+    private mergePeople(current: Person[], incoming: Person[], idMap: Map<string, string>): Person[] {
+        const people = current.map(p => ({ ...p, appointments: [...p.appointments] }));
+
+        incoming.forEach(person => {
+            const appointments = person.appointments.map(a => ({ ...a, entityId: idMap.get(a.entityId) ?? a.entityId }));
+            const existing = people.find(p => p.id === person.id)
+                ?? people.find(p => p.name.trim().toLowerCase() === person.name.trim().toLowerCase());
+            if (!existing) {
+                people.push({ ...person, appointments });
+                return;
+            }
+
+            if (!existing.nationality && person.nationality) existing.nationality = person.nationality;
+            appointments.forEach(a => {
+                const known = existing.appointments.some(e => e.id === a.id
+                    || (e.entityId === a.entityId && e.role === a.role && e.appointedOn === a.appointedOn));
+                if (!known) existing.appointments.push(a);
+            });
+        });
+        return people;
+    }
+
+    // Outside owners are matched by ID, then by name and kind; stakes the current register
+    // lacks are added, existing stakes keep their current percentage
+    private mergeOwners(current: Owner[], incoming: Owner[], entityIdMap: Map<string, string>): Owner[] {
+        const owners = current.map(o => ({ ...o, shareholdings: [...o.shareholdings] }));
+        const ownerIdMap = new Map<string, string>();
+
+        incoming.forEach(owner => {
+            const existing = owners.find(o => o.id === owner.id)
+                ?? owners.find(o => o.kind === owner.kind && o.name.trim().toLowerCase() === owner.name.trim().toLowerCase());
+            if (existing) {
+                ownerIdMap.set(owner.id, existing.id);
+            } else {
+                owners.push({ ...owner, shareholdings: [] });
+                ownerIdMap.set(owner.id, owner.id);
+            }
+        });
+
+        incoming.forEach(owner => {
+            const target = owners.find(o => o.id === ownerIdMap.get(owner.id))!;
+            owner.shareholdings.forEach(h => {
+                const targetId = entityIdMap.get(h.targetId) ?? ownerIdMap.get(h.targetId) ?? h.targetId;
+                if (!target.shareholdings.some(s => s.targetId === targetId)) {
+                    target.shareholdings.push({ targetId, percentage: h.percentage });
+                }
+            });
+        });
+        return owners;
+    }
+
+    // Inter-company flows are added unless the same type already runs between the pair
+    private mergeFlows(current: Flow[], incoming: Flow[], entityIdMap: Map<string, string>): Flow[] {
+        const flows = [...current];
+        incoming.forEach(flow => {
+            const source = entityIdMap.get(flow.source) ?? flow.source;
+            const target = entityIdMap.get(flow.target) ?? flow.target;
+            if (flows.some(f => f.source === source && f.target === target && f.type === flow.type)) return;
+            const id = flows.some(f => f.id === flow.id) ? `${flow.id}-${flows.length}` : flow.id;
+            flows.push({ ...flow, id, source, target });
+        });
+        return flows;
+    }
+
+    private uniqueEdgeId(edges: DiagramEdgeData[], preferred: string, source: string, target: string): string {
+        const taken = new Set(edges.map(e => e.id));
+        if (!taken.has(preferred)) return preferred;
+        let id = `e-${source}-${target}`;
+        for (let i = 2; taken.has(id); i++) id = `e-${source}-${target}-${i}`;
+        return id;
+    }
+
+    private isBlank(value: unknown): boolean {
+        return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+    }
+
+    private format(value: unknown): string {
+        if (Array.isArray(value)) {
+            return value.map(v => typeof v === 'object' ? `${v.type} (${v.recurrence} from ${v.firstDueDate})` : v).join(', ');
+        }
+        if (value && typeof value === 'object') return JSON.stringify(value);
+        return value === undefined || value === null ? '' : String(value);
+    }
+}
@@ -0,0 +1,78 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramService } from './diagram.service';
+import { AuditService } from './audit.service';
+import { StructureStore } from './structure-store';
+import { StructurePersistenceService } from './structure-persistence.service';
+
+describe('StructurePersistenceService', () => {
+    let service: StructurePersistenceService;
+    let store: jasmine.SpyObj<StructureStore>;
+    const blocked = new DOMException('The quota has been exceeded', 'QuotaExceededError');
+    const snapshot = {
+        id: 's1', name: 'Year end', asOfDate: '2024-12-31', createdAt: 1, updatedAt: 1, entityCount: 0,
+        data: { nodes: [], edges: [] }
+    };
+
+    beforeEach(async () => {
+        store = jasmine.createSpyObj<StructureStore>('StructureStore', [
+            'loadAutosave', 'saveAutosave', 'loadScenarios', 'saveScenarios', 'listSnapshots', 'getSnapshot',
+            'putSnapshot', 'deleteSnapshot', 'loadAuditLog', 'appendAuditEntries'
+        ]);
+        store.loadAutosave.and.resolveTo(null);
+        store.loadScenarios.and.resolveTo([]);
+        store.listSnapshots.and.resolveTo([]);
+        store.saveAutosave.and.resolveTo();
+        store.saveScenarios.and.resolveTo();
+        store.getSnapshot.and.resolveTo(snapshot);
+        store.putSnapshot.and.rejectWith(blocked);
+        store.deleteSnapshot.and.rejectWith(blocked);
+
+        const empty = () => signal([]);
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: StructureStore, useValue: store },
+                {
+                    provide: DiagramService,
+                    useValue: {
+                        nodes: empty(), edges: empty(), people: empty(), owners: empty(), flows: empty(), scenarios: empty(),
+                        sandboxMode: signal(false), restoreScenarios: () => { }, getDiagramData: () => snapshot.data,
+                        getLiveData: () => ({ data: snapshot.data, error: null }),
+                        loadDiagram: jasmine.createSpy('loadDiagram')
+                    }
+                },
+                { provide: AuditService, useValue: { suspend: (action: () => void) => action() } }
+            ]
+        });
+        service = TestBed.inject(StructurePersistenceService);
+        spyOn(window, 'alert');
+        spyOn(console, 'error');
+        // Let the restore on startup finish
+        await new Promise(resolve => setTimeout(resolve));
+    });
+
+    it('reports a snapshot operation that storage rejects instead of failing silently', async () => {
+        expect(await service.saveSnapshot('Q1', '2025-03-31')).toBeFalse();
+        expect(await service.renameSnapshot('s1', 'Renamed')).toBeFalse();
+        expect(await service.duplicateSnapshot('s1')).toBeFalse();
+        expect(await service.deleteSnapshot('s1')).toBeFalse();
+
+        expect(window.alert).toHaveBeenCalledWith('Snapshot "Renamed" could not be renamed. Please check the console for details.');
+        expect(window.alert).toHaveBeenCalledTimes(4);
+        expect(console.error).toHaveBeenCalledWith('The snapshot could not be deleted:', blocked);
+    });
+
+    it('reports a snapshot that cannot be read and opens nothing', async () => {
+        store.getSnapshot.and.rejectWith(blocked);
+
+        expect(await service.getSnapshot('s1')).toBeNull();
+        expect(await service.openSnapshot('s1')).toBeFalse();
+        expect(TestBed.inject(DiagramService).loadDiagram).not.toHaveBeenCalled();
+        expect(window.alert).toHaveBeenCalledWith('The snapshot could not be read. Please check the console for details.');
+    });
+
+    it('opens a stored snapshot as an undoable load', async () => {
+        expect(await service.openSnapshot('s1')).toBeTrue();
+        expect(TestBed.inject(DiagramService).loadDiagram).toHaveBeenCalledWith(snapshot.data, 'Open snapshot Year end');
+    });
+});
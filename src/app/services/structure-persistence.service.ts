@@ -0,0 +1,195 @@
+import { Injectable, signal, effect } from '@angular/core';
+import { DiagramService, DiagramSchema } from './diagram.service';
+import { HistoryService } from './history.service';
+import { AuditService } from './audit.service';
+import { StoredScenario, StructureSnapshot, StructureSnapshotSummary, StructureStore } from './structure-store';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class StructurePersistenceService {
+    readonly autosaveDelayMs = 1000;
+
+    readonly snapshots = signal<StructureSnapshotSummary[]>([]);
+    readonly saveStatus = signal<'idle' | 'saving' | 'saved' | 'error'>('idle');
+    readonly lastSavedAt = signal<number | null>(null);
+
+    // Autosave stays off until the stored structure has been restored, so the
+    // sample data loaded on startup never overwrites the user's work. Setting it
+    // re-runs the autosave effect, which saves any edits made in the meantime.
+    private readonly restored = signal<boolean>(false);
+    private autosaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    constructor(
+        private store: StructureStore,
+        private diagramService: DiagramService,
+        private history: HistoryService,
+        private audit: AuditService
+    ) {
+        effect(() => {
+            this.diagramService.nodes();
+            this.diagramService.edges();
+            this.diagramService.people();
+            this.diagramService.owners();
+            this.diagramService.flows();
+            // Scenarios are kept alongside the live structure
+            this.diagramService.scenarios();
+            if (!this.restored()) return;
+            this.scheduleAutosave();
+        });
+
+        this.restore();
+    }
+
+    async saveSnapshot(name: string, asOfDate: string): Promise<boolean> {
+        try {
+            const data = this.diagramService.getDiagramData();
+            const now = Date.now();
+            await this.store.putSnapshot({
+                id: crypto.randomUUID(),
+                name,
+                asOfDate,
+                createdAt: now,
+                updatedAt: now,
+                entityCount: data.nodes.length,
+                data
+            });
+            await this.refreshSnapshots();
+            return true;
+        } catch (e) {
+            this.reportFailure(`Snapshot "${name}" could not be saved`, e);
+            return false;
+        }
+    }
+
+    async getSnapshot(id: string): Promise<StructureSnapshot | null> {
+        try {
+            return await this.store.getSnapshot(id);
+        } catch (e) {
+            this.reportFailure('The snapshot could not be read', e);
+            return null;
+        }
+    }
+
+    async openSnapshot(id: string): Promise<boolean> {
+        const snapshot = await this.getSnapshot(id);
+        if (!snapshot) return false;
+        this.diagramService.loadDiagram(snapshot.data, `Open snapshot ${snapshot.name}`);
+        return true;
+    }
+
+    async renameSnapshot(id: string, name: string, asOfDate?: string): Promise<boolean> {
+        try {
+            const snapshot = await this.store.getSnapshot(id);
+            if (!snapshot) return false;
+            await this.store.putSnapshot({
+                ...snapshot,
+                name,
+                asOfDate: asOfDate || snapshot.asOfDate,
+                updatedAt: Date.now()
+            });
+            await this.refreshSnapshots();
+            return true;
+        } catch (e) {
+            this.reportFailure(`Snapshot "${name}" could not be renamed`, e);
+            return false;
+        }
+    }
+
+    async duplicateSnapshot(id: string): Promise<boolean> {
+        try {
+            const snapshot = await this.store.getSnapshot(id);
+            if (!snapshot) return false;
+            const now = Date.now();
+            await this.store.putSnapshot({
+                ...snapshot,
+                id: crypto.randomUUID(),
+                name: `${snapshot.name} (copy)`,
+                createdAt: now,
+                updatedAt: now
+            });
+            await this.refreshSnapshots();
+            return true;
+        } catch (e) {
+            this.reportFailure('The snapshot could not be duplicated', e);
+            return false;
+        }
+    }
+
+    async deleteSnapshot(id: string): Promise<boolean> {
+        try {
+            await this.store.deleteSnapshot(id);
+            await this.refreshSnapshots();
+            return true;
+        } catch (e) {
+            this.reportFailure('The snapshot could not be deleted', e);
+            return false;
+        }
+    }
+
+    private async restore() {
+        try {
+            const saved = await this.store.loadAutosave();
+            const result = DiagramSchema.safeParse(saved);
+            // Edits made while the stored structure was loading would be replaced by it
+            const edited = this.history.canUndo() || this.diagramService.sandboxMode();
+            if (saved && result.success && (!edited ||
+                confirm('The structure was changed while your saved work was loading. Replace those changes with your saved work?'))) {
+                this.diagramService.switchScenario(null);
+                // The restored structure is the starting point, not an undoable or audited edit
+                this.audit.suspend(() => this.diagramService.loadDiagram(result.data, 'Restore autosave'));
+                this.history.clear();
+            }
+            const scenarios: StoredScenario[] = [];
+            (await this.store.loadScenarios()).forEach(scenario => {
+                const parsed = DiagramSchema.safeParse(scenario.data);
+                if (parsed.success) scenarios.push({ ...scenario, data: parsed.data });
+                else console.error(`Skipped invalid scenario "${scenario.name}" from storage`, parsed.error);
+            });
+            this.diagramService.restoreScenarios(scenarios);
+            this.restored.set(true);
+            await this.refreshSnapshots();
+        } catch (e) {
+            console.error('Failed to restore structure from storage', e);
+            // Autosave stays off rather than overwrite work that could not be read
+            if (!this.restored()) this.saveStatus.set('error');
+        }
+    }
+
+    private scheduleAutosave() {
+        clearTimeout(this.autosaveTimer);
+        this.autosaveTimer = setTimeout(() => this.autosave(), this.autosaveDelayMs);
+    }
+
+    private async autosave() {
+        this.saveStatus.set('saving');
+        try {
+            // The live structure, even while a scenario is being edited
+            const live = this.diagramService.getLiveData();
+            if (!live.data) throw new Error(`Live structure is invalid: ${live.error}`);
+            const scenarios: StoredScenario[] = this.diagramService.scenarios().map(s => {
+                const result = this.diagramService.getScenarioData(s.id);
+                if (!result?.data) throw new Error(`Scenario "${s.name}" is invalid: ${result?.error}`);
+                return { id: s.id, name: s.name, createdAt: s.createdAt, data: result.data };
+            });
+            await this.store.saveAutosave(live.data);
+            await this.store.saveScenarios(scenarios);
+            this.lastSavedAt.set(Date.now());
+            this.saveStatus.set('saved');
+        } catch (e) {
+            console.error('Autosave failed', e);
+            this.saveStatus.set('error');
+        }
+    }
+
+    // Storage can fail on a full quota or a database blocked by another tab; the user is
+    // told instead of the promise rejecting unhandled
+    private reportFailure(message: string, error: unknown) {
+        console.error(`${message}:`, error);
+        alert(`${message}. Please check the console for details.`);
+    }
+
+    private async refreshSnapshots() {
+        this.snapshots.set(await this.store.listSnapshots());
+    }
+}
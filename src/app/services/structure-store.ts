@@ -0,0 +1,43 @@
+import { DiagramData } from './diagram.service';
+import type { AuditEntry } from './audit.service';
+
+export interface StructureSnapshotSummary {
+    id: string;
+    name: string;
+    asOfDate: string; // ISO date the snapshot represents, e.g. a period close
+    createdAt: number;
+    updatedAt: number;
+    entityCount: number;
+}
+
+export interface StructureSnapshot extends StructureSnapshotSummary {
+    data: DiagramData;
+}
+
+// Named what-if branch, kept with the autosave so it survives a reload
+export interface StoredScenario {
+    id: string;
+    name: string;
+    createdAt: number;
+    data: DiagramData;
+}
+
+/**
+ * Persistence boundary for diagram structures. The app ships with an IndexedDB
+ * implementation; a REST backend can be provided in app.config.ts instead.
+ */
+export abstract class StructureStore {
+    abstract loadAutosave(): Promise<DiagramData | null>;
+    abstract saveAutosave(data: DiagramData): Promise<void>;
+    abstract loadScenarios(): Promise<StoredScenario[]>;
+    abstract saveScenarios(scenarios: StoredScenario[]): Promise<void>;
+
+    abstract listSnapshots(): Promise<StructureSnapshotSummary[]>;
+    abstract getSnapshot(id: string): Promise<StructureSnapshot | null>;
+    abstract putSnapshot(snapshot: StructureSnapshot): Promise<void>;
+    abstract deleteSnapshot(id: string): Promise<void>;
+
+    // The audit trail is only ever appended to
+    abstract loadAuditLog(): Promise<AuditEntry[]>;
+    abstract appendAuditEntries(entries: AuditEntry[]): Promise<void>;
+}
@@ -0,0 +1,101 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramEdge, DiagramNode, DiagramService } from './diagram.service';
+import { PillarTwoService } from './pillar-two.service';
+import { FxService } from './fx.service';
+import { TaxRollupService } from './tax-rollup.service';
+
+describe('TaxRollupService', () => {
+    let service: TaxRollupService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let edges: DiagramEdge[];
+
+    const entity = (id: string, jurisdiction: string, citRate: number, profitBeforeTax?: number, fields: Partial<DiagramNode> = {}) =>
+        ({ id, label: id, jurisdiction, citRate, profitBeforeTax, effectiveOwnership: 100, region: 'EMEA', ...fields }) as DiagramNode;
+
+    beforeEach(() => {
+        nodes = signal([
+            entity('HQ', 'Ireland', 12.5, 1000),
+            entity('DE', 'Germany', 30, 400, { effectiveOwnership: 50 }),
+            entity('FR', 'France', 25, -600),
+            entity('US', 'United States', 21, undefined, { region: 'Americas' })
+        ]);
+        edges = [
+            { id: 'e1', source: 'HQ', target: 'DE', ownershipPercentage: 50 },
+            { id: 'e2', source: 'HQ', target: 'FR', ownershipPercentage: 100 },
+            { id: 'e3', source: 'HQ', target: 'US', ownershipPercentage: 100 }
+        ] as DiagramEdge[];
+
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: DiagramService, useValue: { currentStructure: () => ({ nodes: nodes(), edges }) } },
+                { provide: PillarTwoService, useValue: { jurisdictionOf: (n: DiagramNode) => n.jurisdiction } },
+                {
+                    provide: FxService,
+                    useValue: {
+                        presentationCurrency: signal('EUR'),
+                        convert: (amount: number, from: string) => ({ amount, from, to: 'EUR', rate: 1, effectiveDate: '2025-01-01', source: 'test' })
+                    }
+                }
+            ]
+        });
+        service = TestBed.inject(TaxRollupService);
+    });
+
+    it('taxes each entity on its attributable profit at the statutory rate', () => {
+        const [hq, de] = service.lines();
+
+        expect(hq).toEqual(jasmine.objectContaining({ attributableProfit: 1000, tax: 125 }));
+        expect(de).toEqual(jasmine.objectContaining({ attributableProfit: 200, tax: 60 }));
+    });
+
+    it('taxes a loss at zero and reports it apart from the profits', () => {
+        const group = service.group();
+
+        expect(service.lines()[2].tax).toBe(0);
+        expect(group).toEqual(jasmine.objectContaining({ attributableProfit: 1200, losses: -600, tax: 185, lossMakers: ['FR'] }));
+        expect(group.etr).toBeCloseTo(185 / 1200 * 100, 6);
+        expect(group.missingInputs).toEqual(['US']);
+    });
+
+    it('has no ETR for a scope without profit', () => {
+        const americas = service.byRegion().find(r => r.key === 'Americas')!;
+
+        expect(americas.etr).toBeNull();
+        expect(service.bySubtree().map(r => [r.key, r.entityCount])).toEqual([['HQ', 4]]);
+    });
+
+    describe('what-if rates', () => {
+        it('apply per jurisdiction without changing the baseline', () => {
+            service.setRate('Germany', 15);
+
+            const group = service.group();
+            expect(group.tax).toBe(185);
+            expect(group.whatIfTax).toBe(155);
+            expect(group.whatIfEtr).toBeCloseTo(155 / 1200 * 100, 6);
+        });
+
+        it('do not tax a loss either', () => {
+            service.setRate('France', 40);
+
+            expect(service.group().whatIfTax).toBe(185);
+        });
+
+        it('drop an override set back to the statutory rate', () => {
+            service.setRate('Germany', 15);
+            service.setRate('Ireland', 10);
+            service.setRate('Germany', 30);
+
+            expect(service.rateOverrides()).toEqual({ Ireland: 10 });
+            service.resetRates();
+            expect(service.rateOverrides()).toEqual({});
+        });
+
+        it('take the highest entered rate as the statutory rate of a jurisdiction', () => {
+            nodes.update(list => [...list, entity('DE2', 'Germany', 15.825, 100)]);
+
+            expect(service.statutoryRates().get('Germany')).toBe(30);
+            expect(Array.from(service.statutoryRates().keys())).toEqual(['France', 'Germany', 'Ireland', 'United States']);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramNode, DiagramEdge } from './diagram.service';
+import { PillarTwoService } from './pillar-two.service';
+import { FxService, FxConversion } from './fx.service';
+
+export interface EntityTaxLine {
+    entityId: string;
+    label: string;
+    region: string;
+    jurisdiction: string;
+    // In the local currency
+    profitBeforeTax: number;
+    hasProfitInput: boolean;
+    currency: string;
+    // Rate into the presentation currency; null when none is on file
+    conversion: FxConversion | null;
+    // Group share of the entity in percent, from the ownership calculation
+    effectiveOwnership: number;
+    // In the presentation currency; negative for a loss
+    attributableProfit: number;
+    statutoryRate: number;
+    // Statutory rate with any what-if change for the jurisdiction applied
+    rate: number;
+    // Zero for a loss-making entity
+    tax: number;
+    whatIfTax: number;
+}
+
+export interface EtrRollup {
+    key: string;
+    label: string;
+    entityCount: number;
+    // Of the profit-making entities; losses are not set off against it
+    attributableProfit: number;
+    // Of the loss-making entities, as a negative amount
+    losses: number;
+    tax: number;
+    whatIfTax: number;
+    // Over the attributable profit; null when there is none
+    etr: number | null;
+    whatIfEtr: number | null;
+    // Entities without profit before tax entered
+    missingInputs: string[];
+    // Entities whose profit could not be converted for want of an FX rate
+    missingRates: string[];
+    // Entities with a loss, which bear no tax
+    lossMakers: string[];
+}
+
+/**
+ * Group effective tax rate from statutory CIT rates: each entity's profit before tax is
+ * converted into the presentation currency, taken at the group's effective ownership,
+ * taxed at its rate, and summed for the group, per region and per holding subtree. A
+ * loss bears no tax and is not set off against other entities' profits; losses are
+ * reported next to the profits instead.
+ * What-if rates per jurisdiction apply on top without touching the entities, so the
+ * baseline and what-if figures can be compared.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TaxRollupService {
+    readonly isPanelOpen = signal<boolean>(false);
+    // Jurisdiction -> what-if CIT rate in percent
+    readonly rateOverrides = signal<Record<string, number>>({});
+
+    // Statutory rate per jurisdiction: the highest entered rate, so one override covers the country
+    readonly statutoryRates = computed(() => {
+        const rates = new Map<string, number>();
+        this.diagramService.currentStructure().nodes.forEach(n => {
+            const jurisdiction = this.pillarTwoService.jurisdictionOf(n);
+            rates.set(jurisdiction, Math.max(rates.get(jurisdiction) ?? 0, n.citRate ?? 0));
+        });
+        return new Map(Array.from(rates.entries()).sort((a, b) => a[0].localeCompare(b[0])));
+    });
+
+    readonly lines = computed<EntityTaxLine[]>(() => {
+        const overrides = this.rateOverrides();
+        return this.diagramService.currentStructure().nodes.map(node => this.toLine(node, overrides));
+    });
+
+    readonly group = computed<EtrRollup>(() => this.rollup('group', 'Group', this.lines()));
+
+    readonly byRegion = computed<EtrRollup[]>(() => {
+        const regions = new Map<string, EntityTaxLine[]>();
+        this.lines().forEach(l => regions.set(l.region, [...(regions.get(l.region) || []), l]));
+        return Array.from(regions.entries())
+            .map(([region, lines]) => this.rollup(region, region, lines))
+            .sort((a, b) => b.attributableProfit - a.attributableProfit);
+    });
+
+    // One rollup per entity holding subsidiaries, over itself and everything below it
+    readonly bySubtree = computed<EtrRollup[]>(() => {
+        const edges = this.diagramService.currentStructure().edges;
+        const lines = new Map(this.lines().map(l => [l.entityId, l]));
+        const holdings = this.diagramService.currentStructure().nodes.filter(n => edges.some(e => e.source === n.id));
+        return holdings
+            .map(holding => {
+                const ids = [holding.id, ...this.descendantsOf(holding.id, edges)];
+                return this.rollup(holding.id, holding.label, ids.map(id => lines.get(id)!).filter(Boolean));
+            })
+            .sort((a, b) => b.entityCount - a.entityCount || b.attributableProfit - a.attributableProfit);
+    });
+
+    constructor(
+        private diagramService: DiagramService,
+        private pillarTwoService: PillarTwoService,
+        private fxService: FxService
+    ) { }
+
+    setRate(jurisdiction: string, rate: number | null) {
+        this.rateOverrides.update(overrides => {
+            const { [jurisdiction]: _, ...rest } = overrides;
+            return rate === null || rate === this.statutoryRates().get(jurisdiction) ? rest : { ...rest, [jurisdiction]: rate };
+        });
+    }
+
+    resetRates() {
+        this.rateOverrides.set({});
+    }
+
+    private toLine(node: DiagramNode, overrides: Record<string, number>): EntityTaxLine {
+        const jurisdiction = this.pillarTwoService.jurisdictionOf(node);
+        const profitBeforeTax = node.profitBeforeTax ?? 0;
+        const currency = node.localCurrency || this.fxService.presentationCurrency();
+        const conversion = this.fxService.convert(profitBeforeTax, currency);
+        const effectiveOwnership = node.effectiveOwnership ?? 0;
+        const attributableProfit = (conversion?.amount ?? 0) * effectiveOwnership / 100;
+        const statutoryRate = node.citRate ?? 0;
+        const rate = overrides[jurisdiction] ?? statutoryRate;
+        return {
+            entityId: node.id,
+            label: node.label,
+            region: node.region?.trim() || 'Unassigned',
+            jurisdiction,
+            profitBeforeTax,
+            hasProfitInput: node.profitBeforeTax !== undefined,
+            currency,
+            conversion,
+            effectiveOwnership,
+            attributableProfit,
+            statutoryRate,
+            rate,
+            tax: Math.max(attributableProfit, 0) * statutoryRate / 100,
+            whatIfTax: Math.max(attributableProfit, 0) * rate / 100
+        };
+    }
+
+    private rollup(key: string, label: string, lines: EntityTaxLine[]): EtrRollup {
+        const attributableProfit = lines.reduce((sum, l) => sum + Math.max(l.attributableProfit, 0), 0);
+        const losses = lines.reduce((sum, l) => sum + Math.min(l.attributableProfit, 0), 0);
+        const tax = lines.reduce((sum, l) => sum + l.tax, 0);
+        const whatIfTax = lines.reduce((sum, l) => sum + l.whatIfTax, 0);
+        return {
+            key,
+            label,
+            entityCount: lines.length,
+            attributableProfit,
+            losses,
+            tax,
+            whatIfTax,
+            etr: attributableProfit > 0 ? tax / attributableProfit * 100 : null,
+            whatIfEtr: attributableProfit > 0 ? whatIfTax / attributableProfit * 100 : null,
+            missingInputs: lines.filter(l => !l.hasProfitInput).map(l => l.entityId),
+            missingRates: lines.filter(l => l.hasProfitInput && !l.conversion).map(l => l.entityId),
+            lossMakers: lines.filter(l => l.attributableProfit < 0).map(l => l.entityId)
+        };
+    }
+
+    private descendantsOf(entityId: string, edges: DiagramEdge[]): string[] {
+        const found = new Set<string>();
+        const queue = [entityId];
+        while (queue.length) {
+            const id = queue.shift()!;
+            edges.filter(e => e.source === id && e.target !== entityId && !found.has(e.target)).forEach(e => {
+                found.add(e.target);
+                queue.push(e.target);
+            });
+        }
+        return Array.from(found);
+    }
+}
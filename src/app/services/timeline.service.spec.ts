@@ -0,0 +1,84 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramEdge, DiagramNode, DiagramService } from './diagram.service';
+import { TimelineService } from './timeline.service';
+
+describe('TimelineService', () => {
+    let service: TimelineService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let edges: ReturnType<typeof signal<DiagramEdge[]>>;
+    let timelineDate: ReturnType<typeof signal<string | null>>;
+
+    beforeEach(() => {
+        nodes = signal([
+            { id: 'HQ', label: 'Holding' },
+            { id: 'IE', label: 'Acme Ireland', effectiveFrom: '2021-03-01' },
+            { id: 'NL', label: 'Acme BV', effectiveFrom: '2020-01-01', effectiveTo: '2024-06-30' }
+        ] as DiagramNode[]);
+        edges = signal([
+            { id: 'e1', source: 'HQ', target: 'IE', ownershipPercentage: 100, effectiveFrom: '2021-03-01' },
+            { id: 'e2', source: 'HQ', target: 'NL', effectiveTo: '2024-06-30' }
+        ] as DiagramEdge[]);
+        timelineDate = signal<string | null>(null);
+        TestBed.configureTestingModule({
+            providers: [{ provide: DiagramService, useValue: { nodes, edges, timelineDate, today: signal('2025-06-15') } }]
+        });
+        service = TestBed.inject(TimelineService);
+    });
+
+    afterEach(() => service.stop());
+
+    it('lists entities and stakes starting and ending, an ending on the day after the last day', () => {
+        expect(service.events().map(e => [e.date, e.kind, e.subject, e.label])).toEqual([
+            ['2020-01-01', 'added', 'entity', 'Acme BV'],
+            ['2021-03-01', 'added', 'entity', 'Acme Ireland'],
+            ['2021-03-01', 'added', 'stake', 'Holding → Acme Ireland (100%)'],
+            ['2024-07-01', 'removed', 'entity', 'Acme BV'],
+            ['2024-07-01', 'removed', 'stake', 'Holding → Acme BV (100%)']
+        ]);
+        expect(service.changeDates()).toEqual(['2020-01-01', '2021-03-01', '2024-07-01']);
+        expect(service.eventsOn('2021-03-01').length).toBe(2);
+    });
+
+    it('spans the first change to today, or a later change', () => {
+        expect(service.range()).toEqual({ start: '2020-01-01', end: '2025-06-15' });
+
+        edges.update(list => [...list, { id: 'e3', source: 'HQ', target: 'IE', effectiveFrom: '2026-01-01' } as DiagramEdge]);
+        expect(service.range().end).toBe('2026-01-01');
+    });
+
+    it('goes back a year when nothing is dated', () => {
+        nodes.set([{ id: 'HQ', label: 'Holding' } as DiagramNode]);
+        edges.set([]);
+
+        expect(service.range()).toEqual({ start: '2024-06-15', end: '2025-06-15' });
+    });
+
+    it('maps scrubber offsets to dates and back', () => {
+        expect(service.offsetOf('2020-01-31')).toBe(30);
+        expect(service.dateAt(366)).toBe('2021-01-01');
+    });
+
+    it('plays one frame per change date and stays on the last', fakeAsync(() => {
+        service.play('2019-01-01', '2025-01-01', 1000);
+        expect(timelineDate()).toBe('2019-01-01');
+        expect(service.playing()).toBeTrue();
+
+        const frames: (string | null)[] = [];
+        for (let i = 0; i < 5; i++) {
+            tick(1000);
+            frames.push(timelineDate());
+        }
+
+        expect(frames).toEqual(['2020-01-01', '2021-03-01', '2024-07-01', '2025-01-01', '2025-01-01']);
+        expect(service.playing()).toBeFalse();
+    }));
+
+    it('stops playing when a date is picked', () => {
+        service.play('2019-01-01', '2025-01-01');
+        service.setDate(null);
+
+        expect(service.playing()).toBeFalse();
+        expect(timelineDate()).toBeNull();
+    });
+});
@@ -0,0 +1,101 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService } from './diagram.service';
+import { parseIsoDate, addDays } from '../utils/iso-date';
+
+export interface TimelineEvent {
+    // First day the change shows in the structure
+    date: string;
+    kind: 'added' | 'removed';
+    subject: 'entity' | 'stake';
+    label: string;
+}
+
+/**
+ * Entity timeline. Collects the dated changes to the structure (entities and stakes
+ * starting or ending) and drives the point-in-time view: scrubbing sets the diagram's
+ * timeline date, and playing steps through every change in a period, one frame per
+ * date, for presenting how the group evolved.
+ */
+@Injectable({
+    providedIn: 'root'
+})
+export class TimelineService {
+    readonly playing = signal<boolean>(false);
+
+    readonly events = computed<TimelineEvent[]>(() => {
+        const nodes = this.diagramService.nodes();
+        const labelOf = (id: string) => nodes.find(n => n.id === id)?.label || id;
+        const events: TimelineEvent[] = [];
+
+        nodes.forEach(n => {
+            if (n.effectiveFrom) events.push({ date: n.effectiveFrom, kind: 'added', subject: 'entity', label: n.label });
+            if (n.effectiveTo) events.push({ date: addDays(n.effectiveTo, 1), kind: 'removed', subject: 'entity', label: n.label });
+        });
+        this.diagramService.edges().forEach(e => {
+            const stake = `${labelOf(e.source)} → ${labelOf(e.target)} (${e.ownershipPercentage ?? 100}%)`;
+            if (e.effectiveFrom) events.push({ date: e.effectiveFrom, kind: 'added', subject: 'stake', label: stake });
+            if (e.effectiveTo) events.push({ date: addDays(e.effectiveTo, 1), kind: 'removed', subject: 'stake', label: stake });
+        });
+        return events.sort((a, b) => a.date.localeCompare(b.date));
+    });
+
+    // Dates with at least one change, oldest first
+    readonly changeDates = computed(() => Array.from(new Set(this.events().map(e => e.date))));
+
+    // From the first recorded change (or a year back) to today or the last change, whichever is later
+    readonly range = computed(() => {
+        const today = this.diagramService.today();
+        const dates = this.changeDates();
+        const start = dates[0] && dates[0] < today ? dates[0] : addDays(today, -365);
+        const last = dates[dates.length - 1];
+        return { start, end: last && last > today ? last : today };
+    });
+
+    private timer: ReturnType<typeof setInterval> | null = null;
+
+    constructor(private diagramService: DiagramService) { }
+
+    setDate(date: string | null) {
+        this.stop();
+        this.diagramService.timelineDate.set(date);
+    }
+
+    eventsOn(date: string): TimelineEvent[] {
+        return this.events().filter(e => e.date === date);
+    }
+
+    // Day offset of the date from the start of the range, for the scrubber
+    offsetOf(date: string): number {
+        return Math.round((parseIsoDate(date).getTime() - parseIsoDate(this.range().start).getTime()) / 86400000);
+    }
+
+    dateAt(offset: number): string {
+        return addDays(this.range().start, offset);
+    }
+
+    /**
+     * Shows the structure on `from`, then steps to each change date up to `to`, holding
+     * every frame for frameMs. The view stays on the last frame when playback ends.
+     */
+    play(from: string, to: string, frameMs = 1500) {
+        this.stop();
+        const frames = [from, ...this.changeDates().filter(d => d > from && d < to), to];
+        let index = 0;
+        this.diagramService.timelineDate.set(frames[0]);
+        this.playing.set(true);
+        this.timer = setInterval(() => {
+            index++;
+            if (index >= frames.length) {
+                this.stop();
+                return;
+            }
+            this.diagramService.timelineDate.set(frames[index]);
+        }, frameMs);
+    }
+
+    stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+        this.playing.set(false);
+    }
+}
@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { DiagramNode, DiagramEdge, DiagramService, Owner } from './diagram.service';
+import { OfficerService } from './officer.service';
+import { UboService } from './ubo.service';
+
+describe('UboService', () => {
+    let service: UboService;
+    let owners: ReturnType<typeof signal<Owner[]>>;
+    let edges: DiagramEdge[];
+
+    const person = (id: string, shareholdings: Owner['shareholdings']): Owner =>
+        ({ id, name: id, kind: 'natural-person', shareholdings });
+    const reportFor = (entityId: string) => service.report().find(r => r.entityId === entityId)!;
+
+    beforeEach(() => {
+        owners = signal<Owner[]>([]);
+        edges = [];
+        const nodes = [{ id: 'HQ', label: 'Holding' }, { id: 'SUB', label: 'Subsidiary' }] as DiagramNode[];
+        TestBed.configureTestingModule({
+            providers: [
+                { provide: DiagramService, useValue: { owners, currentStructure: () => ({ nodes, edges }) } },
+                { provide: OfficerService, useValue: { getBoard: () => [] } }
+            ]
+        });
+        service = TestBed.inject(UboService);
+    });
+
+    it('reports only stakes of more than 25% as beneficial ownership', () => {
+        owners.set([person('Ann', [{ targetId: 'HQ', percentage: 25 }]), person('Bo', [{ targetId: 'HQ', percentage: 25.01 }])]);
+
+        const hq = reportFor('HQ');
+        expect(hq.ubos.map(h => h.owner.id)).toEqual(['Bo']);
+        expect(hq.holdings.map(h => [h.owner.id, h.threshold])).toEqual([['Bo', 25], ['Ann', 10]]);
+    });
+
+    it('leaves out stakes of exactly the lowest threshold', () => {
+        owners.set([person('Ann', [{ targetId: 'HQ', percentage: 10 }])]);
+
+        expect(reportFor('HQ').holdings).toEqual([]);
+    });
+
+    it('looks through group entities to the integrated stake', () => {
+        edges = [{ id: 'e1', source: 'HQ', target: 'SUB', ownershipPercentage: 50 } as DiagramEdge];
+        owners.set([person('Ann', [{ targetId: 'HQ', percentage: 60 }])]);
+
+        const [ann] = reportFor('SUB').ubos;
+        expect(ann).toEqual(jasmine.objectContaining({ direct: 0, total: 30, indirect: 30, threshold: 25 }));
+    });
+});
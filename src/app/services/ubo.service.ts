@@ -0,0 +1,210 @@
+import { Injectable, Signal, signal, computed } from '@angular/core';
+import { DiagramService, Owner } from './diagram.service';
+import { OwnershipEngineService } from './ownership-engine.service';
+import { OfficerService } from './officer.service';
+import { CsvValue, toCsv, downloadFile, downloadWorkbook } from '../utils/file-export';
+
+export type OwnerKind = Owner['kind'];
+
+export const OWNER_KIND_LABELS: Record<OwnerKind, string> = {
+    'natural-person': 'Natural Person',
+    'external-entity': 'External Shareholder'
+};
+
+// Reporting thresholds in percent, each met by a stake of more than the threshold: 25% is
+// the AMLD beneficial ownership test, 10% the lower threshold some registers and enhanced
+// due diligence apply
+export const DEFAULT_UBO_THRESHOLDS = [25, 10];
+
+export interface UboHolding {
+    owner: Owner;
+    // Stake held directly in the entity
+    direct: number;
+    // Integrated over every chain through group entities and other outside owners
+    total: number;
+    indirect: number;
+    // Highest threshold the total stake exceeds
+    threshold: number | null;
+}
+
+export interface UboEntityReport {
+    entityId: string;
+    entityLabel: string;
+    jurisdiction?: string;
+    // Outside owners above the lowest threshold, largest first
+    holdings: UboHolding[];
+    // Natural persons above the highest threshold
+    ubos: UboHolding[];
+    // External shareholders above a threshold whose own owners are not recorded
+    unresolved: UboHolding[];
+    // Directors reported instead when no natural person exceeds the highest threshold
+    seniorManagingOfficials: string[];
+}
+
+const REPORT_COLUMNS = [
+    'Entity ID', 'Entity Name', 'Jurisdiction', 'Owner', 'Owner Type', 'Nationality', 'Country of Residence',
+    'Date of Birth', 'Registration Number', 'Direct %', 'Indirect %', 'Total %', 'Threshold Exceeded %', 'Basis'
+];
+
+@Injectable({
+    providedIn: 'root'
+})
+export class UboService {
+    readonly isPanelOpen = signal<boolean>(false);
+    readonly thresholds = signal<number[]>(DEFAULT_UBO_THRESHOLDS);
+
+    readonly owners: Signal<Owner[]>;
+
+    // ownerId -> entity or owner id -> integrated stake in percent
+    readonly stakes = computed(() => {
+        const owners = this.owners();
+        const ids = [...this.diagramService.currentStructure().nodes.map(n => n.id), ...owners.map(o => o.id)];
+        const edges = [
+            ...this.diagramService.currentStructure().edges,
+            ...owners.flatMap(o => o.shareholdings.map(h => ({ source: o.id, target: h.targetId, ownershipPercentage: h.percentage })))
+        ];
+        return new Map(owners.map(o => [o.id, this.ownershipEngine.analyzeHolder(o.id, ids, edges).stakes]));
+    });
+
+    readonly report = computed<UboEntityReport[]>(() => {
+        const thresholds = this.thresholds();
+        const highest = thresholds.length ? thresholds[0] : 0;
+        const lowest = thresholds.length ? thresholds[thresholds.length - 1] : 0;
+        const owners = this.owners();
+        const stakes = this.stakes();
+        const ownedIds = new Set(owners.flatMap(o => o.shareholdings.map(h => h.targetId)));
+
+        return this.diagramService.currentStructure().nodes.map(node => {
+            const holdings = owners
+                .map(owner => {
+                    const total = stakes.get(owner.id)?.get(node.id) ?? 0;
+                    const direct = owner.shareholdings
+                        .filter(h => h.targetId === node.id)
+                        .reduce((sum, h) => sum + h.percentage, 0);
+                    return {
+                        owner,
+                        direct,
+                        total,
+                        indirect: Math.max(total - direct, 0),
+                        threshold: thresholds.find(t => total > t) ?? null
+                    };
+                })
+                .filter(h => h.total > lowest)
+                .sort((a, b) => b.total - a.total);
+
+            const ubos = holdings.filter(h => h.owner.kind === 'natural-person' && h.total > highest);
+            return {
+                entityId: node.id,
+                entityLabel: node.label,
+                jurisdiction: node.taxResidency || node.jurisdiction,
+                holdings,
+                ubos,
+                unresolved: holdings.filter(h => h.owner.kind === 'external-entity' && !ownedIds.has(h.owner.id)),
+                seniorManagingOfficials: ubos.length ? [] : this.officerService.getBoard(node.id)
+                    .filter(s => s.appointment.role === 'director')
+                    .map(s => s.person.name)
+            };
+        });
+    });
+
+    constructor(
+        private diagramService: DiagramService,
+        private ownershipEngine: OwnershipEngineService,
+        private officerService: OfficerService
+    ) {
+        this.owners = this.diagramService.owners;
+    }
+
+    // Keeps thresholds unique, positive and in descending order
+    setThresholds(values: number[]) {
+        const cleaned = Array.from(new Set(values.filter(v => Number.isFinite(v) && v > 0 && v <= 100)));
+        this.thresholds.set(cleaned.sort((a, b) => b - a));
+    }
+
+    addOwner(owner: Omit<Owner, 'id' | 'shareholdings'>): string {
+        const id = this.createId();
+        this.diagramService.updateOwners([...this.owners(), { ...owner, id, shareholdings: [] }], {
+            label: `Add owner ${owner.name}`
+        });
+        return id;
+    }
+
+    updateOwner(ownerId: string, partial: Partial<Omit<Owner, 'id' | 'shareholdings'>>) {
+        const owner = this.owners().find(o => o.id === ownerId);
+        if (!owner) return;
+        this.diagramService.updateOwners(this.owners().map(o => o.id === ownerId ? { ...o, ...partial } : o), {
+            label: `Edit ${owner.name}`,
+            groupKey: `${ownerId}:${Object.keys(partial)[0]}`
+        });
+    }
+
+    // Also drops stakes other owners hold in it
+    removeOwner(ownerId: string) {
+        const owner = this.owners().find(o => o.id === ownerId);
+        if (!owner) return;
+        this.diagramService.updateOwners(this.owners()
+            .filter(o => o.id !== ownerId)
+            .map(o => o.shareholdings.some(h => h.targetId === ownerId)
+                ? { ...o, shareholdings: o.shareholdings.filter(h => h.targetId !== ownerId) }
+                : o), { label: `Remove owner ${owner.name}` });
+    }
+
+    // A null or zero percentage removes the stake
+    setShareholding(ownerId: string, targetId: string, percentage: number | null) {
+        const owner = this.owners().find(o => o.id === ownerId);
+        if (!owner || ownerId === targetId) return;
+
+        const others = owner.shareholdings.filter(h => h.targetId !== targetId);
+        const shareholdings = percentage ? [...others, { targetId, percentage }] : others;
+        const isNew = others.length === owner.shareholdings.length;
+        this.diagramService.updateOwners(this.owners().map(o => o.id === ownerId ? { ...o, shareholdings } : o), {
+            label: percentage
+                ? `Set ${owner.name} stake in ${this.labelOf(targetId)} to ${percentage}%`
+                : `Remove ${owner.name} stake in ${this.labelOf(targetId)}`,
+            groupKey: isNew || !percentage ? undefined : `${ownerId}:stake:${targetId}`
+        });
+    }
+
+    getReport(entityId: string): UboEntityReport | undefined {
+        return this.report().find(r => r.entityId === entityId);
+    }
+
+    labelOf(id: string): string {
+        return this.diagramService.nodes().find(n => n.id === id)?.label
+            || this.owners().find(o => o.id === id)?.name
+            || id;
+    }
+
+    // One row per reportable owner; entities without a UBO list their directors instead
+    async export(format: 'csv' | 'xlsx', reports = this.report()) {
+        const rows: CsvValue[][] = [REPORT_COLUMNS, ...reports.flatMap(r => [
+            ...r.holdings.map(h => [
+                r.entityId, r.entityLabel, r.jurisdiction, h.owner.name, OWNER_KIND_LABELS[h.owner.kind],
+                h.owner.nationality, h.owner.countryOfResidence, h.owner.dateOfBirth, h.owner.registrationNumber,
+                h.direct, h.indirect, h.total, h.threshold,
+                h.owner.kind === 'natural-person' ? 'Ownership' : r.unresolved.includes(h) ? 'Look-through required' : 'Intermediate owner'
+            ]),
+            ...r.seniorManagingOfficials.map(name => [
+                r.entityId, r.entityLabel, r.jurisdiction, name, 'Natural Person', '', '', '', '', '', '', '', '',
+                'Senior managing official'
+            ])
+        ])];
+
+        if (format === 'csv') {
+            downloadFile(toCsv(rows), 'ubo-register.csv', 'text/csv');
+            return;
+        }
+
+        const ownerRows: CsvValue[][] = [
+            ['Owner ID', 'Owner', 'Owner Type', 'Holds In', 'Direct %'],
+            ...this.owners().flatMap(o => o.shareholdings.map(h => [
+                o.id, o.name, OWNER_KIND_LABELS[o.kind], this.labelOf(h.targetId), h.percentage
+            ]))
+        ];
+        await downloadWorkbook([{ name: 'UBO Register', rows }, { name: 'Shareholdings', rows: ownerRows }], 'ubo-register.xlsx');
+    }
+
+    private createId(): string {
+        return `o-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+    }
+}
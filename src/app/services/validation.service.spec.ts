@@ -0,0 +1,121 @@
+import { TestBed } from '@angular/core/testing';
+import { computed, signal } from '@angular/core';
+import { DiagramEdge, DiagramNode, DiagramService } from './diagram.service';
+import { ValidationService } from './validation.service';
+import { isEffectiveOn } from '../utils/iso-date';
+
+describe('ValidationService', () => {
+    const STORAGE_KEY = 'enterprise-validation-rules';
+    const TODAY = '2025-06-15';
+
+    let service: ValidationService;
+    let nodes: ReturnType<typeof signal<DiagramNode[]>>;
+    let edges: ReturnType<typeof signal<DiagramEdge[]>>;
+
+    const entity = (id: string, fields: Partial<DiagramNode> = {}) => ({ id, label: id, ...fields }) as DiagramNode;
+    const stake = (source: string, target: string, ownershipPercentage: number, fields: Partial<DiagramEdge> = {}) =>
+        ({ id: `e-${source}-${target}`, source, target, ownershipPercentage, ...fields }) as DiagramEdge;
+    const issuesOf = (ruleId: string) => service.issues().filter(i => i.ruleId === ruleId).map(i => i.message);
+
+    const create = () => {
+        TestBed.configureTestingModule({
+            providers: [{
+                provide: DiagramService,
+                useValue: {
+                    nodes, edges,
+                    currentStructure: computed(() => {
+                        const current = nodes().filter(n => isEffectiveOn(n, TODAY));
+                        const ids = new Set(current.map(n => n.id));
+                        return {
+                            nodes: current,
+                            edges: edges().filter(e => isEffectiveOn(e, TODAY) && ids.has(e.source) && ids.has(e.target))
+                        };
+                    })
+                }
+            }]
+        });
+        return TestBed.inject(ValidationService);
+    };
+
+    beforeEach(() => {
+        localStorage.removeItem(STORAGE_KEY);
+        nodes = signal([entity('HQ'), entity('A'), entity('B')]);
+        edges = signal([stake('HQ', 'A', 100), stake('HQ', 'B', 60)]);
+        service = create();
+    });
+
+    it('finds nothing wrong with a sound structure', () => {
+        expect(service.issues()).toEqual([]);
+    });
+
+    it('flags duplicate IDs and stakes between missing entities', () => {
+        nodes.update(list => [...list, entity('A', { label: 'Alpha copy' })]);
+        edges.update(list => [...list, stake('HQ', 'GHOST', 10)]);
+
+        expect(issuesOf('duplicate-id')).toEqual(['Duplicate entity ID "A" (Alpha copy)']);
+        expect(issuesOf('orphan-edge')).toEqual(['Edge e-HQ-GHOST references missing entity GHOST']);
+    });
+
+    it('flags stakes in force adding up to more than 100%, but not ended ones', () => {
+        edges.update(list => [...list, stake('A', 'B', 30, { effectiveTo: '2024-12-31' })]);
+        expect(issuesOf('ownership-total')).toEqual([]);
+
+        edges.update(list => [...list, stake('A', 'B', 45, { id: 'e-new' })]);
+        expect(issuesOf('ownership-total')).toEqual(['B is 105% owned in total']);
+    });
+
+    it('flags self-ownership and circular holdings', () => {
+        edges.update(list => [...list, stake('B', 'B', 5), stake('A', 'HQ', 10)]);
+
+        expect(issuesOf('self-ownership')).toEqual(['B holds 5% of itself']);
+        const circular = service.issues().filter(i => i.ruleId === 'circular-ownership');
+        expect(circular.map(i => i.entityId).sort()).toEqual(['A', 'B', 'HQ']);
+        expect(circular.every(i => i.severity === 'warning')).toBeTrue();
+    });
+
+    it('flags missing tax residency and currency codes that are not ISO 4217', () => {
+        nodes.set([entity('HQ', { pillarTwoStatus: 'In-Scope', taxResidency: ' ' }), entity('A', { localCurrency: 'EURO' }),
+            entity('B', { localCurrency: 'EUR' })]);
+
+        expect(issuesOf('missing-tax-residency')).toEqual(['HQ is Pillar Two in-scope but has no tax residency']);
+        expect(issuesOf('currency-code')).toEqual(['A uses non-ISO currency code "EURO"']);
+    });
+
+    it('lists errors first and counts issues per entity', () => {
+        nodes.set([entity('HQ', { localCurrency: 'XXX' }), entity('A'), entity('B')]);
+        edges.update(list => [...list, stake('A', 'B', 50)]);
+
+        expect(service.issues().map(i => i.severity)).toEqual(['error', 'warning']);
+        expect(service.errorCount()).toBe(1);
+        expect(service.warningCount()).toBe(1);
+        expect(service.issuesByEntity().get('B')).toEqual({ severity: 'error', count: 1 });
+    });
+
+    describe('settings', () => {
+        it('skip disabled rules and apply the chosen severity', () => {
+            const [, orphan, , total] = service.rules();
+            edges.update(list => [...list, stake('A', 'B', 50), stake('HQ', 'GHOST', 10)]);
+
+            service.updateSetting(orphan, { enabled: false });
+            service.updateSetting(total, { severity: 'warning' });
+
+            expect(service.issues().map(i => [i.ruleId, i.severity])).toEqual([['ownership-total', 'warning']]);
+        });
+
+        it('are kept for the next session', () => {
+            service.updateSetting(service.rules()[0], { severity: 'warning' });
+
+            TestBed.resetTestingModule();
+            expect(create().settings()).toEqual({ 'duplicate-id': { enabled: true, severity: 'warning' } });
+        });
+
+        it('cover rules registered later', () => {
+            service.registerRule({
+                id: 'no-label', name: 'Missing label', description: '', defaultSeverity: 'warning',
+                check: ({ nodes }) => nodes.filter(n => n.label === 'B').map(n => ({ entityId: n.id, message: 'B needs a proper name' }))
+            });
+
+            expect(issuesOf('no-label')).toEqual(['B needs a proper name']);
+        });
+    });
+});
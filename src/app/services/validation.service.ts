@@ -0,0 +1,217 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { DiagramService, DiagramNode, DiagramEdge } from './diagram.service';
+import { OwnershipEngineService } from './ownership-engine.service';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+    ruleId: string;
+    severity: IssueSeverity;
+    message: string;
+    entityId?: string;
+    edgeId?: string;
+}
+
+export interface ValidationContext {
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+    // Entities and stakes in force today, for the rules about ownership
+    current: { nodes: DiagramNode[], edges: DiagramEdge[] };
+}
+
+export interface ValidationRule {
+    id: string;
+    name: string;
+    description: string;
+    defaultSeverity: IssueSeverity;
+    check(context: ValidationContext): Omit<ValidationIssue, 'ruleId' | 'severity'>[];
+}
+
+export interface RuleSetting {
+    enabled: boolean;
+    severity: IssueSeverity;
+}
+
+// Active ISO 4217 alphabetic codes
+export const ISO_CURRENCY_CODES = new Set([
+    'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN', 'BAM', 'BBD', 'BDT', 'BGN', 'BHD', 'BIF',
+    'BMD', 'BND', 'BOB', 'BRL', 'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CLP', 'CNY', 'COP', 'CRC',
+    'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP', 'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS',
+    'GIP', 'GMD', 'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR', 'IQD', 'IRR', 'ISK', 'JMD',
+    'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF', 'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL',
+    'LYD', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR', 'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD',
+    'NGN', 'NIO', 'NOK', 'NPR', 'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR', 'RON', 'RSD',
+    'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD', 'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP',
+    'SZL', 'THB', 'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX', 'USD', 'UYU', 'UZS', 'VES',
+    'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XCG', 'XOF', 'XPF', 'YER', 'ZAR', 'ZMW', 'ZWG'
+]);
+
+const STORAGE_KEY = 'enterprise-validation-rules';
+
+@Injectable({
+    providedIn: 'root'
+})
+export class ValidationService {
+    readonly rules = signal<ValidationRule[]>([]);
+    readonly settings = signal<Record<string, RuleSetting>>({});
+    readonly isPanelOpen = signal<boolean>(false);
+
+    // Re-evaluated on every structure change
+    readonly issues = computed(() => {
+        const context: ValidationContext = {
+            nodes: this.diagramService.nodes(),
+            edges: this.diagramService.edges(),
+            current: this.diagramService.currentStructure()
+        };
+        const settings = this.settings();
+        const issues: ValidationIssue[] = [];
+
+        this.rules().forEach(rule => {
+            const setting = settings[rule.id] || { enabled: true, severity: rule.defaultSeverity };
+            if (!setting.enabled) return;
+            rule.check(context).forEach(issue => issues.push({ ...issue, ruleId: rule.id, severity: setting.severity }));
+        });
+
+        return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+    });
+
+    readonly errorCount = computed(() => this.issues().filter(i => i.severity === 'error').length);
+    readonly warningCount = computed(() => this.issues().filter(i => i.severity === 'warning').length);
+
+    // Worst severity and issue count per entity, for canvas badges
+    readonly issuesByEntity = computed(() => {
+        const markers = new Map<string, { severity: IssueSeverity, count: number }>();
+        this.issues().forEach(issue => {
+            if (!issue.entityId) return;
+            const marker = markers.get(issue.entityId) || { severity: 'warning', count: 0 };
+            marker.count++;
+            if (issue.severity === 'error') marker.severity = 'error';
+            markers.set(issue.entityId, marker);
+        });
+        return markers;
+    });
+
+    constructor(
+        private diagramService: DiagramService,
+        private ownershipEngine: OwnershipEngineService
+    ) {
+        this.rules.set(this.createDefaultRules());
+        this.loadSettings();
+    }
+
+    registerRule(rule: ValidationRule) {
+        this.rules.update(rules => [...rules.filter(r => r.id !== rule.id), rule]);
+    }
+
+    getSetting(rule: ValidationRule): RuleSetting {
+        return this.settings()[rule.id] || { enabled: true, severity: rule.defaultSeverity };
+    }
+
+    updateSetting(rule: ValidationRule, partial: Partial<RuleSetting>) {
+        this.settings.update(settings => ({ ...settings, [rule.id]: { ...this.getSetting(rule), ...partial } }));
+        this.saveSettings();
+    }
+
+    private createDefaultRules(): ValidationRule[] {
+        return [
+            {
+                id: 'duplicate-id',
+                name: 'Duplicate entity IDs',
+                description: 'Every entity must have a unique ID.',
+                defaultSeverity: 'error',
+                check: ({ nodes }) => {
+                    const seen = new Set<string>();
+                    return nodes.filter(n => seen.has(n.id) || !seen.add(n.id))
+                        .map(n => ({ entityId: n.id, message: `Duplicate entity ID "${n.id}" (${n.label})` }));
+                }
+            },
+            {
+                id: 'orphan-edge',
+                name: 'Orphan ownership edges',
+                description: 'Ownership edges must connect existing entities.',
+                defaultSeverity: 'error',
+                check: ({ nodes, edges }) => {
+                    const ids = new Set(nodes.map(n => n.id));
+                    return edges.filter(e => !ids.has(e.source) || !ids.has(e.target)).map(e => ({
+                        edgeId: e.id,
+                        entityId: ids.has(e.target) ? e.target : (ids.has(e.source) ? e.source : undefined),
+                        message: `Edge ${e.id} references missing entity ${!ids.has(e.source) ? e.source : e.target}`
+                    }));
+                }
+            },
+            {
+                id: 'self-ownership',
+                name: 'Self-ownership',
+                description: 'An entity cannot hold its own shares directly.',
+                defaultSeverity: 'error',
+                check: ({ nodes, current }) => current.edges.filter(e => e.source === e.target).map(e => ({
+                    edgeId: e.id,
+                    entityId: e.target,
+                    message: `${this.labelOf(nodes, e.target)} holds ${e.ownershipPercentage ?? 0}% of itself`
+                }))
+            },
+            {
+                id: 'ownership-total',
+                name: 'Ownership above 100%',
+                description: 'Direct stakes held in an entity cannot exceed 100% in total.',
+                defaultSeverity: 'error',
+                check: ({ nodes, current }) => {
+                    const totals = new Map<string, number>();
+                    current.edges.forEach(e => totals.set(e.target, (totals.get(e.target) || 0) + (e.ownershipPercentage || 0)));
+                    return Array.from(totals.entries()).filter(([, total]) => total > 100 + 1e-9).map(([id, total]) => ({
+                        entityId: id,
+                        message: `${this.labelOf(nodes, id)} is ${total}% owned in total`
+                    }));
+                }
+            },
+            {
+                id: 'circular-ownership',
+                name: 'Circular ownership',
+                description: 'Reciprocal stakes are allowed but should be reviewed.',
+                defaultSeverity: 'warning',
+                check: ({ nodes, current }) => {
+                    const { cycles } = this.ownershipEngine.analyze(current.nodes.map(n => n.id), current.edges);
+                    return cycles.flatMap(cycle => cycle.map(id => ({
+                        entityId: id,
+                        message: `${this.labelOf(nodes, id)} is part of a circular holding (${cycle.map(c => this.labelOf(nodes, c)).join(' → ')})`
+                    })));
+                }
+            },
+            {
+                id: 'missing-tax-residency',
+                name: 'Missing tax residency',
+                description: 'Pillar Two in-scope entities need a tax residency.',
+                defaultSeverity: 'warning',
+                check: ({ nodes }) => nodes.filter(n => n.pillarTwoStatus === 'In-Scope' && !n.taxResidency?.trim())
+                    .map(n => ({ entityId: n.id, message: `${n.label} is Pillar Two in-scope but has no tax residency` }))
+            },
+            {
+                id: 'currency-code',
+                name: 'Currency codes',
+                description: 'Local currency must be an ISO 4217 code.',
+                defaultSeverity: 'warning',
+                check: ({ nodes }) => nodes.filter(n => n.localCurrency && !ISO_CURRENCY_CODES.has(n.localCurrency))
+                    .map(n => ({ entityId: n.id, message: `${n.label} uses non-ISO currency code "${n.localCurrency}"` }))
+            }
+        ];
+    }
+
+    private labelOf(nodes: DiagramNode[], id: string): string {
+        return nodes.find(n => n.id === id)?.label || id;
+    }
+
+    private saveSettings() {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings()));
+    }
+
+    private loadSettings() {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            try {
+                this.settings.set(JSON.parse(stored));
+            } catch (e) {
+                console.error('Failed to parse validation settings from storage', e);
+            }
+        }
+    }
+}
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+import { QueryField, parseQuery, queryFieldsOf, suggestQuery } from './entity-query';
+
+describe('entity-query', () => {
+    const FIELDS: QueryField[] = [
+        { name: 'label', kind: 'string' },
+        { name: 'citRate', kind: 'number' },
+        { name: 'filingDueDate', kind: 'date' },
+        { name: 'status', kind: 'enum', options: ['Active', 'Dormant'] },
+        { name: 'isDraft', kind: 'boolean' }
+    ];
+    const ENTITIES = [
+        { id: 'IE1', label: 'Acme Ireland', citRate: 12.5, filingDueDate: '2025-03-01', status: 'Active' },
+        { id: 'DE1', label: 'Acme GmbH', citRate: 30, filingDueDate: '2025-07-31', status: 'Dormant', isDraft: true },
+        { id: 'LU1', label: 'Acme Luxembourg S.à r.l.' }
+    ];
+
+    const matching = (text: string) => {
+        const { predicate, error } = parseQuery(text, FIELDS);
+        expect(error).toBeNull();
+        return ENTITIES.filter(predicate!).map(e => e.id);
+    };
+    const errorOf = (text: string) => parseQuery(text, FIELDS).error;
+
+    describe('queryFieldsOf', () => {
+        it('treats only the named string fields as dates', () => {
+            const schema = z.object({
+                taxTo: z.string(), filingDueDate: z.string().optional(), rate: z.number(),
+                status: z.enum(['Active', 'Dormant']), tags: z.array(z.string())
+            });
+
+            expect(queryFieldsOf(schema, ['filingDueDate'])).toEqual([
+                { name: 'taxTo', kind: 'string' },
+                { name: 'filingDueDate', kind: 'date' },
+                { name: 'rate', kind: 'number' },
+                { name: 'status', kind: 'enum', options: ['Active', 'Dormant'] }
+            ]);
+        });
+    });
+
+    describe('parseQuery', () => {
+        it('matches everything with an empty expression', () => {
+            expect(matching('  ')).toEqual(['IE1', 'DE1', 'LU1']);
+        });
+
+        it('compares numbers, dates and text', () => {
+            expect(matching('citRate < 15')).toEqual(['IE1']);
+            expect(matching('filingDueDate >= 2025-04-01')).toEqual(['DE1']);
+            expect(matching('label contains gmbh')).toEqual(['DE1']);
+            expect(matching('label ~ "acme ireland"')).toEqual(['IE1']);
+        });
+
+        it('matches enum values and booleans regardless of case', () => {
+            expect(matching('status = active')).toEqual(['IE1']);
+            expect(matching('isDraft = TRUE')).toEqual(['DE1']);
+        });
+
+        it('lets only != match entities without the field', () => {
+            expect(matching('citRate < 100')).toEqual(['IE1', 'DE1']);
+            expect(matching('status != Active')).toEqual(['DE1', 'LU1']);
+            expect(matching('citRate is empty')).toEqual(['LU1']);
+            expect(matching('citRate is not empty')).toEqual(['IE1', 'DE1']);
+        });
+
+        it('treats a stored value that is not a number as empty', () => {
+            const { predicate } = parseQuery('citRate < 100', FIELDS);
+            const { predicate: differs } = parseQuery('citRate != 5', FIELDS);
+
+            expect(predicate!({ citRate: '12' })).toBeTrue();
+            expect(predicate!({ citRate: 'n/a' })).toBeFalse();
+            expect(predicate!({ citRate: ' ' })).toBeFalse();
+            expect(predicate!({ citRate: true })).toBeFalse();
+            expect(differs!({ citRate: ' ' })).toBeTrue();
+        });
+
+        it('combines comparisons with and, or, not and parentheses', () => {
+            expect(matching('citRate > 20 or status = Active')).toEqual(['IE1', 'DE1']);
+            expect(matching('not (citRate > 20 or status = Active)')).toEqual(['LU1']);
+            expect(matching('label contains acme and not isDraft = true and citRate is not empty')).toEqual(['IE1']);
+        });
+
+        it('explains what is wrong with an expression', () => {
+            expect(errorOf('country = Ireland')).toBe("Unknown field 'country'.");
+            expect(errorOf('label = "Acme')).toBe('Unclosed quote at position 9.');
+            expect(errorOf('citRate > high')).toBe("'citRate' needs a number, not 'high'.");
+            expect(errorOf('citRate contains 5')).toBe("'contains' cannot be used with number field 'citRate'.");
+            expect(errorOf('status = Closed')).toBe("'status' is one of Active, Dormant; 'Closed' is not.");
+            expect(errorOf('filingDueDate < 01/03/2025')).toBe("'filingDueDate' needs a date as YYYY-MM-DD, not '01/03/2025'.");
+            expect(errorOf('(citRate > 5')).toBe("Missing ')' for '(' at position 1.");
+            expect(errorOf('citRate > 5 status = Active')).toBe("Expected 'and' or 'or' before 'status' at position 13.");
+        });
+    });
+
+    describe('suggestQuery', () => {
+        const suggest = (text: string, cursor = text.length) => suggestQuery(text, cursor, FIELDS);
+        const texts = (text: string) => suggest(text).items.map(i => i.text);
+
+        it('suggests fields starting with the typed text', () => {
+            expect(suggest('cit')).toEqual({ from: 0, to: 3, items: [{ text: 'citRate', detail: 'number' }] });
+            expect(texts('citRate > 5 and ')).toEqual(FIELDS.map(f => f.name));
+        });
+
+        it('suggests the operators allowed for the field', () => {
+            expect(texts('label ')).toEqual(['=', '!=', 'contains', 'is']);
+            expect(texts('status ')).toEqual(['=', '!=', 'is']);
+            expect(texts('citRate is ')).toEqual(['empty', 'not empty']);
+        });
+
+        it('suggests the options of enum and boolean fields', () => {
+            expect(texts('status = d')).toEqual(['Dormant']);
+            expect(texts('isDraft = ')).toEqual(['true', 'false']);
+        });
+
+        it('suggests connectives after a complete comparison', () => {
+            expect(texts('citRate > 5 ')).toEqual(['and', 'or']);
+            expect(texts('(citRate > 5) o')).toEqual(['or']);
+        });
+
+        it('replaces only the word at the cursor', () => {
+            expect(suggest('status = Act and x', 12)).toEqual(jasmine.objectContaining({ from: 9, to: 12 }));
+        });
+    });
+});
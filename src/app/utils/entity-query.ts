@@ -0,0 +1,317 @@
+// Filter expressions over entity fields, e.g. `citRate < 15 and status = Active`
+import { z } from 'zod';
+
+export type QueryFieldKind = 'number' | 'string' | 'date' | 'enum' | 'boolean';
+
+export interface QueryField {
+    name: string;
+    kind: QueryFieldKind;
+    // Allowed values of an enum field
+    options?: string[];
+}
+
+export type QueryPredicate = (record: object) => boolean;
+
+export interface ParsedQuery {
+    // Null while the expression has an error; an empty expression matches everything
+    predicate: QueryPredicate | null;
+    error: string | null;
+}
+
+export interface QuerySuggestion {
+    text: string;
+    detail: string;
+}
+
+// Matched text to replace with a picked suggestion
+export interface QuerySuggestions {
+    from: number;
+    to: number;
+    items: QuerySuggestion[];
+}
+
+type Token = { kind: 'paren' | 'op' | 'string' | 'word', text: string, position: number };
+
+const OPERATORS = ['<=', '>=', '!=', '=', '<', '>', '~'];
+const KEYWORDS = ['and', 'or', 'not', 'contains', 'is', 'empty'];
+const OPERATORS_BY_KIND: Record<QueryFieldKind, string[]> = {
+    number: ['=', '!=', '<', '<=', '>', '>=', 'is'],
+    date: ['=', '!=', '<', '<=', '>', '>=', 'is'],
+    string: ['=', '!=', 'contains', 'is'],
+    enum: ['=', '!=', 'is'],
+    boolean: ['=', '!=', 'is']
+};
+const OPERATOR_DETAILS: Record<string, string> = {
+    '=': 'equals',
+    '!=': 'does not equal',
+    '<': 'less than',
+    '<=': 'at most',
+    '>': 'greater than',
+    '>=': 'at least',
+    contains: 'includes the text',
+    is: 'is empty / is not empty'
+};
+
+// Scalar fields of a schema; lists and nested objects cannot be compared. Dates are stored
+// as ISO strings, so the caller names the string fields that hold one
+export function queryFieldsOf(schema: z.ZodObject<z.ZodRawShape>, dateFields: string[] = []): QueryField[] {
+    return Object.entries(schema.shape).flatMap(([name, type]): QueryField[] => {
+        const inner = type instanceof z.ZodOptional ? type.unwrap() : type;
+        if (inner instanceof z.ZodNumber) return [{ name, kind: 'number' }];
+        if (inner instanceof z.ZodBoolean) return [{ name, kind: 'boolean' }];
+        if (inner instanceof z.ZodEnum) return [{ name, kind: 'enum', options: inner.options.map(String) }];
+        // ISO dates compare correctly as text
+        if (inner instanceof z.ZodString) return [{ name, kind: dateFields.includes(name) ? 'date' : 'string' }];
+        return [];
+    });
+}
+
+/**
+ * Parses an expression of comparisons joined by `and`, `or` and `not`, with parentheses.
+ * A comparison is `field op value` with op one of = != < <= > >= (numbers and dates) or
+ * `contains` / `~` (text), or `field is empty` / `field is not empty`. Text matches
+ * ignore case; values with spaces go in quotes. An entity without the field never
+ * matches a comparison, except `!=`.
+ */
+export function parseQuery(text: string, fields: QueryField[]): ParsedQuery {
+    if (!text.trim()) return { predicate: () => true, error: null };
+    try {
+        const parser = new QueryParser(tokenize(text), fields);
+        return { predicate: parser.parse(), error: null };
+    } catch (e) {
+        return { predicate: null, error: e instanceof Error ? e.message : String(e) };
+    }
+}
+
+// Completions for the word at the cursor: a field, an operator, a value or a connective
+export function suggestQuery(text: string, cursor: number, fields: QueryField[]): QuerySuggestions {
+    let from = cursor;
+    while (from > 0 && /[^\s()<>=!~"']/.test(text[from - 1])) from--;
+    const partial = text.slice(from, cursor).toLowerCase();
+
+    let tokens: Token[];
+    try {
+        tokens = tokenize(text.slice(0, from));
+    } catch {
+        return { from, to: cursor, items: [] };
+    }
+
+    // Walk the tokens to find what is expected next
+    let expect: 'field' | 'operator' | 'value' | 'is' | 'connective' = 'field';
+    let field: QueryField | undefined;
+    tokens.forEach(token => {
+        const word = token.text.toLowerCase();
+        if (token.kind === 'paren') {
+            expect = token.text === '(' ? 'field' : 'connective';
+        } else if (expect === 'field') {
+            if (word === 'not') return;
+            field = findField(fields, token.text);
+            expect = 'operator';
+        } else if (expect === 'operator') {
+            expect = word === 'is' ? 'is' : 'value';
+        } else if (expect === 'is') {
+            if (word !== 'not') expect = 'connective';
+        } else if (expect === 'value') {
+            expect = 'connective';
+        } else if (word === 'and' || word === 'or') {
+            expect = 'field';
+        }
+    });
+
+    let items: QuerySuggestion[] = [];
+    if (expect === 'field') {
+        items = fields.map(f => ({ text: f.name, detail: f.kind }));
+    } else if (expect === 'operator') {
+        items = OPERATORS_BY_KIND[field?.kind ?? 'string'].map(op => ({ text: op, detail: OPERATOR_DETAILS[op] }));
+    } else if (expect === 'is') {
+        items = [{ text: 'empty', detail: 'no value' }, { text: 'not empty', detail: 'has a value' }];
+    } else if (expect === 'value') {
+        if (field?.kind === 'enum') items = (field.options ?? []).map(o => ({ text: o, detail: field!.name }));
+        if (field?.kind === 'boolean') items = ['true', 'false'].map(o => ({ text: o, detail: field!.name }));
+    } else {
+        items = [{ text: 'and', detail: 'both must match' }, { text: 'or', detail: 'either may match' }];
+    }
+    return {
+        from,
+        to: cursor,
+        items: items.filter(i => i.text.toLowerCase().startsWith(partial) && i.text.toLowerCase() !== partial)
+    };
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ kind: 'paren', text: char, position: i++ });
+        } else if (char === '"' || char === "'") {
+            const end = text.indexOf(char, i + 1);
+            if (end < 0) throw new Error(`Unclosed quote at position ${i + 1}.`);
+            tokens.push({ kind: 'string', text: text.slice(i + 1, end), position: i });
+            i = end + 1;
+        } else {
+            const op = OPERATORS.find(o => text.startsWith(o, i));
+            if (op) {
+                tokens.push({ kind: 'op', text: op, position: i });
+                i += op.length;
+                continue;
+            }
+            const start = i;
+            while (i < text.length && /[^\s()<>=!~"']/.test(text[i])) i++;
+            if (i === start) throw new Error(`Unexpected '${char}' at position ${i + 1}.`);
+            tokens.push({ kind: 'word', text: text.slice(start, i), position: start });
+        }
+    }
+    return tokens;
+}
+
+function findField(fields: QueryField[], name: string): QueryField | undefined {
+    return fields.find(f => f.name.toLowerCase() === name.toLowerCase());
+}
+
+function isEmpty(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+}
+
+class QueryParser {
+    private index = 0;
+
+    constructor(private tokens: Token[], private fields: QueryField[]) { }
+
+    parse(): QueryPredicate {
+        const predicate = this.parseOr();
+        const extra = this.peek();
+        if (extra) throw new Error(`Expected 'and' or 'or' before '${extra.text}' at position ${extra.position + 1}.`);
+        return predicate;
+    }
+
+    private parseOr(): QueryPredicate {
+        let left = this.parseAnd();
+        while (this.acceptKeyword('or')) {
+            const a = left, b = this.parseAnd();
+            left = record => a(record) || b(record);
+        }
+        return left;
+    }
+
+    private parseAnd(): QueryPredicate {
+        let left = this.parseNot();
+        while (this.acceptKeyword('and')) {
+            const a = left, b = this.parseNot();
+            left = record => a(record) && b(record);
+        }
+        return left;
+    }
+
+    private parseNot(): QueryPredicate {
+        if (this.acceptKeyword('not')) {
+            const inner = this.parseNot();
+            return record => !inner(record);
+        }
+        const token = this.peek();
+        if (token?.kind === 'paren' && token.text === '(') {
+            this.index++;
+            const inner = this.parseOr();
+            const close = this.next();
+            if (close?.text !== ')') throw new Error(`Missing ')' for '(' at position ${token.position + 1}.`);
+            return inner;
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): QueryPredicate {
+        const token = this.next();
+        if (!token) throw new Error('Expected a field name at the end of the query.');
+        if (token.kind !== 'word' || KEYWORDS.includes(token.text.toLowerCase())) {
+            throw new Error(`Expected a field name at position ${token.position + 1}, found '${token.text}'.`);
+        }
+        const field = findField(this.fields, token.text);
+        if (!field) throw new Error(`Unknown field '${token.text}'.`);
+        const name = field.name;
+
+        if (this.acceptKeyword('is')) {
+            const negate = this.acceptKeyword('not');
+            if (!this.acceptKeyword('empty')) throw new Error(`Expected 'empty' after '${name} is'.`);
+            return record => isEmpty((record as Record<string, unknown>)[name]) !== negate;
+        }
+
+        const opToken = this.next();
+        const op = opToken?.kind === 'op' ? opToken.text
+            : opToken?.kind === 'word' && opToken.text.toLowerCase() === 'contains' ? '~' : null;
+        if (!op) throw new Error(`Expected an operator after '${name}'.`);
+        if (!OPERATORS_BY_KIND[field.kind].includes(op === '~' ? 'contains' : op)) {
+            throw new Error(`'${opToken!.text}' cannot be used with ${field.kind} field '${name}'.`);
+        }
+
+        const valueToken = this.next();
+        if (!valueToken || valueToken.kind === 'paren' || valueToken.kind === 'op') {
+            throw new Error(`Expected a value after '${name} ${opToken!.text}'.`);
+        }
+        const compare = this.comparator(field, op, valueToken.text);
+        return record => {
+            const value = (record as Record<string, unknown>)[name];
+            if (isEmpty(value)) return op === '!=';
+            return compare(value);
+        };
+    }
+
+    private comparator(field: QueryField, op: string, raw: string): (value: unknown) => boolean {
+        if (field.kind === 'number') {
+            const target = Number(raw);
+            if (raw.trim() === '' || !Number.isFinite(target)) throw new Error(`'${field.name}' needs a number, not '${raw}'.`);
+            // A stored value that is not a number counts as empty, like a missing one
+            return value => {
+                const number = typeof value === 'number' ? value
+                    : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+                return Number.isNaN(number) ? op === '!=' : order(number, target, op);
+            };
+        }
+        if (field.kind === 'boolean') {
+            const target = raw.toLowerCase();
+            if (target !== 'true' && target !== 'false') throw new Error(`'${field.name}' is true or false, not '${raw}'.`);
+            return value => (String(value) === target) === (op === '=');
+        }
+        if (field.kind === 'enum') {
+            const option = field.options?.find(o => o.toLowerCase() === raw.toLowerCase());
+            if (!option) throw new Error(`'${field.name}' is one of ${field.options?.join(', ')}; '${raw}' is not.`);
+            return value => (value === option) === (op === '=');
+        }
+        if (field.kind === 'date' && !/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+            throw new Error(`'${field.name}' needs a date as YYYY-MM-DD, not '${raw}'.`);
+        }
+        const target = raw.toLowerCase();
+        if (op === '~') return value => String(value).toLowerCase().includes(target);
+        return value => order(String(value).toLowerCase(), target, op);
+    }
+
+    private acceptKeyword(keyword: string): boolean {
+        const token = this.peek();
+        if (token?.kind === 'word' && token.text.toLowerCase() === keyword) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.index++];
+    }
+}
+
+function order<T extends number | string>(value: T, target: T, op: string): boolean {
+    switch (op) {
+        case '=': return value === target;
+        case '!=': return value !== target;
+        case '<': return value < target;
+        case '<=': return value <= target;
+        case '>': return value > target;
+        default: return value >= target;
+    }
+}
@@ -0,0 +1,23 @@
+import { toCsv } from './file-export';
+
+describe('file-export', () => {
+    describe('toCsv', () => {
+        it('quotes values holding commas, quotes or line breaks', () => {
+            expect(toCsv([['Acme, Inc.', 'The "Hold" Co', 'two\nlines', 'plain']]))
+                .toBe('"Acme, Inc.","The ""Hold"" Co","two\nlines",plain');
+        });
+
+        it('writes empty cells for missing values and joins rows with CRLF', () => {
+            expect(toCsv([['a', null, undefined, 0, false], ['b']])).toBe('a,,,0,false\r\nb');
+        });
+
+        it('neutralises text a spreadsheet would run as a formula', () => {
+            expect(toCsv([['=HYPERLINK("http://x","y")', '+1', '-2+3', '@SUM(A1)', '\tx', 'a=b']]))
+                .toBe(`"'=HYPERLINK(""http://x"",""y"")",'+1,'-2+3,'@SUM(A1),'\tx,a=b`);
+        });
+
+        it('leaves numbers as numbers, negative ones included', () => {
+            expect(toCsv([[-12.5, 25]])).toBe('-12.5,25');
+        });
+    });
+});
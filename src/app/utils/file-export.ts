@@ -0,0 +1,45 @@
+// Shared helpers for client-side file exports
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+export function toCsv(rows: CsvValue[][]): string {
+    return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
+
+// Text a spreadsheet would evaluate as a formula (a leading =, +, -, @, tab or carriage
+// return) gets an apostrophe in front, so imported or typed-in names open as plain text.
+// Numbers are written as they are, negative ones included.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+    if (value === null || value === undefined) return '';
+    const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Writes the rows to an .xlsx download, one sheet each. The spreadsheet library is loaded
+// on demand; if it cannot be loaded or written the user is told. Resolves to whether the
+// file was created.
+export async function downloadWorkbook(sheets: { name: string, rows: CsvValue[][] }[], filename: string): Promise<boolean> {
+    try {
+        const XLSX = await import('xlsx');
+        const workbook = XLSX.utils.book_new();
+        sheets.forEach(sheet => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name));
+        XLSX.writeFile(workbook, filename);
+        return true;
+    } catch (e) {
+        console.error(`Failed to export ${filename}`, e);
+        alert(`${filename} could not be created. Please check the console for details.`);
+        return false;
+    }
+}
+
+export function downloadFile(content: BlobPart, filename: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
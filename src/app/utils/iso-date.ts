@@ -0,0 +1,36 @@
+// Helpers for local calendar dates stored as ISO 'YYYY-MM-DD' strings
+
+export function toIsoDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function parseIsoDate(isoDate: string): Date {
+    const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+// Whether the text is a 'YYYY-MM-DD' date that exists in the calendar, so not 2024-02-30
+export function isIsoDate(text: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(text) && toIsoDate(parseIsoDate(text)) === text;
+}
+
+export function addDays(isoDate: string, days: number): string {
+    const date = parseIsoDate(isoDate);
+    date.setDate(date.getDate() + days);
+    return toIsoDate(date);
+}
+
+// Whether a dated record exists on the date; effectiveTo is the last day it existed
+export function isEffectiveOn(record: { effectiveFrom?: string, effectiveTo?: string }, isoDate: string): boolean {
+    return (!record.effectiveFrom || record.effectiveFrom <= isoDate) && (!record.effectiveTo || isoDate <= record.effectiveTo);
+}
+
+// Calendar month arithmetic, clamping to the last day of shorter months
+export function addMonths(isoDate: string, months: number): string {
+    const [year, month, day] = isoDate.slice(0, 10).split('-').map(Number);
+    const target = new Date(year, month - 1 + months, 1);
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    target.setDate(Math.min(day, lastDay));
+    return toIsoDate(target);
+}